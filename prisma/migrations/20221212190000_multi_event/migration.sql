@@ -0,0 +1,45 @@
+-- DropIndex
+DROP INDEX "Enrollment_userId_key";
+
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN "slug" VARCHAR(255);
+UPDATE "Event" SET "slug" = 'event-' || "id";
+ALTER TABLE "Event" ALTER COLUMN "slug" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "Enrollment" ADD COLUMN "eventId" INTEGER;
+UPDATE "Enrollment" SET "eventId" = (SELECT MIN("id") FROM "Event");
+ALTER TABLE "Enrollment" ALTER COLUMN "eventId" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "TicketType" ADD COLUMN "eventId" INTEGER;
+UPDATE "TicketType" SET "eventId" = (SELECT MIN("id") FROM "Event");
+ALTER TABLE "TicketType" ALTER COLUMN "eventId" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "Hotel" ADD COLUMN "eventId" INTEGER;
+UPDATE "Hotel" SET "eventId" = (SELECT MIN("id") FROM "Event");
+ALTER TABLE "Hotel" ALTER COLUMN "eventId" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "Activity" ADD COLUMN "eventId" INTEGER;
+UPDATE "Activity" SET "eventId" = (SELECT MIN("id") FROM "Event");
+ALTER TABLE "Activity" ALTER COLUMN "eventId" SET NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Event_slug_key" ON "Event"("slug");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Enrollment_userId_eventId_key" ON "Enrollment"("userId", "eventId");
+
+-- AddForeignKey
+ALTER TABLE "Enrollment" ADD CONSTRAINT "Enrollment_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "Event"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TicketType" ADD CONSTRAINT "TicketType_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "Event"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Hotel" ADD CONSTRAINT "Hotel_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "Event"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Activity" ADD CONSTRAINT "Activity_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "Event"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
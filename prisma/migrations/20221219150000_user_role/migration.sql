@@ -0,0 +1,7 @@
+-- CreateEnum
+CREATE TYPE "UserRole" AS ENUM ('ATTENDEE', 'STAFF', 'ORGANIZER');
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "role" "UserRole" NOT NULL DEFAULT 'ATTENDEE';
+UPDATE "User" SET "role" = 'ORGANIZER' WHERE "isAdmin" = true;
+ALTER TABLE "User" DROP COLUMN "isAdmin";
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Session" ADD COLUMN "userAgent" VARCHAR(255),
+ADD COLUMN "ip" VARCHAR(45);
@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE "Session" ADD COLUMN "refreshTokenHash" TEXT,
+ADD COLUMN "refreshTokenExpiresAt" TIMESTAMP(3),
+ADD COLUMN "familyId" TEXT,
+ADD COLUMN "rotatedAt" TIMESTAMP(3);
+
+-- Existing sessions each start their own family
+UPDATE "Session" SET "familyId" = md5(random()::text || "id"::text);
+
+ALTER TABLE "Session" ALTER COLUMN "familyId" SET NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Session_refreshTokenHash_key" ON "Session"("refreshTokenHash");
+
+-- CreateIndex
+CREATE INDEX "Session_familyId_idx" ON "Session"("familyId");
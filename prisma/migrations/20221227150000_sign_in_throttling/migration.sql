@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "LoginThrottle" (
+    "key" VARCHAR(320) NOT NULL,
+    "failures" INTEGER NOT NULL,
+    "lastFailureAt" TIMESTAMP(3) NOT NULL,
+    "lockedUntil" TIMESTAMP(3),
+
+    CONSTRAINT "LoginThrottle_pkey" PRIMARY KEY ("key")
+);
+
+-- CreateTable
+CREATE TABLE "FailedSignIn" (
+    "id" SERIAL NOT NULL,
+    "email" VARCHAR(255) NOT NULL,
+    "ip" VARCHAR(45),
+    "userAgent" VARCHAR(255),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "FailedSignIn_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "FailedSignIn_email_idx" ON "FailedSignIn"("email");
+
+-- CreateIndex
+CREATE INDEX "FailedSignIn_ip_idx" ON "FailedSignIn"("ip");
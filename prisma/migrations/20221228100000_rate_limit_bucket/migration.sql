@@ -0,0 +1,9 @@
+-- CreateTable
+CREATE TABLE "RateLimitBucket" (
+    "key" VARCHAR(255) NOT NULL,
+    "tokens" DOUBLE PRECISION NOT NULL,
+    "allowed" BOOLEAN NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RateLimitBucket_pkey" PRIMARY KEY ("key")
+);
@@ -0,0 +1,26 @@
+-- AlterTable
+ALTER TABLE "Ticket" ADD COLUMN "attendeeName" VARCHAR(255),
+ADD COLUMN "attendeeCpf" VARCHAR(255),
+ADD COLUMN "attendeeEmail" VARCHAR(255),
+ADD COLUMN "attendeeUserId" INTEGER,
+ADD COLUMN "claimTokenHash" TEXT;
+
+-- Existing tickets belong to whoever enrolled
+UPDATE "Ticket" t
+SET "attendeeName" = e."name",
+    "attendeeCpf" = e."cpf",
+    "attendeeEmail" = u."email",
+    "attendeeUserId" = e."userId"
+FROM "Enrollment" e
+JOIN "User" u ON u."id" = e."userId"
+WHERE e."id" = t."enrollmentId";
+
+ALTER TABLE "Ticket" ALTER COLUMN "attendeeName" SET NOT NULL,
+ALTER COLUMN "attendeeCpf" SET NOT NULL,
+ALTER COLUMN "attendeeEmail" SET NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Ticket_claimTokenHash_key" ON "Ticket"("claimTokenHash");
+
+-- AddForeignKey
+ALTER TABLE "Ticket" ADD CONSTRAINT "Ticket_attendeeUserId_fkey" FOREIGN KEY ("attendeeUserId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,104 @@
+-- CreateEnum
+CREATE TYPE "OrderStatus" AS ENUM ('PENDING', 'PAID');
+
+-- CreateEnum
+CREATE TYPE "OrderItemType" AS ENUM ('TICKET', 'HOTEL_UPGRADE', 'MERCHANDISE');
+
+-- AlterTable
+ALTER TABLE "TicketType" ADD COLUMN "hotelUpgradePrice" INTEGER;
+
+-- AlterTable
+ALTER TABLE "Ticket" ADD COLUMN "hasHotelUpgrade" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "Merchandise" (
+    "id" SERIAL NOT NULL,
+    "name" VARCHAR(255) NOT NULL,
+    "price" INTEGER NOT NULL,
+    "eventId" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Merchandise_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Order" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "eventId" INTEGER NOT NULL,
+    "status" "OrderStatus" NOT NULL DEFAULT 'PENDING',
+    "total" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Order_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "OrderItem" (
+    "id" SERIAL NOT NULL,
+    "orderId" INTEGER NOT NULL,
+    "type" "OrderItemType" NOT NULL,
+    "description" VARCHAR(255) NOT NULL,
+    "unitPrice" INTEGER NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "total" INTEGER NOT NULL,
+    "ticketId" INTEGER,
+    "merchandiseId" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "OrderItem_pkey" PRIMARY KEY ("id")
+);
+
+-- Existing payments were made for a single ticket; give each one a paid order holding that ticket
+ALTER TABLE "Order" ADD COLUMN "legacyPaymentId" INTEGER;
+
+INSERT INTO "Order" ("userId", "eventId", "status", "total", "createdAt", "updatedAt", "legacyPaymentId")
+SELECT e."userId", e."eventId", 'PAID', p."value", p."createdAt", p."updatedAt", p."id"
+FROM "Payment" p
+JOIN "Ticket" t ON t."id" = p."ticketId"
+JOIN "Enrollment" e ON e."id" = t."enrollmentId";
+
+INSERT INTO "OrderItem" ("orderId", "type", "description", "unitPrice", "quantity", "total", "ticketId", "createdAt", "updatedAt")
+SELECT o."id", 'TICKET', tt."name", p."value", 1, p."value", p."ticketId", p."createdAt", p."updatedAt"
+FROM "Order" o
+JOIN "Payment" p ON p."id" = o."legacyPaymentId"
+JOIN "Ticket" t ON t."id" = p."ticketId"
+JOIN "TicketType" tt ON tt."id" = t."ticketTypeId";
+
+ALTER TABLE "Payment" ADD COLUMN "orderId" INTEGER;
+
+UPDATE "Payment" p
+SET "orderId" = o."id"
+FROM "Order" o
+WHERE o."legacyPaymentId" = p."id";
+
+ALTER TABLE "Order" DROP COLUMN "legacyPaymentId";
+
+-- AlterTable
+ALTER TABLE "Payment" DROP CONSTRAINT "Payment_ticketId_fkey";
+ALTER TABLE "Payment" DROP COLUMN "ticketId",
+ALTER COLUMN "orderId" SET NOT NULL;
+
+-- AddForeignKey
+ALTER TABLE "Payment" ADD CONSTRAINT "Payment_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Merchandise" ADD CONSTRAINT "Merchandise_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "Event"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Order" ADD CONSTRAINT "Order_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Order" ADD CONSTRAINT "Order_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "Event"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrderItem" ADD CONSTRAINT "OrderItem_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrderItem" ADD CONSTRAINT "OrderItem_ticketId_fkey" FOREIGN KEY ("ticketId") REFERENCES "Ticket"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrderItem" ADD CONSTRAINT "OrderItem_merchandiseId_fkey" FOREIGN KEY ("merchandiseId") REFERENCES "Merchandise"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,13 @@
+-- CreateEnum
+CREATE TYPE "PaymentStatus" AS ENUM ('PENDING', 'AUTHORIZED', 'CAPTURED', 'FAILED', 'REFUNDED');
+
+-- AlterTable
+ALTER TABLE "Payment" ADD COLUMN "status" "PaymentStatus" NOT NULL DEFAULT 'PENDING',
+ADD COLUMN "gatewayTransactionId" TEXT,
+ADD COLUMN "failureReason" TEXT;
+
+-- Payments made before the gateway existed were settled on the spot
+UPDATE "Payment" SET "status" = 'CAPTURED';
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Payment_gatewayTransactionId_key" ON "Payment"("gatewayTransactionId");
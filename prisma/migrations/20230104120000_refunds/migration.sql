@@ -0,0 +1,27 @@
+-- AlterEnum
+ALTER TYPE "TicketStatus" ADD VALUE 'CANCELLED';
+ALTER TYPE "TicketStatus" ADD VALUE 'REFUNDED';
+
+-- AlterEnum
+ALTER TYPE "OrderStatus" ADD VALUE 'REFUNDED';
+
+-- AlterTable
+ALTER TABLE "Ticket" ADD COLUMN "cancelledAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "Refund" (
+    "id" SERIAL NOT NULL,
+    "paymentId" INTEGER NOT NULL,
+    "ticketId" INTEGER,
+    "amount" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Refund_pkey" PRIMARY KEY ("id")
+);
+
+-- AddForeignKey
+ALTER TABLE "Refund" ADD CONSTRAINT "Refund_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "Payment"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Refund" ADD CONSTRAINT "Refund_ticketId_fkey" FOREIGN KEY ("ticketId") REFERENCES "Ticket"("id") ON DELETE SET NULL ON UPDATE CASCADE;
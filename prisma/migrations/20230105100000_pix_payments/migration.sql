@@ -0,0 +1,12 @@
+-- AlterEnum
+ALTER TYPE "PaymentStatus" ADD VALUE 'EXPIRED';
+
+-- CreateEnum
+CREATE TYPE "PaymentMethod" AS ENUM ('CREDIT_CARD', 'PIX');
+
+-- AlterTable
+ALTER TABLE "Payment" ADD COLUMN "method" "PaymentMethod" NOT NULL DEFAULT 'CREDIT_CARD',
+ADD COLUMN "pixCode" TEXT,
+ADD COLUMN "expiresAt" TIMESTAMP(3),
+ALTER COLUMN "cardIssuer" DROP NOT NULL,
+ALTER COLUMN "cardLastDigits" DROP NOT NULL;
@@ -0,0 +1,9 @@
+-- AlterEnum
+ALTER TYPE "PaymentMethod" ADD VALUE 'BOLETO';
+
+-- AlterEnum
+ALTER TYPE "OrderStatus" ADD VALUE 'EXPIRED';
+
+-- AlterTable
+ALTER TABLE "Payment" ADD COLUMN "boletoBarcode" TEXT,
+ADD COLUMN "boletoDigitableLine" TEXT;
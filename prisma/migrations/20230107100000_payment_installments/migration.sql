@@ -0,0 +1,27 @@
+-- AlterTable
+ALTER TABLE "TicketType" ADD COLUMN "maxInstallments" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN "interestFreeInstallments" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN "installmentInterestRate" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "Payment" ADD COLUMN "installments" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN "interestAmount" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "PaymentInstallment" (
+    "id" SERIAL NOT NULL,
+    "paymentId" INTEGER NOT NULL,
+    "number" INTEGER NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "dueDate" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PaymentInstallment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PaymentInstallment_paymentId_number_key" ON "PaymentInstallment"("paymentId", "number");
+
+-- AddForeignKey
+ALTER TABLE "PaymentInstallment" ADD CONSTRAINT "PaymentInstallment_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "Payment"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,50 @@
+-- CreateEnum
+CREATE TYPE "DiscountType" AS ENUM ('PERCENTAGE', 'FIXED');
+
+-- AlterTable
+ALTER TABLE "Payment" ADD COLUMN "couponId" INTEGER,
+ADD COLUMN "discountAmount" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "Coupon" (
+    "id" SERIAL NOT NULL,
+    "eventId" INTEGER NOT NULL,
+    "code" VARCHAR(50) NOT NULL,
+    "discountType" "DiscountType" NOT NULL,
+    "discountValue" INTEGER NOT NULL,
+    "maxUses" INTEGER,
+    "maxUsesPerUser" INTEGER,
+    "startsAt" TIMESTAMP(3),
+    "endsAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Coupon_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "_CouponToTicketType" (
+    "A" INTEGER NOT NULL,
+    "B" INTEGER NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Coupon_eventId_code_key" ON "Coupon"("eventId", "code");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "_CouponToTicketType_AB_unique" ON "_CouponToTicketType"("A", "B");
+
+-- CreateIndex
+CREATE INDEX "_CouponToTicketType_B_index" ON "_CouponToTicketType"("B");
+
+-- AddForeignKey
+ALTER TABLE "Payment" ADD CONSTRAINT "Payment_couponId_fkey" FOREIGN KEY ("couponId") REFERENCES "Coupon"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Coupon" ADD CONSTRAINT "Coupon_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "Event"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_CouponToTicketType" ADD CONSTRAINT "_CouponToTicketType_A_fkey" FOREIGN KEY ("A") REFERENCES "Coupon"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_CouponToTicketType" ADD CONSTRAINT "_CouponToTicketType_B_fkey" FOREIGN KEY ("B") REFERENCES "TicketType"("id") ON DELETE CASCADE ON UPDATE CASCADE;
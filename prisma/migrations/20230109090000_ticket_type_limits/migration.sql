@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "TicketType" ADD COLUMN "stock" INTEGER,
+ADD COLUMN "maxPerUser" INTEGER,
+ADD COLUMN "salesStartAt" TIMESTAMP(3),
+ADD COLUMN "salesEndAt" TIMESTAMP(3);
@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "TicketStatus" ADD VALUE 'EXPIRED';
+
+-- AlterTable
+ALTER TABLE "Ticket" ADD COLUMN "reservedUntil" TIMESTAMP(3);
@@ -0,0 +1,8 @@
+-- AlterEnum
+ALTER TYPE "OrderItemType" ADD VALUE 'TICKET_TYPE_CHANGE';
+
+-- AlterTable
+ALTER TABLE "OrderItem" ADD COLUMN "ticketTypeId" INTEGER;
+
+-- AddForeignKey
+ALTER TABLE "OrderItem" ADD CONSTRAINT "OrderItem_ticketTypeId_fkey" FOREIGN KEY ("ticketTypeId") REFERENCES "TicketType"("id") ON DELETE SET NULL ON UPDATE CASCADE;
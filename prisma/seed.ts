@@ -7,6 +7,7 @@ async function main() {
   if (!event) {
     event = await prisma.event.create({
       data: {
+        slug: "driven-t",
         title: "Driven.t",
         logoImageUrl: "https://files.driveneducation.com.br/images/logo-rounded.png",
         backgroundImageUrl: "linear-gradient(to right, #FA4098, #FFD77F)",
@@ -7,34 +7,50 @@ import { loadEnv, connectDb, disconnectDB } from "@/config";
 
 loadEnv();
 
-import { handleApplicationErrors } from "@/middlewares";
+import { handleApplicationErrors, keepRawBody, rateLimit, rateLimitPolicies } from "@/middlewares";
 import {
   usersRouter,
   authenticationRouter,
   eventsRouter,
+  cepRouter,
   enrollmentsRouter,
   ticketsRouter,
   paymentsRouter,
+  paymentWebhooksRouter,
+  ordersRouter,
   hotelsRouter,
-  bookingsRouter
+  bookingsRouter,
+  activitiesRouter,
+  adminRouter
 } from "@/routers";
+import { initMailTransport } from "@/utils/mailer";
+import { initPaymentGateway } from "@/utils/payment-gateway";
 
 const app = express();
 app
+  .set("trust proxy", "loopback, linklocal, uniquelocal")
   .use(cors())
-  .use(express.json())
+  .use(express.json({ verify: keepRawBody }))
+  .use(rateLimit(rateLimitPolicies.global))
   .get("/health", (_req, res) => res.send("OK!"))
   .use("/users", usersRouter)
   .use("/auth", authenticationRouter)
-  .use("/event", eventsRouter)
-  .use("/enrollments", enrollmentsRouter)
-  .use("/tickets", ticketsRouter)
-  .use("/payments", paymentsRouter)
-  .use("/hotels", hotelsRouter)
-  .use("/booking", bookingsRouter)
+  .use("/enrollments", cepRouter)
+  .use("/payments/webhooks", paymentWebhooksRouter)
+  .use("/events", eventsRouter)
+  .use("/events/:eventSlug/enrollments", enrollmentsRouter)
+  .use("/events/:eventSlug/tickets", ticketsRouter)
+  .use("/events/:eventSlug/orders", ordersRouter)
+  .use("/events/:eventSlug/payments", paymentsRouter)
+  .use("/events/:eventSlug/hotels", hotelsRouter)
+  .use("/events/:eventSlug/booking", bookingsRouter)
+  .use("/events/:eventSlug/activities", activitiesRouter)
+  .use("/admin", adminRouter)
   .use(handleApplicationErrors);
 
 export function init(): Promise<Express> {
+  initMailTransport();
+  initPaymentGateway();
   connectDb();
   return Promise.resolve(app);
 }
@@ -0,0 +1,53 @@
+import { Response } from "express";
+import { EventRequest } from "@/middlewares";
+import activitiesService from "@/services/activities-service";
+import httpStatus from "http-status";
+
+export async function getActivityDays(req: EventRequest, res: Response) {
+  const { userId, eventId } = req;
+
+  try {
+    const days = await activitiesService.getActivityDays(userId, eventId);
+
+    return res.status(httpStatus.OK).send(days);
+  } catch (error) {
+    if(error.name === "ForbiddenError") {
+      return res.sendStatus(httpStatus.FORBIDDEN);
+    }
+    return res.sendStatus(httpStatus.NOT_FOUND);
+  }
+}
+
+export async function getActivitiesByDay(req: EventRequest, res: Response) {
+  const { userId, eventId } = req;
+  const { date } = req.params;
+
+  try {
+    const venuesWithActivities = await activitiesService.getActivitiesByDay(userId, eventId, date);
+
+    return res.status(httpStatus.OK).send(venuesWithActivities);
+  } catch (error) {
+    if(error.name === "ForbiddenError") {
+      return res.sendStatus(httpStatus.FORBIDDEN);
+    }
+    return res.sendStatus(httpStatus.NOT_FOUND);
+  }
+}
+
+export async function postActivitySubscription(req: EventRequest, res: Response) {
+  const { userId, eventId } = req;
+  const { activityId } = req.body;
+
+  try {
+    const subscriptionIdResponse = await activitiesService.createSubscription(userId, eventId, activityId);
+
+    return res.status(httpStatus.CREATED).send(subscriptionIdResponse);
+  } catch (error) {
+    if(error.name === "ForbiddenError") {
+      return res.sendStatus(httpStatus.FORBIDDEN);
+    } else if (error.name === "ConflictError") {
+      return res.status(httpStatus.CONFLICT).send(error);
+    }
+    return res.sendStatus(httpStatus.NOT_FOUND);
+  }
+}
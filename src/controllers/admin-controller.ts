@@ -0,0 +1,147 @@
+import { Request, Response } from "express";
+import adminService from "@/services/admin-service";
+import httpStatus from "http-status";
+
+export async function getAdminEvents(_req: Request, res: Response) {
+  const events = await adminService.getEvents();
+
+  return res.status(httpStatus.OK).send(events);
+}
+
+export async function postAdminEvent(req: Request, res: Response) {
+  const event = await adminService.createEvent(req.body);
+
+  return res.status(httpStatus.CREATED).send(event);
+}
+
+export async function putAdminEvent(req: Request, res: Response) {
+  const event = await adminService.updateEvent(Number(req.params.id), req.body);
+
+  return res.status(httpStatus.OK).send(event);
+}
+
+export async function deleteAdminEvent(req: Request, res: Response) {
+  await adminService.deleteEvent(Number(req.params.id));
+
+  return res.sendStatus(httpStatus.NO_CONTENT);
+}
+
+export async function getAdminTicketTypes(req: Request, res: Response) {
+  const ticketTypes = await adminService.getTicketTypes(Number(req.params.id));
+
+  return res.status(httpStatus.OK).send(ticketTypes);
+}
+
+export async function postAdminTicketType(req: Request, res: Response) {
+  const ticketType = await adminService.createTicketType(req.body);
+
+  return res.status(httpStatus.CREATED).send(ticketType);
+}
+
+export async function putAdminTicketType(req: Request, res: Response) {
+  const ticketType = await adminService.updateTicketType(Number(req.params.id), req.body);
+
+  return res.status(httpStatus.OK).send(ticketType);
+}
+
+export async function deleteAdminTicketType(req: Request, res: Response) {
+  await adminService.deleteTicketType(Number(req.params.id));
+
+  return res.sendStatus(httpStatus.NO_CONTENT);
+}
+
+export async function getAdminMerchandise(req: Request, res: Response) {
+  const merchandise = await adminService.getMerchandise(Number(req.params.id));
+
+  return res.status(httpStatus.OK).send(merchandise);
+}
+
+export async function postAdminMerchandise(req: Request, res: Response) {
+  const merchandise = await adminService.createMerchandise(req.body);
+
+  return res.status(httpStatus.CREATED).send(merchandise);
+}
+
+export async function putAdminMerchandise(req: Request, res: Response) {
+  const merchandise = await adminService.updateMerchandise(Number(req.params.id), req.body);
+
+  return res.status(httpStatus.OK).send(merchandise);
+}
+
+export async function deleteAdminMerchandise(req: Request, res: Response) {
+  await adminService.deleteMerchandise(Number(req.params.id));
+
+  return res.sendStatus(httpStatus.NO_CONTENT);
+}
+
+export async function getAdminCoupons(req: Request, res: Response) {
+  const coupons = await adminService.getCoupons(Number(req.params.id));
+
+  return res.status(httpStatus.OK).send(coupons);
+}
+
+export async function postAdminCoupon(req: Request, res: Response) {
+  const coupon = await adminService.createCoupon(req.body);
+
+  return res.status(httpStatus.CREATED).send(coupon);
+}
+
+export async function putAdminCoupon(req: Request, res: Response) {
+  const coupon = await adminService.updateCoupon(Number(req.params.id), req.body);
+
+  return res.status(httpStatus.OK).send(coupon);
+}
+
+export async function deleteAdminCoupon(req: Request, res: Response) {
+  await adminService.deleteCoupon(Number(req.params.id));
+
+  return res.sendStatus(httpStatus.NO_CONTENT);
+}
+
+export async function getAdminHotels(req: Request, res: Response) {
+  const hotels = await adminService.getHotels(Number(req.params.id));
+
+  return res.status(httpStatus.OK).send(hotels);
+}
+
+export async function postAdminHotel(req: Request, res: Response) {
+  const hotel = await adminService.createHotel(req.body);
+
+  return res.status(httpStatus.CREATED).send(hotel);
+}
+
+export async function putAdminHotel(req: Request, res: Response) {
+  const hotel = await adminService.updateHotel(Number(req.params.id), req.body);
+
+  return res.status(httpStatus.OK).send(hotel);
+}
+
+export async function deleteAdminHotel(req: Request, res: Response) {
+  await adminService.deleteHotel(Number(req.params.id));
+
+  return res.sendStatus(httpStatus.NO_CONTENT);
+}
+
+export async function getAdminRooms(req: Request, res: Response) {
+  const rooms = await adminService.getRooms(Number(req.params.id));
+
+  return res.status(httpStatus.OK).send(rooms);
+}
+
+export async function postAdminRoom(req: Request, res: Response) {
+  const room = await adminService.createRoom(req.body);
+
+  return res.status(httpStatus.CREATED).send(room);
+}
+
+export async function putAdminRoom(req: Request, res: Response) {
+  const room = await adminService.updateRoom(Number(req.params.id), req.body);
+
+  return res.status(httpStatus.OK).send(room);
+}
+
+export async function deleteAdminRoom(req: Request, res: Response) {
+  await adminService.deleteRoom(Number(req.params.id));
+
+  return res.sendStatus(httpStatus.NO_CONTENT);
+}
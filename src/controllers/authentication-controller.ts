@@ -1,14 +1,82 @@
-import authenticationService, { SignInParams } from "@/services/authentication-service";
+import { AuthenticatedRequest } from "@/middlewares";
+import authenticationService, {
+  OAuthSignInParams,
+  RefreshParams,
+  SignInParams,
+} from "@/services/authentication-service";
+import passwordResetService, {
+  ConfirmPasswordResetParams,
+  PasswordResetParams,
+} from "@/services/password-reset-service";
 import { Request, Response } from "express";
 import httpStatus from "http-status";
 export async function singInPost(req: Request, res: Response) {
   const { email, password } = req.body as SignInParams;
 
-  try {
-    const result = await authenticationService.signIn({ email, password });
+  const result = await authenticationService.signIn(
+    { email, password },
+    { userAgent: req.header("User-Agent"), ip: req.ip },
+  );
 
-    return res.status(httpStatus.OK).send(result);
-  } catch (error) {
-    return res.status(httpStatus.UNAUTHORIZED).send({});
-  }
+  return res.status(httpStatus.OK).send(result);
+}
+
+export async function gitHubSignInPost(req: Request, res: Response) {
+  const { code } = req.body as OAuthSignInParams;
+
+  const result = await authenticationService.signInWithGitHub(code, {
+    userAgent: req.header("User-Agent"),
+    ip: req.ip,
+  });
+
+  return res.status(httpStatus.OK).send(result);
+}
+
+export async function refreshPost(req: Request, res: Response) {
+  const { refreshToken } = req.body as RefreshParams;
+
+  const result = await authenticationService.refresh(refreshToken, {
+    userAgent: req.header("User-Agent"),
+    ip: req.ip,
+  });
+
+  return res.status(httpStatus.OK).send(result);
+}
+
+export async function signOutPost(req: AuthenticatedRequest, res: Response) {
+  await authenticationService.signOut(req.sessionId);
+
+  return res.sendStatus(httpStatus.NO_CONTENT);
+}
+
+export async function getSessions(req: AuthenticatedRequest, res: Response) {
+  const { userId, sessionId } = req;
+
+  const sessions = await authenticationService.getSessions(userId, sessionId);
+
+  return res.status(httpStatus.OK).send(sessions);
+}
+
+export async function deleteSession(req: AuthenticatedRequest, res: Response) {
+  const { userId } = req;
+
+  await authenticationService.revokeSession(userId, Number(req.params.sessionId));
+
+  return res.sendStatus(httpStatus.NO_CONTENT);
+}
+
+export async function passwordResetPost(req: Request, res: Response) {
+  const { email } = req.body as PasswordResetParams;
+
+  await passwordResetService.requestPasswordReset(email);
+
+  return res.sendStatus(httpStatus.ACCEPTED);
+}
+
+export async function confirmPasswordResetPost(req: Request, res: Response) {
+  const { token, password } = req.body as ConfirmPasswordResetParams;
+
+  await passwordResetService.confirmPasswordReset({ token, password });
+
+  return res.sendStatus(httpStatus.NO_CONTENT);
 }
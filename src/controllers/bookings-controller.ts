@@ -1,55 +1,31 @@
 import { Response } from "express";
-import { AuthenticatedRequest } from "@/middlewares";
+import { EventRequest } from "@/middlewares";
 import bookingsService from "@/services/bookings-service";
 import httpStatus from "http-status";
 
-export async function getBooking(req: AuthenticatedRequest, res: Response) {
-  const { userId } = req;
+export async function getBooking(req: EventRequest, res: Response) {
+  const { userId, eventId } = req;
 
-  try {
-    const bookingWithRoom = await bookingsService.getBooking(userId);
+  const bookingWithRoom = await bookingsService.getBooking(userId, eventId);
 
-    return res.status(httpStatus.OK).send(bookingWithRoom);
-  } catch (error) {
-    if(error.name === "ForbiddenError") {
-      return res.sendStatus(httpStatus.FORBIDDEN);
-    } else if (error.name === "NotFoundError") {
-      return res.sendStatus(httpStatus.NOT_FOUND);
-    }
-  }
+  return res.status(httpStatus.OK).send(bookingWithRoom);
 }
 
-export async function postBooking(req: AuthenticatedRequest, res: Response) {
-  const { userId } = req;
+export async function postBooking(req: EventRequest, res: Response) {
+  const { userId, eventId } = req;
   const { roomId } = req.body;
 
-  try {
-    const bookingIdResponse = await bookingsService.createBooking(userId, roomId);
-
-    return res.status(httpStatus.OK).send(bookingIdResponse);
-  } catch (error) {
-    if(error.name === "ForbiddenError") {
-      return res.sendStatus(httpStatus.FORBIDDEN);
-    } else if (error.name === "NotFoundError") {
-      return res.sendStatus(httpStatus.NOT_FOUND);
-    }
-  }
+  const bookingIdResponse = await bookingsService.createBooking(userId, eventId, roomId);
+
+  return res.status(httpStatus.OK).send(bookingIdResponse);
 }
 
-export async function putBooking(req: AuthenticatedRequest, res: Response) {
-  const { userId } = req;
+export async function putBooking(req: EventRequest, res: Response) {
+  const { userId, eventId } = req;
   const { roomId } = req.body;
   const bookingId = Number(req.params.bookingId);
 
-  try {
-    const bookingIdResponse = await bookingsService.updateBooking(userId, bookingId, roomId);
-
-    return res.status(httpStatus.OK).send(bookingIdResponse);
-  } catch (error) {
-    if(error.name === "ForbiddenError") {
-      return res.sendStatus(httpStatus.FORBIDDEN);
-    } else if (error.name === "NotFoundError") {
-      return res.sendStatus(httpStatus.NOT_FOUND);
-    }
-  }
+  const bookingIdResponse = await bookingsService.updateBooking(userId, eventId, bookingId, roomId);
+
+  return res.status(httpStatus.OK).send(bookingIdResponse);
 }
@@ -1,13 +1,13 @@
-import { AuthenticatedRequest } from "@/middlewares";
+import { AuthenticatedRequest, EventRequest } from "@/middlewares";
 import enrollmentsService from "@/services/enrollments-service";
 import { Response } from "express";
 import httpStatus from "http-status";
 
-export async function getEnrollmentByUser(req: AuthenticatedRequest, res: Response) {
-  const { userId } = req;
+export async function getEnrollmentByUser(req: EventRequest, res: Response) {
+  const { userId, eventId } = req;
 
   try {
-    const enrollmentWithAddress = await enrollmentsService.getOneWithAddressByUserId(userId);
+    const enrollmentWithAddress = await enrollmentsService.getOneWithAddressByUserId(userId, eventId);
 
     return res.status(httpStatus.OK).send(enrollmentWithAddress);
   } catch (error) {
@@ -15,15 +15,19 @@ export async function getEnrollmentByUser(req: AuthenticatedRequest, res: Respon
   }
 }
 
-export async function postCreateOrUpdateEnrollment(req: AuthenticatedRequest, res: Response) {
+export async function postCreateOrUpdateEnrollment(req: EventRequest, res: Response) {
   try {
     await enrollmentsService.createOrUpdateEnrollmentWithAddress({
       ...req.body,
       userId: req.userId,
+      eventId: req.eventId,
     });
 
     return res.sendStatus(httpStatus.OK);
   } catch (error) {
+    if (error.name === "UnverifiedEmailError") {
+      return res.status(httpStatus.FORBIDDEN).send(error);
+    }
     return res.sendStatus(httpStatus.BAD_REQUEST);
   }
 }
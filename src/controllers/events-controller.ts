@@ -2,9 +2,16 @@ import eventsService from "@/services/events-service";
 import { Request, Response } from "express";
 import httpStatus from "http-status";
 
-export async function getDefaultEvent(_req: Request, res: Response) {
+export async function getEvents(_req: Request, res: Response) {
+  const events = await eventsService.getEvents();
+  return res.status(httpStatus.OK).send(events);
+}
+
+export async function getEventBySlug(req: Request, res: Response) {
+  const { eventSlug } = req.params;
+
   try {
-    const event = await eventsService.getFirstEvent();
+    const event = await eventsService.getEventBySlug(eventSlug);
     return res.status(httpStatus.OK).send(event);
   } catch (error) {
     return res.status(httpStatus.NOT_FOUND).send({});
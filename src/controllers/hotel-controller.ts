@@ -1,13 +1,13 @@
 import { Response } from "express";
-import { AuthenticatedRequest } from "@/middlewares";
+import { EventRequest } from "@/middlewares";
 import hotelService from "@/services/hotels-service";
 import httpStatus from "http-status";
 
-export async function getHotels(req: AuthenticatedRequest, res: Response) {
-  const { userId } = req;
+export async function getHotels(req: EventRequest, res: Response) {
+  const { userId, eventId } = req;
 
   try {
-    const hotels = await hotelService.getHotels(Number(userId));
+    const hotels = await hotelService.getHotels(Number(userId), eventId);
     return res.status(httpStatus.OK).send(hotels);
   } catch (error) {
     if (error.name === "NotFoundError") {
@@ -17,12 +17,12 @@ export async function getHotels(req: AuthenticatedRequest, res: Response) {
   }
 }
 
-export async function getHotelsWithRooms(req: AuthenticatedRequest, res: Response) {
-  const { userId } = req;
+export async function getHotelsWithRooms(req: EventRequest, res: Response) {
+  const { userId, eventId } = req;
   const { hotelId } = req.params;
 
   try {
-    const hotels = await hotelService.getHotelsWithRooms(Number(userId), Number(hotelId));
+    const hotels = await hotelService.getHotelsWithRooms(Number(userId), eventId, Number(hotelId));
 
     return res.status(httpStatus.OK).send(hotels);
   } catch (error) {
@@ -4,5 +4,8 @@ export * from "./events-controller";
 export * from "./enrollments-controller";
 export * from "./tickets-controller";
 export * from "./payments-controller";
+export * from "./orders-controller";
 export * from "./hotel-controller";
 export * from "./bookings-controller";
+export * from "./activities-controller";
+export * from "./admin-controller";
@@ -0,0 +1,36 @@
+import { EventRequest } from "@/middlewares";
+import installmentsService from "@/services/installments-service";
+import ordersService, { CreateOrderItem } from "@/services/orders-service";
+import { Response } from "express";
+import httpStatus from "http-status";
+
+export async function getMerchandise(req: EventRequest, res: Response) {
+  const merchandise = await ordersService.getMerchandise(req.eventId);
+
+  return res.status(httpStatus.OK).send(merchandise);
+}
+
+export async function getOrder(req: EventRequest, res: Response) {
+  const { userId, eventId } = req;
+
+  const order = await ordersService.getOrder(userId, eventId, Number(req.params.orderId));
+
+  return res.status(httpStatus.OK).send(order);
+}
+
+export async function postOrder(req: EventRequest, res: Response) {
+  const { userId, eventId } = req;
+  const { items } = req.body as { items: CreateOrderItem[] };
+
+  const order = await ordersService.createOrder(userId, eventId, items);
+
+  return res.status(httpStatus.CREATED).send(order);
+}
+
+export async function getOrderInstallments(req: EventRequest, res: Response) {
+  const { userId, eventId } = req;
+
+  const options = await installmentsService.getInstallmentOptions(userId, eventId, Number(req.params.orderId));
+
+  return res.status(httpStatus.OK).send(options);
+}
@@ -1,17 +1,22 @@
-import { AuthenticatedRequest } from "@/middlewares";
+import { EventRequest, RawBodyRequest } from "@/middlewares";
 import paymentService from "@/services/payments-service";
+import paymentWebhooksService, { PaymentWebhookEvent } from "@/services/payment-webhooks-service";
+import { PaymentMethod } from "@prisma/client";
 import { Response } from "express";
 import httpStatus from "http-status";
 
-export async function getPaymentByTicketId(req: AuthenticatedRequest, res: Response) {
+export async function getPaymentByTicketId(req: EventRequest, res: Response) {
   try {
+    const orderId = Number(req.query.orderId);
     const ticketId = Number(req.query.ticketId);
-    const { userId } = req;
+    const { userId, eventId } = req;
 
-    if (!ticketId) {
+    if (!orderId && !ticketId) {
       return res.sendStatus(httpStatus.BAD_REQUEST);
     }
-    const payment = await paymentService.getPaymentByTicketId(userId, ticketId);
+    const payment = orderId
+      ? await paymentService.getPaymentByOrderId(userId, eventId, orderId)
+      : await paymentService.getPaymentByTicketId(userId, eventId, ticketId);
 
     if (!payment) {
       return res.sendStatus(httpStatus.NOT_FOUND);
@@ -25,18 +30,40 @@ export async function getPaymentByTicketId(req: AuthenticatedRequest, res: Respo
   }
 }
 
-export async function paymentProcess(req: AuthenticatedRequest, res: Response) {
+export async function paymentProcess(req: EventRequest, res: Response) {
   try {
-    const { userId } = req;
+    const { userId, eventId } = req;
     const {
+      orderId,
       ticketId,
+      paymentMethod = PaymentMethod.CREDIT_CARD,
       cardData,
+      couponCode,
     } = req.body;
 
-    if (!ticketId || !cardData) {
+    if (!orderId && !ticketId) {
       return res.sendStatus(httpStatus.BAD_REQUEST);
     }
-    const payment = await paymentService.paymentProcess(ticketId, userId, cardData);
+    if (paymentMethod === PaymentMethod.PIX) {
+      const pixPayment = orderId
+        ? await paymentService.pixPaymentProcess(orderId, userId, eventId, couponCode)
+        : await paymentService.ticketPixPaymentProcess(ticketId, userId, eventId, couponCode);
+
+      return res.status(httpStatus.OK).send(pixPayment);
+    }
+    if (paymentMethod === PaymentMethod.BOLETO) {
+      const boletoPayment = orderId
+        ? await paymentService.boletoPaymentProcess(orderId, userId, eventId, couponCode)
+        : await paymentService.ticketBoletoPaymentProcess(ticketId, userId, eventId, couponCode);
+
+      return res.status(httpStatus.OK).send(boletoPayment);
+    }
+    if (paymentMethod !== PaymentMethod.CREDIT_CARD || !cardData) {
+      return res.sendStatus(httpStatus.BAD_REQUEST);
+    }
+    const payment = orderId
+      ? await paymentService.paymentProcess(orderId, userId, eventId, cardData, couponCode)
+      : await paymentService.ticketPaymentProcess(ticketId, userId, eventId, cardData, couponCode);
 
     if (!payment) {
       return res.sendStatus(httpStatus.NOT_FOUND);
@@ -47,6 +74,38 @@ export async function paymentProcess(req: AuthenticatedRequest, res: Response) {
     if (error.name === "UnauthorizedError") {
       return res.sendStatus(httpStatus.UNAUTHORIZED);
     }
+    if (error.name === "InvalidDataError" || error.name === "InvalidCouponError") {
+      return res.status(httpStatus.BAD_REQUEST).send(error);
+    }
+    if (error.name === "ConflictError") {
+      return res.status(httpStatus.CONFLICT).send(error);
+    }
+    if (error.name === "UnverifiedEmailError") {
+      return res.status(httpStatus.FORBIDDEN).send(error);
+    }
+    if (error.name === "PaymentDeclinedError") {
+      return res.status(httpStatus.PAYMENT_REQUIRED).send(error);
+    }
+    if (error.name === "PaymentGatewayTimeoutError") {
+      return res.status(httpStatus.GATEWAY_TIMEOUT).send(error);
+    }
     return res.sendStatus(httpStatus.NOT_FOUND);
   }
 }
+
+export async function simulatePixPayment(req: EventRequest, res: Response) {
+  const { userId, eventId } = req;
+  const payment = await paymentWebhooksService.simulatePixPayment(userId, eventId, Number(req.params.paymentId));
+
+  return res.status(httpStatus.OK).send(payment);
+}
+
+export async function postPaymentWebhook(req: RawBodyRequest, res: Response) {
+  const receipt = await paymentWebhooksService.receiveEvent(req.params.provider, {
+    signature: req.header("Webhook-Signature"),
+    rawBody: req.rawBody,
+    event: req.body as PaymentWebhookEvent,
+  });
+
+  return res.status(httpStatus.OK).send({ received: true, ...receipt });
+}
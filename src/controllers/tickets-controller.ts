@@ -1,11 +1,14 @@
-import { AuthenticatedRequest } from "@/middlewares";
-import ticketService from "@/services/tickets-service";
+import { EventRequest } from "@/middlewares";
+import couponsService from "@/services/coupons-service";
+import ticketService, { CreateTicketItem, TicketAttendee } from "@/services/tickets-service";
 import { Response } from "express";
 import httpStatus from "http-status";
 
-export async function getTicketTypes(req: AuthenticatedRequest, res: Response) {
+export async function getTicketTypes(req: EventRequest, res: Response) {
+  const { eventId } = req;
+
   try {
-    const ticketTypes = await ticketService.getTicketTypes();
+    const ticketTypes = await ticketService.getTicketTypes(eventId);
 
     return res.status(httpStatus.OK).send(ticketTypes);
   } catch (error) {
@@ -13,11 +16,11 @@ export async function getTicketTypes(req: AuthenticatedRequest, res: Response) {
   }
 }
 
-export async function getTickets(req: AuthenticatedRequest, res: Response) {
-  const { userId } = req;
+export async function getTickets(req: EventRequest, res: Response) {
+  const { userId, eventId } = req;
 
   try {
-    const ticketTypes = await ticketService.getTicketByUserId(userId);
+    const ticketTypes = await ticketService.getTicketByUserId(userId, eventId);
 
     return res.status(httpStatus.OK).send(ticketTypes);
   } catch (error) {
@@ -25,22 +28,86 @@ export async function getTickets(req: AuthenticatedRequest, res: Response) {
   }
 }
 
-export async function createTicket(req: AuthenticatedRequest, res: Response) {
-  const { userId } = req;
+export async function getPurchasedTickets(req: EventRequest, res: Response) {
+  const { userId, eventId } = req;
 
-  //TODO validação do JOI
-  const { ticketTypeId } = req.body;
+  const tickets = await ticketService.getPurchasedTickets(userId, eventId);
 
-  if (!ticketTypeId) {
-    return res.sendStatus(httpStatus.BAD_REQUEST);
-  }
+  return res.status(httpStatus.OK).send(tickets);
+}
+
+export async function createTicket(req: EventRequest, res: Response) {
+  const { userId, eventId } = req;
+  const { ticketTypeId, tickets } = req.body as { ticketTypeId?: number; tickets?: CreateTicketItem[] };
 
   try {
-    const ticketTypes = await ticketService.createTicket(userId, ticketTypeId);
+    if (tickets) {
+      const createdTickets = await ticketService.createTickets(userId, eventId, tickets);
 
-    return res.status(httpStatus.CREATED).send(ticketTypes);
+      return res.status(httpStatus.CREATED).send(createdTickets);
+    }
+
+    const ticket = await ticketService.createTicket(userId, eventId, ticketTypeId);
+
+    return res.status(httpStatus.CREATED).send(ticket);
   } catch (error) {
+    if (error.name === "UnverifiedEmailError") {
+      return res.status(httpStatus.FORBIDDEN).send(error);
+    }
+    if (error.name === "ConflictError") {
+      return res.status(httpStatus.CONFLICT).send(error);
+    }
+    if (error.name === "InvalidDataError") {
+      return res.status(httpStatus.BAD_REQUEST).send(error);
+    }
     return res.sendStatus(httpStatus.NOT_FOUND);
   }
 }
 
+export async function claimTicket(req: EventRequest, res: Response) {
+  const { userId, eventId } = req;
+  const { token } = req.body as { token: string };
+
+  const ticket = await ticketService.claimTicket(userId, eventId, token);
+
+  return res.status(httpStatus.OK).send(ticket);
+}
+
+export async function putTicketAttendee(req: EventRequest, res: Response) {
+  const { userId, eventId } = req;
+
+  const ticket = await ticketService.transferTicket(
+    userId,
+    eventId,
+    Number(req.params.ticketId),
+    req.body as TicketAttendee,
+  );
+
+  return res.status(httpStatus.OK).send(ticket);
+}
+
+export async function cancelTicket(req: EventRequest, res: Response) {
+  const { userId, eventId } = req;
+
+  const cancellation = await ticketService.cancelTicket(userId, eventId, Number(req.params.ticketId));
+
+  return res.status(httpStatus.OK).send(cancellation);
+}
+
+export async function changeTicketType(req: EventRequest, res: Response) {
+  const { userId, eventId } = req;
+  const { ticketTypeId } = req.body as { ticketTypeId: number };
+
+  const change = await ticketService.changeTicketType(userId, eventId, Number(req.params.ticketId), ticketTypeId);
+
+  return res.status(httpStatus.OK).send(change);
+}
+
+export async function validateCoupon(req: EventRequest, res: Response) {
+  const { userId, eventId } = req;
+  const { code, ticketTypeId } = req.body as { code: string; ticketTypeId: number };
+
+  const preview = await couponsService.previewCoupon(userId, eventId, code, ticketTypeId);
+
+  return res.status(httpStatus.OK).send(preview);
+}
@@ -1,4 +1,4 @@
-import userService from "@/services/users-service";
+import userService, { ResendVerificationEmailParams, VerifyEmailParams } from "@/services/users-service";
 import { Request, Response } from "express";
 import httpStatus from "http-status";
 
@@ -18,3 +18,19 @@ export async function usersPost(req: Request, res: Response) {
     return res.status(httpStatus.BAD_REQUEST).send(error);
   }
 }
+
+export async function verifyEmailPost(req: Request, res: Response) {
+  const { token } = req.body as VerifyEmailParams;
+
+  await userService.verifyEmail({ token });
+
+  return res.sendStatus(httpStatus.NO_CONTENT);
+}
+
+export async function resendVerificationEmailPost(req: Request, res: Response) {
+  const { email } = req.body as ResendVerificationEmailParams;
+
+  await userService.resendVerificationEmail({ email });
+
+  return res.sendStatus(httpStatus.ACCEPTED);
+}
@@ -0,0 +1,14 @@
+import { ApplicationError } from "@/protocols";
+import { Activity } from "@prisma/client";
+
+export function activityTimeConflictError(activity: ConflictingActivity): ApplicationActivityTimeConflictError {
+  return {
+    name: "ConflictError",
+    message: "You are already subscribed to an activity at the same time!",
+    activity,
+  };
+}
+
+type ConflictingActivity = Pick<Activity, "id" | "name" | "startsAt" | "endsAt">;
+
+export type ApplicationActivityTimeConflictError = ApplicationError & { activity: ConflictingActivity };
@@ -0,0 +1,8 @@
+import { ApplicationError } from "@/protocols";
+
+export function idempotencyKeyMismatchError(): ApplicationError {
+  return {
+    name: "IdempotencyKeyMismatchError",
+    message: "Idempotency-Key was already used with a different request",
+  };
+}
@@ -6,3 +6,13 @@ export * from "./not-found-error";
 export * from "./unauthorized-error";
 export * from "./request-error";
 export * from "./forbidden-error";
+export * from "./activity-time-conflict-error";
+export * from "./token-expired-error";
+export * from "./unverified-email-error";
+export * from "./too-many-requests-error";
+export * from "./locked-account-error";
+export * from "./idempotency-key-mismatch-error";
+export * from "./payment-declined-error";
+export * from "./payment-gateway-timeout-error";
+export * from "./invalid-webhook-signature-error";
+export * from "./refund-declined-error";
@@ -0,0 +1,8 @@
+import { ApplicationError } from "@/protocols";
+
+export function invalidWebhookSignatureError(): ApplicationError {
+  return {
+    name: "InvalidWebhookSignatureError",
+    message: "Webhook signature is missing or invalid",
+  };
+}
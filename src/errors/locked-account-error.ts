@@ -0,0 +1,13 @@
+import { ApplicationError } from "@/protocols";
+
+export function lockedAccountError(retryAfterSeconds: number): ApplicationLockedAccountError {
+  return {
+    name: "LockedAccountError",
+    message: "Too many failed sign in attempts, try again later",
+    retryAfterSeconds,
+  };
+}
+
+export type ApplicationLockedAccountError = ApplicationError & {
+  retryAfterSeconds: number;
+};
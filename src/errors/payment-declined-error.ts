@@ -0,0 +1,13 @@
+import { ApplicationError } from "@/protocols";
+
+export function paymentDeclinedError(reason: string): ApplicationPaymentDeclinedError {
+  return {
+    name: "PaymentDeclinedError",
+    message: "The payment was declined",
+    reason,
+  };
+}
+
+export type ApplicationPaymentDeclinedError = ApplicationError & {
+  reason: string;
+};
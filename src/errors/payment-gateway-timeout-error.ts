@@ -0,0 +1,8 @@
+import { ApplicationError } from "@/protocols";
+
+export function paymentGatewayTimeoutError(): ApplicationError {
+  return {
+    name: "PaymentGatewayTimeoutError",
+    message: "The payment provider did not respond in time, please try again",
+  };
+}
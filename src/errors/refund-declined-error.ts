@@ -0,0 +1,8 @@
+import { ApplicationError } from "@/protocols";
+
+export function refundDeclinedError(): ApplicationError {
+  return {
+    name: "RefundDeclinedError",
+    message: "The payment provider could not refund this payment",
+  };
+}
@@ -0,0 +1,8 @@
+import { ApplicationError } from "@/protocols";
+
+export function tokenExpiredError(): ApplicationError {
+  return {
+    name: "TokenExpiredError",
+    message: "Your access token has expired",
+  };
+}
@@ -0,0 +1,8 @@
+import { ApplicationError } from "@/protocols";
+
+export function tooManyRequestsError(): ApplicationError {
+  return {
+    name: "TooManyRequestsError",
+    message: "Too many requests, please try again later",
+  };
+}
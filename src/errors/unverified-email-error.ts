@@ -0,0 +1,8 @@
+import { ApplicationError } from "@/protocols";
+
+export function unverifiedEmailError(): ApplicationError {
+  return {
+    name: "UnverifiedEmailError",
+    message: "You must verify your email before continuing",
+  };
+}
@@ -0,0 +1,8 @@
+import paymentService from "@/services/payments-service";
+import { ScheduledJob } from "./index";
+
+export const boletoExpiryJob: ScheduledJob = {
+  name: "boleto-expiry",
+  intervalMinutes: Number(process.env.BOLETO_EXPIRY_JOB_INTERVAL_MINUTES || 15),
+  run: () => paymentService.expireOverdueBoletos(),
+};
@@ -0,0 +1,32 @@
+import { boletoExpiryJob } from "./boleto-expiry-job";
+import { rateLimitCleanupJob } from "./rate-limit-cleanup-job";
+import { ticketReservationExpiryJob } from "./ticket-reservation-expiry-job";
+
+export type ScheduledJob = {
+  name: string;
+  intervalMinutes: number;
+  run(): Promise<unknown>;
+};
+
+const scheduledJobs: ScheduledJob[] = [boletoExpiryJob, ticketReservationExpiryJob, rateLimitCleanupJob];
+
+// Each job runs on its own interval and never overlaps itself; a failed run is retried on the next tick
+export function startScheduledJobs() {
+  return scheduledJobs.map((job) => {
+    let running = false;
+
+    return setInterval(async () => {
+      if (running) return;
+
+      running = true;
+      try {
+        await job.run();
+      } catch (error) {
+        /* eslint-disable-next-line no-console */
+        console.error(`Scheduled job ${job.name} failed`, error);
+      } finally {
+        running = false;
+      }
+    }, job.intervalMinutes * 60 * 1000);
+  });
+}
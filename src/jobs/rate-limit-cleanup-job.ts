@@ -0,0 +1,8 @@
+import rateLimitService from "@/services/rate-limit-service";
+import { ScheduledJob } from "./index";
+
+export const rateLimitCleanupJob: ScheduledJob = {
+  name: "rate-limit-cleanup",
+  intervalMinutes: Number(process.env.RATE_LIMIT_CLEANUP_JOB_INTERVAL_MINUTES || 15),
+  run: () => rateLimitService.removeIdleBuckets(),
+};
@@ -0,0 +1,8 @@
+import ticketService from "@/services/tickets-service";
+import { ScheduledJob } from "./index";
+
+export const ticketReservationExpiryJob: ScheduledJob = {
+  name: "ticket-reservation-expiry",
+  intervalMinutes: Number(process.env.TICKET_RESERVATION_EXPIRY_JOB_INTERVAL_MINUTES || 5),
+  run: () => ticketService.expireStaleReservations(),
+};
@@ -1,8 +1,9 @@
 import { NextFunction, Request, Response } from "express";
 import httpStatus from "http-status";
 import * as jwt from "jsonwebtoken";
+import { UserRole } from "@prisma/client";
 
-import { unauthorizedError } from "@/errors";
+import { tokenExpiredError, unauthorizedError } from "@/errors";
 import { prisma } from "@/config";
 
 export async function authenticateToken(req: AuthenticatedRequest, res: Response, next: NextFunction) {
@@ -18,14 +19,26 @@ export async function authenticateToken(req: AuthenticatedRequest, res: Response
     const session = await prisma.session.findFirst({
       where: {
         token,
+        rotatedAt: null,
+      },
+      include: {
+        User: {
+          select: {
+            role: true,
+          },
+        },
       },
     });
     if (!session) return generateUnauthorizedResponse(res);
 
     req.userId = userId;
-    //TODO mudar aqui
+    req.userRole = session.User.role;
+    req.sessionId = session.id;
     return next();
   } catch (err) {
+    if (err instanceof jwt.TokenExpiredError) {
+      return res.status(httpStatus.UNAUTHORIZED).send(tokenExpiredError());
+    }
     return generateUnauthorizedResponse(res);
   }
 }
@@ -34,7 +47,10 @@ function generateUnauthorizedResponse(res: Response) {
   res.status(httpStatus.UNAUTHORIZED).send(unauthorizedError());
 }
 
-export type AuthenticatedRequest = Request & JWTPayload;
+export type AuthenticatedRequest = Request & JWTPayload & {
+  userRole: UserRole;
+  sessionId: number;
+};
 
 type JWTPayload = {
   userId: number;
@@ -0,0 +1,15 @@
+import { NextFunction, Response } from "express";
+import { UserRole } from "@prisma/client";
+
+import { forbiddenError } from "@/errors";
+import { AuthenticatedRequest } from "./authentication-middleware";
+
+export function requireRole(...roles: UserRole[]) {
+  return (req: AuthenticatedRequest, _res: Response, next: NextFunction) => {
+    if (!roles.includes(req.userRole)) {
+      return next(forbiddenError());
+    }
+
+    return next();
+  };
+}
@@ -1,21 +1,53 @@
+import { ApplicationInvalidateDataError, ApplicationLockedAccountError } from "@/errors";
 import { ApplicationError } from "@/protocols";
-import { Request, Response } from "express";
+import { NextFunction, Request, Response } from "express";
 import httpStatus from "http-status";
 
-export function handleApplicationErrors(err: ApplicationError | Error, _req: Request, res: Response) {
-  if (err.name === "CannotEnrollBeforeStartDateError") {
+// Express only treats four-argument middlewares as error handlers
+export function handleApplicationErrors(
+  err: ApplicationError | Error,
+  _req: Request,
+  res: Response,
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  _next: NextFunction,
+) {
+  if (
+    err.name === "CannotEnrollBeforeStartDateError" ||
+    err.name === "InvalidPasswordResetTokenError" ||
+    err.name === "InvalidEmailVerificationTokenError" ||
+    err.name === "InvalidCouponError"
+  ) {
     return res.status(httpStatus.BAD_REQUEST).send({
       message: err.message,
     });
   }
 
+  if (err.name === "InvalidDataError") {
+    return res.status(httpStatus.BAD_REQUEST).send({
+      message: err.message,
+      details: (err as ApplicationInvalidateDataError).details,
+    });
+  }
+
+  if (err.name === "IdempotencyKeyMismatchError") {
+    return res.status(httpStatus.UNPROCESSABLE_ENTITY).send({
+      message: err.message,
+    });
+  }
+
   if (err.name === "ConflictError" || err.name === "DuplicatedEmailError") {
     return res.status(httpStatus.CONFLICT).send({
       message: err.message,
     });
   }
 
-  if (err.name === "InvalidCredentialsError") {
+  if (
+    err.name === "InvalidCredentialsError" ||
+    err.name === "InvalidRefreshTokenError" ||
+    err.name === "InvalidOAuthCodeError" ||
+    err.name === "UnverifiedOAuthEmailError" ||
+    err.name === "InvalidWebhookSignatureError"
+  ) {
     return res.status(httpStatus.UNAUTHORIZED).send({
       message: err.message,
     });
@@ -27,6 +59,39 @@ export function handleApplicationErrors(err: ApplicationError | Error, _req: Req
     });
   }
 
+  if (err.name === "UnverifiedEmailError") {
+    return res.status(httpStatus.FORBIDDEN).send({
+      name: err.name,
+      message: err.message,
+    });
+  }
+
+  if (err.name === "LockedAccountError") {
+    const { retryAfterSeconds } = err as ApplicationLockedAccountError;
+    return res.status(httpStatus.LOCKED).set("Retry-After", String(retryAfterSeconds)).send({
+      message: err.message,
+      retryAfterSeconds,
+    });
+  }
+
+  if (err.name === "TooManyRequestsError") {
+    return res.status(httpStatus.TOO_MANY_REQUESTS).send({
+      message: err.message,
+    });
+  }
+
+  if (err.name === "ForbiddenError") {
+    return res.status(httpStatus.FORBIDDEN).send({
+      message: err.message,
+    });
+  }
+
+  if (err.name === "RefundDeclinedError") {
+    return res.status(httpStatus.BAD_GATEWAY).send({
+      message: err.message,
+    });
+  }
+
   if (err.name === "NotFoundError") {
     return res.status(httpStatus.NOT_FOUND).send({
       message: err.message,
@@ -0,0 +1,22 @@
+import { NextFunction, Response } from "express";
+import httpStatus from "http-status";
+
+import eventsService from "@/services/events-service";
+import { AuthenticatedRequest } from "./authentication-middleware";
+
+export async function loadEvent(req: EventRequest, res: Response, next: NextFunction) {
+  const { eventSlug } = req.params;
+
+  try {
+    const event = await eventsService.getEventBySlug(eventSlug);
+
+    req.eventId = event.id;
+    return next();
+  } catch (err) {
+    return res.sendStatus(httpStatus.NOT_FOUND);
+  }
+}
+
+export type EventRequest = AuthenticatedRequest & {
+  eventId: number;
+};
@@ -0,0 +1,53 @@
+import { NextFunction, Response } from "express";
+
+import { invalidDataError } from "@/errors";
+import idempotencyService from "@/services/idempotency-service";
+import { AuthenticatedRequest } from "./authentication-middleware";
+
+const MAX_KEY_LENGTH = 255;
+
+// Requests without an Idempotency-Key header are processed as usual
+export function idempotent() {
+  return async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const key = req.header("Idempotency-Key");
+    if (key === undefined) return next();
+
+    if (!key || key.length > MAX_KEY_LENGTH) {
+      return next(invalidDataError([`Idempotency-Key must have between 1 and ${MAX_KEY_LENGTH} characters`]));
+    }
+
+    const { userId } = req;
+    const stored = await idempotencyService.begin(userId, key, {
+      method: req.method,
+      path: req.originalUrl,
+      body: req.body,
+    });
+
+    if (stored) {
+      return res.status(stored.status).set("Idempotent-Replayed", "true").send(stored.body);
+    }
+
+    storeResponse(res, userId, key);
+    return next();
+  };
+}
+
+// The response is stored before it is sent, so a client retrying after receiving it always gets a replay
+function storeResponse(res: Response, userId: number, key: string) {
+  const send = res.send.bind(res);
+
+  res.send = (body) => {
+    // Express re-enters send while serializing objects, only the handler's own argument is kept
+    res.send = send;
+
+    idempotencyService
+      .complete(userId, key, res.statusCode, body)
+      .catch((error) => {
+        /* eslint-disable-next-line no-console */
+        console.error(error);
+      })
+      .finally(() => send(body));
+
+    return res;
+  };
+}
@@ -1,3 +1,8 @@
 export * from "./error-handling-middleware";
 export * from "./validation-middleware";
 export * from "./authentication-middleware";
+export * from "./event-middleware";
+export * from "./authorization-middleware";
+export * from "./rate-limit-middleware";
+export * from "./idempotency-middleware";
+export * from "./raw-body-middleware";
@@ -0,0 +1,42 @@
+import { NextFunction, Request, Response } from "express";
+
+import { tooManyRequestsError } from "@/errors";
+import rateLimitService, { RateLimitPolicy } from "@/services/rate-limit-service";
+import { AuthenticatedRequest } from "./authentication-middleware";
+
+export const rateLimitPolicies = {
+  global: { name: "global", capacity: 600, windowSeconds: 60, keyBy: "ip" },
+  authentication: { name: "authentication", capacity: 30, windowSeconds: 60, keyBy: "ip" },
+  users: { name: "users", capacity: 20, windowSeconds: 60, keyBy: "ip" },
+  cep: { name: "cep", capacity: 30, windowSeconds: 60, keyBy: "ip" },
+  payments: { name: "payments", capacity: 30, windowSeconds: 60, keyBy: "user" },
+} as const;
+
+export function rateLimit(policy: RateLimitPolicy) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (process.env.RATE_LIMIT_ENABLED === "false") return next();
+
+    const result = await rateLimitService.consume(getRateLimitKey(req, policy), policy);
+
+    res.set({
+      "RateLimit-Limit": String(result.limit),
+      "RateLimit-Remaining": String(result.remaining),
+      "RateLimit-Reset": String(result.resetSeconds),
+    });
+
+    if (!result.allowed) {
+      res.set("Retry-After", String(result.retryAfterSeconds));
+      return next(tooManyRequestsError());
+    }
+
+    return next();
+  };
+}
+
+// Policies keyed by user fall back to the client address when the route is not authenticated
+function getRateLimitKey(req: Request, policy: RateLimitPolicy) {
+  const { userId } = req as AuthenticatedRequest;
+  if (policy.keyBy === "user" && userId) return `user:${userId}`;
+
+  return `ip:${req.ip}`;
+}
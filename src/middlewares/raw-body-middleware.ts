@@ -0,0 +1,11 @@
+import { Request } from "express";
+import { IncomingMessage, ServerResponse } from "http";
+
+// Passed as the `verify` option of express.json so signed payloads can be checked byte for byte
+export function keepRawBody(req: IncomingMessage, _res: ServerResponse, buffer: Buffer) {
+  (req as RawBodyRequest).rawBody = buffer;
+}
+
+export type RawBodyRequest = Request & {
+  rawBody?: Buffer;
+};
@@ -0,0 +1,126 @@
+import { prisma } from "@/config";
+import { ActivitySubscription } from "@prisma/client";
+
+async function findById(activityId: number) {
+  return prisma.activity.findUnique({
+    where: {
+      id: activityId
+    }
+  });
+}
+
+async function findVenuesWithActivitiesByPeriod(userId: number, eventId: number, startsAt: Date, endsAt: Date) {
+  return prisma.activityVenue.findMany({
+    where: {
+      Activities: {
+        some: {
+          eventId
+        }
+      }
+    },
+    include: {
+      Activities: {
+        where: {
+          eventId,
+          startsAt: {
+            gte: startsAt,
+            lt: endsAt
+          }
+        },
+        include: {
+          ActivitySubscription: {
+            where: {
+              userId
+            },
+            select: {
+              id: true
+            }
+          },
+          _count: {
+            select: {
+              ActivitySubscription: true
+            }
+          }
+        },
+        orderBy: {
+          startsAt: "asc"
+        }
+      }
+    },
+    orderBy: {
+      id: "asc"
+    }
+  });
+}
+
+async function findSubscriptionByUserIdAndActivityId(userId: number, activityId: number) {
+  return prisma.activitySubscription.findUnique({
+    where: {
+      userId_activityId: {
+        userId,
+        activityId
+      }
+    }
+  });
+}
+
+async function findOverlappingSubscriptionByUserId(userId: number, startsAt: Date, endsAt: Date) {
+  return prisma.activitySubscription.findFirst({
+    where: {
+      userId,
+      Activity: {
+        startsAt: {
+          lt: endsAt
+        },
+        endsAt: {
+          gt: startsAt
+        }
+      }
+    },
+    include: {
+      Activity: true
+    }
+  });
+}
+
+// Locking the activity row makes concurrent subscriptions to it wait for each other, so the seats counted in the
+// insert are the ones really taken; nothing is inserted once the activity is full
+async function createSubscriptionWithinCapacity(userId: number, activityId: number) {
+  const [, [createdSubscription]] = await prisma.$transaction([
+    prisma.$queryRaw`SELECT "id" FROM "Activity" WHERE "id" = ${activityId} FOR UPDATE`,
+    prisma.$queryRaw<ActivitySubscription[]>`
+      INSERT INTO "ActivitySubscription" ("userId", "activityId", "updatedAt")
+      SELECT ${userId}::int, "Activity"."id", CURRENT_TIMESTAMP
+      FROM "Activity"
+      WHERE "Activity"."id" = ${activityId}
+        AND "Activity"."capacity" > (
+          SELECT COUNT(*) FROM "ActivitySubscription" WHERE "ActivitySubscription"."activityId" = "Activity"."id"
+        )
+      RETURNING *
+    `
+  ]);
+
+  return createdSubscription ?? null;
+}
+
+async function deleteSubscriptionsByUserIdAndEventId(userId: number, eventId: number) {
+  return prisma.activitySubscription.deleteMany({
+    where: {
+      userId,
+      Activity: {
+        eventId
+      }
+    }
+  });
+}
+
+const activityRepository = {
+  findById,
+  findVenuesWithActivitiesByPeriod,
+  findSubscriptionByUserIdAndActivityId,
+  findOverlappingSubscriptionByUserId,
+  createSubscriptionWithinCapacity,
+  deleteSubscriptionsByUserIdAndEventId
+};
+
+export default activityRepository;
@@ -8,10 +8,15 @@ async function findById(bookingId: number) {
   });
 }
 
-async function findWithRoomByUserId(userId: number) {
+async function findWithRoomByUserIdAndEventId(userId: number, eventId: number) {
   return prisma.booking.findFirst({
     where: {
-      userId
+      userId,
+      Room: {
+        Hotel: {
+          eventId
+        }
+      }
     },
     select: {
       id: true,
@@ -40,6 +45,14 @@ async function updateByBookingIdAndRoomId(bookingId: number, roomId: number) {
   });
 }
 
+async function deleteById(bookingId: number) {
+  return prisma.booking.delete({
+    where: {
+      id: bookingId
+    }
+  });
+}
+
 async function countBookingsByRoomId(roomId: number) {
   return prisma.booking.count({
     where: {
@@ -50,9 +63,10 @@ async function countBookingsByRoomId(roomId: number) {
 
 const bookingRepository = {
   findById,
-  findWithRoomByUserId,
+  findWithRoomByUserIdAndEventId,
   createByUserIdAndRoomId,
   updateByBookingIdAndRoomId,
+  deleteById,
   countBookingsByRoomId
 };
 
@@ -0,0 +1,116 @@
+import { prisma } from "@/config";
+import { Coupon, PaymentStatus } from "@prisma/client";
+
+// Payments still in progress hold their redemption; the counts here only tell a buyer early on, the limits themselves
+// are enforced as the payment is created
+const redeemingStatuses: PaymentStatus[] = [PaymentStatus.PENDING, PaymentStatus.AUTHORIZED, PaymentStatus.CAPTURED];
+
+const includeTicketTypeIds = {
+  TicketType: {
+    select: {
+      id: true,
+    },
+  },
+};
+
+async function findCouponsByEventId(eventId: number) {
+  return prisma.coupon.findMany({
+    where: {
+      eventId,
+    },
+    include: includeTicketTypeIds,
+    orderBy: {
+      id: "asc",
+    },
+  });
+}
+
+async function findCouponById(couponId: number) {
+  return prisma.coupon.findUnique({
+    where: {
+      id: couponId,
+    },
+    include: includeTicketTypeIds,
+  });
+}
+
+async function findCouponByCode(eventId: number, code: string) {
+  return prisma.coupon.findUnique({
+    where: {
+      eventId_code: {
+        eventId,
+        code,
+      },
+    },
+    include: includeTicketTypeIds,
+  });
+}
+
+async function countRedemptions(couponId: number, userId?: number) {
+  return prisma.payment.count({
+    where: {
+      couponId,
+      status: { in: redeemingStatuses },
+      ...(userId && { Order: { userId } }),
+    },
+  });
+}
+
+async function countPaymentsByCouponId(couponId: number) {
+  return prisma.payment.count({
+    where: {
+      couponId,
+    },
+  });
+}
+
+async function createCoupon({ ticketTypeIds, ...data }: CreateCouponParams) {
+  return prisma.coupon.create({
+    data: {
+      ...data,
+      TicketType: {
+        connect: ticketTypeIds.map((id) => ({ id })),
+      },
+    },
+    include: includeTicketTypeIds,
+  });
+}
+
+async function updateCoupon(couponId: number, { ticketTypeIds, ...data }: UpdateCouponParams) {
+  return prisma.coupon.update({
+    where: {
+      id: couponId,
+    },
+    data: {
+      ...data,
+      ...(ticketTypeIds && { TicketType: { set: ticketTypeIds.map((id) => ({ id })) } }),
+    },
+    include: includeTicketTypeIds,
+  });
+}
+
+async function deleteCoupon(couponId: number) {
+  return prisma.coupon.delete({
+    where: {
+      id: couponId,
+    },
+  });
+}
+
+export type CreateCouponParams = Omit<Coupon, "id" | "createdAt" | "updatedAt"> & {
+  ticketTypeIds: number[];
+}
+export type UpdateCouponParams = Partial<Omit<CreateCouponParams, "eventId">>
+
+const couponRepository = {
+  findCouponsByEventId,
+  findCouponById,
+  findCouponByCode,
+  countRedemptions,
+  countPaymentsByCouponId,
+  createCoupon,
+  updateCoupon,
+  deleteCoupon,
+};
+
+export default couponRepository;
@@ -0,0 +1,38 @@
+import { prisma } from "@/config";
+import { Prisma } from "@prisma/client";
+
+async function create(data: Prisma.EmailVerificationTokenUncheckedCreateInput) {
+  return prisma.emailVerificationToken.create({
+    data,
+  });
+}
+
+async function findByTokenHash(tokenHash: string) {
+  return prisma.emailVerificationToken.findUnique({
+    where: {
+      tokenHash,
+    },
+  });
+}
+
+async function markAsUsed(emailVerificationTokenId: number) {
+  const { count } = await prisma.emailVerificationToken.updateMany({
+    where: {
+      id: emailVerificationTokenId,
+      usedAt: null,
+    },
+    data: {
+      usedAt: new Date(),
+    },
+  });
+
+  return count > 0;
+}
+
+const emailVerificationTokenRepository = {
+  create,
+  findByTokenHash,
+  markAsUsed,
+};
+
+export default emailVerificationTokenRepository;
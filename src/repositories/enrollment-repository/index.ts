@@ -1,9 +1,9 @@
 import { prisma } from "@/config";
 import { Enrollment } from "@prisma/client";
 
-async function findWithAddressByUserId(userId: number) {
+async function findWithAddressByUserIdAndEventId(userId: number, eventId: number) {
   return prisma.enrollment.findFirst({
-    where: { userId },
+    where: { userId, eventId },
     include: {
       Address: true,
     },
@@ -18,12 +18,16 @@ async function findById(enrollmentId: number) {
 
 async function upsert(
   userId: number,
+  eventId: number,
   createdEnrollment: CreateEnrollmentParams,
   updatedEnrollment: UpdateEnrollmentParams,
 ) {
   return prisma.enrollment.upsert({
     where: {
-      userId,
+      userId_eventId: {
+        userId,
+        eventId,
+      },
     },
     create: createdEnrollment,
     update: updatedEnrollment,
@@ -31,10 +35,10 @@ async function upsert(
 }
 
 export type CreateEnrollmentParams = Omit<Enrollment, "id" | "createdAt" | "updatedAt">;
-export type UpdateEnrollmentParams = Omit<CreateEnrollmentParams, "userId">;
+export type UpdateEnrollmentParams = Omit<CreateEnrollmentParams, "userId" | "eventId">;
 
 const enrollmentRepository = {
-  findWithAddressByUserId,
+  findWithAddressByUserIdAndEventId,
   upsert,
   findById,
 };
@@ -1,11 +1,84 @@
 import { prisma } from "@/config";
+import { Event } from "@prisma/client";
 
-async function findFirst() {
-  return prisma.event.findFirst();
+async function findMany() {
+  return prisma.event.findMany({
+    orderBy: {
+      startsAt: "asc",
+    },
+  });
 }
 
+async function findById(eventId: number) {
+  return prisma.event.findUnique({
+    where: {
+      id: eventId,
+    },
+  });
+}
+
+async function findBySlug(slug: string) {
+  return prisma.event.findUnique({
+    where: {
+      slug,
+    },
+  });
+}
+
+async function findWithCountsById(eventId: number) {
+  return prisma.event.findUnique({
+    where: {
+      id: eventId,
+    },
+    include: {
+      _count: {
+        select: {
+          Enrollment: true,
+          TicketType: true,
+          Hotel: true,
+          Activity: true,
+          Merchandise: true,
+          Coupon: true,
+        },
+      },
+    },
+  });
+}
+
+async function create(data: CreateEventParams) {
+  return prisma.event.create({
+    data,
+  });
+}
+
+async function update(eventId: number, data: UpdateEventParams) {
+  return prisma.event.update({
+    where: {
+      id: eventId,
+    },
+    data,
+  });
+}
+
+async function deleteById(eventId: number) {
+  return prisma.event.delete({
+    where: {
+      id: eventId,
+    },
+  });
+}
+
+export type CreateEventParams = Omit<Event, "id" | "createdAt" | "updatedAt">;
+export type UpdateEventParams = Partial<CreateEventParams>;
+
 const eventRepository = {
-  findFirst,
+  findMany,
+  findById,
+  findBySlug,
+  findWithCountsById,
+  create,
+  update,
+  deleteById,
 };
 
 export default eventRepository;
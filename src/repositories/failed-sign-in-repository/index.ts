@@ -0,0 +1,14 @@
+import { prisma } from "@/config";
+import { Prisma } from "@prisma/client";
+
+async function create(data: Prisma.FailedSignInCreateInput) {
+  return prisma.failedSignIn.create({
+    data,
+  });
+}
+
+const failedSignInRepository = {
+  create,
+};
+
+export default failedSignInRepository;
@@ -1,13 +1,19 @@
 import { prisma } from "@/config";
+import { Hotel } from "@prisma/client";
 
-async function findHotels() {
-  return prisma.hotel.findMany();
+async function findHotels(eventId: number) {
+  return prisma.hotel.findMany({
+    where: {
+      eventId,
+    }
+  });
 }
 
-async function findRoomsByHotelId(hotelId: number) {
+async function findRoomsByHotelId(hotelId: number, eventId: number) {
   return prisma.hotel.findFirst({
     where: {
       id: hotelId,
+      eventId,
     },
     include: {
       Rooms: true,
@@ -15,9 +21,54 @@ async function findRoomsByHotelId(hotelId: number) {
   });
 }
 
+async function findWithRoomCountById(hotelId: number) {
+  return prisma.hotel.findUnique({
+    where: {
+      id: hotelId,
+    },
+    include: {
+      _count: {
+        select: {
+          Rooms: true,
+        }
+      }
+    }
+  });
+}
+
+async function create(data: CreateHotelParams) {
+  return prisma.hotel.create({
+    data,
+  });
+}
+
+async function update(hotelId: number, data: UpdateHotelParams) {
+  return prisma.hotel.update({
+    where: {
+      id: hotelId,
+    },
+    data,
+  });
+}
+
+async function deleteById(hotelId: number) {
+  return prisma.hotel.delete({
+    where: {
+      id: hotelId,
+    },
+  });
+}
+
+export type CreateHotelParams = Omit<Hotel, "id" | "createdAt" | "updatedAt">;
+export type UpdateHotelParams = Partial<Omit<CreateHotelParams, "eventId">>;
+
 const hotelRepository = {
   findHotels,
   findRoomsByHotelId,
+  findWithRoomCountById,
+  create,
+  update,
+  deleteById,
 };
 
 export default hotelRepository;
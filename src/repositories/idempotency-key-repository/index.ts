@@ -0,0 +1,52 @@
+import { prisma } from "@/config";
+import { IdempotencyKey, Prisma } from "@prisma/client";
+
+// Inserting with skipDuplicates lets concurrent retries race on the unique index instead of erroring
+async function createIfAbsent(data: CreateIdempotencyKeyParams): Promise<boolean> {
+  const { count } = await prisma.idempotencyKey.createMany({
+    data: [data],
+    skipDuplicates: true,
+  });
+
+  return count === 1;
+}
+
+async function findByUserIdAndKey(userId: number, key: string) {
+  return prisma.idempotencyKey.findUnique({
+    where: {
+      userId_key: { userId, key },
+    },
+  });
+}
+
+async function saveResponse(userId: number, key: string, responseStatus: number, responseBody?: Prisma.InputJsonValue) {
+  return prisma.idempotencyKey.update({
+    where: {
+      userId_key: { userId, key },
+    },
+    data: {
+      responseStatus,
+      responseBody,
+    },
+  });
+}
+
+async function deleteByUserIdAndKey(userId: number, key: string) {
+  return prisma.idempotencyKey.deleteMany({
+    where: {
+      userId,
+      key,
+    },
+  });
+}
+
+export type CreateIdempotencyKeyParams = Pick<IdempotencyKey, "userId" | "key" | "fingerprint" | "expiresAt">
+
+const idempotencyKeyRepository = {
+  createIfAbsent,
+  findByUserIdAndKey,
+  saveResponse,
+  deleteByUserIdAndKey,
+};
+
+export default idempotencyKeyRepository;
@@ -0,0 +1,148 @@
+import { prisma } from "@/config";
+import { LoginThrottle } from "@prisma/client";
+
+export type LoginThrottleState = Omit<LoginThrottle, "key">;
+
+// Failures are counted in a single step, so concurrent attempts cannot overwrite each other's count
+export type LoginThrottleStore = {
+  find(key: string): Promise<LoginThrottleState | null>;
+  registerFailure(key: string, failedAt: Date, windowStartedAt: Date): Promise<LoginThrottleState>;
+  lock(key: string, lockedUntil: Date): Promise<void>;
+  remove(key: string): Promise<void>;
+};
+
+// States are forgotten once their lock is over and their last failure is older than the retention, which should be
+// at least the failure window of the throttle; they are swept at most once a minute as new failures come in
+export function createMemoryLoginThrottleStore(retentionMinutes = 15): LoginThrottleStore {
+  const states = new Map<string, LoginThrottleState>();
+  let lastSweepAt = 0;
+
+  function isStale(state: LoginThrottleState, now: number) {
+    const lockEndsAt = state.lockedUntil?.getTime() ?? 0;
+    const retainedUntil = state.lastFailureAt.getTime() + retentionMinutes * 60 * 1000;
+
+    return Math.max(lockEndsAt, retainedUntil) <= now;
+  }
+
+  function sweep(now: number) {
+    if (now - lastSweepAt < 60 * 1000) return;
+
+    lastSweepAt = now;
+    states.forEach((state, key) => {
+      if (isStale(state, now)) states.delete(key);
+    });
+  }
+
+  return {
+    async find(key) {
+      return states.get(key) ?? null;
+    },
+    async registerFailure(key, failedAt, windowStartedAt) {
+      sweep(failedAt.getTime());
+
+      const state = states.get(key);
+      const isWithinWindow = state && state.lastFailureAt > windowStartedAt;
+      const registered = {
+        failures: isWithinWindow ? state.failures + 1 : 1,
+        lastFailureAt: failedAt,
+        lockedUntil: state?.lockedUntil ?? null,
+      };
+      states.set(key, registered);
+
+      return registered;
+    },
+    async lock(key, lockedUntil) {
+      const state = states.get(key);
+      if (state && (!state.lockedUntil || state.lockedUntil < lockedUntil)) {
+        states.set(key, { ...state, lockedUntil });
+      }
+    },
+    async remove(key) {
+      states.delete(key);
+    },
+  };
+}
+
+export const postgresLoginThrottleStore: LoginThrottleStore = {
+  async find(key) {
+    return prisma.loginThrottle.findUnique({
+      where: {
+        key,
+      },
+    });
+  },
+  async registerFailure(key, failedAt, windowStartedAt) {
+    const [state] = await prisma.$queryRaw<LoginThrottleState[]>`
+      INSERT INTO "LoginThrottle" ("key", "failures", "lastFailureAt")
+      VALUES (${key}, 1, ${failedAt}::timestamp(3))
+      ON CONFLICT ("key") DO UPDATE SET
+        "failures" = CASE
+          WHEN "LoginThrottle"."lastFailureAt" > ${windowStartedAt}::timestamp(3) THEN "LoginThrottle"."failures" + 1
+          ELSE 1
+        END,
+        "lastFailureAt" = ${failedAt}::timestamp(3)
+      RETURNING "failures", "lastFailureAt", "lockedUntil"
+    `;
+
+    return state;
+  },
+  // A lock is only ever extended, so a shorter one decided by an earlier failure cannot replace it
+  async lock(key, lockedUntil) {
+    await prisma.loginThrottle.updateMany({
+      where: {
+        key,
+        OR: [{ lockedUntil: null }, { lockedUntil: { lt: lockedUntil } }],
+      },
+      data: {
+        lockedUntil,
+      },
+    });
+  },
+  async remove(key) {
+    await prisma.loginThrottle.deleteMany({
+      where: {
+        key,
+      },
+    });
+  },
+};
+
+let store: LoginThrottleStore;
+
+export function setLoginThrottleStore(newStore: LoginThrottleStore) {
+  store = newStore;
+}
+
+// The in-process store is enough for a single instance; set LOGIN_THROTTLE_STORE=postgres when running several
+function getStore() {
+  if (!store) {
+    store = process.env.LOGIN_THROTTLE_STORE === "postgres" ? postgresLoginThrottleStore : createMemoryLoginThrottleStore();
+  }
+
+  return store;
+}
+
+async function find(key: string) {
+  return getStore().find(key);
+}
+
+async function registerFailure(key: string, failedAt: Date, windowStartedAt: Date) {
+  return getStore().registerFailure(key, failedAt, windowStartedAt);
+}
+
+async function lock(key: string, lockedUntil: Date) {
+  return getStore().lock(key, lockedUntil);
+}
+
+async function remove(key: string) {
+  return getStore().remove(key);
+}
+
+const loginThrottleRepository = {
+  find,
+  registerFailure,
+  lock,
+  remove,
+};
+
+export default loginThrottleRepository;
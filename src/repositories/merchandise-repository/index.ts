@@ -0,0 +1,66 @@
+import { prisma } from "@/config";
+import { Merchandise } from "@prisma/client";
+
+async function findMerchandiseByEventId(eventId: number) {
+  return prisma.merchandise.findMany({
+    where: {
+      eventId,
+    },
+    orderBy: {
+      id: "asc",
+    },
+  });
+}
+
+async function findMerchandiseById(merchandiseId: number) {
+  return prisma.merchandise.findUnique({
+    where: {
+      id: merchandiseId,
+    },
+  });
+}
+
+async function createMerchandise(data: CreateMerchandiseParams) {
+  return prisma.merchandise.create({
+    data,
+  });
+}
+
+async function updateMerchandise(merchandiseId: number, data: UpdateMerchandiseParams) {
+  return prisma.merchandise.update({
+    where: {
+      id: merchandiseId,
+    },
+    data,
+  });
+}
+
+async function deleteMerchandise(merchandiseId: number) {
+  return prisma.merchandise.delete({
+    where: {
+      id: merchandiseId,
+    },
+  });
+}
+
+async function countOrderItemsByMerchandiseId(merchandiseId: number) {
+  return prisma.orderItem.count({
+    where: {
+      merchandiseId,
+    },
+  });
+}
+
+export type CreateMerchandiseParams = Omit<Merchandise, "id" | "createdAt" | "updatedAt">
+export type UpdateMerchandiseParams = Partial<Omit<CreateMerchandiseParams, "eventId">>
+
+const merchandiseRepository = {
+  findMerchandiseByEventId,
+  findMerchandiseById,
+  createMerchandise,
+  updateMerchandise,
+  deleteMerchandise,
+  countOrderItemsByMerchandiseId,
+};
+
+export default merchandiseRepository;
@@ -0,0 +1,29 @@
+import { prisma } from "@/config";
+import { OAuthProvider, Prisma } from "@prisma/client";
+
+async function findByProviderAccount(provider: OAuthProvider, providerAccountId: string) {
+  return prisma.oAuthAccount.findUnique({
+    where: {
+      provider_providerAccountId: {
+        provider,
+        providerAccountId,
+      },
+    },
+    include: {
+      User: true,
+    },
+  });
+}
+
+async function create(data: Prisma.OAuthAccountUncheckedCreateInput) {
+  return prisma.oAuthAccount.create({
+    data,
+  });
+}
+
+const oauthAccountRepository = {
+  findByProviderAccount,
+  create,
+};
+
+export default oauthAccountRepository;
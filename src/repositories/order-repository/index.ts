@@ -0,0 +1,273 @@
+import { prisma } from "@/config";
+import { Order, OrderItem, OrderItemType, OrderStatus, PaymentStatus, TicketStatus } from "@prisma/client";
+
+async function createOrder(order: CreateOrderParams, items: CreateOrderItemParams[]) {
+  return prisma.order.create({
+    data: {
+      ...order,
+      OrderItem: {
+        create: items,
+      },
+    },
+    include: {
+      OrderItem: {
+        orderBy: {
+          id: "asc",
+        },
+      },
+    },
+  });
+}
+
+async function findOrderById(orderId: number) {
+  return prisma.order.findUnique({
+    where: {
+      id: orderId,
+    },
+    include: {
+      OrderItem: {
+        orderBy: {
+          id: "asc",
+        },
+      },
+    },
+  });
+}
+
+async function findOrderItemByTicketId(ticketId: number, type: OrderItemType) {
+  return prisma.orderItem.findFirst({
+    where: {
+      ticketId,
+      type,
+    },
+    include: {
+      Order: true,
+    },
+  });
+}
+
+// Expired and refunded orders no longer hold their items, so the ticket can be ordered again
+async function findOpenOrderItemByTicketId(ticketId: number, type: OrderItemType) {
+  return prisma.orderItem.findFirst({
+    where: {
+      ticketId,
+      type,
+      Order: {
+        status: { in: [OrderStatus.PENDING, OrderStatus.PAID] },
+      },
+    },
+    include: {
+      Order: true,
+    },
+  });
+}
+
+// Settles a captured payment. Resolves to null when the order was no longer pending, so it is never paid twice
+async function payOrder(orderId: number, paymentId: number) {
+  const { count } = await prisma.order.updateMany({
+    where: {
+      id: orderId,
+      status: OrderStatus.PENDING,
+    },
+    data: {
+      status: OrderStatus.PAID,
+    },
+  });
+  if (count === 0) return null;
+
+  const order = await findOrderById(orderId);
+  const ticketIdsOf = (type: OrderItemType) =>
+    order.OrderItem.filter((item) => item.type === type).map((item) => item.ticketId);
+
+  try {
+    const [payment] = await prisma.$transaction([
+      prisma.payment.update({
+        where: {
+          id: paymentId,
+        },
+        data: {
+          status: PaymentStatus.CAPTURED,
+        },
+      }),
+      prisma.ticket.updateMany({
+        where: {
+          id: { in: ticketIdsOf(OrderItemType.TICKET) },
+          status: TicketStatus.RESERVED,
+        },
+        data: {
+          status: TicketStatus.PAID,
+        },
+      }),
+      prisma.ticket.updateMany({
+        where: {
+          id: { in: ticketIdsOf(OrderItemType.HOTEL_UPGRADE) },
+        },
+        data: {
+          hasHotelUpgrade: true,
+        },
+      }),
+    ]);
+
+    return payment;
+  } catch (error) {
+    await prisma.order.update({
+      where: {
+        id: orderId,
+      },
+      data: {
+        status: OrderStatus.PENDING,
+      },
+    });
+    throw error;
+  }
+}
+
+async function findItemsByTicketIdAndOrderStatus(ticketId: number, status: OrderStatus) {
+  return prisma.orderItem.findMany({
+    where: {
+      ticketId,
+      Order: {
+        status,
+      },
+    },
+    include: {
+      Order: {
+        include: {
+          Payment: {
+            where: {
+              status: PaymentStatus.CAPTURED,
+            },
+          },
+        },
+      },
+    },
+  });
+}
+
+// Applies a full refund the provider reports on its own, releasing everything the order paid for
+async function refundOrder(orderId: number, paymentId: number, amount: number) {
+  const order = await findOrderById(orderId);
+  const ticketIdsOf = (type: OrderItemType) =>
+    order.OrderItem.filter((item) => item.type === type).map((item) => item.ticketId);
+
+  const [payment] = await prisma.$transaction([
+    prisma.payment.update({
+      where: {
+        id: paymentId,
+      },
+      data: {
+        status: PaymentStatus.REFUNDED,
+      },
+    }),
+    prisma.refund.create({
+      data: {
+        paymentId,
+        amount,
+      },
+    }),
+    prisma.order.update({
+      where: {
+        id: orderId,
+      },
+      data: {
+        status: OrderStatus.REFUNDED,
+      },
+    }),
+    prisma.ticket.updateMany({
+      where: {
+        id: { in: ticketIdsOf(OrderItemType.TICKET) },
+        status: TicketStatus.PAID,
+      },
+      data: {
+        status: TicketStatus.REFUNDED,
+        cancelledAt: new Date(),
+      },
+    }),
+    prisma.ticket.updateMany({
+      where: {
+        id: { in: ticketIdsOf(OrderItemType.HOTEL_UPGRADE) },
+      },
+      data: {
+        hasHotelUpgrade: false,
+      },
+    }),
+  ]);
+
+  return payment;
+}
+
+// Drops an order nobody is paying for anymore; resolves to null when it was settled meanwhile
+async function expirePendingOrder(orderId: number) {
+  const { count } = await prisma.order.updateMany({
+    where: {
+      id: orderId,
+      status: OrderStatus.PENDING,
+      Payment: {
+        none: { status: PaymentStatus.PENDING },
+      },
+    },
+    data: {
+      status: OrderStatus.EXPIRED,
+    },
+  });
+
+  return count > 0 ? findOrderById(orderId) : null;
+}
+
+// Gives back the tickets held by an order whose payment never arrived; returns null if it was paid meanwhile
+async function expireOrder(orderId: number, paymentId: number) {
+  const { count } = await prisma.payment.updateMany({
+    where: {
+      id: paymentId,
+      status: PaymentStatus.PENDING,
+    },
+    data: {
+      status: PaymentStatus.EXPIRED,
+    },
+  });
+  if (count === 0) return null;
+
+  const order = await findOrderById(orderId);
+  const ticketIds = order.OrderItem.filter((item) => item.type === OrderItemType.TICKET).map((item) => item.ticketId);
+
+  const [expiredOrder] = await prisma.$transaction([
+    prisma.order.update({
+      where: {
+        id: orderId,
+      },
+      data: {
+        status: OrderStatus.EXPIRED,
+      },
+    }),
+    prisma.ticket.updateMany({
+      where: {
+        id: { in: ticketIds },
+        status: TicketStatus.RESERVED,
+      },
+      data: {
+        status: TicketStatus.CANCELLED,
+        claimTokenHash: null,
+        cancelledAt: new Date(),
+      },
+    }),
+  ]);
+
+  return expiredOrder;
+}
+
+export type CreateOrderParams = Pick<Order, "userId" | "eventId" | "total">
+export type CreateOrderItemParams = Omit<OrderItem, "id" | "orderId" | "createdAt" | "updatedAt">
+
+const orderRepository = {
+  createOrder,
+  findOrderById,
+  findOrderItemByTicketId,
+  findOpenOrderItemByTicketId,
+  payOrder,
+  expirePendingOrder,
+  findItemsByTicketIdAndOrderStatus,
+  refundOrder,
+  expireOrder,
+};
+
+export default orderRepository;
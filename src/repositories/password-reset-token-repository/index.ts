@@ -0,0 +1,51 @@
+import { prisma } from "@/config";
+import { Prisma } from "@prisma/client";
+
+async function create(data: Prisma.PasswordResetTokenUncheckedCreateInput) {
+  return prisma.passwordResetToken.create({
+    data,
+  });
+}
+
+async function findByTokenHash(tokenHash: string) {
+  return prisma.passwordResetToken.findUnique({
+    where: {
+      tokenHash,
+    },
+  });
+}
+
+async function markAsUsed(passwordResetTokenId: number) {
+  const { count } = await prisma.passwordResetToken.updateMany({
+    where: {
+      id: passwordResetTokenId,
+      usedAt: null,
+    },
+    data: {
+      usedAt: new Date(),
+    },
+  });
+
+  return count > 0;
+}
+
+async function markAllAsUsedByUserId(userId: number) {
+  return prisma.passwordResetToken.updateMany({
+    where: {
+      userId,
+      usedAt: null,
+    },
+    data: {
+      usedAt: new Date(),
+    },
+  });
+}
+
+const passwordResetTokenRepository = {
+  create,
+  findByTokenHash,
+  markAsUsed,
+  markAllAsUsedByUserId,
+};
+
+export default passwordResetTokenRepository;
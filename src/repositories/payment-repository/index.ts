@@ -1,28 +1,178 @@
 import { prisma } from "@/config";
-import { Payment } from "@prisma/client";
+import { Payment, PaymentInstallment, PaymentMethod, PaymentStatus, Prisma } from "@prisma/client";
 
-async function findPaymentByTicketId(ticketId: number) {
+// Payments still in progress hold their coupon redemption, as settled ones do
+const couponRedeemingStatuses: PaymentStatus[] = [
+  PaymentStatus.PENDING,
+  PaymentStatus.AUTHORIZED,
+  PaymentStatus.CAPTURED,
+];
+
+async function findPaymentById(paymentId: number) {
+  return prisma.payment.findUnique({
+    where: {
+      id: paymentId,
+    },
+  });
+}
+
+async function findPaymentByOrderId(orderId: number) {
   return prisma.payment.findFirst({
     where: {
-      ticketId,
-    }
+      orderId,
+    },
+    include: {
+      PaymentInstallment: {
+        orderBy: {
+          number: "asc",
+        },
+      },
+    },
+    orderBy: {
+      id: "desc",
+    },
   });
 }
 
-async function createPayment(ticketId: number, params: PaymentParams) {
-  return prisma.payment.create({
+async function findActivePaymentByOrderId(orderId: number) {
+  return prisma.payment.findFirst({
+    where: {
+      orderId,
+      status: { in: [PaymentStatus.PENDING, PaymentStatus.AUTHORIZED, PaymentStatus.CAPTURED] },
+    },
+  });
+}
+
+// PIX charges left unpaid past their expiration stop blocking the order from being paid again
+// Without an order, every overdue PIX charge is expired
+async function expireOverduePixPayments(orderId?: number) {
+  return prisma.payment.updateMany({
+    where: {
+      ...(orderId && { orderId }),
+      method: PaymentMethod.PIX,
+      status: PaymentStatus.PENDING,
+      expiresAt: { lt: new Date() },
+    },
     data: {
-      ticketId,
-      ...params,
-    }
+      status: PaymentStatus.EXPIRED,
+    },
+  });
+}
+
+async function findOverduePayments(method: PaymentMethod) {
+  return prisma.payment.findMany({
+    where: {
+      method,
+      status: PaymentStatus.PENDING,
+      expiresAt: { lt: new Date() },
+    },
+    orderBy: {
+      expiresAt: "asc",
+    },
+  });
+}
+
+async function findPaymentByGatewayTransactionId(gatewayTransactionId: string) {
+  return prisma.payment.findUnique({
+    where: {
+      gatewayTransactionId,
+    },
+  });
+}
+
+async function createPayment(data: CreatePaymentParams) {
+  return prisma.payment.create({
+    data,
+  });
+}
+
+// Locking the coupon row makes concurrent checkouts with it wait for each other, so the redemptions counted in the
+// insert are the ones that really exist; nothing is inserted once a limit is reached
+async function createPaymentWithinCouponLimits(data: CreatePaymentParams, userId: number): Promise<Payment | null> {
+  const redeemingStatuses = Prisma.join(
+    couponRedeemingStatuses.map((status) => Prisma.sql`${status}::"PaymentStatus"`),
+  );
+
+  const [, [createdPayment]] = await prisma.$transaction([
+    prisma.$queryRaw`SELECT "id" FROM "Coupon" WHERE "id" = ${data.couponId} FOR UPDATE`,
+    prisma.$queryRaw<Payment[]>`
+      INSERT INTO "Payment" (
+        "orderId", "value", "installments", "interestAmount", "couponId", "discountAmount", "method",
+        "cardIssuer", "cardLastDigits", "expiresAt", "updatedAt"
+      )
+      SELECT
+        ${data.orderId}::int, ${data.value}::int, ${data.installments ?? 1}::int, ${data.interestAmount ?? 0}::int,
+        "Coupon"."id", ${data.discountAmount ?? 0}::int, ${data.method ?? PaymentMethod.CREDIT_CARD}::"PaymentMethod",
+        ${data.cardIssuer ?? null}, ${data.cardLastDigits ?? null}, ${data.expiresAt ?? null}::timestamp(3),
+        CURRENT_TIMESTAMP
+      FROM "Coupon"
+      WHERE "Coupon"."id" = ${data.couponId}
+        AND (
+          "Coupon"."maxUses" IS NULL OR "Coupon"."maxUses" > (
+            SELECT COUNT(*) FROM "Payment" AS "Redemption"
+            WHERE "Redemption"."couponId" = "Coupon"."id" AND "Redemption"."status" IN (${redeemingStatuses})
+          )
+        )
+        AND (
+          "Coupon"."maxUsesPerUser" IS NULL OR "Coupon"."maxUsesPerUser" > (
+            SELECT COUNT(*) FROM "Payment" AS "Redemption"
+            JOIN "Order" ON "Order"."id" = "Redemption"."orderId"
+            WHERE "Redemption"."couponId" = "Coupon"."id" AND "Redemption"."status" IN (${redeemingStatuses})
+              AND "Order"."userId" = ${userId}
+          )
+        )
+      RETURNING *
+    `,
+  ]);
+
+  return createdPayment ?? null;
+}
+
+async function createPaymentInstallments(paymentId: number, installments: CreatePaymentInstallmentParams[]) {
+  return prisma.paymentInstallment.createMany({
+    data: installments.map((installment) => ({ ...installment, paymentId })),
+  });
+}
+
+async function updatePayment(paymentId: number, data: UpdatePaymentParams) {
+  return prisma.payment.update({
+    where: {
+      id: paymentId,
+    },
+    data,
   });
 }
 
-export type PaymentParams = Omit<Payment, "id" | "createdAt" | "updatedAt">
+export type CreatePaymentParams = Pick<Payment, "orderId" | "value"> &
+  Partial<
+    Pick<
+      Payment,
+      | "installments"
+      | "interestAmount"
+      | "couponId"
+      | "discountAmount"
+      | "method"
+      | "cardIssuer"
+      | "cardLastDigits"
+      | "expiresAt"
+    >
+  >
+export type CreatePaymentInstallmentParams = Pick<PaymentInstallment, "number" | "amount" | "dueDate">
+export type UpdatePaymentParams = Partial<
+  Pick<Payment, "status" | "gatewayTransactionId" | "failureReason" | "pixCode" | "boletoBarcode" | "boletoDigitableLine">
+>
 
 const paymentRepository = {
-  findPaymentByTicketId,
+  findPaymentById,
+  findPaymentByOrderId,
+  findActivePaymentByOrderId,
+  expireOverduePixPayments,
+  findOverduePayments,
+  findPaymentByGatewayTransactionId,
   createPayment,
+  createPaymentWithinCouponLimits,
+  createPaymentInstallments,
+  updatePayment,
 };
 
 export default paymentRepository;
@@ -0,0 +1,32 @@
+import { prisma } from "@/config";
+import { PaymentWebhookEvent, Prisma } from "@prisma/client";
+
+// Resolves to false when the provider already delivered this event
+async function createIfAbsent(data: CreatePaymentWebhookEventParams): Promise<boolean> {
+  const { count } = await prisma.paymentWebhookEvent.createMany({
+    data: [data],
+    skipDuplicates: true,
+  });
+
+  return count === 1;
+}
+
+async function deleteByProviderEventId(provider: string, providerEventId: string) {
+  return prisma.paymentWebhookEvent.deleteMany({
+    where: {
+      provider,
+      providerEventId,
+    },
+  });
+}
+
+export type CreatePaymentWebhookEventParams = Pick<PaymentWebhookEvent, "provider" | "providerEventId" | "type"> & {
+  payload: Prisma.InputJsonValue;
+};
+
+const paymentWebhookEventRepository = {
+  createIfAbsent,
+  deleteByProviderEventId,
+};
+
+export default paymentWebhookEventRepository;
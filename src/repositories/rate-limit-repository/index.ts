@@ -0,0 +1,93 @@
+import { prisma } from "@/config";
+import { Prisma, RateLimitBucket } from "@prisma/client";
+
+export type RateLimitConsumeResult = Pick<RateLimitBucket, "tokens" | "allowed">;
+
+export type RateLimitStore = {
+  consume(key: string, capacity: number, refillPerSecond: number): Promise<RateLimitConsumeResult>;
+  removeIdleBuckets(idleSince: Date): Promise<void>;
+};
+
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const buckets = new Map<string, { tokens: number; updatedAt: number }>();
+
+  return {
+    async consume(key, capacity, refillPerSecond) {
+      const now = Date.now();
+      const bucket = buckets.get(key);
+      const refilled = bucket
+        ? Math.min(capacity, bucket.tokens + ((now - bucket.updatedAt) / 1000) * refillPerSecond)
+        : capacity;
+
+      const allowed = refilled >= 1;
+      const tokens = allowed ? refilled - 1 : refilled;
+      buckets.set(key, { tokens, updatedAt: now });
+
+      return { tokens, allowed };
+    },
+    async removeIdleBuckets(idleSince) {
+      buckets.forEach((bucket, key) => {
+        if (bucket.updatedAt < idleSince.getTime()) buckets.delete(key);
+      });
+    },
+  };
+}
+
+// Refill and take happen in a single upsert so instances sharing the database can't both spend the same token
+export const postgresRateLimitStore: RateLimitStore = {
+  async consume(key, capacity, refillPerSecond) {
+    const refilled = Prisma.sql`LEAST(
+      ${capacity}::float8,
+      "RateLimitBucket"."tokens" +
+        EXTRACT(EPOCH FROM (now() - "RateLimitBucket"."updatedAt")) * ${refillPerSecond}::float8
+    )`;
+
+    const [bucket] = await prisma.$queryRaw<RateLimitConsumeResult[]>`
+      INSERT INTO "RateLimitBucket" ("key", "tokens", "allowed", "updatedAt")
+      VALUES (${key}, ${capacity - 1}::float8, true, now())
+      ON CONFLICT ("key") DO UPDATE SET
+        "tokens" = CASE WHEN ${refilled} >= 1 THEN ${refilled} - 1 ELSE ${refilled} END,
+        "allowed" = ${refilled} >= 1,
+        "updatedAt" = now()
+      RETURNING "tokens", "allowed"
+    `;
+
+    return bucket;
+  },
+  async removeIdleBuckets(idleSince) {
+    await prisma.rateLimitBucket.deleteMany({
+      where: {
+        updatedAt: { lt: idleSince },
+      },
+    });
+  },
+};
+
+let store: RateLimitStore;
+
+export function setRateLimitStore(newStore: RateLimitStore) {
+  store = newStore;
+}
+
+function getStore() {
+  if (!store) {
+    store = process.env.RATE_LIMIT_STORE === "postgres" ? postgresRateLimitStore : createMemoryRateLimitStore();
+  }
+
+  return store;
+}
+
+async function consume(key: string, capacity: number, refillPerSecond: number) {
+  return getStore().consume(key, capacity, refillPerSecond);
+}
+
+async function removeIdleBuckets(idleSince: Date) {
+  return getStore().removeIdleBuckets(idleSince);
+}
+
+const rateLimitRepository = {
+  consume,
+  removeIdleBuckets,
+};
+
+export default rateLimitRepository;
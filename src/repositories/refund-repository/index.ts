@@ -0,0 +1,30 @@
+import { prisma } from "@/config";
+import { Refund } from "@prisma/client";
+
+async function createRefund(data: CreateRefundParams) {
+  return prisma.refund.create({
+    data,
+  });
+}
+
+async function sumAmountByPaymentId(paymentId: number): Promise<number> {
+  const { _sum } = await prisma.refund.aggregate({
+    where: {
+      paymentId,
+    },
+    _sum: {
+      amount: true,
+    },
+  });
+
+  return _sum.amount ?? 0;
+}
+
+export type CreateRefundParams = Pick<Refund, "paymentId" | "ticketId" | "amount">
+
+const refundRepository = {
+  createRefund,
+  sumAmountByPaymentId,
+};
+
+export default refundRepository;
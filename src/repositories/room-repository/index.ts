@@ -1,4 +1,5 @@
 import { prisma } from "@/config";
+import { Room } from "@prisma/client";
 
 async function findRoomById(roomId: number) {
   return prisma.room.findUnique({
@@ -8,6 +9,58 @@ async function findRoomById(roomId: number) {
   });
 }
 
-const roomRepository = { findRoomById };
+async function findRoomsByHotelId(hotelId: number) {
+  return prisma.room.findMany({
+    where: {
+      hotelId
+    }
+  });
+}
+
+async function findRoomByIdAndEventId(roomId: number, eventId: number) {
+  return prisma.room.findFirst({
+    where: {
+      id: roomId,
+      Hotel: {
+        eventId
+      }
+    }
+  });
+}
+
+async function create(data: CreateRoomParams) {
+  return prisma.room.create({
+    data
+  });
+}
+
+async function update(roomId: number, data: UpdateRoomParams) {
+  return prisma.room.update({
+    where: {
+      id: roomId
+    },
+    data
+  });
+}
+
+async function deleteById(roomId: number) {
+  return prisma.room.delete({
+    where: {
+      id: roomId
+    }
+  });
+}
+
+export type CreateRoomParams = Omit<Room, "id" | "createdAt" | "updatedAt">;
+export type UpdateRoomParams = Partial<Omit<CreateRoomParams, "hotelId">>;
+
+const roomRepository = {
+  findRoomById,
+  findRoomsByHotelId,
+  findRoomByIdAndEventId,
+  create,
+  update,
+  deleteById
+};
 
 export default roomRepository;
@@ -7,8 +7,72 @@ async function create(data: Prisma.SessionUncheckedCreateInput) {
   });
 }
 
+async function findById(sessionId: number) {
+  return prisma.session.findUnique({
+    where: {
+      id: sessionId,
+    },
+  });
+}
+
+async function findByRefreshTokenHash(refreshTokenHash: string) {
+  return prisma.session.findUnique({
+    where: {
+      refreshTokenHash,
+    },
+  });
+}
+
+async function findManyByUserId(userId: number) {
+  return prisma.session.findMany({
+    where: {
+      userId,
+      rotatedAt: null,
+    },
+    orderBy: {
+      createdAt: "desc",
+    },
+  });
+}
+
+async function markAsRotated(sessionId: number) {
+  const { count } = await prisma.session.updateMany({
+    where: {
+      id: sessionId,
+      rotatedAt: null,
+    },
+    data: {
+      rotatedAt: new Date(),
+    },
+  });
+
+  return count > 0;
+}
+
+async function deleteManyByFamilyId(familyId: string) {
+  return prisma.session.deleteMany({
+    where: {
+      familyId,
+    },
+  });
+}
+
+async function deleteManyByUserId(userId: number) {
+  return prisma.session.deleteMany({
+    where: {
+      userId,
+    },
+  });
+}
+
 const sessionRepository = {
   create,
+  findById,
+  findByRefreshTokenHash,
+  findManyByUserId,
+  markAsRotated,
+  deleteManyByFamilyId,
+  deleteManyByUserId,
 };
 
 export default sessionRepository;
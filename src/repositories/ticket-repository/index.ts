@@ -1,8 +1,91 @@
 import { prisma } from "@/config";
-import { Ticket, TicketStatus } from "@prisma/client";
+import { OrderStatus, PaymentStatus, Prisma, Ticket, TicketStatus, TicketType } from "@prisma/client";
 
-async function findTicketTypes() {
-  return prisma.ticketType.findMany();
+// Reserved tickets hold their place until paid or cancelled, so they count against the limits as paid ones do
+const stockHoldingStatuses: TicketStatus[] = [TicketStatus.RESERVED, TicketStatus.PAID];
+
+async function findTicketTypes(eventId: number) {
+  return prisma.ticketType.findMany({
+    where: {
+      eventId,
+    }
+  });
+}
+
+async function findTicketTypeById(ticketTypeId: number) {
+  return prisma.ticketType.findUnique({
+    where: {
+      id: ticketTypeId,
+    }
+  });
+}
+
+async function findTicketTypesByTicketIds(ticketIds: number[]) {
+  return prisma.ticketType.findMany({
+    where: {
+      Ticket: {
+        some: {
+          id: { in: ticketIds },
+        },
+      },
+    },
+  });
+}
+
+async function createTicketType(data: CreateTicketTypeParams) {
+  return prisma.ticketType.create({
+    data,
+  });
+}
+
+async function updateTicketType(ticketTypeId: number, data: UpdateTicketTypeParams) {
+  return prisma.ticketType.update({
+    where: {
+      id: ticketTypeId,
+    },
+    data,
+  });
+}
+
+async function deleteTicketType(ticketTypeId: number) {
+  return prisma.ticketType.delete({
+    where: {
+      id: ticketTypeId,
+    },
+  });
+}
+
+async function countTicketsByTicketTypeId(ticketTypeId: number) {
+  return prisma.ticket.count({
+    where: {
+      ticketTypeId,
+    },
+  });
+}
+
+async function countStockHoldingTicketsByTicketTypeIds(ticketTypeIds: number[]) {
+  return prisma.ticket.groupBy({
+    by: ["ticketTypeId"],
+    where: {
+      ticketTypeId: { in: ticketTypeIds },
+      status: { in: stockHoldingStatuses },
+    },
+    _count: {
+      _all: true,
+    },
+  });
+}
+
+async function countStockHoldingTicketsByBuyer(ticketTypeId: number, userId: number) {
+  return prisma.ticket.count({
+    where: {
+      ticketTypeId,
+      status: { in: stockHoldingStatuses },
+      Enrollment: {
+        userId,
+      },
+    },
+  });
 }
 
 async function findTickeyById(ticketId: number) {
@@ -12,6 +95,7 @@ async function findTickeyById(ticketId: number) {
     },
     include: {
       Enrollment: true,
+      TicketType: true,
     }
   });
 }
@@ -26,45 +110,231 @@ async function findTickeWithTypeById(ticketId: number) {
   });
 }
 
-async function findTicketByEnrollmentId(enrollmentId: number) {
-  return prisma.ticket.findFirst({
+async function findTicketsByIds(ticketIds: number[]) {
+  return prisma.ticket.findMany({
+    where: {
+      id: { in: ticketIds },
+    },
+  });
+}
+
+async function findTicketsByEnrollmentId(enrollmentId: number) {
+  return prisma.ticket.findMany({
     where: {
       enrollmentId,
     },
     include: {
-      TicketType: true, //inner join
-    }
+      TicketType: true,
+    },
+    orderBy: {
+      id: "asc",
+    },
+  });
+}
+
+// Cancelled and refunded tickets no longer grant access, so they are left out
+async function findTicketByAttendeeUserIdAndEventId(attendeeUserId: number, eventId: number) {
+  return prisma.ticket.findFirst({
+    where: {
+      attendeeUserId,
+      status: { in: [TicketStatus.RESERVED, TicketStatus.PAID] },
+      TicketType: {
+        eventId,
+      },
+    },
+    include: {
+      TicketType: true,
+    },
+  });
+}
+
+async function findTicketByClaimTokenHash(claimTokenHash: string) {
+  return prisma.ticket.findUnique({
+    where: {
+      claimTokenHash,
+    },
+    include: {
+      TicketType: true,
+    },
   });
 }
 
-async function createTicket(ticket: CreateTicketParams) {
-  return prisma.ticket.create({
+async function updateTicketAttendee(ticketId: number, data: UpdateTicketAttendeeParams) {
+  return prisma.ticket.update({
+    where: {
+      id: ticketId,
+    },
+    data,
+  });
+}
+
+async function changeTicketType(ticketId: number, ticketTypeId: number) {
+  return prisma.ticket.update({
+    where: {
+      id: ticketId,
+    },
     data: {
-      ...ticket,
-    }
+      ticketTypeId,
+    },
   });
 }
 
-async function ticketProcessPayment(ticketId: number) {
+async function cancelTicket(ticketId: number, status: CancelledTicketStatus) {
   return prisma.ticket.update({
     where: {
       id: ticketId,
     },
     data: {
-      status: TicketStatus.PAID,
-    }
+      status,
+      hasHotelUpgrade: false,
+      claimTokenHash: null,
+      cancelledAt: new Date(),
+    },
   });
 }
 
-export type CreateTicketParams = Omit<Ticket, "id" | "createdAt" | "updatedAt">
+// Whether "TicketType" still has room for one more of the buyer's tickets; only sound while its row is locked
+function ticketTypeHasRoomFor(buyerUserId: number) {
+  const holdingStatuses = Prisma.join(stockHoldingStatuses.map((status) => Prisma.sql`${status}::"TicketStatus"`));
+
+  return Prisma.sql`
+    (
+      "TicketType"."stock" IS NULL OR "TicketType"."stock" > (
+        SELECT COUNT(*) FROM "Ticket" AS "HeldTicket"
+        WHERE "HeldTicket"."ticketTypeId" = "TicketType"."id" AND "HeldTicket"."status" IN (${holdingStatuses})
+      )
+    )
+    AND (
+      "TicketType"."maxPerUser" IS NULL OR "TicketType"."maxPerUser" > (
+        SELECT COUNT(*) FROM "Ticket" AS "HeldTicket"
+        JOIN "Enrollment" ON "Enrollment"."id" = "HeldTicket"."enrollmentId"
+        WHERE "HeldTicket"."ticketTypeId" = "TicketType"."id" AND "HeldTicket"."status" IN (${holdingStatuses})
+          AND "Enrollment"."userId" = ${buyerUserId}
+      )
+    )
+  `;
+}
+
+function lockTicketType(ticketTypeId: number) {
+  return prisma.$queryRaw`SELECT "id" FROM "TicketType" WHERE "id" = ${ticketTypeId} FOR UPDATE`;
+}
+
+// Locking the ticket type row makes concurrent purchases of it wait for each other, so the counts in the insert
+// always see tickets just bought; nothing is inserted when the stock or the buyer's limit would be exceeded
+async function createTicketWithinLimits(ticket: CreateTicketParams, buyerUserId: number): Promise<Ticket | null> {
+  const [, [createdTicket]] = await prisma.$transaction([
+    lockTicketType(ticket.ticketTypeId),
+    prisma.$queryRaw<Ticket[]>`
+      INSERT INTO "Ticket" (
+        "ticketTypeId", "enrollmentId", "status", "attendeeName", "attendeeCpf", "attendeeEmail",
+        "attendeeUserId", "claimTokenHash", "reservedUntil", "updatedAt"
+      )
+      SELECT
+        "TicketType"."id", ${ticket.enrollmentId}::int, ${ticket.status}::"TicketStatus", ${ticket.attendeeName},
+        ${ticket.attendeeCpf}, ${ticket.attendeeEmail}, ${ticket.attendeeUserId}::int, ${ticket.claimTokenHash},
+        ${ticket.reservedUntil}::timestamp(3), CURRENT_TIMESTAMP
+      FROM "TicketType"
+      WHERE "TicketType"."id" = ${ticket.ticketTypeId} AND ${ticketTypeHasRoomFor(buyerUserId)}
+      RETURNING *
+    `,
+  ]);
+
+  return createdTicket ?? null;
+}
+
+// Moving a ticket takes a unit of the new type just as buying one does, under the same lock and limits
+async function changeTicketTypeWithinLimits(
+  ticketId: number,
+  ticketTypeId: number,
+  buyerUserId: number,
+): Promise<Ticket | null> {
+  const [, [changedTicket]] = await prisma.$transaction([
+    lockTicketType(ticketTypeId),
+    prisma.$queryRaw<Ticket[]>`
+      UPDATE "Ticket"
+      SET "ticketTypeId" = "TicketType"."id", "updatedAt" = CURRENT_TIMESTAMP
+      FROM "TicketType"
+      WHERE "Ticket"."id" = ${ticketId}
+        AND "TicketType"."id" = ${ticketTypeId}
+        AND ${ticketTypeHasRoomFor(buyerUserId)}
+      RETURNING "Ticket".*
+    `,
+  ]);
+
+  return changedTicket ?? null;
+}
+
+// A PIX or boleto charge still awaiting the buyer keeps its tickets, so overdue charges must be expired before this
+// runs; the orders holding expired tickets can no longer be paid, so they expire along with them
+async function expireStaleReservations(now: Date) {
+  const staleReservation: Prisma.TicketWhereInput = {
+    status: TicketStatus.RESERVED,
+    reservedUntil: { lt: now },
+    OrderItem: {
+      none: {
+        Order: {
+          Payment: {
+            some: { status: PaymentStatus.PENDING },
+          },
+        },
+      },
+    },
+  };
+
+  const [, expiredTickets] = await prisma.$transaction([
+    prisma.order.updateMany({
+      where: {
+        status: OrderStatus.PENDING,
+        OrderItem: {
+          some: { Ticket: staleReservation },
+        },
+      },
+      data: {
+        status: OrderStatus.EXPIRED,
+      },
+    }),
+    prisma.ticket.updateMany({
+      where: staleReservation,
+      data: {
+        status: TicketStatus.EXPIRED,
+        claimTokenHash: null,
+      },
+    }),
+  ]);
+
+  return expiredTickets.count;
+}
+
+export type CreateTicketParams = Omit<Ticket, "id" | "hasHotelUpgrade" | "cancelledAt" | "createdAt" | "updatedAt">
+export type CancelledTicketStatus = typeof TicketStatus.CANCELLED | typeof TicketStatus.REFUNDED
+export type UpdateTicketAttendeeParams = Partial<
+  Pick<Ticket, "attendeeName" | "attendeeCpf" | "attendeeEmail" | "attendeeUserId" | "claimTokenHash">
+>
+export type CreateTicketTypeParams = Omit<TicketType, "id" | "createdAt" | "updatedAt">
+export type UpdateTicketTypeParams = Partial<Omit<CreateTicketTypeParams, "eventId">>
 
 const ticketRepository = {
+  findTicketsByIds,
   findTicketTypes,
-  findTicketByEnrollmentId,
-  createTicket,
+  findTicketTypeById,
+  findTicketTypesByTicketIds,
+  createTicketType,
+  updateTicketType,
+  deleteTicketType,
+  countTicketsByTicketTypeId,
+  countStockHoldingTicketsByTicketTypeIds,
+  countStockHoldingTicketsByBuyer,
+  findTicketsByEnrollmentId,
+  findTicketByAttendeeUserIdAndEventId,
+  findTicketByClaimTokenHash,
+  updateTicketAttendee,
+  cancelTicket,
+  changeTicketType,
+  createTicketWithinLimits,
+  changeTicketTypeWithinLimits,
+  expireStaleReservations,
   findTickeyById,
   findTickeWithTypeById,
-  ticketProcessPayment,
 };
 
 export default ticketRepository;
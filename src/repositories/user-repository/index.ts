@@ -15,15 +15,62 @@ async function findByEmail(email: string, select?: Prisma.UserSelect) {
   return prisma.user.findUnique(params);
 }
 
+async function findById(userId: number) {
+  return prisma.user.findUnique({
+    where: {
+      id: userId,
+    },
+  });
+}
+
 async function create(data: Prisma.UserUncheckedCreateInput) {
   return prisma.user.create({
     data,
   });
 }
 
+async function updatePassword(userId: number, password: string) {
+  return prisma.user.update({
+    where: {
+      id: userId,
+    },
+    data: {
+      password,
+    },
+  });
+}
+
+async function markEmailAsVerified(userId: number) {
+  return prisma.user.update({
+    where: {
+      id: userId,
+    },
+    data: {
+      emailVerifiedAt: new Date(),
+    },
+  });
+}
+
+// The password was set by whoever registered the address before its owner proved it, so it is dropped
+async function verifyEmailDroppingPassword(userId: number) {
+  return prisma.user.update({
+    where: {
+      id: userId,
+    },
+    data: {
+      emailVerifiedAt: new Date(),
+      password: null,
+    },
+  });
+}
+
 const userRepository = {
   findByEmail,
+  findById,
   create,
+  updatePassword,
+  markEmailAsVerified,
+  verifyEmailDroppingPassword,
 };
 
 export default userRepository;
@@ -0,0 +1,14 @@
+import { Router } from "express";
+import { authenticateToken, loadEvent, validateBody, validateParams } from "@/middlewares";
+import { activitiesDayParamsSchema, activitySubscriptionBodySchema } from "@/schemas";
+import { getActivityDays, getActivitiesByDay, postActivitySubscription } from "@/controllers";
+
+const activitiesRouter = Router({ mergeParams: true });
+
+activitiesRouter
+  .all("/*", authenticateToken, loadEvent)
+  .get("/days", getActivityDays)
+  .get("/days/:date", validateParams(activitiesDayParamsSchema), getActivitiesByDay)
+  .post("/subscriptions", validateBody(activitySubscriptionBodySchema), postActivitySubscription);
+
+export { activitiesRouter };
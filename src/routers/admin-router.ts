@@ -0,0 +1,79 @@
+import { Router } from "express";
+import { UserRole } from "@prisma/client";
+import { authenticateToken, requireRole, validateBody, validateParams } from "@/middlewares";
+import {
+  adminIdParamsSchema,
+  createEventSchema,
+  updateEventSchema,
+  createTicketTypeSchema,
+  updateTicketTypeSchema,
+  createMerchandiseSchema,
+  updateMerchandiseSchema,
+  createCouponSchema,
+  updateCouponSchema,
+  createHotelSchema,
+  updateHotelSchema,
+  createRoomSchema,
+  updateRoomSchema,
+} from "@/schemas";
+import {
+  getAdminEvents,
+  postAdminEvent,
+  putAdminEvent,
+  deleteAdminEvent,
+  getAdminTicketTypes,
+  postAdminTicketType,
+  putAdminTicketType,
+  deleteAdminTicketType,
+  getAdminMerchandise,
+  postAdminMerchandise,
+  putAdminMerchandise,
+  deleteAdminMerchandise,
+  getAdminCoupons,
+  postAdminCoupon,
+  putAdminCoupon,
+  deleteAdminCoupon,
+  getAdminHotels,
+  postAdminHotel,
+  putAdminHotel,
+  deleteAdminHotel,
+  getAdminRooms,
+  postAdminRoom,
+  putAdminRoom,
+  deleteAdminRoom,
+} from "@/controllers";
+
+const adminRouter = Router();
+
+const validateId = validateParams(adminIdParamsSchema);
+const canRead = requireRole(UserRole.ORGANIZER, UserRole.STAFF);
+const canWrite = requireRole(UserRole.ORGANIZER);
+
+adminRouter
+  .all("/*", authenticateToken, canRead)
+  .get("/events", getAdminEvents)
+  .post("/events", canWrite, validateBody(createEventSchema), postAdminEvent)
+  .put("/events/:id", canWrite, validateId, validateBody(updateEventSchema), putAdminEvent)
+  .delete("/events/:id", canWrite, validateId, deleteAdminEvent)
+  .get("/events/:id/ticket-types", validateId, getAdminTicketTypes)
+  .get("/events/:id/hotels", validateId, getAdminHotels)
+  .get("/events/:id/merchandise", validateId, getAdminMerchandise)
+  .get("/events/:id/coupons", validateId, getAdminCoupons)
+  .post("/ticket-types", canWrite, validateBody(createTicketTypeSchema), postAdminTicketType)
+  .put("/ticket-types/:id", canWrite, validateId, validateBody(updateTicketTypeSchema), putAdminTicketType)
+  .delete("/ticket-types/:id", canWrite, validateId, deleteAdminTicketType)
+  .post("/merchandise", canWrite, validateBody(createMerchandiseSchema), postAdminMerchandise)
+  .put("/merchandise/:id", canWrite, validateId, validateBody(updateMerchandiseSchema), putAdminMerchandise)
+  .delete("/merchandise/:id", canWrite, validateId, deleteAdminMerchandise)
+  .post("/coupons", canWrite, validateBody(createCouponSchema), postAdminCoupon)
+  .put("/coupons/:id", canWrite, validateId, validateBody(updateCouponSchema), putAdminCoupon)
+  .delete("/coupons/:id", canWrite, validateId, deleteAdminCoupon)
+  .post("/hotels", canWrite, validateBody(createHotelSchema), postAdminHotel)
+  .put("/hotels/:id", canWrite, validateId, validateBody(updateHotelSchema), putAdminHotel)
+  .delete("/hotels/:id", canWrite, validateId, deleteAdminHotel)
+  .get("/hotels/:id/rooms", validateId, getAdminRooms)
+  .post("/rooms", canWrite, validateBody(createRoomSchema), postAdminRoom)
+  .put("/rooms/:id", canWrite, validateId, validateBody(updateRoomSchema), putAdminRoom)
+  .delete("/rooms/:id", canWrite, validateId, deleteAdminRoom);
+
+export { adminRouter };
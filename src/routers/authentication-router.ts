@@ -1,10 +1,35 @@
-import { singInPost } from "@/controllers";
-import { validateBody } from "@/middlewares";
-import { signInSchema } from "@/schemas";
+import {
+  singInPost,
+  gitHubSignInPost,
+  refreshPost,
+  signOutPost,
+  getSessions,
+  deleteSession,
+  passwordResetPost,
+  confirmPasswordResetPost,
+} from "@/controllers";
+import { authenticateToken, rateLimit, rateLimitPolicies, validateBody, validateParams } from "@/middlewares";
+import {
+  signInSchema,
+  oauthSignInSchema,
+  refreshSchema,
+  sessionParamsSchema,
+  passwordResetSchema,
+  confirmPasswordResetSchema,
+} from "@/schemas";
 import { Router } from "express";
 
 const authenticationRouter = Router();
 
-authenticationRouter.post("/sign-in", validateBody(signInSchema), singInPost);
+authenticationRouter
+  .use(rateLimit(rateLimitPolicies.authentication))
+  .post("/sign-in", validateBody(signInSchema), singInPost)
+  .post("/oauth/github", validateBody(oauthSignInSchema), gitHubSignInPost)
+  .post("/refresh", validateBody(refreshSchema), refreshPost)
+  .post("/password-reset", validateBody(passwordResetSchema), passwordResetPost)
+  .post("/password-reset/confirm", validateBody(confirmPasswordResetSchema), confirmPasswordResetPost)
+  .post("/sign-out", authenticateToken, signOutPost)
+  .get("/sessions", authenticateToken, getSessions)
+  .delete("/sessions/:sessionId", authenticateToken, validateParams(sessionParamsSchema), deleteSession);
 
 export { authenticationRouter };
@@ -1,13 +1,13 @@
 import { Router } from "express";
-import { authenticateToken } from "@/middlewares";
+import { authenticateToken, loadEvent } from "@/middlewares";
 import { validateBody, validateParams } from "@/middlewares";
 import { bookingBodySchema, bookingParamsSchema } from "@/schemas/bookings-schema";
 import { getBooking, postBooking, putBooking } from "@/controllers";
 
-const bookingsRouter = Router();
+const bookingsRouter = Router({ mergeParams: true });
 
 bookingsRouter
-  .all("/*", authenticateToken)
+  .all("/*", authenticateToken, loadEvent)
   .get("", getBooking)
   .post("", validateBody(bookingBodySchema), postBooking)
   .put("/:bookingId", validateBody(bookingBodySchema), validateParams(bookingParamsSchema), putBooking);
@@ -1,14 +1,17 @@
 import { Router } from "express";
-import { authenticateToken, validateBody } from "@/middlewares";
+import { authenticateToken, loadEvent, rateLimit, rateLimitPolicies, validateBody } from "@/middlewares";
 import { getEnrollmentByUser, postCreateOrUpdateEnrollment, getAddressFromCEP } from "@/controllers";
 import { createEnrollmentSchema } from "@/schemas";
 
-const enrollmentsRouter = Router();
+const cepRouter = Router();
+
+cepRouter.get("/cep", rateLimit(rateLimitPolicies.cep), getAddressFromCEP);
+
+const enrollmentsRouter = Router({ mergeParams: true });
 
 enrollmentsRouter
-  .get("/cep", getAddressFromCEP)
-  .all("/*", authenticateToken)
+  .all("/*", authenticateToken, loadEvent)
   .get("/", getEnrollmentByUser)
   .post("/", validateBody(createEnrollmentSchema), postCreateOrUpdateEnrollment);
 
-export { enrollmentsRouter };
+export { cepRouter, enrollmentsRouter };
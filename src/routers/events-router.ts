@@ -1,8 +1,10 @@
 import { Router } from "express";
-import { getDefaultEvent } from "@/controllers";
+import { getEvents, getEventBySlug } from "@/controllers";
 
 const eventsRouter = Router();
 
-eventsRouter.get("/", getDefaultEvent);
+eventsRouter
+  .get("/", getEvents)
+  .get("/:eventSlug", getEventBySlug);
 
 export { eventsRouter };
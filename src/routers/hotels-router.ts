@@ -1,11 +1,11 @@
 import { Router } from "express";
-import { authenticateToken } from "@/middlewares";
+import { authenticateToken, loadEvent } from "@/middlewares";
 import { getHotels, getHotelsWithRooms } from "@/controllers";
 
-const hotelsRouter = Router();
+const hotelsRouter = Router({ mergeParams: true });
 
 hotelsRouter
-  .all("/*", authenticateToken)
+  .all("/*", authenticateToken, loadEvent)
   .get("/", getHotels)
   .get("/:hotelId", getHotelsWithRooms);
 
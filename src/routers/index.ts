@@ -4,5 +4,9 @@ export * from "./events-router";
 export * from "./enrollments-router";
 export * from "./tickets-router";
 export * from "./payments-router";
+export * from "./payment-webhooks-router";
+export * from "./orders-router";
 export * from "./hotels-router";
 export * from "./bookings-router";
+export * from "./activities-router";
+export * from "./admin-router";
@@ -0,0 +1,15 @@
+import { Router } from "express";
+import { authenticateToken, loadEvent, validateBody, validateParams } from "@/middlewares";
+import { getMerchandise, getOrder, getOrderInstallments, postOrder } from "@/controllers";
+import { createOrderSchema, orderParamsSchema } from "@/schemas";
+
+const ordersRouter = Router({ mergeParams: true });
+
+ordersRouter
+  .all("/*", authenticateToken, loadEvent)
+  .get("/merchandise", getMerchandise)
+  .post("", validateBody(createOrderSchema), postOrder)
+  .get("/:orderId", validateParams(orderParamsSchema), getOrder)
+  .get("/:orderId/installments", validateParams(orderParamsSchema), getOrderInstallments);
+
+export { ordersRouter };
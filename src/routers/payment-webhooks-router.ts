@@ -0,0 +1,11 @@
+import { Router } from "express";
+import { validateBody } from "@/middlewares";
+import { postPaymentWebhook } from "@/controllers";
+import { paymentWebhookEventSchema } from "@/schemas";
+
+// Providers call these directly, they authenticate with a signature instead of a session
+const paymentWebhooksRouter = Router();
+
+paymentWebhooksRouter.post("/:provider", validateBody(paymentWebhookEventSchema), postPaymentWebhook);
+
+export { paymentWebhooksRouter };
@@ -1,12 +1,25 @@
 import { Router } from "express";
-import { authenticateToken } from "@/middlewares";
-import { getPaymentByTicketId, paymentProcess } from "@/controllers";
+import {
+  authenticateToken,
+  idempotent,
+  loadEvent,
+  rateLimit,
+  rateLimitPolicies,
+  validateParams,
+} from "@/middlewares";
+import { getPaymentByTicketId, paymentProcess, simulatePixPayment } from "@/controllers";
+import { paymentParamsSchema } from "@/schemas";
 
-const paymentsRouter = Router();
+const paymentsRouter = Router({ mergeParams: true });
 
 paymentsRouter
-  .all("/*", authenticateToken)
+  .all("/*", authenticateToken, loadEvent, rateLimit(rateLimitPolicies.payments))
   .get("/", getPaymentByTicketId)
-  .post("/process", paymentProcess);
+  .post("/process", idempotent(), paymentProcess);
+
+// Lets developers and tests pay a PIX charge without a bank
+if (process.env.NODE_ENV !== "production") {
+  paymentsRouter.post("/:paymentId/pix/simulate", validateParams(paymentParamsSchema), simulatePixPayment);
+}
 
 export { paymentsRouter };
@@ -1,13 +1,47 @@
 import { Router } from "express";
-import { authenticateToken } from "@/middlewares";
-import { getTicketTypes, getTickets, createTicket } from "@/controllers";
+import { authenticateToken, loadEvent, validateBody, validateParams } from "@/middlewares";
+import {
+  getTicketTypes,
+  getTickets,
+  getPurchasedTickets,
+  createTicket,
+  claimTicket,
+  putTicketAttendee,
+  cancelTicket,
+  changeTicketType,
+  validateCoupon,
+} from "@/controllers";
+import {
+  changeTicketTypeSchema,
+  claimTicketSchema,
+  createTicketsSchema,
+  ticketAttendeeSchema,
+  ticketParamsSchema,
+  validateCouponSchema,
+} from "@/schemas";
 
-const ticketsRouter = Router();
+const ticketsRouter = Router({ mergeParams: true });
 
 ticketsRouter
-  .all("/*", authenticateToken)
+  .all("/*", authenticateToken, loadEvent)
   .get("/types", getTicketTypes)
   .get("", getTickets)
-  .post("", createTicket);
+  .get("/purchased", getPurchasedTickets)
+  .post("", validateBody(createTicketsSchema), createTicket)
+  .post("/claim", validateBody(claimTicketSchema), claimTicket)
+  .post("/coupons/validate", validateBody(validateCouponSchema), validateCoupon)
+  .put(
+    "/:ticketId/attendee",
+    validateParams(ticketParamsSchema),
+    validateBody(ticketAttendeeSchema),
+    putTicketAttendee,
+  )
+  .post("/:ticketId/cancel", validateParams(ticketParamsSchema), cancelTicket)
+  .post(
+    "/:ticketId/change-type",
+    validateParams(ticketParamsSchema),
+    validateBody(changeTicketTypeSchema),
+    changeTicketType,
+  );
 
 export { ticketsRouter };
@@ -1,11 +1,15 @@
 import { Router } from "express";
 
-import { createUserSchema } from "@/schemas";
-import { validateBody } from "@/middlewares";
-import { usersPost } from "@/controllers";
+import { createUserSchema, resendVerificationEmailSchema, verifyEmailSchema } from "@/schemas";
+import { rateLimit, rateLimitPolicies, validateBody } from "@/middlewares";
+import { usersPost, verifyEmailPost, resendVerificationEmailPost } from "@/controllers";
 
 const usersRouter = Router();
 
-usersRouter.post("/", validateBody(createUserSchema), usersPost);
+usersRouter
+  .use(rateLimit(rateLimitPolicies.users))
+  .post("/", validateBody(createUserSchema), usersPost)
+  .post("/verify", validateBody(verifyEmailSchema), verifyEmailPost)
+  .post("/verify/resend", validateBody(resendVerificationEmailSchema), resendVerificationEmailPost);
 
 export { usersRouter };
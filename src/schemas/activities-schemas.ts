@@ -0,0 +1,9 @@
+import Joi from "joi";
+
+export const activitiesDayParamsSchema = Joi.object({
+  date: Joi.string().pattern(/^[0-9]{4}-[0-9]{2}-[0-9]{2}$/, { name: "YYYY-MM-DD" }).required()
+});
+
+export const activitySubscriptionBodySchema = Joi.object({
+  activityId: Joi.number().integer().min(1).required()
+});
@@ -0,0 +1,140 @@
+import { CreateCouponParams, UpdateCouponParams } from "@/repositories/coupon-repository";
+import { CreateEventParams, UpdateEventParams } from "@/repositories/event-repository";
+import { CreateHotelParams, UpdateHotelParams } from "@/repositories/hotel-repository";
+import { CreateMerchandiseParams, UpdateMerchandiseParams } from "@/repositories/merchandise-repository";
+import { CreateRoomParams, UpdateRoomParams } from "@/repositories/room-repository";
+import { CreateTicketTypeParams, UpdateTicketTypeParams } from "@/repositories/ticket-repository";
+import { DiscountType } from "@prisma/client";
+import Joi from "joi";
+
+const slugValidationSchema = Joi.string().max(255).pattern(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, { name: "slug" });
+
+export const adminIdParamsSchema = Joi.object({
+  id: Joi.string().pattern(/^[0-9]+$/, { name: "digits" }).required()
+});
+
+export const createEventSchema = Joi.object<CreateEventParams>({
+  slug: slugValidationSchema.required(),
+  title: Joi.string().max(255).required(),
+  backgroundImageUrl: Joi.string().max(255).required(),
+  logoImageUrl: Joi.string().uri().max(255).required(),
+  startsAt: Joi.date().iso().required(),
+  endsAt: Joi.date().iso().greater(Joi.ref("startsAt")).required(),
+});
+
+export const updateEventSchema = Joi.object<UpdateEventParams>({
+  slug: slugValidationSchema,
+  title: Joi.string().max(255),
+  backgroundImageUrl: Joi.string().max(255),
+  logoImageUrl: Joi.string().uri().max(255),
+  startsAt: Joi.date().iso(),
+  endsAt: Joi.date().iso().when("startsAt", { is: Joi.exist(), then: Joi.date().greater(Joi.ref("startsAt")) }),
+}).min(1);
+
+const installmentsSchema = Joi.number().integer().min(1).max(12);
+// Monthly percentage charged on installment plans longer than the interest free ones
+const interestRateSchema = Joi.number().min(0).max(100);
+const stockSchema = Joi.number().integer().min(0).allow(null);
+const maxPerUserSchema = Joi.number().integer().min(1).allow(null);
+const salesDateSchema = Joi.date().iso().allow(null);
+const salesEndAtSchema = salesDateSchema.when("salesStartAt", {
+  is: Joi.date(),
+  then: Joi.date().greater(Joi.ref("salesStartAt")),
+});
+
+export const createTicketTypeSchema = Joi.object<CreateTicketTypeParams>({
+  eventId: Joi.number().integer().min(1).required(),
+  name: Joi.string().max(255).required(),
+  price: Joi.number().integer().min(0).required(),
+  isRemote: Joi.boolean().required(),
+  includesHotel: Joi.boolean().required(),
+  hotelUpgradePrice: Joi.number().integer().min(0).allow(null).default(null),
+  maxInstallments: installmentsSchema.default(1),
+  interestFreeInstallments: installmentsSchema.max(Joi.ref("maxInstallments")).default(1),
+  installmentInterestRate: interestRateSchema.default(0),
+  stock: stockSchema,
+  maxPerUser: maxPerUserSchema,
+  salesStartAt: salesDateSchema,
+  salesEndAt: salesEndAtSchema,
+});
+
+export const updateTicketTypeSchema = Joi.object<UpdateTicketTypeParams>({
+  name: Joi.string().max(255),
+  price: Joi.number().integer().min(0),
+  isRemote: Joi.boolean(),
+  includesHotel: Joi.boolean(),
+  hotelUpgradePrice: Joi.number().integer().min(0).allow(null),
+  maxInstallments: installmentsSchema,
+  interestFreeInstallments: installmentsSchema,
+  installmentInterestRate: interestRateSchema,
+  stock: stockSchema,
+  maxPerUser: maxPerUserSchema,
+  salesStartAt: salesDateSchema,
+  salesEndAt: salesEndAtSchema,
+}).min(1);
+
+export const createMerchandiseSchema = Joi.object<CreateMerchandiseParams>({
+  eventId: Joi.number().integer().min(1).required(),
+  name: Joi.string().max(255).required(),
+  price: Joi.number().integer().min(0).required(),
+});
+
+export const updateMerchandiseSchema = Joi.object<UpdateMerchandiseParams>({
+  name: Joi.string().max(255),
+  price: Joi.number().integer().min(0),
+}).min(1);
+
+const couponCodeSchema = Joi.string().max(50).pattern(/^[A-Za-z0-9_-]+$/, { name: "coupon code" });
+const discountValueSchema = Joi.number()
+  .integer()
+  .min(1)
+  .when("discountType", { is: DiscountType.PERCENTAGE, then: Joi.number().max(100) });
+const couponLimitSchema = Joi.number().integer().min(1).allow(null);
+const couponDateSchema = Joi.date().iso().allow(null);
+
+export const createCouponSchema = Joi.object<CreateCouponParams>({
+  eventId: Joi.number().integer().min(1).required(),
+  code: couponCodeSchema.required(),
+  discountType: Joi.string()
+    .valid(...Object.values(DiscountType))
+    .required(),
+  discountValue: discountValueSchema.required(),
+  maxUses: couponLimitSchema,
+  maxUsesPerUser: couponLimitSchema,
+  startsAt: couponDateSchema,
+  endsAt: couponDateSchema.when("startsAt", { is: Joi.date(), then: Joi.date().greater(Joi.ref("startsAt")) }),
+  ticketTypeIds: Joi.array().items(Joi.number().integer().min(1)).unique(),
+});
+
+export const updateCouponSchema = Joi.object<UpdateCouponParams>({
+  code: couponCodeSchema,
+  discountType: Joi.string().valid(...Object.values(DiscountType)),
+  discountValue: discountValueSchema,
+  maxUses: couponLimitSchema,
+  maxUsesPerUser: couponLimitSchema,
+  startsAt: couponDateSchema,
+  endsAt: couponDateSchema.when("startsAt", { is: Joi.date(), then: Joi.date().greater(Joi.ref("startsAt")) }),
+  ticketTypeIds: Joi.array().items(Joi.number().integer().min(1)).unique(),
+}).min(1);
+
+export const createHotelSchema = Joi.object<CreateHotelParams>({
+  eventId: Joi.number().integer().min(1).required(),
+  name: Joi.string().required(),
+  image: Joi.string().uri().required(),
+});
+
+export const updateHotelSchema = Joi.object<UpdateHotelParams>({
+  name: Joi.string(),
+  image: Joi.string().uri(),
+}).min(1);
+
+export const createRoomSchema = Joi.object<CreateRoomParams>({
+  hotelId: Joi.number().integer().min(1).required(),
+  name: Joi.string().required(),
+  capacity: Joi.number().integer().min(1).required(),
+});
+
+export const updateRoomSchema = Joi.object<UpdateRoomParams>({
+  name: Joi.string(),
+  capacity: Joi.number().integer().min(1),
+}).min(1);
@@ -1,7 +1,34 @@
-import { SignInParams } from "@/services";
+import {
+  ConfirmPasswordResetParams,
+  OAuthSignInParams,
+  PasswordResetParams,
+  RefreshParams,
+  SignInParams,
+} from "@/services";
 import Joi from "joi";
 
 export const signInSchema = Joi.object<SignInParams>({
   email: Joi.string().email().required(),
   password: Joi.string().required(),
 });
+
+export const oauthSignInSchema = Joi.object<OAuthSignInParams>({
+  code: Joi.string().required(),
+});
+
+export const refreshSchema = Joi.object<RefreshParams>({
+  refreshToken: Joi.string().required(),
+});
+
+export const passwordResetSchema = Joi.object<PasswordResetParams>({
+  email: Joi.string().email().required(),
+});
+
+export const confirmPasswordResetSchema = Joi.object<ConfirmPasswordResetParams>({
+  token: Joi.string().required(),
+  password: Joi.string().min(6).required(),
+});
+
+export const sessionParamsSchema = Joi.object({
+  sessionId: Joi.string().pattern(/^[0-9]+$/, { name: "digits" }).required(),
+});
@@ -2,7 +2,7 @@ import { CreateOrUpdateEnrollmentWithAddress } from "@/services/enrollments-serv
 import { getStates, isValidCEP, isValidCPF, isValidMobilePhone } from "@brazilian-utils/brazilian-utils";
 import Joi from "joi";
 
-const cpfValidationSchema = Joi.string().length(11).custom(joiCpfValidation).required();
+export const cpfValidationSchema = Joi.string().length(11).custom(joiCpfValidation).required();
 
 const cepValidationSchema = Joi.string().length(9).custom(JoiCepValidation).required();
 
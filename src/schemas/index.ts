@@ -2,3 +2,8 @@ export * from "./users-schemas";
 export * from "./authentication-schemas";
 export * from "./enrollments-schemas";
 export * from "./bookings-schema";
+export * from "./activities-schemas";
+export * from "./admin-schemas";
+export * from "./tickets-schemas";
+export * from "./orders-schemas";
+export * from "./payments-schemas";
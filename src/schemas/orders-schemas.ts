@@ -0,0 +1,33 @@
+import { CreateOrderItem } from "@/services/orders-service";
+import { OrderItemType } from "@prisma/client";
+import Joi from "joi";
+
+const idSchema = Joi.number().integer().min(1);
+const isMerchandise = { is: OrderItemType.MERCHANDISE };
+// Ticket type changes are ordered through their own endpoint, which prices the difference between types
+const orderableItemTypes = [OrderItemType.TICKET, OrderItemType.HOTEL_UPGRADE, OrderItemType.MERCHANDISE];
+
+export const createOrderSchema = Joi.object<CreateOrderBody>({
+  items: Joi.array()
+    .items(
+      Joi.object<CreateOrderItem>({
+        type: Joi.string()
+          .valid(...orderableItemTypes)
+          .required(),
+        ticketId: idSchema.when("type", { ...isMerchandise, then: Joi.forbidden(), otherwise: Joi.required() }),
+        merchandiseId: idSchema.when("type", { ...isMerchandise, then: Joi.required(), otherwise: Joi.forbidden() }),
+        quantity: Joi.number().integer().min(1).max(10).when("type", { ...isMerchandise, otherwise: Joi.forbidden() }),
+      }),
+    )
+    .min(1)
+    .max(20)
+    .required(),
+});
+
+export const orderParamsSchema = Joi.object({
+  orderId: Joi.string().pattern(/^[0-9]+$/, { name: "digits" }).required(),
+});
+
+type CreateOrderBody = {
+  items: CreateOrderItem[];
+};
@@ -0,0 +1,18 @@
+import { PaymentWebhookEvent } from "@/services/payment-webhooks-service";
+import Joi from "joi";
+
+// Providers add fields over time, so anything not used here is accepted and ignored
+export const paymentWebhookEventSchema = Joi.object<PaymentWebhookEvent>({
+  id: Joi.string().max(255).required(),
+  type: Joi.string().max(255).required(),
+  data: Joi.object({
+    transactionId: Joi.string().required(),
+    reason: Joi.string(),
+  })
+    .unknown(true)
+    .required(),
+}).unknown(true);
+
+export const paymentParamsSchema = Joi.object({
+  paymentId: Joi.string().pattern(/^[0-9]+$/, { name: "digits" }).required(),
+});
@@ -0,0 +1,55 @@
+import { CreateTicketItem, TicketAttendee } from "@/services/tickets-service";
+import Joi from "joi";
+import { cpfValidationSchema } from "./enrollments-schemas";
+
+export const ticketAttendeeSchema = Joi.object<TicketAttendee>({
+  name: Joi.string().min(3).required(),
+  cpf: cpfValidationSchema,
+  email: Joi.string().email().required(),
+});
+
+const ticketTypeIdSchema = Joi.number().integer().min(1);
+
+export const createTicketsSchema = Joi.object<CreateTicketsBody>({
+  ticketTypeId: ticketTypeIdSchema,
+  tickets: Joi.array()
+    .items(
+      Joi.object<CreateTicketItem>({
+        ticketTypeId: ticketTypeIdSchema.required(),
+        attendee: ticketAttendeeSchema,
+      }),
+    )
+    .min(1)
+    .max(10),
+}).xor("ticketTypeId", "tickets");
+
+export const claimTicketSchema = Joi.object({
+  token: Joi.string().required(),
+});
+
+export const ticketParamsSchema = Joi.object({
+  ticketId: Joi.string().pattern(/^[0-9]+$/, { name: "digits" }).required(),
+});
+
+export const validateCouponSchema = Joi.object<ValidateCouponBody>({
+  code: Joi.string().trim().max(50).required(),
+  ticketTypeId: ticketTypeIdSchema.required(),
+});
+
+export const changeTicketTypeSchema = Joi.object<ChangeTicketTypeBody>({
+  ticketTypeId: ticketTypeIdSchema.required(),
+});
+
+type CreateTicketsBody = {
+  ticketTypeId?: number;
+  tickets?: CreateTicketItem[];
+};
+
+type ValidateCouponBody = {
+  code: string;
+  ticketTypeId: number;
+};
+
+type ChangeTicketTypeBody = {
+  ticketTypeId: number;
+};
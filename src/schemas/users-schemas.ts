@@ -1,7 +1,15 @@
-import { CreateUserParams } from "@/services/users-service";
+import { CreateUserParams, ResendVerificationEmailParams, VerifyEmailParams } from "@/services/users-service";
 import Joi from "joi";
 
 export const createUserSchema = Joi.object<CreateUserParams>({
   email: Joi.string().email().required(),
   password: Joi.string().min(6).required(),
 });
+
+export const verifyEmailSchema = Joi.object<VerifyEmailParams>({
+  token: Joi.string().required(),
+});
+
+export const resendVerificationEmailSchema = Joi.object<ResendVerificationEmailParams>({
+  email: Joi.string().email().required(),
+});
@@ -1,4 +1,5 @@
 import app, { init } from "@/app";
+import { startScheduledJobs } from "@/jobs";
 
 const port = +process.env.PORT || 4000;
 
@@ -7,4 +8,5 @@ init().then(() => {
     /* eslint-disable-next-line no-console */
     console.log(`Server is listening on port ${port}.`);
   });
+  startScheduledJobs();
 });
@@ -0,0 +1,137 @@
+import { Activity, ActivityVenue, TicketStatus } from "@prisma/client";
+import dayjs from "dayjs";
+import { activityTimeConflictError, conflictError, forbiddenError, notFoundError } from "@/errors";
+import activityRepository from "@/repositories/activity-repository";
+import eventRepository from "@/repositories/event-repository";
+import ticketRepository from "@/repositories/ticket-repository";
+
+async function isUserAllowed(userId: number, eventId: number): Promise<boolean> {
+  const ticket = await ticketRepository.findTicketByAttendeeUserIdAndEventId(userId, eventId);
+  if(!ticket) {
+    return false;
+  }
+
+  const isTicketPaid = ticket.status === TicketStatus.PAID;
+  if(!isTicketPaid) {
+    return false;
+  }
+
+  return true;
+}
+
+async function getEventDays(eventId: number): Promise<string[]> {
+  const event = await eventRepository.findById(eventId);
+  if(!event) {
+    throw notFoundError();
+  }
+
+  const days: string[] = [];
+  const lastDay = dayjs(event.endsAt).startOf("day");
+  for(let day = dayjs(event.startsAt).startOf("day"); !day.isAfter(lastDay); day = day.add(1, "day")) {
+    days.push(day.format(DAY_FORMAT));
+  }
+
+  return days;
+}
+
+async function getActivityDays(userId: number, eventId: number): Promise<string[]> {
+  const allowed = await isUserAllowed(userId, eventId);
+  if(!allowed) {
+    throw forbiddenError();
+  }
+
+  return getEventDays(eventId);
+}
+
+async function getActivitiesByDay(userId: number, eventId: number, date: string): Promise<VenueWithActivities[]> {
+  const allowed = await isUserAllowed(userId, eventId);
+  if(!allowed) {
+    throw forbiddenError();
+  }
+
+  const days = await getEventDays(eventId);
+  if(!days.includes(date)) {
+    throw notFoundError();
+  }
+
+  const dayStartsAt = dayjs(date).startOf("day");
+  const venues = await activityRepository.findVenuesWithActivitiesByPeriod(
+    userId,
+    eventId,
+    dayStartsAt.toDate(),
+    dayStartsAt.add(1, "day").toDate()
+  );
+
+  return venues.map((venue) => ({
+    id: venue.id,
+    name: venue.name,
+    activities: venue.Activities.map((activity) => ({
+      id: activity.id,
+      name: activity.name,
+      capacity: activity.capacity,
+      startsAt: activity.startsAt,
+      endsAt: activity.endsAt,
+      remainingSeats: Math.max(activity.capacity - activity._count.ActivitySubscription, 0),
+      isSubscribed: activity.ActivitySubscription.length > 0
+    }))
+  }));
+}
+
+async function checkTimeConflictOrFail(userId: number, activity: Activity) {
+  const overlappingSubscription = await activityRepository.findOverlappingSubscriptionByUserId(
+    userId,
+    activity.startsAt,
+    activity.endsAt
+  );
+  if(overlappingSubscription) {
+    const { id, name, startsAt, endsAt } = overlappingSubscription.Activity;
+    throw activityTimeConflictError({ id, name, startsAt, endsAt });
+  }
+}
+
+async function createSubscription(userId: number, eventId: number, activityId: number): Promise<SubscriptionId> {
+  const allowed = await isUserAllowed(userId, eventId);
+  if(!allowed) {
+    throw forbiddenError();
+  }
+
+  const activity = await activityRepository.findById(activityId);
+  if(!activity || activity.eventId !== eventId) {
+    throw notFoundError();
+  }
+
+  const subscription = await activityRepository.findSubscriptionByUserIdAndActivityId(userId, activityId);
+  if(subscription) {
+    throw conflictError("You are already subscribed to this activity!");
+  }
+
+  await checkTimeConflictOrFail(userId, activity);
+
+  const createdSubscription = await activityRepository.createSubscriptionWithinCapacity(userId, activityId);
+  if(!createdSubscription) {
+    throw forbiddenError();
+  }
+
+  return { subscriptionId: createdSubscription.id };
+}
+
+const DAY_FORMAT = "YYYY-MM-DD";
+
+type ActivityWithSeats = Pick<Activity, "id" | "name" | "capacity" | "startsAt" | "endsAt"> & {
+  remainingSeats: number,
+  isSubscribed: boolean
+};
+
+export type VenueWithActivities = Pick<ActivityVenue, "id" | "name"> & {
+  activities: ActivityWithSeats[]
+};
+
+type SubscriptionId = { subscriptionId: number };
+
+const activitiesService = {
+  getActivityDays,
+  getActivitiesByDay,
+  createSubscription
+};
+
+export default activitiesService;
@@ -0,0 +1,342 @@
+import { DiscountType, Event, Hotel, Merchandise, Room, TicketType } from "@prisma/client";
+import dayjs from "dayjs";
+import { conflictError, invalidDataError, notFoundError } from "@/errors";
+import bookingRepository from "@/repositories/booking-repository";
+import couponRepository, { CreateCouponParams, UpdateCouponParams } from "@/repositories/coupon-repository";
+import eventRepository, { CreateEventParams, UpdateEventParams } from "@/repositories/event-repository";
+import hotelRepository, { CreateHotelParams, UpdateHotelParams } from "@/repositories/hotel-repository";
+import merchandiseRepository, {
+  CreateMerchandiseParams,
+  UpdateMerchandiseParams,
+} from "@/repositories/merchandise-repository";
+import roomRepository, { CreateRoomParams, UpdateRoomParams } from "@/repositories/room-repository";
+import ticketRepository, {
+  CreateTicketTypeParams,
+  UpdateTicketTypeParams,
+} from "@/repositories/ticket-repository";
+import couponsService from "../coupons-service";
+
+async function getEvents(): Promise<Event[]> {
+  return eventRepository.findMany();
+}
+
+async function validateUniqueSlugOrFail(slug: string, eventId?: number) {
+  const eventWithSameSlug = await eventRepository.findBySlug(slug);
+  if (eventWithSameSlug && eventWithSameSlug.id !== eventId) {
+    throw conflictError("There is already an event with given slug");
+  }
+}
+
+async function getEventOrFail(eventId: number): Promise<Event> {
+  const event = await eventRepository.findById(eventId);
+  if (!event) throw notFoundError();
+
+  return event;
+}
+
+async function createEvent(params: CreateEventParams): Promise<Event> {
+  await validateUniqueSlugOrFail(params.slug);
+
+  return eventRepository.create(params);
+}
+
+async function updateEvent(eventId: number, params: UpdateEventParams): Promise<Event> {
+  const event = await getEventOrFail(eventId);
+  if (params.slug) {
+    await validateUniqueSlugOrFail(params.slug, eventId);
+  }
+
+  // Either date may be sent alone, so the range is checked against the stored one for the other
+  const startsAt = params.startsAt ?? event.startsAt;
+  const endsAt = params.endsAt ?? event.endsAt;
+  if (!dayjs(endsAt).isAfter(startsAt)) {
+    throw invalidDataError(["\"endsAt\" must be greater than \"startsAt\""]);
+  }
+
+  return eventRepository.update(eventId, params);
+}
+
+async function deleteEvent(eventId: number) {
+  const event = await eventRepository.findWithCountsById(eventId);
+  if (!event) throw notFoundError();
+
+  const hasDependencies = Object.values(event._count).some((count) => count > 0);
+  if (hasDependencies) {
+    throw conflictError("Cannot delete an event with enrollments, ticket types, hotels, activities, merchandise or coupons");
+  }
+
+  await eventRepository.deleteById(eventId);
+}
+
+async function getTicketTypeOrFail(ticketTypeId: number): Promise<TicketType> {
+  const ticketType = await ticketRepository.findTicketTypeById(ticketTypeId);
+  if (!ticketType) throw notFoundError();
+
+  return ticketType;
+}
+
+async function getTicketTypes(eventId: number): Promise<TicketType[]> {
+  await getEventOrFail(eventId);
+
+  return ticketRepository.findTicketTypes(eventId);
+}
+
+async function createTicketType(params: CreateTicketTypeParams): Promise<TicketType> {
+  await getEventOrFail(params.eventId);
+
+  return ticketRepository.createTicketType(params);
+}
+
+async function updateTicketType(ticketTypeId: number, params: UpdateTicketTypeParams): Promise<TicketType> {
+  const ticketType = await getTicketTypeOrFail(ticketTypeId);
+
+  // Fields may be sent alone or cleared, so the rules spanning several of them are checked against the stored ones
+  const salesStartAt = params.salesStartAt !== undefined ? params.salesStartAt : ticketType.salesStartAt;
+  const salesEndAt = params.salesEndAt !== undefined ? params.salesEndAt : ticketType.salesEndAt;
+  if (salesStartAt && salesEndAt && !dayjs(salesEndAt).isAfter(salesStartAt)) {
+    throw invalidDataError(["\"salesEndAt\" must be greater than \"salesStartAt\""]);
+  }
+  const maxInstallments = params.maxInstallments ?? ticketType.maxInstallments;
+  const interestFreeInstallments = params.interestFreeInstallments ?? ticketType.interestFreeInstallments;
+  if (interestFreeInstallments > maxInstallments) {
+    throw invalidDataError(["\"interestFreeInstallments\" must be less than or equal to \"maxInstallments\""]);
+  }
+
+  if (params.stock !== undefined && params.stock !== null) {
+    const [heldCount] = await ticketRepository.countStockHoldingTicketsByTicketTypeIds([ticketTypeId]);
+    if (params.stock < (heldCount?._count._all ?? 0)) {
+      throw conflictError("Cannot set ticket type stock below its reserved and paid tickets");
+    }
+  }
+
+  return ticketRepository.updateTicketType(ticketTypeId, params);
+}
+
+async function deleteTicketType(ticketTypeId: number) {
+  await getTicketTypeOrFail(ticketTypeId);
+
+  const ticketsCount = await ticketRepository.countTicketsByTicketTypeId(ticketTypeId);
+  if (ticketsCount > 0) {
+    throw conflictError("Cannot delete a ticket type with tickets");
+  }
+
+  await ticketRepository.deleteTicketType(ticketTypeId);
+}
+
+async function getMerchandiseOrFail(merchandiseId: number): Promise<Merchandise> {
+  const merchandise = await merchandiseRepository.findMerchandiseById(merchandiseId);
+  if (!merchandise) throw notFoundError();
+
+  return merchandise;
+}
+
+async function getMerchandise(eventId: number): Promise<Merchandise[]> {
+  await getEventOrFail(eventId);
+
+  return merchandiseRepository.findMerchandiseByEventId(eventId);
+}
+
+async function createMerchandise(params: CreateMerchandiseParams): Promise<Merchandise> {
+  await getEventOrFail(params.eventId);
+
+  return merchandiseRepository.createMerchandise(params);
+}
+
+async function updateMerchandise(merchandiseId: number, params: UpdateMerchandiseParams): Promise<Merchandise> {
+  await getMerchandiseOrFail(merchandiseId);
+
+  return merchandiseRepository.updateMerchandise(merchandiseId, params);
+}
+
+async function deleteMerchandise(merchandiseId: number) {
+  await getMerchandiseOrFail(merchandiseId);
+
+  const orderItemsCount = await merchandiseRepository.countOrderItemsByMerchandiseId(merchandiseId);
+  if (orderItemsCount > 0) {
+    throw conflictError("Cannot delete merchandise that has been ordered");
+  }
+
+  await merchandiseRepository.deleteMerchandise(merchandiseId);
+}
+
+async function getCouponOrFail(couponId: number) {
+  const coupon = await couponRepository.findCouponById(couponId);
+  if (!coupon) throw notFoundError();
+
+  return coupon;
+}
+
+async function validateUniqueCouponCodeOrFail(eventId: number, code: string, couponId?: number) {
+  const couponWithSameCode = await couponRepository.findCouponByCode(eventId, code);
+  if (couponWithSameCode && couponWithSameCode.id !== couponId) {
+    throw conflictError("There is already a coupon with given code");
+  }
+}
+
+async function validateCouponTicketTypesOrFail(eventId: number, ticketTypeIds: number[]) {
+  const ticketTypes = await ticketRepository.findTicketTypes(eventId);
+  const belongToEvent = ticketTypeIds.every((id) => ticketTypes.some((ticketType) => ticketType.id === id));
+  if (!belongToEvent) {
+    throw invalidDataError(["ticketTypeIds must belong to the coupon event"]);
+  }
+}
+
+async function getCoupons(eventId: number) {
+  await getEventOrFail(eventId);
+
+  return couponRepository.findCouponsByEventId(eventId);
+}
+
+async function createCoupon(params: CreateCouponParams) {
+  await getEventOrFail(params.eventId);
+
+  const code = couponsService.normalizeCode(params.code);
+  const ticketTypeIds = params.ticketTypeIds ?? [];
+  await validateUniqueCouponCodeOrFail(params.eventId, code);
+  await validateCouponTicketTypesOrFail(params.eventId, ticketTypeIds);
+
+  return couponRepository.createCoupon({ ...params, code, ticketTypeIds });
+}
+
+async function updateCoupon(couponId: number, params: UpdateCouponParams) {
+  const coupon = await getCouponOrFail(couponId);
+
+  // Fields may be sent alone, so the rules spanning several of them are checked against the stored coupon
+  const startsAt = params.startsAt !== undefined ? params.startsAt : coupon.startsAt;
+  const endsAt = params.endsAt !== undefined ? params.endsAt : coupon.endsAt;
+  if (startsAt && endsAt && !dayjs(endsAt).isAfter(startsAt)) {
+    throw invalidDataError(["\"endsAt\" must be greater than \"startsAt\""]);
+  }
+  const discountType = params.discountType ?? coupon.discountType;
+  const discountValue = params.discountValue ?? coupon.discountValue;
+  if (discountType === DiscountType.PERCENTAGE && discountValue > 100) {
+    throw invalidDataError(["\"discountValue\" must be less than or equal to 100"]);
+  }
+
+  const code = params.code && couponsService.normalizeCode(params.code);
+  if (code) {
+    await validateUniqueCouponCodeOrFail(coupon.eventId, code, couponId);
+  }
+  if (params.ticketTypeIds) {
+    await validateCouponTicketTypesOrFail(coupon.eventId, params.ticketTypeIds);
+  }
+
+  return couponRepository.updateCoupon(couponId, { ...params, ...(code && { code }) });
+}
+
+async function deleteCoupon(couponId: number) {
+  await getCouponOrFail(couponId);
+
+  const paymentsCount = await couponRepository.countPaymentsByCouponId(couponId);
+  if (paymentsCount > 0) {
+    throw conflictError("Cannot delete a coupon that has been used");
+  }
+
+  await couponRepository.deleteCoupon(couponId);
+}
+
+async function getHotels(eventId: number): Promise<Hotel[]> {
+  await getEventOrFail(eventId);
+
+  return hotelRepository.findHotels(eventId);
+}
+
+async function getHotelOrFail(hotelId: number) {
+  const hotel = await hotelRepository.findWithRoomCountById(hotelId);
+  if (!hotel) throw notFoundError();
+
+  return hotel;
+}
+
+async function createHotel(params: CreateHotelParams): Promise<Hotel> {
+  await getEventOrFail(params.eventId);
+
+  return hotelRepository.create(params);
+}
+
+async function updateHotel(hotelId: number, params: UpdateHotelParams): Promise<Hotel> {
+  await getHotelOrFail(hotelId);
+
+  return hotelRepository.update(hotelId, params);
+}
+
+async function deleteHotel(hotelId: number) {
+  const hotel = await getHotelOrFail(hotelId);
+  if (hotel._count.Rooms > 0) {
+    throw conflictError("Cannot delete a hotel with rooms");
+  }
+
+  await hotelRepository.deleteById(hotelId);
+}
+
+async function getRoomOrFail(roomId: number): Promise<Room> {
+  const room = await roomRepository.findRoomById(roomId);
+  if (!room) throw notFoundError();
+
+  return room;
+}
+
+async function getRooms(hotelId: number): Promise<Room[]> {
+  await getHotelOrFail(hotelId);
+
+  return roomRepository.findRoomsByHotelId(hotelId);
+}
+
+async function createRoom(params: CreateRoomParams): Promise<Room> {
+  await getHotelOrFail(params.hotelId);
+
+  return roomRepository.create(params);
+}
+
+async function updateRoom(roomId: number, params: UpdateRoomParams): Promise<Room> {
+  await getRoomOrFail(roomId);
+
+  if (params.capacity !== undefined) {
+    const bookingsOnRoom = await bookingRepository.countBookingsByRoomId(roomId);
+    if (params.capacity < bookingsOnRoom) {
+      throw conflictError("Cannot set room capacity below its current bookings");
+    }
+  }
+
+  return roomRepository.update(roomId, params);
+}
+
+async function deleteRoom(roomId: number) {
+  await getRoomOrFail(roomId);
+
+  const bookingsOnRoom = await bookingRepository.countBookingsByRoomId(roomId);
+  if (bookingsOnRoom > 0) {
+    throw conflictError("Cannot delete a room with bookings");
+  }
+
+  await roomRepository.deleteById(roomId);
+}
+
+const adminService = {
+  getEvents,
+  createEvent,
+  updateEvent,
+  deleteEvent,
+  getTicketTypes,
+  createTicketType,
+  updateTicketType,
+  deleteTicketType,
+  getMerchandise,
+  createMerchandise,
+  updateMerchandise,
+  deleteMerchandise,
+  getCoupons,
+  createCoupon,
+  updateCoupon,
+  deleteCoupon,
+  getHotels,
+  createHotel,
+  updateHotel,
+  deleteHotel,
+  getRooms,
+  createRoom,
+  updateRoom,
+  deleteRoom,
+};
+
+export default adminService;
@@ -6,3 +6,24 @@ export function invalidCredentialsError(): ApplicationError {
     message: "email or password are incorrect",
   };
 }
+
+export function invalidRefreshTokenError(): ApplicationError {
+  return {
+    name: "InvalidRefreshTokenError",
+    message: "refresh token is invalid or expired",
+  };
+}
+
+export function invalidOAuthCodeError(): ApplicationError {
+  return {
+    name: "InvalidOAuthCodeError",
+    message: "could not sign in with the given authorization code",
+  };
+}
+
+export function unverifiedOAuthEmailError(): ApplicationError {
+  return {
+    name: "UnverifiedOAuthEmailError",
+    message: "your provider account has no verified primary email",
+  };
+}
@@ -1,59 +1,193 @@
+import { notFoundError } from "@/errors";
+import oauthAccountRepository from "@/repositories/oauth-account-repository";
 import sessionRepository from "@/repositories/session-repository";
 import userRepository from "@/repositories/user-repository";
+import { getGitHubClient } from "@/utils/github-client";
 import { exclude } from "@/utils/prisma-utils";
-import { User } from "@prisma/client";
+import { generateOpaqueToken, hashOpaqueToken } from "@/utils/token-utils";
+import { OAuthProvider, Session, User } from "@prisma/client";
 import bcrypt from "bcrypt";
+import dayjs from "dayjs";
 import jwt from "jsonwebtoken";
-import { invalidCredentialsError } from "./errors";
+import {
+  invalidCredentialsError,
+  invalidOAuthCodeError,
+  invalidRefreshTokenError,
+  unverifiedOAuthEmailError,
+} from "./errors";
+import loginThrottleService, { SignInAttempt } from "../login-throttle-service";
 
-async function signIn(params: SignInParams): Promise<SignInResult> {
+async function signIn(params: SignInParams, metadata: SessionMetadata = {}): Promise<SignInResult> {
   const { email, password } = params;
+  const attempt = { email, ip: metadata.ip, userAgent: metadata.userAgent };
 
-  const user = await getUserOrFail(email);
+  await loginThrottleService.checkSignInAllowedOrFail(attempt);
 
-  await validatePasswordOrFail(password, user.password);
+  const user = await getUserOrFail(attempt);
 
-  const token = await createSession(user.id);
+  await validatePasswordOrFail(password, user.password, attempt);
+
+  await loginThrottleService.registerSuccessfulSignIn(attempt);
+
+  const tokens = await createSession(user.id, metadata);
 
   return {
     user: exclude(user, "password"),
-    token,
+    ...tokens,
+  };
+}
+
+async function signInWithGitHub(code: string, metadata: SessionMetadata = {}): Promise<SignInResult> {
+  const profile = await getGitHubClient().getProfile(code);
+  if (!profile) throw invalidOAuthCodeError();
+
+  const user = await findOrCreateOAuthUser(OAuthProvider.GITHUB, profile.providerAccountId, profile.email);
+
+  const tokens = await createSession(user.id, metadata);
+
+  return {
+    user: { id: user.id, email: user.email },
+    ...tokens,
   };
 }
 
-async function getUserOrFail(email: string): Promise<GetUserOrFailResult> {
-  const user = await userRepository.findByEmail(email, { id: true, email: true, password: true });
-  if (!user) throw invalidCredentialsError();
+async function findOrCreateOAuthUser(provider: OAuthProvider, providerAccountId: string, email: string | null) {
+  const account = await oauthAccountRepository.findByProviderAccount(provider, providerAccountId);
+  if (account) return account.User;
+
+  if (!email) throw unverifiedOAuthEmailError();
+
+  let user = await userRepository.findByEmail(email);
+  if (!user) {
+    user = await userRepository.create({ email, password: null, emailVerifiedAt: new Date() });
+  } else if (!user.emailVerifiedAt) {
+    // Anyone could have signed up with this address, so only its owner keeps access from now on
+    await sessionRepository.deleteManyByUserId(user.id);
+    user = await userRepository.verifyEmailDroppingPassword(user.id);
+  }
+
+  await oauthAccountRepository.create({ userId: user.id, provider, providerAccountId });
+
+  return user;
+}
+
+async function getUserOrFail(attempt: SignInAttempt): Promise<GetUserOrFailResult> {
+  const user = await userRepository.findByEmail(attempt.email, { id: true, email: true, password: true });
+  if (!user) await failSignIn(attempt);
 
   return user;
 }
 
-async function createSession(userId: number) {
-  const token = jwt.sign({ userId }, process.env.JWT_SECRET);
+async function createSession(userId: number, metadata: SessionMetadata, familyId?: string): Promise<SessionTokens> {
+  const token = jwt.sign({ userId }, process.env.JWT_SECRET, { expiresIn: process.env.JWT_EXPIRES_IN || "15m" });
+  const refreshToken = generateOpaqueToken();
+  const refreshTokenExpiresInDays = Number(process.env.REFRESH_TOKEN_EXPIRES_IN_DAYS) || 30;
+
   await sessionRepository.create({
     token,
     userId,
+    familyId,
+    refreshTokenHash: hashOpaqueToken(refreshToken),
+    refreshTokenExpiresAt: dayjs().add(refreshTokenExpiresInDays, "days").toDate(),
+    userAgent: metadata.userAgent?.slice(0, 255),
+    ip: metadata.ip,
   });
 
-  return token;
+  return { token, refreshToken };
+}
+
+async function refresh(refreshToken: string, metadata: SessionMetadata = {}): Promise<SessionTokens> {
+  const session = await sessionRepository.findByRefreshTokenHash(hashOpaqueToken(refreshToken));
+  if (!session) throw invalidRefreshTokenError();
+
+  // A rotated refresh token coming back means it leaked, so the whole family is dropped
+  const wasRotated = session.rotatedAt || !(await sessionRepository.markAsRotated(session.id));
+  if (wasRotated) {
+    await sessionRepository.deleteManyByFamilyId(session.familyId);
+    throw invalidRefreshTokenError();
+  }
+
+  if (dayjs().isAfter(session.refreshTokenExpiresAt)) {
+    await sessionRepository.deleteManyByFamilyId(session.familyId);
+    throw invalidRefreshTokenError();
+  }
+
+  return createSession(session.userId, metadata, session.familyId);
 }
 
-async function validatePasswordOrFail(password: string, userPassword: string) {
+async function signOut(sessionId: number) {
+  const session = await sessionRepository.findById(sessionId);
+  if (!session) return;
+
+  await sessionRepository.deleteManyByFamilyId(session.familyId);
+}
+
+async function getSessions(userId: number, currentSessionId: number): Promise<SessionSummary[]> {
+  const sessions = await sessionRepository.findManyByUserId(userId);
+
+  return sessions.map((session) => ({
+    id: session.id,
+    userAgent: session.userAgent,
+    ip: session.ip,
+    createdAt: session.createdAt,
+    current: session.id === currentSessionId,
+  }));
+}
+
+async function revokeSession(userId: number, sessionId: number) {
+  const session = await sessionRepository.findById(sessionId);
+  if (!session || session.userId !== userId || session.rotatedAt) throw notFoundError();
+
+  await sessionRepository.deleteManyByFamilyId(session.familyId);
+}
+
+async function validatePasswordOrFail(password: string, userPassword: string | null, attempt: SignInAttempt) {
+  // Accounts created through OAuth have no password until one is set via password reset
+  if (!userPassword) await failSignIn(attempt);
+
   const isPasswordValid = await bcrypt.compare(password, userPassword);
-  if (!isPasswordValid) throw invalidCredentialsError();
+  if (!isPasswordValid) await failSignIn(attempt);
+}
+
+async function failSignIn(attempt: SignInAttempt): Promise<never> {
+  await loginThrottleService.registerFailedSignIn(attempt);
+  throw invalidCredentialsError();
 }
 
 export type SignInParams = Pick<User, "email" | "password">;
 
-type SignInResult = {
-  user: Pick<User, "id" | "email">;
+export type SessionMetadata = Partial<Pick<Session, "userAgent" | "ip">>;
+
+type SessionSummary = Pick<Session, "id" | "userAgent" | "ip" | "createdAt"> & {
+  current: boolean;
+};
+
+export type OAuthSignInParams = {
+  code: string;
+};
+
+export type RefreshParams = {
+  refreshToken: string;
+};
+
+type SessionTokens = {
   token: string;
+  refreshToken: string;
+};
+
+type SignInResult = SessionTokens & {
+  user: Pick<User, "id" | "email">;
 };
 
 type GetUserOrFailResult = Pick<User, "id" | "email" | "password">;
 
 const authenticationService = {
   signIn,
+  signInWithGitHub,
+  refresh,
+  signOut,
+  getSessions,
+  revokeSession,
 };
 
 export default authenticationService;
@@ -1,22 +1,17 @@
 import { Room, TicketStatus } from "@prisma/client";
 import { forbiddenError, notFoundError } from "@/errors";
 import bookingRepository from "@/repositories/booking-repository";
-import enrollmentRepository from "@/repositories/enrollment-repository";
 import ticketRepository from "@/repositories/ticket-repository";
 import roomRepository from "@/repositories/room-repository";
 
-async function isUserAllowed(userId: number): Promise<boolean> {
-  const enrollment = await enrollmentRepository.findWithAddressByUserId(userId);
-  if(!enrollment) {
-    return false;
-  }
-
-  const ticket = await ticketRepository.findTicketByEnrollmentId(enrollment.id);
+async function isUserAllowed(userId: number, eventId: number): Promise<boolean> {
+  const ticket = await ticketRepository.findTicketByAttendeeUserIdAndEventId(userId, eventId);
   if(!ticket) {
     return false;
   }
 
-  const isHostableTicketType = !ticket.TicketType.isRemote && ticket.TicketType.includesHotel;
+  const isHostableTicketType =
+    !ticket.TicketType.isRemote && (ticket.TicketType.includesHotel || ticket.hasHotelUpgrade);
   const isTicketPaid = ticket.status === TicketStatus.PAID;
   if(!(isHostableTicketType && isTicketPaid)) {
     return false;
@@ -34,13 +29,13 @@ async function isRoomFull(room: Room): Promise<boolean> {
   return isFull;
 }
 
-async function getBooking(userId: number): Promise<BookingWithRoom> {
-  const allowed = await isUserAllowed(userId);
+async function getBooking(userId: number, eventId: number): Promise<BookingWithRoom> {
+  const allowed = await isUserAllowed(userId, eventId);
   if(!allowed) {
     throw forbiddenError();
   }
 
-  const bookingWithRoom = await bookingRepository.findWithRoomByUserId(userId);
+  const bookingWithRoom = await bookingRepository.findWithRoomByUserIdAndEventId(userId, eventId);
   if(!bookingWithRoom) {
     throw notFoundError();
   }
@@ -48,22 +43,22 @@ async function getBooking(userId: number): Promise<BookingWithRoom> {
   return bookingWithRoom;
 }
 
-async function createBooking(userId: number, roomId: number): Promise<BookingId> {
+async function createBooking(userId: number, eventId: number, roomId: number): Promise<BookingId> {
   if(roomId < 1) {
     throw forbiddenError();
   }
   
-  const allowed = await isUserAllowed(userId);
+  const allowed = await isUserAllowed(userId, eventId);
   if(!allowed) {
     throw forbiddenError();
   }
 
-  const bookingWithRoom = await bookingRepository.findWithRoomByUserId(userId);
+  const bookingWithRoom = await bookingRepository.findWithRoomByUserIdAndEventId(userId, eventId);
   if(bookingWithRoom) {
     throw forbiddenError();
   }
 
-  const room = await roomRepository.findRoomById(roomId);
+  const room = await roomRepository.findRoomByIdAndEventId(roomId, eventId);
   if(!room) {
     throw notFoundError();
   }
@@ -78,23 +73,23 @@ async function createBooking(userId: number, roomId: number): Promise<BookingId>
   return { bookingId: createdBooking.id };
 }
 
-async function updateBooking(userId: number, bookingId: number, roomId: number): Promise<BookingId> {
+async function updateBooking(userId: number, eventId: number, bookingId: number, roomId: number): Promise<BookingId> {
   if(roomId < 1 || bookingId < 1) {
     throw forbiddenError();
   }
   
-  const allowed = await isUserAllowed(userId);
+  const allowed = await isUserAllowed(userId, eventId);
   if(!allowed) {
     throw forbiddenError();
   }
 
-  const room = await roomRepository.findRoomById(roomId);
+  const room = await roomRepository.findRoomByIdAndEventId(roomId, eventId);
   const booking = await bookingRepository.findById(bookingId);
   if(!(room && booking)) {
     throw notFoundError();
   }
 
-  const userBooking = await bookingRepository.findWithRoomByUserId(userId);
+  const userBooking = await bookingRepository.findWithRoomByUserIdAndEventId(userId, eventId);
   const isBookingIdFromUser = userBooking && userBooking?.id === bookingId;
   if(!isBookingIdFromUser) {
     throw forbiddenError();
@@ -0,0 +1,8 @@
+import { ApplicationError } from "@/protocols";
+
+export function invalidCouponError(message: string): ApplicationError {
+  return {
+    name: "InvalidCouponError",
+    message,
+  };
+}
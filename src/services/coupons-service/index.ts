@@ -0,0 +1,113 @@
+import dayjs from "dayjs";
+import { notFoundError } from "@/errors";
+import couponRepository from "@/repositories/coupon-repository";
+import ticketRepository from "@/repositories/ticket-repository";
+import { Coupon, DiscountType, Order, OrderItem, OrderItemType } from "@prisma/client";
+import { invalidCouponError } from "./errors";
+
+function normalizeCode(code: string) {
+  return code.trim().toUpperCase();
+}
+
+// Checks everything but the ticket types, which depend on what is being bought
+async function findRedeemableCoupon(userId: number, eventId: number, code: string, now: Date = new Date()) {
+  const coupon = await couponRepository.findCouponByCode(eventId, normalizeCode(code));
+  if (!coupon) {
+    throw invalidCouponError("Coupon not found");
+  }
+
+  if (coupon.startsAt && dayjs(now).isBefore(coupon.startsAt)) {
+    throw invalidCouponError("Coupon is not valid yet");
+  }
+  if (coupon.endsAt && !dayjs(now).isBefore(coupon.endsAt)) {
+    throw invalidCouponError("Coupon has expired");
+  }
+
+  if (coupon.maxUses !== null && (await couponRepository.countRedemptions(coupon.id)) >= coupon.maxUses) {
+    throw invalidCouponError("Coupon usage limit reached");
+  }
+  if (
+    coupon.maxUsesPerUser !== null &&
+    (await couponRepository.countRedemptions(coupon.id, userId)) >= coupon.maxUsesPerUser
+  ) {
+    throw invalidCouponError("You have already used this coupon");
+  }
+
+  return coupon;
+}
+
+function appliesTo(coupon: CouponWithTicketTypes, ticketTypeId: number) {
+  return coupon.TicketType.length === 0 || coupon.TicketType.some((ticketType) => ticketType.id === ticketTypeId);
+}
+
+// Fixed discounts never go beyond what they are applied to
+function calculateDiscount(coupon: Pick<Coupon, "discountType" | "discountValue">, amount: number) {
+  if (coupon.discountType === DiscountType.PERCENTAGE) {
+    return Math.floor((amount * Math.min(coupon.discountValue, 100)) / 100);
+  }
+
+  return Math.min(coupon.discountValue, amount);
+}
+
+async function previewCoupon(userId: number, eventId: number, code: string, ticketTypeId: number) {
+  const ticketType = await ticketRepository.findTicketTypeById(ticketTypeId);
+  if (!ticketType || ticketType.eventId !== eventId) {
+    throw notFoundError();
+  }
+
+  const coupon = await findRedeemableCoupon(userId, eventId, code);
+  if (!appliesTo(coupon, ticketType.id)) {
+    throw invalidCouponError("Coupon does not apply to this ticket type");
+  }
+
+  const discountAmount = calculateDiscount(coupon, ticketType.price);
+
+  return {
+    code: coupon.code,
+    discountType: coupon.discountType,
+    discountValue: coupon.discountValue,
+    price: ticketType.price,
+    discountAmount,
+    finalPrice: ticketType.price - discountAmount,
+  };
+}
+
+// Coupons discount the tickets of an order; hotel upgrades and merchandise are always charged in full
+async function applyCoupon(userId: number, order: OrderWithItems, code: string): Promise<AppliedCoupon> {
+  const coupon = await findRedeemableCoupon(userId, order.eventId, code);
+
+  const ticketItems = order.OrderItem.filter((item) => item.type === OrderItemType.TICKET);
+  const tickets = await ticketRepository.findTicketsByIds(ticketItems.map((item) => item.ticketId));
+  const discountableAmount = ticketItems
+    .filter((item) => tickets.some((ticket) => ticket.id === item.ticketId && appliesTo(coupon, ticket.ticketTypeId)))
+    .reduce((sum, item) => sum + item.total, 0);
+
+  if (discountableAmount === 0) {
+    throw invalidCouponError("Coupon does not apply to this order");
+  }
+
+  return { couponId: coupon.id, discountAmount: calculateDiscount(coupon, discountableAmount) };
+}
+
+export type AppliedCoupon = {
+  couponId: number;
+  discountAmount: number;
+};
+
+type CouponWithTicketTypes = Coupon & {
+  TicketType: { id: number }[];
+};
+
+type OrderWithItems = Order & {
+  OrderItem: OrderItem[];
+};
+
+const couponsService = {
+  normalizeCode,
+  calculateDiscount,
+  previewCoupon,
+  applyCoupon,
+};
+
+export default couponsService;
+export * from "./errors";
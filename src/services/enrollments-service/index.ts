@@ -1,10 +1,12 @@
 import { AddressEnrollment } from "@/protocols";
 import { getAddress } from "@/utils/cep-service";
-import { notFoundError } from "@/errors";
+import { cannotEnrollBeforeStartDateError, notFoundError } from "@/errors";
 import addressRepository, { CreateAddressParams } from "@/repositories/address-repository";
 import enrollmentRepository, { CreateEnrollmentParams } from "@/repositories/enrollment-repository";
 import { exclude } from "@/utils/prisma-utils";
 import { Address, Enrollment } from "@prisma/client";
+import eventsService from "../events-service";
+import userService from "../users-service";
 
 async function getAddressFromCEP(cep: string): Promise<AddressEnrollment> {
   const result = await getAddress(cep);
@@ -32,8 +34,8 @@ async function getAddressFromCEP(cep: string): Promise<AddressEnrollment> {
   return address;
 }
 
-async function getOneWithAddressByUserId(userId: number): Promise<GetOneWithAddressByUserIdResult> {
-  const enrollmentWithAddress = await enrollmentRepository.findWithAddressByUserId(userId);
+async function getOneWithAddressByUserId(userId: number, eventId: number): Promise<GetOneWithAddressByUserIdResult> {
+  const enrollmentWithAddress = await enrollmentRepository.findWithAddressByUserIdAndEventId(userId, eventId);
 
   if (!enrollmentWithAddress) throw notFoundError();
 
@@ -41,12 +43,12 @@ async function getOneWithAddressByUserId(userId: number): Promise<GetOneWithAddr
   const address = getFirstAddress(firstAddress);
 
   return {
-    ...exclude(enrollmentWithAddress, "userId", "createdAt", "updatedAt", "Address"),
+    ...exclude(enrollmentWithAddress, "userId", "eventId", "createdAt", "updatedAt", "Address"),
     ...(!!address && { address }),
   };
 }
 
-type GetOneWithAddressByUserIdResult = Omit<Enrollment, "userId" | "createdAt" | "updatedAt">;
+type GetOneWithAddressByUserIdResult = Omit<Enrollment, "userId" | "eventId" | "createdAt" | "updatedAt">;
 
 function getFirstAddress(firstAddress: Address): GetAddressResult {
   if (!firstAddress) return null;
@@ -57,6 +59,9 @@ function getFirstAddress(firstAddress: Address): GetAddressResult {
 type GetAddressResult = Omit<Address, "createdAt" | "updatedAt" | "enrollmentId">;
 
 async function createOrUpdateEnrollmentWithAddress(params: CreateOrUpdateEnrollmentWithAddress) {
+  await userService.checkEmailVerifiedOrFail(params.userId);
+  await canEnrollOrFail(params.eventId);
+
   const enrollment = exclude(params, "address");
   const address = getAddressForUpsert(params.address);
 
@@ -67,11 +72,23 @@ async function createOrUpdateEnrollmentWithAddress(params: CreateOrUpdateEnrollm
     throw notFoundError();
   }
 
-  const newEnrollment = await enrollmentRepository.upsert(params.userId, enrollment, exclude(enrollment, "userId"));
+  const newEnrollment = await enrollmentRepository.upsert(
+    params.userId,
+    params.eventId,
+    enrollment,
+    exclude(enrollment, "userId", "eventId"),
+  );
 
   await addressRepository.upsert(newEnrollment.id, address, address);
 }
 
+async function canEnrollOrFail(eventId: number) {
+  const canEnroll = await eventsService.isEventActive(eventId);
+  if (!canEnroll) {
+    throw cannotEnrollBeforeStartDateError();
+  }
+}
+
 function getAddressForUpsert(address: CreateAddressParams) {
   return {
     ...address,
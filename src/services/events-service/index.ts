@@ -4,17 +4,23 @@ import { exclude } from "@/utils/prisma-utils";
 import { Event } from "@prisma/client";
 import dayjs from "dayjs";
 
-async function getFirstEvent(): Promise<GetFirstEventResult> {
-  const event = await eventRepository.findFirst();
+async function getEvents(): Promise<GetEventResult[]> {
+  const events = await eventRepository.findMany();
+
+  return events.map((event) => exclude(event, "createdAt", "updatedAt"));
+}
+
+async function getEventBySlug(slug: string): Promise<GetEventResult> {
+  const event = await eventRepository.findBySlug(slug);
   if (!event) throw notFoundError();
 
   return exclude(event, "createdAt", "updatedAt");
 }
 
-export type GetFirstEventResult = Omit<Event, "createdAt" | "updatedAt">;
+export type GetEventResult = Omit<Event, "createdAt" | "updatedAt">;
 
-async function isCurrentEventActive(): Promise<boolean> {
-  const event = await eventRepository.findFirst();
+async function isEventActive(eventId: number): Promise<boolean> {
+  const event = await eventRepository.findById(eventId);
   if (!event) return false;
 
   const now = dayjs();
@@ -25,8 +31,9 @@ async function isCurrentEventActive(): Promise<boolean> {
 }
 
 const eventsService = {
-  getFirstEvent,
-  isCurrentEventActive,
+  getEvents,
+  getEventBySlug,
+  isEventActive,
 };
 
 export default eventsService;
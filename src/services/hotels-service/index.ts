@@ -4,30 +4,33 @@ import ticketRepository from "@/repositories/ticket-repository";
 import { notFoundError } from "@/errors";
 import { cannotListHotelsError } from "@/errors/cannot-list-hotels-error";
 
-async function listHotels(userId: number) {
-  //Tem enrollment?
-  const enrollment = await enrollmentRepository.findWithAddressByUserId(userId);
-  if (!enrollment) {
-    throw notFoundError();
+async function listHotels(userId: number, eventId: number) {
+  //Eligibility follows the ticket the user attends with, which may have been bought by someone else
+  const ticket = await ticketRepository.findTicketByAttendeeUserIdAndEventId(userId, eventId);
+  if (!ticket) {
+    const enrollment = await enrollmentRepository.findWithAddressByUserIdAndEventId(userId, eventId);
+    if (!enrollment) {
+      throw notFoundError();
+    }
   }
-  //Tem ticket pago isOnline false e includesHotel true
-  const ticket = await ticketRepository.findTicketByEnrollmentId(enrollment.id);
 
-  if (!ticket || ticket.status === "RESERVED" || ticket.TicketType.isRemote || !ticket.TicketType.includesHotel) {
+  //Tem ticket pago isOnline false e includesHotel true
+  const hasHotel = ticket && (ticket.TicketType.includesHotel || ticket.hasHotelUpgrade);
+  if (!ticket || ticket.status !== "PAID" || ticket.TicketType.isRemote || !hasHotel) {
     throw cannotListHotelsError();
   }
 }
 
-async function getHotels(userId: number) {
-  await listHotels(userId);
+async function getHotels(userId: number, eventId: number) {
+  await listHotels(userId, eventId);
 
-  const hotels = await hotelRepository.findHotels();
+  const hotels = await hotelRepository.findHotels(eventId);
   return hotels;
 }
 
-async function getHotelsWithRooms(userId: number, hotelId: number) {
-  await listHotels(userId);
-  const hotel = await hotelRepository.findRoomsByHotelId(hotelId);
+async function getHotelsWithRooms(userId: number, eventId: number, hotelId: number) {
+  await listHotels(userId, eventId);
+  const hotel = await hotelRepository.findRoomsByHotelId(hotelId, eventId);
 
   if (!hotel) {
     throw notFoundError();
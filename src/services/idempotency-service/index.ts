@@ -0,0 +1,80 @@
+import crypto from "crypto";
+import dayjs from "dayjs";
+import { conflictError, idempotencyKeyMismatchError } from "@/errors";
+import idempotencyKeyRepository from "@/repositories/idempotency-key-repository";
+import { IdempotencyKey, Prisma } from "@prisma/client";
+
+const KEY_TTL_HOURS = 24;
+// A request still unanswered after this long is assumed to have died with its process
+const IN_PROGRESS_TIMEOUT_SECONDS = 60;
+
+function fingerprintRequest(request: IdempotentRequest): string {
+  return crypto.createHash("sha256").update(JSON.stringify(request)).digest("hex");
+}
+
+async function begin(userId: number, key: string, request: IdempotentRequest): Promise<StoredResponse | null> {
+  const fingerprint = fingerprintRequest(request);
+
+  const created = await idempotencyKeyRepository.createIfAbsent({
+    userId,
+    key,
+    fingerprint,
+    expiresAt: dayjs().add(KEY_TTL_HOURS, "hours").toDate(),
+  });
+  if (created) return null;
+
+  const existing = await idempotencyKeyRepository.findByUserIdAndKey(userId, key);
+  if (!existing || isStale(existing)) {
+    await idempotencyKeyRepository.deleteByUserIdAndKey(userId, key);
+    return begin(userId, key, request);
+  }
+
+  if (existing.fingerprint !== fingerprint) {
+    throw idempotencyKeyMismatchError();
+  }
+
+  if (existing.responseStatus === null) {
+    throw conflictError("A request with this Idempotency-Key is still being processed");
+  }
+
+  return {
+    status: existing.responseStatus,
+    body: existing.responseBody,
+  };
+}
+
+function isStale(idempotencyKey: IdempotencyKey) {
+  if (dayjs().isAfter(idempotencyKey.expiresAt)) return true;
+
+  const abandonedAt = dayjs(idempotencyKey.createdAt).add(IN_PROGRESS_TIMEOUT_SECONDS, "seconds");
+  return idempotencyKey.responseStatus === null && dayjs().isAfter(abandonedAt);
+}
+
+// Server errors are not stored so the client can retry them with the same key
+async function complete(userId: number, key: string, status: number, body: unknown) {
+  if (status >= 500) {
+    await idempotencyKeyRepository.deleteByUserIdAndKey(userId, key);
+    return;
+  }
+
+  const storedBody = body === undefined ? undefined : JSON.parse(JSON.stringify(body));
+  await idempotencyKeyRepository.saveResponse(userId, key, status, storedBody);
+}
+
+export type IdempotentRequest = {
+  method: string;
+  path: string;
+  body: unknown;
+};
+
+export type StoredResponse = {
+  status: number;
+  body: Prisma.JsonValue;
+};
+
+const idempotencyService = {
+  begin,
+  complete,
+};
+
+export default idempotencyService;
@@ -3,3 +3,6 @@ export * from "./authentication-service";
 export * from "./events-service";
 export * from "./enrollments-service";
 export * from "./hotels-service";
+export * from "./password-reset-service";
+export * from "./login-throttle-service";
+export * from "./rate-limit-service";
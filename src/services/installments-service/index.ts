@@ -0,0 +1,96 @@
+import dayjs from "dayjs";
+import { invalidDataError } from "@/errors";
+import ticketRepository from "@/repositories/ticket-repository";
+import { CreatePaymentInstallmentParams } from "@/repositories/payment-repository";
+import { Order, OrderItem } from "@prisma/client";
+import ordersService from "../orders-service";
+
+const singlePaymentPolicy: InstallmentPolicy = {
+  maxInstallments: 1,
+  interestFreeInstallments: 1,
+  installmentInterestRate: 0,
+};
+
+// An order mixing ticket types gets the strictest rules among them; merchandise alone is paid in one go
+async function getInstallmentPolicy(order: OrderWithItems): Promise<InstallmentPolicy> {
+  const ticketIds = order.OrderItem.filter((item) => item.ticketId).map((item) => item.ticketId);
+  const ticketTypes = await ticketRepository.findTicketTypesByTicketIds(ticketIds);
+
+  if (ticketTypes.length === 0) return singlePaymentPolicy;
+
+  return {
+    maxInstallments: Math.min(...ticketTypes.map((ticketType) => ticketType.maxInstallments)),
+    interestFreeInstallments: Math.min(...ticketTypes.map((ticketType) => ticketType.interestFreeInstallments)),
+    installmentInterestRate: Math.max(...ticketTypes.map((ticketType) => ticketType.installmentInterestRate)),
+  };
+}
+
+// Plans longer than the interest free ones follow the Price table (fixed payments, compound monthly interest);
+// amounts stay in the unit prices use, and what does not divide evenly goes to the first installments
+function calculateInstallmentPlan(amount: number, installments: number, policy: InstallmentPolicy): InstallmentPlan {
+  const rate = installments > policy.interestFreeInstallments ? policy.installmentInterestRate / 100 : 0;
+  const total = rate === 0 ? amount : Math.round((amount * rate * installments) / (1 - Math.pow(1 + rate, -installments)));
+
+  const baseAmount = Math.floor(total / installments);
+  const remainder = total - baseAmount * installments;
+  const amounts = Array.from({ length: installments }, (_, index) => baseAmount + (index < remainder ? 1 : 0));
+
+  return { installments, total, interestAmount: total - amount, amounts };
+}
+
+async function planInstallments(order: OrderWithItems, amount: number, installments = 1): Promise<InstallmentPlan> {
+  const policy = await getInstallmentPolicy(order);
+
+  if (!Number.isInteger(installments) || installments < 1 || installments > policy.maxInstallments) {
+    throw invalidDataError([`installments must be between 1 and ${policy.maxInstallments}`]);
+  }
+
+  return calculateInstallmentPlan(amount, installments, policy);
+}
+
+// Every option the order can be paid with, so buyers see the interest before choosing
+async function getInstallmentOptions(userId: number, eventId: number, orderId: number) {
+  const order = await ordersService.getOrder(userId, eventId, orderId);
+  const policy = await getInstallmentPolicy(order);
+
+  return Array.from({ length: policy.maxInstallments }, (_, index) => {
+    const { amounts, ...plan } = calculateInstallmentPlan(order.total, index + 1, policy);
+
+    return { ...plan, installmentAmount: amounts[0] };
+  });
+}
+
+// The first installment is charged now and each following one a month later
+function buildInstallmentSchedule(plan: InstallmentPlan, firstDueDate: Date = new Date()): CreatePaymentInstallmentParams[] {
+  return plan.amounts.map((amount, index) => ({
+    number: index + 1,
+    amount,
+    dueDate: dayjs(firstDueDate).add(index, "month").toDate(),
+  }));
+}
+
+export type InstallmentPolicy = {
+  maxInstallments: number;
+  interestFreeInstallments: number;
+  installmentInterestRate: number;
+};
+
+export type InstallmentPlan = {
+  installments: number;
+  total: number;
+  interestAmount: number;
+  amounts: number[];
+};
+
+type OrderWithItems = Order & {
+  OrderItem: OrderItem[];
+};
+
+const installmentsService = {
+  calculateInstallmentPlan,
+  planInstallments,
+  getInstallmentOptions,
+  buildInstallmentSchedule,
+};
+
+export default installmentsService;
@@ -0,0 +1,89 @@
+import { lockedAccountError, tooManyRequestsError } from "@/errors";
+import failedSignInRepository from "@/repositories/failed-sign-in-repository";
+import loginThrottleRepository, { LoginThrottleState } from "@/repositories/login-throttle-repository";
+import dayjs from "dayjs";
+
+const FAILURE_WINDOW_MINUTES = 15;
+const LOCKOUT_MINUTES = 15;
+const EMAIL_DELAY_AFTER_FAILURES = 3;
+const EMAIL_LOCKOUT_AFTER_FAILURES = 5;
+const IP_LOCKOUT_AFTER_FAILURES = 20;
+
+async function checkSignInAllowedOrFail({ email, ip }: SignInAttempt) {
+  const emailState = await loginThrottleRepository.find(emailKey(email));
+  const emailRetryAfter = secondsUntilUnlocked(emailState);
+  if (emailRetryAfter > 0) throw lockedAccountError(emailRetryAfter);
+
+  if (!ip) return;
+
+  const ipState = await loginThrottleRepository.find(ipKey(ip));
+  if (secondsUntilUnlocked(ipState) > 0) throw tooManyRequestsError();
+}
+
+async function registerFailedSignIn({ email, ip, userAgent }: SignInAttempt) {
+  await failedSignInRepository.create({ email, ip, userAgent: userAgent?.slice(0, 255) });
+
+  await registerFailure(emailKey(email), "email");
+  if (ip) await registerFailure(ipKey(ip), "ip");
+}
+
+async function registerSuccessfulSignIn({ email }: SignInAttempt) {
+  await loginThrottleRepository.remove(emailKey(email));
+}
+
+async function registerFailure(key: string, scope: ThrottleScope) {
+  const now = dayjs();
+  const { failures } = await loginThrottleRepository.registerFailure(
+    key,
+    now.toDate(),
+    now.subtract(FAILURE_WINDOW_MINUTES, "minutes").toDate(),
+  );
+
+  // The count already includes concurrent failures, so the lock is decided from it alone
+  const delaySeconds = scope === "email" ? getEmailDelaySeconds(failures) : getIpDelaySeconds(failures);
+  if (delaySeconds > 0) {
+    await loginThrottleRepository.lock(key, now.add(delaySeconds, "seconds").toDate());
+  }
+}
+
+// Wrong passwords get progressively slower (2s, 4s, ...) until the account is locked for a while
+function getEmailDelaySeconds(failures: number) {
+  if (failures >= EMAIL_LOCKOUT_AFTER_FAILURES) return LOCKOUT_MINUTES * 60;
+  if (failures >= EMAIL_DELAY_AFTER_FAILURES) return 2 ** (failures - EMAIL_DELAY_AFTER_FAILURES + 1);
+
+  return 0;
+}
+
+function getIpDelaySeconds(failures: number) {
+  return failures >= IP_LOCKOUT_AFTER_FAILURES ? LOCKOUT_MINUTES * 60 : 0;
+}
+
+function secondsUntilUnlocked(state: LoginThrottleState | null) {
+  if (!state?.lockedUntil) return 0;
+
+  return Math.max(0, Math.ceil(dayjs(state.lockedUntil).diff(dayjs()) / 1000));
+}
+
+function emailKey(email: string) {
+  return `email:${email.toLowerCase()}`;
+}
+
+function ipKey(ip: string) {
+  return `ip:${ip}`;
+}
+
+type ThrottleScope = "email" | "ip";
+
+export type SignInAttempt = {
+  email: string;
+  ip?: string;
+  userAgent?: string;
+};
+
+const loginThrottleService = {
+  checkSignInAllowedOrFail,
+  registerFailedSignIn,
+  registerSuccessfulSignIn,
+};
+
+export default loginThrottleService;
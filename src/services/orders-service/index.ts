@@ -0,0 +1,157 @@
+import { conflictError, invalidDataError, notFoundError } from "@/errors";
+import enrollmentRepository from "@/repositories/enrollment-repository";
+import merchandiseRepository from "@/repositories/merchandise-repository";
+import orderRepository, { CreateOrderItemParams } from "@/repositories/order-repository";
+import ticketRepository from "@/repositories/ticket-repository";
+import { Enrollment, OrderItemType, Ticket, TicketStatus, TicketType } from "@prisma/client";
+import userService from "../users-service";
+
+async function getMerchandise(eventId: number) {
+  return merchandiseRepository.findMerchandiseByEventId(eventId);
+}
+
+async function getOrder(userId: number, eventId: number, orderId: number) {
+  const order = await orderRepository.findOrderById(orderId);
+  if (!order || order.userId !== userId || order.eventId !== eventId) {
+    throw notFoundError();
+  }
+
+  return order;
+}
+
+async function createOrder(userId: number, eventId: number, items: CreateOrderItem[]) {
+  await userService.checkEmailVerifiedOrFail(userId);
+
+  const enrollment = await enrollmentRepository.findWithAddressByUserIdAndEventId(userId, eventId);
+  if (!enrollment) {
+    throw notFoundError();
+  }
+
+  const ticketItems = items.filter((item) => item.type !== OrderItemType.MERCHANDISE);
+  const distinctTicketItems = new Set(ticketItems.map((item) => `${item.type}:${item.ticketId}`));
+  if (distinctTicketItems.size !== ticketItems.length) {
+    throw invalidDataError(["the same ticket cannot be ordered twice for the same item type"]);
+  }
+
+  const orderItems: CreateOrderItemParams[] = [];
+  for (const item of items) {
+    orderItems.push(await priceItem(enrollment, item));
+  }
+
+  // Prices always come from the catalog, never from the client
+  const total = orderItems.reduce((sum, item) => sum + item.total, 0);
+
+  return orderRepository.createOrder({ userId, eventId, total }, orderItems);
+}
+
+// A paid ticket moving to a pricier type is charged the difference; the type only changes once this order is paid
+async function createTicketTypeChangeOrder(
+  userId: number,
+  eventId: number,
+  ticket: TicketWithType,
+  ticketType: TicketType,
+) {
+  const priceDifference = ticketType.price - ticket.TicketType.price;
+  const item = buildItem(
+    OrderItemType.TICKET_TYPE_CHANGE,
+    `Ticket change - ${ticket.TicketType.name} to ${ticketType.name}`,
+    priceDifference,
+    1,
+    { ticketId: ticket.id, ticketTypeId: ticketType.id },
+  );
+
+  return orderRepository.createOrder({ userId, eventId, total: priceDifference }, [item]);
+}
+
+async function priceItem(enrollment: Enrollment, item: CreateOrderItem): Promise<CreateOrderItemParams> {
+  if (item.type === OrderItemType.MERCHANDISE) {
+    return priceMerchandiseItem(enrollment, item);
+  }
+
+  const ticket = await ticketRepository.findTickeyById(item.ticketId);
+  if (!ticket || ticket.enrollmentId !== enrollment.id) {
+    throw notFoundError();
+  }
+
+  if (ticket.status === TicketStatus.CANCELLED || ticket.status === TicketStatus.REFUNDED) {
+    throw conflictError("This ticket has been cancelled");
+  }
+  if (ticket.status === TicketStatus.EXPIRED) {
+    throw conflictError("This ticket reservation has expired");
+  }
+
+  const orderItem = await orderRepository.findOpenOrderItemByTicketId(ticket.id, item.type);
+  if (orderItem) {
+    throw conflictError("This ticket has already been ordered");
+  }
+
+  const { TicketType: ticketType } = ticket;
+
+  if (item.type === OrderItemType.HOTEL_UPGRADE) {
+    const canBeUpgraded = !ticketType.isRemote && !ticketType.includesHotel && ticketType.hotelUpgradePrice !== null;
+    if (!canBeUpgraded || ticket.hasHotelUpgrade) {
+      throw invalidDataError(["ticket cannot be upgraded with hotel"]);
+    }
+
+    return buildItem(item.type, `Hotel upgrade - ${ticketType.name}`, ticketType.hotelUpgradePrice, 1, {
+      ticketId: ticket.id,
+    });
+  }
+
+  if (ticket.status !== TicketStatus.RESERVED) {
+    throw conflictError("This ticket has already been paid");
+  }
+
+  return buildItem(item.type, ticketType.name, ticketType.price, 1, { ticketId: ticket.id });
+}
+
+async function priceMerchandiseItem(enrollment: Enrollment, item: CreateOrderItem): Promise<CreateOrderItemParams> {
+  const merchandise = await merchandiseRepository.findMerchandiseById(item.merchandiseId);
+  if (!merchandise || merchandise.eventId !== enrollment.eventId) {
+    throw notFoundError();
+  }
+
+  return buildItem(item.type, merchandise.name, merchandise.price, item.quantity || 1, {
+    merchandiseId: merchandise.id,
+  });
+}
+
+function buildItem(
+  type: OrderItemType,
+  description: string,
+  unitPrice: number,
+  quantity: number,
+  reference: Partial<Pick<CreateOrderItemParams, "ticketId" | "ticketTypeId" | "merchandiseId">>,
+): CreateOrderItemParams {
+  return {
+    type,
+    description,
+    unitPrice,
+    quantity,
+    total: unitPrice * quantity,
+    ticketId: null,
+    ticketTypeId: null,
+    merchandiseId: null,
+    ...reference,
+  };
+}
+
+type TicketWithType = Ticket & {
+  TicketType: TicketType;
+};
+
+export type CreateOrderItem = {
+  type: OrderItemType;
+  ticketId?: number;
+  merchandiseId?: number;
+  quantity?: number;
+};
+
+const ordersService = {
+  getMerchandise,
+  getOrder,
+  createOrder,
+  createTicketTypeChangeOrder,
+};
+
+export default ordersService;
@@ -0,0 +1,8 @@
+import { ApplicationError } from "@/protocols";
+
+export function invalidPasswordResetTokenError(): ApplicationError {
+  return {
+    name: "InvalidPasswordResetTokenError",
+    message: "password reset token is invalid or expired",
+  };
+}
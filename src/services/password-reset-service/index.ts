@@ -0,0 +1,67 @@
+import passwordResetTokenRepository from "@/repositories/password-reset-token-repository";
+import sessionRepository from "@/repositories/session-repository";
+import userRepository from "@/repositories/user-repository";
+import { mailer } from "@/utils/mailer";
+import { generateOpaqueToken, hashOpaqueToken } from "@/utils/token-utils";
+import bcrypt from "bcrypt";
+import dayjs from "dayjs";
+import { invalidPasswordResetTokenError } from "./errors";
+
+const PASSWORD_RESET_TOKEN_EXPIRES_IN_MINUTES = 60;
+
+async function requestPasswordReset(email: string) {
+  const user = await userRepository.findByEmail(email, { id: true, email: true });
+  // Unknown emails get the same response so the endpoint can't be used to find accounts
+  if (!user) return;
+
+  const token = generateOpaqueToken();
+  await passwordResetTokenRepository.create({
+    userId: user.id,
+    tokenHash: hashOpaqueToken(token),
+    expiresAt: dayjs().add(PASSWORD_RESET_TOKEN_EXPIRES_IN_MINUTES, "minutes").toDate(),
+  });
+
+  await mailer.send({
+    to: user.email,
+    subject: "Reset your password",
+    text:
+      `Use the link below to choose a new password. It expires in ${PASSWORD_RESET_TOKEN_EXPIRES_IN_MINUTES} minutes.` +
+      `\n\n${buildResetLink(token)}`,
+  });
+}
+
+function buildResetLink(token: string) {
+  const baseUrl = process.env.PASSWORD_RESET_URL || "http://localhost:3000/reset-password";
+  return `${baseUrl}?token=${token}`;
+}
+
+async function confirmPasswordReset({ token, password }: ConfirmPasswordResetParams) {
+  const passwordResetToken = await passwordResetTokenRepository.findByTokenHash(hashOpaqueToken(token));
+  if (!passwordResetToken || dayjs().isAfter(passwordResetToken.expiresAt)) throw invalidPasswordResetTokenError();
+
+  const wasUnused = await passwordResetTokenRepository.markAsUsed(passwordResetToken.id);
+  if (!wasUnused) throw invalidPasswordResetTokenError();
+
+  const hashedPassword = await bcrypt.hash(password, 12);
+  await userRepository.updatePassword(passwordResetToken.userId, hashedPassword);
+
+  await passwordResetTokenRepository.markAllAsUsedByUserId(passwordResetToken.userId);
+  await sessionRepository.deleteManyByUserId(passwordResetToken.userId);
+}
+
+export type PasswordResetParams = {
+  email: string;
+};
+
+export type ConfirmPasswordResetParams = {
+  token: string;
+  password: string;
+};
+
+const passwordResetService = {
+  requestPasswordReset,
+  confirmPasswordReset,
+};
+
+export default passwordResetService;
+export * from "./errors";
@@ -0,0 +1,158 @@
+import crypto from "crypto";
+import dayjs from "dayjs";
+import { conflictError, invalidWebhookSignatureError, notFoundError } from "@/errors";
+import orderRepository from "@/repositories/order-repository";
+import paymentRepository from "@/repositories/payment-repository";
+import paymentWebhookEventRepository from "@/repositories/payment-webhook-event-repository";
+import refundRepository from "@/repositories/refund-repository";
+import { getPaymentGateway } from "@/utils/payment-gateway";
+import { verifyWebhookSignature } from "@/utils/webhook-signature";
+import { Payment, PaymentMethod, PaymentStatus } from "@prisma/client";
+import ordersService from "../orders-service";
+import paymentService from "../payments-service";
+import ticketService from "../tickets-service";
+
+const unsettledStatuses: PaymentStatus[] = [PaymentStatus.PENDING, PaymentStatus.AUTHORIZED];
+
+function getWebhookSecret(provider: string): string | undefined {
+  const secrets: Record<string, string | undefined> = {
+    fake: process.env.FAKE_GATEWAY_WEBHOOK_SECRET,
+  };
+
+  return secrets[provider];
+}
+
+async function receiveEvent(provider: string, delivery: WebhookDelivery): Promise<WebhookReceipt> {
+  const secret = getWebhookSecret(provider);
+  if (!secret) {
+    throw notFoundError();
+  }
+
+  const { signature, rawBody, event } = delivery;
+  if (!signature || !rawBody || !verifyWebhookSignature(secret, rawBody, signature)) {
+    throw invalidWebhookSignatureError();
+  }
+
+  return recordAndApplyEvent(provider, event);
+}
+
+async function recordAndApplyEvent(provider: string, event: PaymentWebhookEvent): Promise<WebhookReceipt> {
+  const isNewEvent = await paymentWebhookEventRepository.createIfAbsent({
+    provider,
+    providerEventId: event.id,
+    type: event.type,
+    payload: event,
+  });
+  if (!isNewEvent) {
+    return { duplicate: true };
+  }
+
+  try {
+    await applyEvent(event);
+  } catch (error) {
+    // Forgetting the event lets the provider's retry apply it again
+    await paymentWebhookEventRepository.deleteByProviderEventId(provider, event.id);
+    throw error;
+  }
+
+  return { duplicate: false };
+}
+
+// Outside production there is no bank to pay PIX charges, so this settles one and delivers the event the provider would
+async function simulatePixPayment(userId: number, eventId: number, paymentId: number) {
+  const payment = await paymentRepository.findPaymentById(paymentId);
+  if (!payment || payment.method !== PaymentMethod.PIX) {
+    throw notFoundError();
+  }
+  await ordersService.getOrder(userId, eventId, payment.orderId);
+
+  const gateway = getPaymentGateway();
+  if (!gateway.simulatePixPayment) {
+    throw notFoundError();
+  }
+
+  if (payment.status !== PaymentStatus.PENDING || !dayjs().isBefore(payment.expiresAt)) {
+    throw conflictError("This PIX charge is no longer awaiting payment");
+  }
+
+  const transaction = await gateway.simulatePixPayment(payment.gatewayTransactionId);
+  await recordAndApplyEvent("fake", {
+    id: `simulated_${crypto.randomUUID()}`,
+    type: transaction.status === "CAPTURED" ? "payment.captured" : "payment.failed",
+    data: { transactionId: transaction.transactionId, reason: transaction.declineReason },
+  });
+
+  return paymentRepository.findPaymentById(paymentId);
+}
+
+// Events for unknown transactions or out of order transitions are acknowledged and ignored
+async function applyEvent(event: PaymentWebhookEvent) {
+  const payment = await paymentRepository.findPaymentByGatewayTransactionId(event.data.transactionId);
+  if (!payment) return;
+
+  switch (event.type) {
+  case "payment.authorized":
+    if (payment.status === PaymentStatus.PENDING) {
+      await paymentRepository.updatePayment(payment.id, { status: PaymentStatus.AUTHORIZED });
+    }
+    break;
+  case "payment.captured":
+    // A boleto or PIX paid just before it expired may clear afterwards: the order is still settled if it can be,
+    // otherwise the money is given back
+    if (unsettledStatuses.includes(payment.status) || payment.status === PaymentStatus.EXPIRED) {
+      await settleCapturedPayment(payment, event.data.transactionId);
+    }
+    break;
+  case "payment.failed":
+    if (unsettledStatuses.includes(payment.status)) {
+      await paymentRepository.updatePayment(payment.id, {
+        status: PaymentStatus.FAILED,
+        failureReason: event.data.reason || "payment_failed",
+      });
+    }
+    break;
+  case "payment.refunded":
+    // Refunds the provider reports cover whatever had not been given back yet
+    if (payment.status === PaymentStatus.CAPTURED) {
+      const refunded = await refundRepository.sumAmountByPaymentId(payment.id);
+      await orderRepository.refundOrder(payment.orderId, payment.id, payment.value - refunded);
+      await ticketService.releaseRefundedOrder(payment.orderId);
+    }
+    break;
+  }
+}
+
+async function settleCapturedPayment(payment: Payment, transactionId: string) {
+  try {
+    await paymentService.settleCapturedPayment(payment, transactionId);
+  } catch (error) {
+    // The order was paid by someone else meanwhile; the capture has already been refunded
+    if (error.name !== "ConflictError") throw error;
+  }
+}
+
+export type PaymentWebhookEvent = {
+  id: string;
+  type: string;
+  data: {
+    transactionId: string;
+    reason?: string;
+  };
+};
+
+export type WebhookDelivery = {
+  signature?: string;
+  rawBody?: Buffer;
+  event: PaymentWebhookEvent;
+};
+
+export type WebhookReceipt = {
+  duplicate: boolean;
+};
+
+const paymentWebhooksService = {
+  receiveEvent,
+  simulatePixPayment,
+};
+
+export default paymentWebhooksService;
@@ -1,9 +1,28 @@
-import { notFoundError, unauthorizedError } from "@/errors";
-import paymentRepository, { PaymentParams } from "@/repositories/payment-repository";
+import { conflictError, notFoundError, paymentDeclinedError, unauthorizedError } from "@/errors";
+import paymentRepository, { CreatePaymentParams } from "@/repositories/payment-repository";
+import orderRepository from "@/repositories/order-repository";
 import ticketRepository from "@/repositories/ticket-repository";
 import enrollmentRepository from "@/repositories/enrollment-repository";
+import { GatewayTransaction, getPaymentGateway } from "@/utils/payment-gateway";
+import { buildBoleto } from "@/utils/boleto";
+import { buildPixBrCode, generatePixQrCode } from "@/utils/pix";
+import {
+  Order,
+  OrderItem,
+  OrderItemType,
+  OrderStatus,
+  Payment,
+  PaymentMethod,
+  PaymentStatus,
+  TicketStatus,
+} from "@prisma/client";
+import dayjs from "dayjs";
+import couponsService, { invalidCouponError } from "../coupons-service";
+import installmentsService from "../installments-service";
+import ordersService from "../orders-service";
+import ticketService from "../tickets-service";
 
-async function verifyTicketAndEnrollment(ticketId: number, userId: number) {
+async function verifyTicketAndEnrollment(ticketId: number, userId: number, eventId: number) {
   const ticket = await ticketRepository.findTickeyById(ticketId);
 
   if (!ticket) {
@@ -14,12 +33,36 @@ async function verifyTicketAndEnrollment(ticketId: number, userId: number) {
   if (enrollment.userId !== userId) {
     throw unauthorizedError();
   }
+
+  if (enrollment.eventId !== eventId) {
+    throw notFoundError();
+  }
+
+  return ticket;
 }
 
-async function getPaymentByTicketId(userId: number, ticketId: number) {
-  await verifyTicketAndEnrollment(ticketId, userId);
+function getPixSettings(): PixSettings {
+  return {
+    key: process.env.PIX_KEY,
+    merchantName: process.env.PIX_MERCHANT_NAME || "Drivent",
+    merchantCity: process.env.PIX_MERCHANT_CITY || "Sao Paulo",
+    expirationMinutes: Number(process.env.PIX_EXPIRATION_MINUTES || 30),
+  };
+}
 
-  const payment = await paymentRepository.findPaymentByTicketId(ticketId);
+function getBoletoSettings(): BoletoSettings {
+  return {
+    bankCode: process.env.BOLETO_BANK_CODE || "001",
+    covenant: process.env.BOLETO_COVENANT || "0",
+    dueDays: Number(process.env.BOLETO_DUE_DAYS || 3),
+  };
+}
+
+async function getPaymentByOrderId(userId: number, eventId: number, orderId: number) {
+  await ordersService.getOrder(userId, eventId, orderId);
+  await paymentRepository.expireOverduePixPayments(orderId);
+
+  const payment = await paymentRepository.findPaymentByOrderId(orderId);
 
   if (!payment) {
     throw notFoundError();
@@ -27,36 +70,353 @@ async function getPaymentByTicketId(userId: number, ticketId: number) {
   return payment;
 }
 
-async function paymentProcess(ticketId: number, userId: number, cardData: CardPaymentParams) {
-  await verifyTicketAndEnrollment(ticketId, userId);
+async function getPaymentByTicketId(userId: number, eventId: number, ticketId: number) {
+  await verifyTicketAndEnrollment(ticketId, userId, eventId);
 
-  const ticket = await ticketRepository.findTickeWithTypeById(ticketId);
+  const orderItem = await orderRepository.findOrderItemByTicketId(ticketId, OrderItemType.TICKET);
 
-  const paymentData = {
-    ticketId,
-    value: ticket.TicketType.price,
-    cardIssuer: cardData.issuer,
-    cardLastDigits: cardData.number.toString().slice(-4),
-  };
+  if (!orderItem) {
+    throw notFoundError();
+  }
+  return getPaymentByOrderId(userId, eventId, orderItem.orderId);
+}
+
+async function getPayableOrder(orderId: number, userId: number, eventId: number) {
+  const order = await ordersService.getOrder(userId, eventId, orderId);
+
+  if (order.status === OrderStatus.PAID) {
+    throw conflictError("This order has already been paid");
+  }
+  if (order.status !== OrderStatus.PENDING) {
+    throw conflictError("This order is no longer awaiting payment");
+  }
+
+  await paymentRepository.expireOverduePixPayments(order.id);
+  const activePayment = await paymentRepository.findActivePaymentByOrderId(order.id);
+  if (activePayment) {
+    throw conflictError("This order already has a payment in progress");
+  }
+
+  return order;
+}
+
+// What the buyer owes for the order once the coupon, if any, is applied
+async function chargeOrder(order: OrderWithItems, userId: number, couponCode?: string): Promise<OrderCharge> {
+  if (!couponCode) {
+    return { amount: order.total, couponId: null, discountAmount: 0 };
+  }
 
-  const payment = await paymentRepository.createPayment(ticketId, paymentData);
+  const { couponId, discountAmount } = await couponsService.applyCoupon(userId, order, couponCode);
+  return { amount: order.total - discountAmount, couponId, discountAmount };
+}
+
+// A coupon may have been used up by a concurrent checkout since it was applied, so its limits are checked again
+async function createChargedPayment(userId: number, data: CreatePaymentParams) {
+  if (!data.couponId) return paymentRepository.createPayment(data);
 
-  await ticketRepository.ticketProcessPayment(ticketId);
+  const payment = await paymentRepository.createPaymentWithinCouponLimits(data, userId);
+  if (!payment) {
+    throw invalidCouponError("Coupon usage limit reached");
+  }
 
   return payment;
 }
 
+async function paymentProcess(
+  orderId: number,
+  userId: number,
+  eventId: number,
+  cardData: CardPaymentParams,
+  couponCode?: string,
+) {
+  const order = await getPayableOrder(orderId, userId, eventId);
+  const charge = await chargeOrder(order, userId, couponCode);
+  const plan = await installmentsService.planInstallments(order, charge.amount, cardData.installments);
+
+  const payment = await createChargedPayment(userId, {
+    orderId: order.id,
+    value: plan.total,
+    installments: plan.installments,
+    interestAmount: plan.interestAmount,
+    couponId: charge.couponId,
+    discountAmount: charge.discountAmount,
+    method: PaymentMethod.CREDIT_CARD,
+    cardIssuer: cardData.issuer,
+    cardLastDigits: String(cardData.number).slice(-4),
+  });
+  await paymentRepository.createPaymentInstallments(payment.id, installmentsService.buildInstallmentSchedule(plan));
+
+  const transaction = await authorizeAndCapture(payment, cardData);
+
+  return settleCapturedPayment(payment, transaction.transactionId);
+}
+
+// PIX payments stay PENDING until the provider reports the transfer through the webhook
+async function pixPaymentProcess(
+  orderId: number,
+  userId: number,
+  eventId: number,
+  couponCode?: string,
+): Promise<PixPayment> {
+  const order = await getPayableOrder(orderId, userId, eventId);
+  const charge = await chargeOrder(order, userId, couponCode);
+  const settings = getPixSettings();
+  const expiresAt = dayjs().add(settings.expirationMinutes, "minutes").toDate();
+
+  const payment = await createChargedPayment(userId, {
+    orderId: order.id,
+    value: charge.amount,
+    couponId: charge.couponId,
+    discountAmount: charge.discountAmount,
+    method: PaymentMethod.PIX,
+    expiresAt,
+  });
+
+  let transaction: GatewayTransaction;
+  try {
+    transaction = await getPaymentGateway().createPixCharge({ amount: payment.value, expiresAt });
+  } catch (error) {
+    await paymentRepository.updatePayment(payment.id, { status: PaymentStatus.FAILED, failureReason: failureReasonOf(error) });
+    throw error;
+  }
+
+  const pixCode = buildPixBrCode({
+    key: settings.key,
+    merchantName: settings.merchantName,
+    merchantCity: settings.merchantCity,
+    amount: payment.value,
+    txid: `DRIVENT${payment.id}`,
+  });
+  const pendingPayment = await paymentRepository.updatePayment(payment.id, {
+    gatewayTransactionId: transaction.transactionId,
+    pixCode,
+  });
+
+  return { ...pendingPayment, pixQrCode: await generatePixQrCode(pixCode) };
+}
+
+// Tickets are only marked as paid once the money has actually been captured
+async function settleCapturedPayment(payment: Payment, transactionId: string) {
+  const order = await orderRepository.findOrderById(payment.orderId);
+  const typeChanges = order.OrderItem.filter((item) => item.type === OrderItemType.TICKET_TYPE_CHANGE);
+
+  // The new type may have sold out while the difference was being paid, in which case the charge is given back
+  for (const item of order.status === OrderStatus.PENDING ? typeChanges : []) {
+    const ticket = await ticketRepository.findTickeyById(item.ticketId);
+    const changedTicket = await ticketRepository.changeTicketTypeWithinLimits(
+      ticket.id,
+      item.ticketTypeId,
+      ticket.Enrollment.userId,
+    );
+    if (!changedTicket) {
+      await refundCapture(payment, transactionId);
+      await orderRepository.expirePendingOrder(order.id);
+      throw conflictError("The new ticket type is no longer available");
+    }
+  }
+
+  const paidPayment = await orderRepository.payOrder(payment.orderId, payment.id);
+
+  if (!paidPayment) {
+    // Another payment settled the order first, so this charge is given back
+    await refundCapture(payment, transactionId);
+    throw conflictError("This order has already been paid");
+  }
+
+  for (const item of typeChanges) {
+    await ticketService.releaseBookingIfNotHostable(item.ticketId);
+  }
+
+  return paidPayment;
+}
+
+async function refundCapture(payment: Payment, transactionId: string) {
+  await getPaymentGateway().refund(transactionId, payment.value);
+  await paymentRepository.updatePayment(payment.id, { status: PaymentStatus.REFUNDED });
+}
+
+async function authorizeAndCapture(payment: Payment, cardData: CardPaymentParams): Promise<GatewayTransaction> {
+  const gateway = getPaymentGateway();
+  let transaction: GatewayTransaction;
+
+  try {
+    transaction = await gateway.authorize({
+      amount: payment.value,
+      installments: payment.installments,
+      card: {
+        number: String(cardData.number),
+        holderName: cardData.name,
+        expirationDate: String(cardData.expirationDate),
+        cvv: String(cardData.cvv),
+      },
+    });
+
+    if (transaction.status === "AUTHORIZED") {
+      await paymentRepository.updatePayment(payment.id, {
+        status: PaymentStatus.AUTHORIZED,
+        gatewayTransactionId: transaction.transactionId,
+      });
+      transaction = await gateway.capture(transaction.transactionId);
+    }
+  } catch (error) {
+    await paymentRepository.updatePayment(payment.id, { status: PaymentStatus.FAILED, failureReason: failureReasonOf(error) });
+    throw error;
+  }
+
+  if (transaction.status !== "CAPTURED") {
+    const failureReason = transaction.declineReason || "card_declined";
+    await paymentRepository.updatePayment(payment.id, {
+      status: PaymentStatus.FAILED,
+      gatewayTransactionId: transaction.transactionId,
+      failureReason,
+    });
+    throw paymentDeclinedError(failureReason);
+  }
+
+  return transaction;
+}
+
+// Boletos take days to clear, so the tickets stay reserved until the end of the due date
+async function boletoPaymentProcess(orderId: number, userId: number, eventId: number, couponCode?: string) {
+  const order = await getPayableOrder(orderId, userId, eventId);
+  const charge = await chargeOrder(order, userId, couponCode);
+  const settings = getBoletoSettings();
+  const dueDate = dayjs().add(settings.dueDays, "days").endOf("day").toDate();
+
+  const payment = await createChargedPayment(userId, {
+    orderId: order.id,
+    value: charge.amount,
+    couponId: charge.couponId,
+    discountAmount: charge.discountAmount,
+    method: PaymentMethod.BOLETO,
+    expiresAt: dueDate,
+  });
+
+  let transaction: GatewayTransaction;
+  try {
+    transaction = await getPaymentGateway().createBoletoCharge({ amount: payment.value, dueDate });
+  } catch (error) {
+    await paymentRepository.updatePayment(payment.id, { status: PaymentStatus.FAILED, failureReason: failureReasonOf(error) });
+    throw error;
+  }
+
+  const boleto = buildBoleto({
+    bankCode: settings.bankCode,
+    covenant: settings.covenant,
+    ourNumber: payment.id,
+    amount: payment.value,
+    dueDate,
+  });
+
+  return paymentRepository.updatePayment(payment.id, {
+    gatewayTransactionId: transaction.transactionId,
+    boletoBarcode: boleto.barcode,
+    boletoDigitableLine: boleto.digitableLine,
+  });
+}
+
+// Run on a schedule: unpaid boletos past their due date give their tickets back
+async function expireOverdueBoletos() {
+  const payments = await paymentRepository.findOverduePayments(PaymentMethod.BOLETO);
+
+  let expired = 0;
+  for (const payment of payments) {
+    const order = await orderRepository.expireOrder(payment.orderId, payment.id);
+    if (order) expired++;
+  }
+
+  return expired;
+}
+
+function failureReasonOf(error: { name: string }) {
+  return error.name === "PaymentGatewayTimeoutError" ? "gateway_timeout" : "gateway_error";
+}
+
+// Paying for a bare ticket predates orders; it now pays for the single-ticket order holding it
+async function findOrCreateTicketOrder(ticketId: number, userId: number, eventId: number) {
+  const ticket = await verifyTicketAndEnrollment(ticketId, userId, eventId);
+
+  if (ticket.status === TicketStatus.PAID) {
+    throw conflictError("This ticket has already been paid");
+  }
+
+  const orderItem = await orderRepository.findOpenOrderItemByTicketId(ticketId, OrderItemType.TICKET);
+  return orderItem
+    ? orderItem.Order
+    : ordersService.createOrder(userId, eventId, [{ type: OrderItemType.TICKET, ticketId }]);
+}
+
+async function ticketPaymentProcess(
+  ticketId: number,
+  userId: number,
+  eventId: number,
+  cardData: CardPaymentParams,
+  couponCode?: string,
+) {
+  const order = await findOrCreateTicketOrder(ticketId, userId, eventId);
+
+  return paymentProcess(order.id, userId, eventId, cardData, couponCode);
+}
+
+async function ticketPixPaymentProcess(ticketId: number, userId: number, eventId: number, couponCode?: string) {
+  const order = await findOrCreateTicketOrder(ticketId, userId, eventId);
+
+  return pixPaymentProcess(order.id, userId, eventId, couponCode);
+}
+
+async function ticketBoletoPaymentProcess(ticketId: number, userId: number, eventId: number, couponCode?: string) {
+  const order = await findOrCreateTicketOrder(ticketId, userId, eventId);
+
+  return boletoPaymentProcess(order.id, userId, eventId, couponCode);
+}
+
 export type CardPaymentParams = {
   issuer: string,
   number: number,
   name: string,
   expirationDate: Date,
-  cvv: number
+  cvv: number,
+  installments?: number
 }
 
+export type PixPayment = Payment & {
+  pixQrCode: string;
+};
+
+type OrderWithItems = Order & {
+  OrderItem: OrderItem[];
+};
+
+type OrderCharge = {
+  amount: number;
+  couponId: number | null;
+  discountAmount: number;
+};
+
+type PixSettings = {
+  key: string;
+  merchantName: string;
+  merchantCity: string;
+  expirationMinutes: number;
+};
+
+type BoletoSettings = {
+  bankCode: string;
+  covenant: string;
+  dueDays: number;
+};
+
 const paymentService = {
+  getPaymentByOrderId,
   getPaymentByTicketId,
   paymentProcess,
+  ticketPaymentProcess,
+  pixPaymentProcess,
+  ticketPixPaymentProcess,
+  boletoPaymentProcess,
+  ticketBoletoPaymentProcess,
+  expireOverdueBoletos,
+  settleCapturedPayment,
 };
 
 export default paymentService;
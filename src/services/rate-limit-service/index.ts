@@ -0,0 +1,49 @@
+import rateLimitRepository from "@/repositories/rate-limit-repository";
+import dayjs from "dayjs";
+
+async function consume(key: string, policy: RateLimitPolicy): Promise<RateLimitResult> {
+  // The bucket refills completely over one window, one token per request
+  const refillPerSecond = policy.capacity / policy.windowSeconds;
+  const { tokens, allowed } = await rateLimitRepository.consume(
+    `${policy.name}:${key}`,
+    policy.capacity,
+    refillPerSecond,
+  );
+
+  return {
+    allowed,
+    limit: policy.capacity,
+    remaining: Math.max(0, Math.floor(tokens)),
+    resetSeconds: Math.ceil((policy.capacity - tokens) / refillPerSecond),
+    retryAfterSeconds: allowed ? 0 : Math.ceil((1 - tokens) / refillPerSecond),
+  };
+}
+
+// A bucket left alone for longer than any policy's window is full again, which is the same as not having one
+async function removeIdleBuckets() {
+  const idleMinutes = Number(process.env.RATE_LIMIT_BUCKET_IDLE_MINUTES || 10);
+
+  return rateLimitRepository.removeIdleBuckets(dayjs().subtract(idleMinutes, "minutes").toDate());
+}
+
+export type RateLimitPolicy = {
+  name: string;
+  capacity: number;
+  windowSeconds: number;
+  keyBy: "ip" | "user";
+};
+
+export type RateLimitResult = {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetSeconds: number;
+  retryAfterSeconds: number;
+};
+
+const rateLimitService = {
+  consume,
+  removeIdleBuckets,
+};
+
+export default rateLimitService;
@@ -0,0 +1,75 @@
+import dayjs from "dayjs";
+import { refundDeclinedError } from "@/errors";
+import paymentRepository from "@/repositories/payment-repository";
+import refundRepository from "@/repositories/refund-repository";
+import { getPaymentGateway } from "@/utils/payment-gateway";
+import { Payment, PaymentStatus } from "@prisma/client";
+
+function getRefundPolicy(): RefundPolicy {
+  return {
+    fullRefundDaysBeforeEvent: Number(process.env.REFUND_FULL_DAYS_BEFORE_EVENT || 7),
+    partialRefundPercentage: Number(process.env.REFUND_PARTIAL_PERCENTAGE || 50),
+  };
+}
+
+// Full refund until the configured number of days before the event, partial until it starts, nothing afterwards
+function calculateRefundAmount(
+  paidAmount: number,
+  eventStartsAt: Date,
+  policy: RefundPolicy = getRefundPolicy(),
+  now: Date = new Date(),
+): number {
+  if (!dayjs(now).isBefore(eventStartsAt)) return 0;
+
+  const daysUntilEvent = dayjs(eventStartsAt).diff(now, "day", true);
+  if (daysUntilEvent >= policy.fullRefundDaysBeforeEvent) return paidAmount;
+
+  return Math.floor((paidAmount * policy.partialRefundPercentage) / 100);
+}
+
+// Coupon discounts are spread over the whole order, so no item is refunded more than was paid for it
+function paidAmountOf(itemTotal: number, orderTotal: number, discountAmount: number) {
+  if (orderTotal === 0) return 0;
+
+  return itemTotal - Math.round((discountAmount * itemTotal) / orderTotal);
+}
+
+// Earlier refunds, for this ticket or others the payment covered, are taken out of what can still be given back
+async function refundableAmountOf(payment: Payment) {
+  return payment.value - (await refundRepository.sumAmountByPaymentId(payment.id));
+}
+
+async function refundPayment(payment: Payment, amount: number, ticketId: number | null) {
+  if (!payment.gatewayTransactionId) {
+    throw refundDeclinedError();
+  }
+
+  const transaction = await getPaymentGateway().refund(payment.gatewayTransactionId, amount);
+  if (transaction.status === "DECLINED") {
+    throw refundDeclinedError();
+  }
+
+  const refund = await refundRepository.createRefund({ paymentId: payment.id, ticketId, amount });
+
+  const refundedAmount = await refundRepository.sumAmountByPaymentId(payment.id);
+  if (refundedAmount >= payment.value) {
+    await paymentRepository.updatePayment(payment.id, { status: PaymentStatus.REFUNDED });
+  }
+
+  return refund;
+}
+
+export type RefundPolicy = {
+  fullRefundDaysBeforeEvent: number;
+  partialRefundPercentage: number;
+};
+
+const refundsService = {
+  getRefundPolicy,
+  calculateRefundAmount,
+  paidAmountOf,
+  refundableAmountOf,
+  refundPayment,
+};
+
+export default refundsService;
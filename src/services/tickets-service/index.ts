@@ -1,53 +1,525 @@
-import { notFoundError } from "@/errors";
-import ticketRepository from "@/repositories/ticket-repository";
+import { conflictError, invalidDataError, notFoundError } from "@/errors";
+import ticketRepository, { CreateTicketParams } from "@/repositories/ticket-repository";
 import enrollmentRepository from "@/repositories/enrollment-repository";
-import { TicketStatus } from "@prisma/client";
+import activityRepository from "@/repositories/activity-repository";
+import bookingRepository from "@/repositories/booking-repository";
+import eventRepository from "@/repositories/event-repository";
+import orderRepository from "@/repositories/order-repository";
+import paymentRepository from "@/repositories/payment-repository";
+import userRepository from "@/repositories/user-repository";
+import { mailer } from "@/utils/mailer";
+import { exclude } from "@/utils/prisma-utils";
+import { generateOpaqueToken, hashOpaqueToken } from "@/utils/token-utils";
+import { Enrollment, OrderItemType, OrderStatus, Ticket, TicketStatus, TicketType } from "@prisma/client";
+import dayjs from "dayjs";
+import ordersService from "../orders-service";
+import refundsService from "../refunds-service";
+import userService from "../users-service";
 
-async function getTicketTypes() {
-  const ticketTypes = await ticketRepository.findTicketTypes();
+async function getTicketTypes(eventId: number) {
+  const ticketTypes = await ticketRepository.findTicketTypes(eventId);
 
   if (!ticketTypes) {
     throw notFoundError();
   }
-  return ticketTypes;
+
+  const heldCounts = await ticketRepository.countStockHoldingTicketsByTicketTypeIds(ticketTypes.map(({ id }) => id));
+  const now = new Date();
+
+  return ticketTypes.map((ticketType) => {
+    const held = heldCounts.find((count) => count.ticketTypeId === ticketType.id)?._count._all ?? 0;
+
+    return {
+      ...ticketType,
+      remainingStock: ticketType.stock === null ? null : Math.max(ticketType.stock - held, 0),
+      isOnSale: isOnSale(ticketType, now),
+    };
+  });
 }
 
-async function getTicketByUserId(userId: number) {
-  const enrollment = await enrollmentRepository.findWithAddressByUserId(userId);
-  if (!enrollment) {
+function isOnSale(ticketType: TicketType, now: Date = new Date()) {
+  const hasStarted = !ticketType.salesStartAt || !dayjs(now).isBefore(ticketType.salesStartAt);
+  const hasEnded = !!ticketType.salesEndAt && !dayjs(now).isBefore(ticketType.salesEndAt);
+
+  return hasStarted && !hasEnded;
+}
+
+async function getTicketByUserId(userId: number, eventId: number) {
+  const ticket = await ticketRepository.findTicketByAttendeeUserIdAndEventId(userId, eventId);
+  if (!ticket) {
     throw notFoundError();
   }
-  const ticket = await ticketRepository.findTicketByEnrollmentId(enrollment.id);
-  if (!ticket) {
+
+  return {
+    ...hideClaimToken(ticket),
+    secondsLeftToPay: secondsLeftToPay(ticket),
+  };
+}
+
+// Lets the frontend count down to the end of the reservation; paid tickets and older ones without a deadline get null
+function secondsLeftToPay(ticket: Ticket, now: Date = new Date()) {
+  if (ticket.status !== TicketStatus.RESERVED || !ticket.reservedUntil) return null;
+
+  return Math.max(dayjs(ticket.reservedUntil).diff(now, "second"), 0);
+}
+
+function getReservationDeadline(now: Date = new Date()) {
+  const minutes = Number(process.env.TICKET_RESERVATION_MINUTES || 30);
+
+  return dayjs(now).add(minutes, "minute").toDate();
+}
+
+// Abandoned PIX checkouts would otherwise hold their tickets forever, as nothing else expires them unless the order
+// is read again; boletos have a job of their own
+async function expireStaleReservations() {
+  await paymentRepository.expireOverduePixPayments();
+
+  return ticketRepository.expireStaleReservations(new Date());
+}
+
+async function getPurchasedTickets(userId: number, eventId: number) {
+  const enrollment = await enrollmentRepository.findWithAddressByUserIdAndEventId(userId, eventId);
+  if (!enrollment) {
     throw notFoundError();
   }
 
+  const tickets = await ticketRepository.findTicketsByEnrollmentId(enrollment.id);
+
+  return tickets.map(hideClaimToken);
+}
+
+async function createTicket(userId: number, eventId: number, ticketTypeId: number) {
+  const [ticket] = await createTickets(userId, eventId, [{ ticketTypeId }]);
+
   return ticket;
 }
 
-async function createTicket(userId: number, ticketTypeId: number) {
-  const enrollment = await enrollmentRepository.findWithAddressByUserId(userId);
+async function createTickets(userId: number, eventId: number, items: CreateTicketItem[]) {
+  await userService.checkEmailVerifiedOrFail(userId);
+
+  const enrollment = await enrollmentRepository.findWithAddressByUserIdAndEventId(userId, eventId);
   if (!enrollment) {
     throw notFoundError();
   }
 
-  const ticketData = {
-    ticketTypeId,
+  const ticketTypes = new Map<number, TicketType>();
+  for (const { ticketTypeId } of items) {
+    const ticketType = await ticketRepository.findTicketTypeById(ticketTypeId);
+    if (!ticketType || ticketType.eventId !== eventId) {
+      throw notFoundError();
+    }
+    ticketTypes.set(ticketTypeId, ticketType);
+  }
+
+  const ownTickets = items.filter((item) => !item.attendee);
+  if (ownTickets.length > 1) {
+    throw invalidDataError(["only one ticket can be assigned to the buyer"]);
+  }
+  if (ownTickets.length === 1) {
+    await checkUserHasNoTicketOrFail(userId, eventId);
+  }
+
+  for (const ticketType of ticketTypes.values()) {
+    const quantity = items.filter((item) => item.ticketTypeId === ticketType.id).length;
+    await checkTicketTypeAvailableOrFail(userId, ticketType, quantity);
+  }
+
+  const tickets: Ticket[] = [];
+  const claims: { attendee: TicketAttendee; claimToken: string }[] = [];
+  try {
+    for (const item of items) {
+      const ticketType = ticketTypes.get(item.ticketTypeId);
+
+      if (item.attendee) {
+        const claimToken = generateOpaqueToken();
+        tickets.push(await createCompanionTicket(enrollment, ticketType, item.attendee, claimToken));
+        claims.push({ attendee: item.attendee, claimToken });
+      } else {
+        tickets.push(await createOwnTicket(enrollment, ticketType));
+      }
+    }
+  } catch (error) {
+    // Part of the purchase was taken by someone else meanwhile, so what was already reserved is given back
+    for (const ticket of tickets) {
+      await ticketRepository.cancelTicket(ticket.id, TicketStatus.CANCELLED);
+    }
+    throw error;
+  }
+
+  for (const { attendee, claimToken } of claims) {
+    await sendClaimEmail(enrollment, attendee, claimToken);
+  }
+
+  return Promise.all(tickets.map((ticket) => findTicketWithTypeById(ticket.id)));
+}
+
+async function checkTicketTypeAvailableOrFail(userId: number, ticketType: TicketType, quantity: number) {
+  const now = new Date();
+  if (ticketType.salesStartAt && dayjs(now).isBefore(ticketType.salesStartAt)) {
+    throw conflictError("Sales for this ticket type have not started yet");
+  }
+  if (!isOnSale(ticketType, now)) {
+    throw conflictError("Sales for this ticket type have ended");
+  }
+
+  if (ticketType.stock !== null) {
+    const [heldCount] = await ticketRepository.countStockHoldingTicketsByTicketTypeIds([ticketType.id]);
+    const remainingStock = ticketType.stock - (heldCount?._count._all ?? 0);
+    if (remainingStock <= 0) {
+      throw conflictError("This ticket type is sold out");
+    }
+    if (remainingStock < quantity) {
+      throw conflictError(`Only ${remainingStock} tickets of this type are left`);
+    }
+  }
+
+  if (ticketType.maxPerUser !== null) {
+    const boughtCount = await ticketRepository.countStockHoldingTicketsByBuyer(ticketType.id, userId);
+    if (boughtCount + quantity > ticketType.maxPerUser) {
+      throw conflictError(`You can buy at most ${ticketType.maxPerUser} tickets of this type`);
+    }
+  }
+}
+
+async function createOwnTicket(enrollment: Enrollment, ticketType: TicketType) {
+  const user = await userRepository.findById(enrollment.userId);
+
+  return reserveTicket(ticketType, enrollment.userId, {
+    ticketTypeId: ticketType.id,
     enrollmentId: enrollment.id,
-    status: TicketStatus.RESERVED
+    status: TicketStatus.RESERVED,
+    attendeeName: enrollment.name,
+    attendeeCpf: enrollment.cpf,
+    attendeeEmail: user.email,
+    attendeeUserId: user.id,
+    claimTokenHash: null,
+    reservedUntil: getReservationDeadline(),
+  });
+}
+
+async function createCompanionTicket(
+  enrollment: Enrollment,
+  ticketType: TicketType,
+  attendee: TicketAttendee,
+  claimToken: string,
+) {
+  return reserveTicket(ticketType, enrollment.userId, {
+    ticketTypeId: ticketType.id,
+    enrollmentId: enrollment.id,
+    status: TicketStatus.RESERVED,
+    attendeeName: attendee.name,
+    attendeeCpf: attendee.cpf,
+    attendeeEmail: attendee.email,
+    attendeeUserId: null,
+    claimTokenHash: hashOpaqueToken(claimToken),
+    reservedUntil: getReservationDeadline(),
+  });
+}
+
+// The checks above run before anything is reserved; the insert repeats them atomically, and when a concurrent
+// purchase got there first, checking again tells the buyer which limit was reached
+async function reserveTicket(ticketType: TicketType, buyerUserId: number, params: CreateTicketParams) {
+  const ticket = await ticketRepository.createTicketWithinLimits(params, buyerUserId);
+  if (!ticket) {
+    await checkTicketTypeAvailableOrFail(buyerUserId, ticketType, 1);
+    throw conflictError("This ticket type is sold out");
+  }
+
+  return ticket;
+}
+
+async function sendClaimEmail(buyer: Enrollment, attendee: TicketAttendee, claimToken: string) {
+  const baseUrl = process.env.TICKET_CLAIM_URL || "http://localhost:3000/claim-ticket";
+
+  await mailer.send({
+    to: attendee.email,
+    subject: "You have a ticket waiting for you",
+    text:
+      `${buyer.name} got you a ticket. Sign in and claim it using the link below.` +
+      `\n\n${baseUrl}?token=${claimToken}`,
+  });
+}
+
+async function claimTicket(userId: number, eventId: number, claimToken: string) {
+  const ticket = await ticketRepository.findTicketByClaimTokenHash(hashOpaqueToken(claimToken));
+  if (!ticket || ticket.TicketType.eventId !== eventId) {
+    throw notFoundError();
+  }
+
+  await checkUserHasNoTicketOrFail(userId, eventId);
+
+  await ticketRepository.updateTicketAttendee(ticket.id, {
+    attendeeUserId: userId,
+    claimTokenHash: null,
+  });
+
+  return findTicketWithTypeById(ticket.id);
+}
+
+async function transferTicket(userId: number, eventId: number, ticketId: number, attendee: TicketAttendee) {
+  const ticket = await ticketRepository.findTickeyById(ticketId);
+  if (!ticket || ticket.Enrollment.userId !== userId || ticket.Enrollment.eventId !== eventId) {
+    throw notFoundError();
+  }
+
+  if (ticket.status !== TicketStatus.RESERVED && ticket.status !== TicketStatus.PAID) {
+    throw conflictError("Only reserved or paid tickets can be transferred");
+  }
+
+  // Handing the ticket over drops whoever held it; the new attendee claims it with a fresh link
+  if (ticket.attendeeUserId) {
+    await releaseAttendeeSpots(ticket.attendeeUserId, eventId);
+  }
+
+  const claimToken = generateOpaqueToken();
+  await ticketRepository.updateTicketAttendee(ticketId, {
+    attendeeName: attendee.name,
+    attendeeCpf: attendee.cpf,
+    attendeeEmail: attendee.email,
+    attendeeUserId: null,
+    claimTokenHash: hashOpaqueToken(claimToken),
+  });
+
+  await sendClaimEmail(ticket.Enrollment, attendee, claimToken);
+
+  return findTicketWithTypeById(ticketId);
+}
+
+async function cancelTicket(userId: number, eventId: number, ticketId: number) {
+  const ticket = await ticketRepository.findTickeyById(ticketId);
+  if (!ticket || ticket.Enrollment.userId !== userId || ticket.Enrollment.eventId !== eventId) {
+    throw notFoundError();
+  }
+
+  if (ticket.status === TicketStatus.CANCELLED || ticket.status === TicketStatus.REFUNDED) {
+    throw conflictError("This ticket has already been cancelled");
+  }
+  if (ticket.status === TicketStatus.EXPIRED) {
+    throw conflictError("This ticket reservation has expired");
+  }
+
+  const pendingItems = await orderRepository.findItemsByTicketIdAndOrderStatus(ticket.id, OrderStatus.PENDING);
+  if (pendingItems.length > 0) {
+    throw conflictError("This ticket is part of an order awaiting payment");
+  }
+
+  const event = await eventRepository.findById(eventId);
+  const paidItems = await orderRepository.findItemsByTicketIdAndOrderStatus(ticket.id, OrderStatus.PAID);
+
+  // The ticket and its hotel upgrade may have been paid in different orders, each one is refunded separately
+  let refundAmount = 0;
+  for (const item of paidItems) {
+    const [payment] = item.Order.Payment;
+    if (!payment) continue;
+
+    const paidAmount = refundsService.paidAmountOf(item.total, item.Order.total, payment.discountAmount);
+    const amount = Math.min(
+      refundsService.calculateRefundAmount(paidAmount, event.startsAt),
+      await refundsService.refundableAmountOf(payment),
+    );
+    if (amount <= 0) continue;
+
+    await refundsService.refundPayment(payment, amount, ticket.id);
+    refundAmount += amount;
+  }
+
+  if (ticket.attendeeUserId) {
+    await releaseAttendeeSpots(ticket.attendeeUserId, eventId);
+  }
+
+  await ticketRepository.cancelTicket(ticket.id, refundAmount > 0 ? TicketStatus.REFUNDED : TicketStatus.CANCELLED);
+
+  return {
+    ticket: await findTicketWithTypeById(ticket.id),
+    refundAmount,
   };
+}
+
+async function changeTicketType(userId: number, eventId: number, ticketId: number, ticketTypeId: number) {
+  const ticket = await ticketRepository.findTickeyById(ticketId);
+  if (!ticket || ticket.Enrollment.userId !== userId || ticket.Enrollment.eventId !== eventId) {
+    throw notFoundError();
+  }
+  if (ticket.status !== TicketStatus.RESERVED && ticket.status !== TicketStatus.PAID) {
+    throw conflictError("Only reserved or paid tickets can change type");
+  }
+
+  const ticketType = await ticketRepository.findTicketTypeById(ticketTypeId);
+  if (!ticketType || ticketType.eventId !== eventId) {
+    throw notFoundError();
+  }
+  if (ticketType.id === ticket.ticketTypeId) {
+    throw conflictError("The ticket already has this type");
+  }
+  // The upgrade was bought for an in-person ticket without hotel, so it only carries over to another one
+  if (ticket.hasHotelUpgrade && (ticketType.isRemote || ticketType.includesHotel)) {
+    throw conflictError("Tickets with a hotel upgrade can only change to another in-person type without hotel");
+  }
+
+  await releaseAbandonedOrdersOrFail(ticket.id);
+  await checkTicketTypeAvailableOrFail(userId, ticketType, 1);
+
+  const priceDifference = ticketType.price - ticket.TicketType.price;
+
+  // Reserved tickets have not been paid for yet, whatever they cost is charged when they are
+  if (ticket.status === TicketStatus.PAID && priceDifference > 0) {
+    const order = await ordersService.createTicketTypeChangeOrder(userId, eventId, ticket, ticketType);
+
+    return { ticket: await findTicketWithTypeById(ticket.id), priceDifference, refundAmount: 0, order };
+  }
+
+  await switchTicketTypeOrFail(ticket.id, ticketType, userId);
+
+  let refundAmount = 0;
+  if (ticket.status === TicketStatus.PAID && priceDifference < 0) {
+    const event = await eventRepository.findById(eventId);
+    try {
+      refundAmount = await refundTicketPayments(
+        ticket.id,
+        refundsService.calculateRefundAmount(-priceDifference, event.startsAt),
+      );
+    } catch (error) {
+      // The difference could not be given back, so the ticket keeps the type that was paid for
+      await ticketRepository.changeTicketType(ticket.id, ticket.ticketTypeId);
+      throw error;
+    }
+  }
+
+  await releaseBookingIfNotHostable(ticket.id);
 
-  await ticketRepository.createTicket(ticketData);
+  return { ticket: await findTicketWithTypeById(ticket.id), priceDifference, refundAmount, order: null };
+}
 
-  const ticket = await ticketRepository.findTicketByEnrollmentId(enrollment.id);
+// Same as reserving a ticket: the limits are checked again atomically, and a failure tells which one was reached
+async function switchTicketTypeOrFail(ticketId: number, ticketType: TicketType, buyerUserId: number) {
+  const ticket = await ticketRepository.changeTicketTypeWithinLimits(ticketId, ticketType.id, buyerUserId);
+  if (!ticket) {
+    await checkTicketTypeAvailableOrFail(buyerUserId, ticketType, 1);
+    throw conflictError("This ticket type is sold out");
+  }
 
   return ticket;
 }
 
+// A type change nobody went on to pay for would otherwise hold the ticket forever; one being paid still blocks
+async function releaseAbandonedOrdersOrFail(ticketId: number) {
+  const pendingItems = await orderRepository.findItemsByTicketIdAndOrderStatus(ticketId, OrderStatus.PENDING);
+
+  for (const item of pendingItems) {
+    if (item.type !== OrderItemType.TICKET_TYPE_CHANGE || !(await orderRepository.expirePendingOrder(item.orderId))) {
+      throw conflictError("This ticket is part of an order awaiting payment");
+    }
+  }
+}
+
+// The latest payments for the ticket are refunded first, so a paid upgrade is given back before the original price
+async function refundTicketPayments(ticketId: number, amount: number) {
+  const paidItems = await orderRepository.findItemsByTicketIdAndOrderStatus(ticketId, OrderStatus.PAID);
+  const ticketItems = paidItems
+    .filter((item) => item.type === OrderItemType.TICKET || item.type === OrderItemType.TICKET_TYPE_CHANGE)
+    .sort((a, b) => b.id - a.id);
+
+  let refundedAmount = 0;
+  for (const item of ticketItems) {
+    const [payment] = item.Order.Payment;
+    if (!payment || refundedAmount === amount) continue;
+
+    const paidAmount = refundsService.paidAmountOf(item.total, item.Order.total, payment.discountAmount);
+    const itemAmount = Math.min(
+      amount - refundedAmount,
+      paidAmount,
+      await refundsService.refundableAmountOf(payment),
+    );
+    if (itemAmount <= 0) continue;
+
+    await refundsService.refundPayment(payment, itemAmount, ticketId);
+    refundedAmount += itemAmount;
+  }
+
+  return refundedAmount;
+}
+
+// Hotel eligibility follows the ticket type, so a ticket that no longer grants one gives its attendee's room back
+async function releaseBookingIfNotHostable(ticketId: number) {
+  const ticket = await ticketRepository.findTickeyById(ticketId);
+  const isHostable = !ticket.TicketType.isRemote && (ticket.TicketType.includesHotel || ticket.hasHotelUpgrade);
+
+  if (ticket.attendeeUserId && !isHostable) {
+    await releaseBooking(ticket.attendeeUserId, ticket.TicketType.eventId);
+  }
+}
+
+// An order the provider refunded on its own gives back what its tickets held, as cancelling them would
+async function releaseRefundedOrder(orderId: number) {
+  const order = await orderRepository.findOrderById(orderId);
+
+  for (const item of order.OrderItem) {
+    if (item.type === OrderItemType.HOTEL_UPGRADE) {
+      await releaseBookingIfNotHostable(item.ticketId);
+    }
+    if (item.type === OrderItemType.TICKET) {
+      const ticket = await ticketRepository.findTickeyById(item.ticketId);
+      if (ticket.status === TicketStatus.REFUNDED && ticket.attendeeUserId) {
+        await releaseAttendeeSpots(ticket.attendeeUserId, ticket.TicketType.eventId);
+      }
+    }
+  }
+}
+
+// Whoever no longer attends gives back their room and their activity seats
+async function releaseAttendeeSpots(userId: number, eventId: number) {
+  await releaseBooking(userId, eventId);
+  await activityRepository.deleteSubscriptionsByUserIdAndEventId(userId, eventId);
+}
+
+async function releaseBooking(userId: number, eventId: number) {
+  const booking = await bookingRepository.findWithRoomByUserIdAndEventId(userId, eventId);
+  if (booking) {
+    await bookingRepository.deleteById(booking.id);
+  }
+}
+
+async function checkUserHasNoTicketOrFail(userId: number, eventId: number) {
+  const ticket = await ticketRepository.findTicketByAttendeeUserIdAndEventId(userId, eventId);
+  if (ticket) {
+    throw conflictError("You already have a ticket for this event");
+  }
+}
+
+async function findTicketWithTypeById(ticketId: number) {
+  const ticket = await ticketRepository.findTickeWithTypeById(ticketId);
+
+  return hideClaimToken(ticket);
+}
+
+function hideClaimToken<T extends Ticket>(ticket: T) {
+  return exclude(ticket, "claimTokenHash");
+}
+
+export type TicketAttendee = {
+  name: string;
+  cpf: string;
+  email: string;
+};
+
+export type CreateTicketItem = {
+  ticketTypeId: number;
+  attendee?: TicketAttendee;
+};
+
 const ticketService = {
   getTicketTypes,
   getTicketByUserId,
-  createTicket
+  getPurchasedTickets,
+  createTicket,
+  createTickets,
+  claimTicket,
+  transferTicket,
+  cancelTicket,
+  changeTicketType,
+  releaseBookingIfNotHostable,
+  releaseRefundedOrder,
+  expireStaleReservations,
 };
 
 export default ticketService;
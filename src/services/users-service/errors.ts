@@ -6,3 +6,10 @@ export function duplicatedEmailError(): ApplicationError {
     message: "There is already an user with given email",
   };
 }
+
+export function invalidEmailVerificationTokenError(): ApplicationError {
+  return {
+    name: "InvalidEmailVerificationTokenError",
+    message: "email verification token is invalid or expired",
+  };
+}
@@ -1,20 +1,29 @@
-import { cannotEnrollBeforeStartDateError } from "@/errors";
+import { tooManyRequestsError, unverifiedEmailError } from "@/errors";
+import emailVerificationTokenRepository from "@/repositories/email-verification-token-repository";
+import rateLimitRepository from "@/repositories/rate-limit-repository";
 import userRepository from "@/repositories/user-repository";
+import { mailer } from "@/utils/mailer";
+import { generateOpaqueToken, hashOpaqueToken } from "@/utils/token-utils";
 import { User } from "@prisma/client";
 import bcrypt from "bcrypt";
-import eventsService from "../events-service";
-import { duplicatedEmailError } from "./errors";
+import dayjs from "dayjs";
+import { duplicatedEmailError, invalidEmailVerificationTokenError } from "./errors";
 
-export async function createUser({ email, password }: CreateUserParams): Promise<User> {
-  await canEnrollOrFail();
+const EMAIL_VERIFICATION_TOKEN_EXPIRES_IN_HOURS = 24;
+const EMAIL_VERIFICATION_RESEND_INTERVAL_SECONDS = 60;
 
+export async function createUser({ email, password }: CreateUserParams): Promise<User> {
   await validateUniqueEmailOrFail(email);
 
   const hashedPassword = await bcrypt.hash(password, 12);
-  return userRepository.create({
+  const user = await userRepository.create({
     email,
     password: hashedPassword,
   });
+
+  await sendVerificationEmail(user);
+
+  return user;
 }
 
 async function validateUniqueEmailOrFail(email: string) {
@@ -24,17 +33,65 @@ async function validateUniqueEmailOrFail(email: string) {
   }
 }
 
-async function canEnrollOrFail() {
-  const canEnroll = await eventsService.isCurrentEventActive();
-  if (!canEnroll) {
-    throw cannotEnrollBeforeStartDateError();
-  }
+async function sendVerificationEmail(user: Pick<User, "id" | "email">) {
+  const token = generateOpaqueToken();
+  await emailVerificationTokenRepository.create({
+    userId: user.id,
+    tokenHash: hashOpaqueToken(token),
+    expiresAt: dayjs().add(EMAIL_VERIFICATION_TOKEN_EXPIRES_IN_HOURS, "hours").toDate(),
+  });
+
+  const baseUrl = process.env.EMAIL_VERIFICATION_URL || "http://localhost:3000/verify-email";
+  await mailer.send({
+    to: user.email,
+    subject: "Confirm your email",
+    text: `Confirm your email address by opening the link below.\n\n${baseUrl}?token=${token}`,
+  });
+}
+
+async function verifyEmail({ token }: VerifyEmailParams) {
+  const verificationToken = await emailVerificationTokenRepository.findByTokenHash(hashOpaqueToken(token));
+  if (!verificationToken || dayjs().isAfter(verificationToken.expiresAt)) throw invalidEmailVerificationTokenError();
+
+  const wasUnused = await emailVerificationTokenRepository.markAsUsed(verificationToken.id);
+  if (!wasUnused) throw invalidEmailVerificationTokenError();
+
+  await userRepository.markEmailAsVerified(verificationToken.userId);
+}
+
+// Every address is throttled the same way, so the responses tell nothing about which ones have an account
+async function resendVerificationEmail({ email }: ResendVerificationEmailParams) {
+  const { allowed } = await rateLimitRepository.consume(
+    `verification-resend:${email.toLowerCase()}`,
+    1,
+    1 / EMAIL_VERIFICATION_RESEND_INTERVAL_SECONDS,
+  );
+  if (!allowed) throw tooManyRequestsError();
+
+  const user = await userRepository.findByEmail(email, { id: true, email: true, emailVerifiedAt: true });
+  if (!user || user.emailVerifiedAt) return;
+
+  await sendVerificationEmail(user);
+}
+
+async function checkEmailVerifiedOrFail(userId: number) {
+  const user = await userRepository.findById(userId);
+  if (!user?.emailVerifiedAt) throw unverifiedEmailError();
 }
 
 export type CreateUserParams = Pick<User, "email" | "password">;
 
+export type VerifyEmailParams = {
+  token: string;
+};
+
+export type ResendVerificationEmailParams = Pick<User, "email">;
+
 const userService = {
   createUser,
+  verifyEmail,
+  resendVerificationEmail,
+  checkEmailVerifiedOrFail,
 };
 
 export * from "./errors";
@@ -0,0 +1,80 @@
+import dayjs from "dayjs";
+
+export type BoletoCharge = {
+  bankCode: string;
+  covenant: string;
+  ourNumber: number;
+  amount: number;
+  dueDate: Date;
+};
+
+export type Boleto = {
+  barcode: string;
+  digitableLine: string;
+};
+
+const dueDateFactorBase = dayjs("1997-10-07");
+
+// Builds the FEBRABAN barcode and the digitable line typed at bank counters, amounts are in reais
+export function buildBoleto({ bankCode, covenant, ourNumber, amount, dueDate }: BoletoCharge): Boleto {
+  const bankAndCurrency = bankCode.padStart(3, "0").slice(0, 3) + "9";
+  const dueFactor = dueDateFactor(dueDate);
+  const value = String(Math.round(amount * 100)).padStart(10, "0");
+  // The free field layout is up to each bank; ours carries the covenant and the payment being charged
+  const freeField = covenant.padStart(7, "0").slice(-7) + String(ourNumber).padStart(18, "0");
+
+  const barcodeWithoutDigit = bankAndCurrency + dueFactor + value + freeField;
+  const barcodeDigit = modulo11(barcodeWithoutDigit);
+  const barcode = bankAndCurrency + barcodeDigit + dueFactor + value + freeField;
+
+  const firstField = bankAndCurrency + freeField.slice(0, 5);
+  const secondField = freeField.slice(5, 15);
+  const thirdField = freeField.slice(15, 25);
+  const digitableLine = [
+    withDot(firstField + modulo10(firstField), 5),
+    withDot(secondField + modulo10(secondField), 5),
+    withDot(thirdField + modulo10(thirdField), 5),
+    barcodeDigit,
+    dueFactor + value,
+  ].join(" ");
+
+  return { barcode, digitableLine };
+}
+
+// Days since the FEBRABAN base date; the factor went back to 1000 once it passed 9999 in February 2025
+function dueDateFactor(dueDate: Date) {
+  const days = dayjs(dueDate).startOf("day").diff(dueDateFactorBase, "day");
+  const factor = days > 9999 ? ((days - 10000) % 9000) + 1000 : days;
+
+  return String(factor).padStart(4, "0");
+}
+
+function modulo10(digits: string) {
+  let sum = 0;
+  let weight = 2;
+
+  for (let index = digits.length - 1; index >= 0; index--) {
+    const product = Number(digits[index]) * weight;
+    sum += Math.floor(product / 10) + (product % 10);
+    weight = weight === 2 ? 1 : 2;
+  }
+
+  return String((10 - (sum % 10)) % 10);
+}
+
+function modulo11(digits: string) {
+  let sum = 0;
+  let weight = 2;
+
+  for (let index = digits.length - 1; index >= 0; index--) {
+    sum += Number(digits[index]) * weight;
+    weight = weight === 9 ? 2 : weight + 1;
+  }
+
+  const digit = 11 - (sum % 11);
+  return digit === 0 || digit > 9 ? "1" : String(digit);
+}
+
+function withDot(field: string, position: number) {
+  return `${field.slice(0, position)}.${field.slice(position)}`;
+}
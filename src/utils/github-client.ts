@@ -0,0 +1,64 @@
+import axios from "axios";
+
+export type OAuthProfile = {
+  providerAccountId: string;
+  email: string | null;
+};
+
+export type OAuthClient = {
+  getProfile(code: string): Promise<OAuthProfile | null>;
+};
+
+type GitHubEmail = {
+  email: string;
+  primary: boolean;
+  verified: boolean;
+};
+
+export function createGitHubClient(): OAuthClient {
+  const oauthUrl = process.env.GITHUB_OAUTH_URL || "https://github.com/login/oauth";
+  const apiUrl = process.env.GITHUB_API_URL || "https://api.github.com";
+
+  return {
+    async getProfile(code) {
+      try {
+        const { data: token } = await axios.post(
+          `${oauthUrl}/access_token`,
+          {
+            client_id: process.env.GITHUB_CLIENT_ID,
+            client_secret: process.env.GITHUB_CLIENT_SECRET,
+            code,
+          },
+          { headers: { Accept: "application/json" } },
+        );
+        if (!token.access_token) return null;
+
+        const headers = { Authorization: `Bearer ${token.access_token}` };
+        const { data: user } = await axios.get(`${apiUrl}/user`, { headers });
+        const { data: emails } = await axios.get<GitHubEmail[]>(`${apiUrl}/user/emails`, { headers });
+
+        // Only a verified primary address is trusted to link an existing account
+        const primaryEmail = emails.find((email) => email.primary && email.verified);
+
+        return {
+          providerAccountId: String(user.id),
+          email: primaryEmail?.email ?? null,
+        };
+      } catch (error) {
+        return null;
+      }
+    },
+  };
+}
+
+let gitHubClient: OAuthClient;
+
+export function setGitHubClient(client: OAuthClient) {
+  gitHubClient = client;
+}
+
+export function getGitHubClient() {
+  if (!gitHubClient) gitHubClient = createGitHubClient();
+
+  return gitHubClient;
+}
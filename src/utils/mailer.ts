@@ -0,0 +1,60 @@
+import fs from "fs";
+import path from "path";
+
+export type MailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+};
+
+export type MailTransport = {
+  send(message: MailMessage): Promise<void>;
+};
+
+export const consoleTransport: MailTransport = {
+  async send(message) {
+    /* eslint-disable-next-line no-console */
+    console.log(`[mailer] to: ${message.to} | subject: ${message.subject}\n${message.text}`);
+  },
+};
+
+export function fileTransport(directory: string): MailTransport {
+  return {
+    async send(message) {
+      await fs.promises.mkdir(directory, { recursive: true });
+      const fileName = `${Date.now()}-${message.to.replace(/[^a-zA-Z0-9@._-]/g, "_")}.json`;
+      await fs.promises.writeFile(path.join(directory, fileName), JSON.stringify(message, null, 2));
+    },
+  };
+}
+
+// Mails carry verification, reset and claim links, so production never falls back to printing them in the logs
+function createTransportFromEnv(): MailTransport {
+  const kind = process.env.MAIL_TRANSPORT || (process.env.NODE_ENV === "production" ? "" : "console");
+
+  if (kind === "file") return fileTransport(process.env.MAIL_DIRECTORY || "mails");
+  if (kind === "console") return consoleTransport;
+
+  throw new Error(`MAIL_TRANSPORT must be set to "file" or "console", got "${kind}"`);
+}
+
+let transport: MailTransport;
+
+export function setMailTransport(newTransport: MailTransport) {
+  transport = newTransport;
+}
+
+// Called on startup so a missing configuration is noticed before the first mail is due
+export function initMailTransport() {
+  if (!transport) transport = createTransportFromEnv();
+}
+
+async function send(message: MailMessage) {
+  initMailTransport();
+
+  await transport.send(message);
+}
+
+export const mailer = {
+  send,
+};
@@ -0,0 +1,169 @@
+import crypto from "crypto";
+import { paymentGatewayTimeoutError } from "@/errors";
+
+export type GatewayTransactionStatus = "PENDING" | "AUTHORIZED" | "CAPTURED" | "DECLINED" | "REFUNDED";
+
+export type GatewayTransaction = {
+  transactionId: string;
+  status: GatewayTransactionStatus;
+  declineReason?: string;
+};
+
+export type GatewayCard = {
+  number: string;
+  holderName: string;
+  expirationDate: string;
+  cvv: string;
+};
+
+export type AuthorizeRequest = {
+  amount: number;
+  installments: number;
+  card: GatewayCard;
+};
+
+export type PixChargeRequest = {
+  amount: number;
+  expiresAt: Date;
+};
+
+export type BoletoChargeRequest = {
+  amount: number;
+  dueDate: Date;
+};
+
+// Gateways throw paymentGatewayTimeoutError when the provider does not answer in time
+export type PaymentGateway = {
+  authorize(request: AuthorizeRequest): Promise<GatewayTransaction>;
+  createPixCharge(request: PixChargeRequest): Promise<GatewayTransaction>;
+  createBoletoCharge(request: BoletoChargeRequest): Promise<GatewayTransaction>;
+  capture(transactionId: string): Promise<GatewayTransaction>;
+  refund(transactionId: string, amount: number): Promise<GatewayTransaction>;
+  status(transactionId: string): Promise<GatewayTransaction | null>;
+  // Only sandbox providers can settle a PIX charge without a bank on the other side
+  simulatePixPayment?(transactionId: string): Promise<GatewayTransaction>;
+};
+
+// Cards the fake provider treats specially, any other number is approved
+export const fakeGatewayCards = {
+  declined: "4000000000000002",
+  timeout: "4000000000000119",
+} as const;
+
+type FakeTransaction = GatewayTransaction & {
+  amount: number;
+  refunded: number;
+};
+
+export function createFakePaymentGateway(): PaymentGateway {
+  const transactions = new Map<string, FakeTransaction>();
+
+  function toResult({ transactionId, status, declineReason }: FakeTransaction): GatewayTransaction {
+    return declineReason ? { transactionId, status, declineReason } : { transactionId, status };
+  }
+
+  function findOrDecline(transactionId: string): FakeTransaction {
+    return (
+      transactions.get(transactionId) ?? {
+        transactionId,
+        status: "DECLINED",
+        declineReason: "transaction_not_found",
+        amount: 0,
+        refunded: 0,
+      }
+    );
+  }
+
+  return {
+    async authorize({ amount, card }) {
+      if (card.number === fakeGatewayCards.timeout) throw paymentGatewayTimeoutError();
+
+      const transaction: FakeTransaction = {
+        transactionId: `fake_${crypto.randomUUID()}`,
+        status: card.number === fakeGatewayCards.declined ? "DECLINED" : "AUTHORIZED",
+        amount,
+        refunded: 0,
+      };
+      if (transaction.status === "DECLINED") transaction.declineReason = "card_declined";
+
+      transactions.set(transaction.transactionId, transaction);
+      return toResult(transaction);
+    },
+    async createPixCharge({ amount }) {
+      const transaction: FakeTransaction = {
+        transactionId: `fake_pix_${crypto.randomUUID()}`,
+        status: "PENDING",
+        amount,
+        refunded: 0,
+      };
+
+      transactions.set(transaction.transactionId, transaction);
+      return toResult(transaction);
+    },
+    async createBoletoCharge({ amount }) {
+      const transaction: FakeTransaction = {
+        transactionId: `fake_boleto_${crypto.randomUUID()}`,
+        status: "PENDING",
+        amount,
+        refunded: 0,
+      };
+
+      transactions.set(transaction.transactionId, transaction);
+      return toResult(transaction);
+    },
+    async capture(transactionId) {
+      const transaction = findOrDecline(transactionId);
+      if (transaction.status === "AUTHORIZED") transaction.status = "CAPTURED";
+
+      return toResult(transaction);
+    },
+    async refund(transactionId, amount) {
+      const transaction = findOrDecline(transactionId);
+      if (transaction.status !== "CAPTURED" || transaction.refunded + amount > transaction.amount) {
+        return { transactionId, status: "DECLINED", declineReason: "refund_not_allowed" };
+      }
+
+      transaction.refunded += amount;
+      if (transaction.refunded === transaction.amount) transaction.status = "REFUNDED";
+
+      return toResult(transaction);
+    },
+    async status(transactionId) {
+      const transaction = transactions.get(transactionId);
+
+      return transaction ? toResult(transaction) : null;
+    },
+    async simulatePixPayment(transactionId) {
+      const transaction = findOrDecline(transactionId);
+      if (transaction.status === "PENDING") transaction.status = "CAPTURED";
+
+      return toResult(transaction);
+    },
+  };
+}
+
+// The fake provider approves any card, so production has to name its provider instead of falling back to it
+function createPaymentGatewayFromEnv(): PaymentGateway {
+  const provider = process.env.PAYMENT_GATEWAY || (process.env.NODE_ENV === "production" ? "" : "fake");
+
+  if (provider === "fake") return createFakePaymentGateway();
+
+  throw new Error(`PAYMENT_GATEWAY must name a supported provider ("fake"), got "${provider}"`);
+}
+
+let paymentGateway: PaymentGateway;
+
+export function setPaymentGateway(gateway: PaymentGateway) {
+  paymentGateway = gateway;
+}
+
+// Called on startup so a missing configuration is noticed before the first payment
+export function initPaymentGateway() {
+  if (!paymentGateway) paymentGateway = createPaymentGatewayFromEnv();
+}
+
+export function getPaymentGateway() {
+  initPaymentGateway();
+
+  return paymentGateway;
+}
@@ -0,0 +1,61 @@
+import QRCode from "qrcode";
+
+export type PixCharge = {
+  key: string;
+  merchantName: string;
+  merchantCity: string;
+  amount: number;
+  txid: string;
+};
+
+// Builds the "copia e cola" BR Code (EMV QRCPS) the Central Bank specifies for PIX, amounts are in reais
+export function buildPixBrCode({ key, merchantName, merchantCity, amount, txid }: PixCharge): string {
+  const payload = [
+    emvField("00", "01"),
+    emvField("01", "12"),
+    emvField("26", emvField("00", "br.gov.bcb.pix") + emvField("01", key)),
+    emvField("52", "0000"),
+    emvField("53", "986"),
+    emvField("54", amount.toFixed(2)),
+    emvField("58", "BR"),
+    emvField("59", toEmvText(merchantName, 25)),
+    emvField("60", toEmvText(merchantCity, 15)),
+    emvField("62", emvField("05", txid.replace(/[^A-Za-z0-9]/g, "").slice(0, 25))),
+    "6304",
+  ].join("");
+
+  return payload + crc16(payload);
+}
+
+export async function generatePixQrCode(brCode: string): Promise<string> {
+  return QRCode.toDataURL(brCode, { type: "image/png", errorCorrectionLevel: "M" });
+}
+
+function emvField(id: string, value: string) {
+  return id + String(value.length).padStart(2, "0") + value;
+}
+
+// Wallets reject accented characters in the merchant fields
+function toEmvText(text: string, maxLength: number) {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^A-Za-z0-9 .-]/g, "")
+    .toUpperCase()
+    .slice(0, maxLength);
+}
+
+// CRC16/CCITT-FALSE over the whole payload, including the "6304" header of the CRC field itself
+function crc16(payload: string) {
+  let crc = 0xffff;
+
+  for (const byte of Buffer.from(payload, "utf8")) {
+    crc ^= byte << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? (crc << 1) ^ 0x1021 : crc << 1;
+    }
+    crc &= 0xffff;
+  }
+
+  return crc.toString(16).toUpperCase().padStart(4, "0");
+}
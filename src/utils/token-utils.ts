@@ -0,0 +1,9 @@
+import crypto from "crypto";
+
+export function generateOpaqueToken() {
+  return crypto.randomBytes(32).toString("hex");
+}
+
+export function hashOpaqueToken(token: string) {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
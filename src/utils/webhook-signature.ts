@@ -0,0 +1,42 @@
+import crypto from "crypto";
+
+const DEFAULT_TOLERANCE_SECONDS = 5 * 60;
+
+// Signatures follow the "t=<unix seconds>,v1=<hex hmac>" format, where the HMAC covers "<t>.<raw body>"
+export function signWebhookPayload(secret: string, payload: string | Buffer, timestamp = unixNow()) {
+  return `t=${timestamp},v1=${computeSignature(secret, payload, timestamp)}`;
+}
+
+export function verifyWebhookSignature(
+  secret: string,
+  payload: string | Buffer,
+  header: string,
+  toleranceSeconds = DEFAULT_TOLERANCE_SECONDS,
+) {
+  const parts = new Map(
+    header.split(",").map((part) => {
+      const [key, ...value] = part.trim().split("=");
+      return [key, value.join("=")] as [string, string];
+    }),
+  );
+
+  const timestamp = Number(parts.get("t"));
+  const signature = parts.get("v1");
+  if (!Number.isInteger(timestamp) || !signature) return false;
+
+  // Old signatures are rejected so captured requests cannot be replayed later
+  if (Math.abs(unixNow() - timestamp) > toleranceSeconds) return false;
+
+  const expected = Buffer.from(computeSignature(secret, payload, timestamp), "hex");
+  const received = Buffer.from(signature, "hex");
+
+  return received.length === expected.length && crypto.timingSafeEqual(received, expected);
+}
+
+function computeSignature(secret: string, payload: string | Buffer, timestamp: number) {
+  return crypto.createHmac("sha256", secret).update(`${timestamp}.`).update(payload).digest("hex");
+}
+
+function unixNow() {
+  return Math.floor(Date.now() / 1000);
+}
@@ -0,0 +1,44 @@
+import dayjs from "dayjs";
+import faker from "@faker-js/faker";
+import { prisma } from "@/config";
+import { findOrCreateEvent } from "./events-factory";
+
+export async function createActivityVenue() {
+  return prisma.activityVenue.create({
+    data: {
+      name: faker.company.companyName(),
+    }
+  });
+}
+
+export async function createActivity(venueId: number, params: CreateActivityParams = {}) {
+  const startsAt = params.startsAt || dayjs().startOf("day").add(9, "hours").toDate();
+  const eventId = params.eventId || (await findOrCreateEvent()).id;
+
+  return prisma.activity.create({
+    data: {
+      name: faker.lorem.words(3),
+      capacity: params.capacity || faker.datatype.number({ min: 5, max: 30 }),
+      startsAt,
+      endsAt: params.endsAt || dayjs(startsAt).add(1, "hour").toDate(),
+      venueId,
+      eventId,
+    }
+  });
+}
+
+export async function createActivitySubscription(userId: number, activityId: number) {
+  return prisma.activitySubscription.create({
+    data: {
+      userId,
+      activityId,
+    }
+  });
+}
+
+type CreateActivityParams = {
+  capacity?: number;
+  startsAt?: Date;
+  endsAt?: Date;
+  eventId?: number;
+};
@@ -0,0 +1,20 @@
+import faker from "@faker-js/faker";
+import { prisma } from "@/config";
+import { Coupon, DiscountType } from "@prisma/client";
+
+export async function createCoupon(eventId: number, params: Partial<Coupon> & { ticketTypeIds?: number[] } = {}) {
+  const { ticketTypeIds = [], ...data } = params;
+
+  return prisma.coupon.create({
+    data: {
+      code: faker.random.alphaNumeric(10).toUpperCase(),
+      discountType: DiscountType.PERCENTAGE,
+      discountValue: 10,
+      ...data,
+      eventId,
+      TicketType: {
+        connect: ticketTypeIds.map((id) => ({ id })),
+      },
+    },
+  });
+}
@@ -3,10 +3,12 @@ import { generateCPF, getStates } from "@brazilian-utils/brazilian-utils";
 import { User } from "@prisma/client";
 
 import { createUser } from "./users-factory";
+import { findOrCreateEvent } from "./events-factory";
 import { prisma } from "@/config";
 
-export async function createEnrollmentWithAddress(user?: User) {
+export async function createEnrollmentWithAddress(user?: User, eventId?: number) {
   const incomingUser = user || (await createUser());
+  const incomingEventId = eventId || (await findOrCreateEvent()).id;
 
   return prisma.enrollment.create({
     data: {
@@ -15,6 +17,7 @@ export async function createEnrollmentWithAddress(user?: User) {
       birthday: faker.date.past(),
       phone: faker.phone.phoneNumber("(##) 9####-####"),
       userId: incomingUser.id,
+      eventId: incomingEventId,
       Address: {
         create: {
           street: faker.address.streetName(),
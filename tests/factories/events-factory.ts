@@ -6,6 +6,7 @@ import { prisma } from "@/config";
 export function createEvent(params: Partial<Event> = {}): Promise<Event> {
   return prisma.event.create({
     data: {
+      slug: params.slug || faker.datatype.uuid(),
       title: params.title || faker.lorem.sentence(),
       backgroundImageUrl: params.backgroundImageUrl || faker.image.imageUrl(),
       logoImageUrl: params.logoImageUrl || faker.image.imageUrl(),
@@ -14,3 +15,9 @@ export function createEvent(params: Partial<Event> = {}): Promise<Event> {
     },
   });
 }
+
+export async function findOrCreateEvent(): Promise<Event> {
+  const event = await prisma.event.findFirst();
+
+  return event || createEvent();
+}
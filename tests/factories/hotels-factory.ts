@@ -1,12 +1,16 @@
 import faker from "@faker-js/faker";
 import { prisma } from "@/config";
+import { findOrCreateEvent } from "./events-factory";
 
 //Sabe criar objetos - Hotel do banco
-export async function createHotel() {
+export async function createHotel(eventId?: number) {
+  const incomingEventId = eventId || (await findOrCreateEvent()).id;
+
   return await prisma.hotel.create({
     data: {
       name: faker.name.findName(),
       image: faker.image.imageUrl(),
+      eventId: incomingEventId,
     }
   });
 }
@@ -4,6 +4,10 @@ export * from "./sessions-factory";
 export * from "./enrollments-factory";
 export * from "./tickets-factory";
 export * from "./payments-factory";
+export * from "./orders-factory";
+export * from "./payment-webhooks-factory";
 export * from "./hotels-factory";
 export * from "./rooms-factory";
 export * from "./bookings-factory";
+export * from "./activities-factory";
+export * from "./coupons-factory";
@@ -0,0 +1,42 @@
+import faker from "@faker-js/faker";
+import { prisma } from "@/config";
+import { OrderItemType, OrderStatus } from "@prisma/client";
+import { findOrCreateEvent } from "./events-factory";
+
+export async function createMerchandise(eventId?: number) {
+  const incomingEventId = eventId || (await findOrCreateEvent()).id;
+
+  return prisma.merchandise.create({
+    data: {
+      name: faker.commerce.productName(),
+      price: faker.datatype.number({ min: 100, max: 10000 }),
+      eventId: incomingEventId,
+    },
+  });
+}
+
+export async function createTicketOrder(ticketId: number, status: OrderStatus = OrderStatus.PENDING) {
+  const ticket = await prisma.ticket.findUnique({
+    where: { id: ticketId },
+    include: { TicketType: true, Enrollment: true },
+  });
+
+  return prisma.order.create({
+    data: {
+      userId: ticket.Enrollment.userId,
+      eventId: ticket.Enrollment.eventId,
+      status,
+      total: ticket.TicketType.price,
+      OrderItem: {
+        create: {
+          type: OrderItemType.TICKET,
+          description: ticket.TicketType.name,
+          unitPrice: ticket.TicketType.price,
+          quantity: 1,
+          total: ticket.TicketType.price,
+          ticketId,
+        },
+      },
+    },
+  });
+}
@@ -0,0 +1,20 @@
+import faker from "@faker-js/faker";
+import { signWebhookPayload } from "@/utils/webhook-signature";
+
+export function buildPaymentWebhookEvent(type: string, transactionId: string, reason?: string) {
+  return {
+    id: `evt_${faker.datatype.uuid()}`,
+    type,
+    data: reason ? { transactionId, reason } : { transactionId },
+  };
+}
+
+// Serializes the payload once so the signed bytes are exactly the ones sent
+export function signPaymentWebhook(event: object, secret = process.env.FAKE_GATEWAY_WEBHOOK_SECRET) {
+  const payload = JSON.stringify(event);
+
+  return {
+    payload,
+    signature: signWebhookPayload(secret, payload),
+  };
+}
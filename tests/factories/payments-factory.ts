@@ -1,13 +1,49 @@
 import faker from "@faker-js/faker";
 import { prisma } from "@/config";
+import { OrderStatus, PaymentMethod, PaymentStatus } from "@prisma/client";
+import { createTicketOrder } from "./orders-factory";
 
 export async function createPayment(ticketId: number, value: number) {
+  const order = await createTicketOrder(ticketId, OrderStatus.PAID);
+
   return prisma.payment.create({
     data: {
-      ticketId,
+      orderId: order.id,
       value,
       cardIssuer: faker.name.findName(),
       cardLastDigits: faker.datatype.number({ min: 1000, max: 9999 }).toString(),
+      status: PaymentStatus.CAPTURED,
+      gatewayTransactionId: `fake_${faker.datatype.uuid()}`,
+    },
+  });
+}
+
+export async function createOrderPayment(orderId: number, status: PaymentStatus = PaymentStatus.AUTHORIZED) {
+  const order = await prisma.order.findUnique({ where: { id: orderId } });
+
+  return prisma.payment.create({
+    data: {
+      orderId,
+      value: order.total,
+      cardIssuer: faker.name.findName(),
+      cardLastDigits: faker.datatype.number({ min: 1000, max: 9999 }).toString(),
+      status,
+      gatewayTransactionId: `fake_${faker.datatype.uuid()}`,
+    },
+  });
+}
+
+export async function createBoletoPayment(orderId: number, dueDate: Date) {
+  const order = await prisma.order.findUnique({ where: { id: orderId } });
+
+  return prisma.payment.create({
+    data: {
+      orderId,
+      value: order.total,
+      method: PaymentMethod.BOLETO,
+      status: PaymentStatus.PENDING,
+      expiresAt: dueDate,
+      gatewayTransactionId: `fake_boleto_${faker.datatype.uuid()}`,
     },
   });
 }
@@ -23,3 +59,19 @@ export function generateCreditCardData() {
     cvv: faker.datatype.number({ min: 100, max: 999 }).toString(),
   };
 }
+
+export async function createPixPayment(orderId: number, expiresAt: Date) {
+  const order = await prisma.order.findUnique({ where: { id: orderId } });
+
+  return prisma.payment.create({
+    data: {
+      orderId,
+      value: order.total,
+      method: PaymentMethod.PIX,
+      status: PaymentStatus.PENDING,
+      expiresAt,
+      pixCode: faker.datatype.uuid(),
+      gatewayTransactionId: `fake_pix_${faker.datatype.uuid()}`,
+    },
+  });
+}
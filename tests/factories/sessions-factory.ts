@@ -2,13 +2,13 @@ import { Session } from "@prisma/client";
 import { createUser } from "./users-factory";
 import { prisma } from "@/config";
 
-export async function createSession(token: string): Promise<Session> {
-  const user = await createUser();
+export async function createSession(token: string, userId?: number): Promise<Session> {
+  const incomingUserId = userId || (await createUser()).id;
 
   return prisma.session.create({
     data: {
       token: token,
-      userId: user.id,
+      userId: incomingUserId,
     },
   });
 }
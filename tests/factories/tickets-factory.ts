@@ -1,46 +1,85 @@
+import { generateCPF } from "@brazilian-utils/brazilian-utils";
 import faker from "@faker-js/faker";
 import { prisma } from "@/config";
 import { TicketStatus } from "@prisma/client";
+import { findOrCreateEvent } from "./events-factory";
+
+export async function createTicketType(eventId?: number) {
+  const incomingEventId = eventId || (await findOrCreateEvent()).id;
 
-export async function createTicketType() {
   return prisma.ticketType.create({
     data: {
       name: faker.name.findName(),
       price: faker.datatype.number(),
       isRemote: faker.datatype.boolean(),
       includesHotel: faker.datatype.boolean(),
+      eventId: incomingEventId,
     },
   });
 }
 
-export async function createTicketTypeRemote() {
+export async function createTicketTypeRemote(eventId?: number) {
+  const incomingEventId = eventId || (await findOrCreateEvent()).id;
+
   return prisma.ticketType.create({
     data: {
       name: faker.name.findName(),
       price: faker.datatype.number(),
       isRemote: true,
       includesHotel: faker.datatype.boolean(),
+      eventId: incomingEventId,
     },
   });
 }
 
-export async function createTicketTypeWithHotel() {
+export async function createTicketTypeWithHotel(eventId?: number) {
+  const incomingEventId = eventId || (await findOrCreateEvent()).id;
+
   return prisma.ticketType.create({
     data: {
       name: faker.name.findName(),
       price: faker.datatype.number(),
       isRemote: false,
       includesHotel: true,
+      eventId: incomingEventId,
     },
   });
 }
 
 export async function createTicket(enrollmentId: number, ticketTypeId: number, status: TicketStatus) {
+  const enrollment = await prisma.enrollment.findUnique({
+    where: { id: enrollmentId },
+    include: { User: true },
+  });
+
+  return prisma.ticket.create({
+    data: {
+      enrollmentId,
+      ticketTypeId,
+      status,
+      attendeeName: enrollment.name,
+      attendeeCpf: enrollment.cpf,
+      attendeeEmail: enrollment.User.email,
+      attendeeUserId: enrollment.userId,
+    },
+  });
+}
+
+export async function createCompanionTicket(
+  enrollmentId: number,
+  ticketTypeId: number,
+  status: TicketStatus,
+  claimTokenHash: string = null,
+) {
   return prisma.ticket.create({
     data: {
       enrollmentId,
       ticketTypeId,
       status,
+      attendeeName: faker.name.findName(),
+      attendeeCpf: generateCPF(),
+      attendeeEmail: faker.internet.email(),
+      claimTokenHash,
     },
   });
 }
@@ -1,6 +1,6 @@
 import bcrypt from "bcrypt";
 import faker from "@faker-js/faker";
-import { User } from "@prisma/client";
+import { User, UserRole } from "@prisma/client";
 import { prisma } from "@/config";
 
 export async function createUser(params: Partial<User> = {}): Promise<User> {
@@ -11,6 +11,8 @@ export async function createUser(params: Partial<User> = {}): Promise<User> {
     data: {
       email: params.email || faker.internet.email(),
       password: hashedPassword,
+      role: params.role || UserRole.ATTENDEE,
+      emailVerifiedAt: params.emailVerifiedAt === undefined ? new Date() : params.emailVerifiedAt,
     },
   });
 }
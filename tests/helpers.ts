@@ -6,12 +6,29 @@ import { createSession } from "./factories/sessions-factory";
 import { prisma } from "@/config";
 
 export async function cleanDb() {
+  await prisma.activitySubscription.deleteMany({});
+  await prisma.activity.deleteMany({});
+  await prisma.activityVenue.deleteMany({});
   await prisma.address.deleteMany({});
+  await prisma.paymentWebhookEvent.deleteMany({});
+  await prisma.refund.deleteMany({});
+  await prisma.paymentInstallment.deleteMany({});
   await prisma.payment.deleteMany({});
+  await prisma.coupon.deleteMany({});
+  await prisma.orderItem.deleteMany({});
+  await prisma.order.deleteMany({});
+  await prisma.merchandise.deleteMany({});
   await prisma.ticket.deleteMany({});
   await prisma.enrollment.deleteMany({});
   await prisma.event.deleteMany({});
   await prisma.session.deleteMany({});
+  await prisma.passwordResetToken.deleteMany({});
+  await prisma.emailVerificationToken.deleteMany({});
+  await prisma.oAuthAccount.deleteMany({});
+  await prisma.failedSignIn.deleteMany({});
+  await prisma.loginThrottle.deleteMany({});
+  await prisma.rateLimitBucket.deleteMany({});
+  await prisma.idempotencyKey.deleteMany({});
   await prisma.booking.deleteMany({});
   await prisma.user.deleteMany({});
   await prisma.ticketType.deleteMany({});
@@ -23,7 +40,7 @@ export async function generateValidToken(user?: User) {
   const incomingUser = user || (await createUser());
   const token = jwt.sign({ userId: incomingUser.id }, process.env.JWT_SECRET);
 
-  await createSession(token);
+  await createSession(token, incomingUser.id);
 
   return token;
 }
@@ -0,0 +1,371 @@
+import app, { init } from "@/app";
+import { prisma } from "@/config";
+import faker from "@faker-js/faker";
+import { Event, TicketStatus } from "@prisma/client";
+import dayjs from "dayjs";
+import httpStatus from "http-status";
+import * as jwt from "jsonwebtoken";
+import supertest from "supertest";
+import {
+  createEnrollmentWithAddress,
+  createUser,
+  createTicket,
+  createTicketTypeRemote,
+  createTicketTypeWithHotel,
+  createEvent,
+  createActivityVenue,
+  createActivity,
+  createActivitySubscription
+} from "../factories";
+import { cleanDb, generateValidToken } from "../helpers";
+
+beforeAll(async () => {
+  await init();
+});
+
+let event: Event;
+
+beforeEach(async () => {
+  await cleanDb();
+  event = await createEvent();
+});
+
+const server = supertest(app);
+
+describe("GET /activities/days", () => {
+  it("should respond with status 401 if no token is given", async () => {
+    const response = await server.get(`/events/${event.slug}/activities/days`);
+
+    expect(response.status).toBe(httpStatus.UNAUTHORIZED);
+  });
+
+  it("should respond with status 401 if given token is not valid", async () => {
+    const token = faker.lorem.word();
+
+    const response = await server.get(`/events/${event.slug}/activities/days`).set("Authorization", `Bearer ${token}`);
+
+    expect(response.status).toBe(httpStatus.UNAUTHORIZED);
+  });
+
+  it("should respond with status 401 if there is no session for given token", async () => {
+    const userWithoutSession = await createUser();
+    const token = jwt.sign({ userId: userWithoutSession.id }, process.env.JWT_SECRET);
+
+    const response = await server.get(`/events/${event.slug}/activities/days`).set("Authorization", `Bearer ${token}`);
+
+    expect(response.status).toBe(httpStatus.UNAUTHORIZED);
+  });
+
+  describe("when token is valid", () => {
+    it("should respond with status 403 when user has no enrollment", async () => {
+      const token = await generateValidToken();
+
+      const response = await server
+        .get(`/events/${event.slug}/activities/days`)
+        .set("Authorization", `Bearer ${token}`);
+
+      expect(response.status).toEqual(httpStatus.FORBIDDEN);
+    });
+
+    it("should respond with status 403 when user ticket is not paid", async () => {
+      const user = await createUser();
+      const token = await generateValidToken(user);
+      const enrollment = await createEnrollmentWithAddress(user);
+      const ticketType = await createTicketTypeWithHotel();
+      await createTicket(enrollment.id, ticketType.id, TicketStatus.RESERVED);
+
+      const response = await server
+        .get(`/events/${event.slug}/activities/days`)
+        .set("Authorization", `Bearer ${token}`);
+
+      expect(response.status).toEqual(httpStatus.FORBIDDEN);
+    });
+
+    it("should respond with status 404 when there is no event for given slug", async () => {
+      const user = await createUser();
+      const token = await generateValidToken(user);
+      const enrollment = await createEnrollmentWithAddress(user);
+      const ticketType = await createTicketTypeWithHotel();
+      await createTicket(enrollment.id, ticketType.id, TicketStatus.PAID);
+
+      const response = await server.get("/events/no-event/activities/days").set("Authorization", `Bearer ${token}`);
+
+      expect(response.status).toEqual(httpStatus.NOT_FOUND);
+    });
+
+    it("should respond with status 200 and event days for a paid remote ticket", async () => {
+      const user = await createUser();
+      const token = await generateValidToken(user);
+      const enrollment = await createEnrollmentWithAddress(user);
+      const ticketType = await createTicketTypeRemote();
+      await createTicket(enrollment.id, ticketType.id, TicketStatus.PAID);
+      const startsAt = dayjs().startOf("day").add(10, "hours");
+      await prisma.event.update({
+        where: { id: event.id },
+        data: { startsAt: startsAt.toDate(), endsAt: startsAt.add(2, "days").toDate() }
+      });
+
+      const response = await server
+        .get(`/events/${event.slug}/activities/days`)
+        .set("Authorization", `Bearer ${token}`);
+
+      expect(response.status).toEqual(httpStatus.OK);
+      expect(response.body).toEqual([
+        startsAt.format("YYYY-MM-DD"),
+        startsAt.add(1, "day").format("YYYY-MM-DD"),
+        startsAt.add(2, "days").format("YYYY-MM-DD")
+      ]);
+    });
+  });
+});
+
+describe("GET /activities/days/:date", () => {
+  it("should respond with status 401 if no token is given", async () => {
+    const response = await server.get(`/events/${event.slug}/activities/days/2022-12-05`);
+
+    expect(response.status).toBe(httpStatus.UNAUTHORIZED);
+  });
+
+  describe("when token is valid", () => {
+    async function createAllowedUser() {
+      const user = await createUser();
+      const token = await generateValidToken(user);
+      const enrollment = await createEnrollmentWithAddress(user);
+      const ticketType = await createTicketTypeWithHotel();
+      await createTicket(enrollment.id, ticketType.id, TicketStatus.PAID);
+
+      return { user, token };
+    }
+
+    it("should respond with status 400 when date is not valid", async () => {
+      const { token } = await createAllowedUser();
+
+      const response = await server
+        .get(`/events/${event.slug}/activities/days/tomorrow`)
+        .set("Authorization", `Bearer ${token}`);
+
+      expect(response.status).toEqual(httpStatus.BAD_REQUEST);
+    });
+
+    it("should respond with status 404 when date is outside the event", async () => {
+      const { token } = await createAllowedUser();
+      const date = dayjs().add(1, "year").format("YYYY-MM-DD");
+
+      const response = await server
+        .get(`/events/${event.slug}/activities/days/${date}`)
+        .set("Authorization", `Bearer ${token}`);
+
+      expect(response.status).toEqual(httpStatus.NOT_FOUND);
+    });
+
+    it("should respond with status 200 and activities grouped by venue with remaining seats", async () => {
+      const { user, token } = await createAllowedUser();
+      const venue = await createActivityVenue();
+      const activity = await createActivity(venue.id, { capacity: 2 });
+      await createActivitySubscription(user.id, activity.id);
+      await createActivity(venue.id, { startsAt: dayjs().add(1, "day").toDate() });
+
+      const response = await server
+        .get(`/events/${event.slug}/activities/days/${dayjs().format("YYYY-MM-DD")}`)
+        .set("Authorization", `Bearer ${token}`);
+
+      expect(response.status).toEqual(httpStatus.OK);
+      expect(response.body).toEqual([
+        {
+          id: venue.id,
+          name: venue.name,
+          activities: [
+            {
+              id: activity.id,
+              name: activity.name,
+              capacity: 2,
+              startsAt: activity.startsAt.toISOString(),
+              endsAt: activity.endsAt.toISOString(),
+              remainingSeats: 1,
+              isSubscribed: true
+            }
+          ]
+        }
+      ]);
+    });
+  });
+});
+
+describe("POST /activities/subscriptions", () => {
+  it("should respond with status 401 if no token is given", async () => {
+    const response = await server.post(`/events/${event.slug}/activities/subscriptions`);
+
+    expect(response.status).toBe(httpStatus.UNAUTHORIZED);
+  });
+
+  describe("when token is valid", () => {
+    async function createAllowedUser() {
+      const user = await createUser();
+      const token = await generateValidToken(user);
+      const enrollment = await createEnrollmentWithAddress(user);
+      const ticketType = await createTicketTypeRemote();
+      await createTicket(enrollment.id, ticketType.id, TicketStatus.PAID);
+
+      return { user, token };
+    }
+
+    it("should respond with status 400 when body is not valid", async () => {
+      const { token } = await createAllowedUser();
+
+      const response = await server
+        .post(`/events/${event.slug}/activities/subscriptions`)
+        .set("Authorization", `Bearer ${token}`)
+        .send({ activityId: "first" });
+
+      expect(response.status).toEqual(httpStatus.BAD_REQUEST);
+    });
+
+    it("should respond with status 403 when user ticket is not paid", async () => {
+      const user = await createUser();
+      const token = await generateValidToken(user);
+      const enrollment = await createEnrollmentWithAddress(user);
+      const ticketType = await createTicketTypeRemote();
+      await createTicket(enrollment.id, ticketType.id, TicketStatus.RESERVED);
+      const venue = await createActivityVenue();
+      const activity = await createActivity(venue.id);
+
+      const response = await server
+        .post(`/events/${event.slug}/activities/subscriptions`)
+        .set("Authorization", `Bearer ${token}`)
+        .send({ activityId: activity.id });
+
+      expect(response.status).toEqual(httpStatus.FORBIDDEN);
+    });
+
+    it("should respond with status 404 when activity does not exist", async () => {
+      const { token } = await createAllowedUser();
+
+      const response = await server
+        .post(`/events/${event.slug}/activities/subscriptions`)
+        .set("Authorization", `Bearer ${token}`)
+        .send({ activityId: 1 });
+
+      expect(response.status).toEqual(httpStatus.NOT_FOUND);
+    });
+
+    it("should respond with status 403 when activity has no remaining seats", async () => {
+      const { token } = await createAllowedUser();
+      const otherUser = await createUser();
+      const venue = await createActivityVenue();
+      const activity = await createActivity(venue.id, { capacity: 1 });
+      await createActivitySubscription(otherUser.id, activity.id);
+
+      const response = await server
+        .post(`/events/${event.slug}/activities/subscriptions`)
+        .set("Authorization", `Bearer ${token}`)
+        .send({ activityId: activity.id });
+
+      expect(response.status).toEqual(httpStatus.FORBIDDEN);
+    });
+
+    it("should not overbook the last seat when users subscribe concurrently", async () => {
+      const users = [await createAllowedUser(), await createAllowedUser()];
+      const venue = await createActivityVenue();
+      const activity = await createActivity(venue.id, { capacity: 1 });
+
+      const responses = await Promise.all(
+        users.map(({ token }) =>
+          server
+            .post(`/events/${event.slug}/activities/subscriptions`)
+            .set("Authorization", `Bearer ${token}`)
+            .send({ activityId: activity.id })
+        )
+      );
+
+      const subscriptionsCount = await prisma.activitySubscription.count({ where: { activityId: activity.id } });
+      expect(responses.map(({ status }) => status).sort()).toEqual([httpStatus.CREATED, httpStatus.FORBIDDEN]);
+      expect(subscriptionsCount).toEqual(1);
+    });
+
+    it("should respond with status 409 when user is already subscribed", async () => {
+      const { user, token } = await createAllowedUser();
+      const venue = await createActivityVenue();
+      const activity = await createActivity(venue.id);
+      await createActivitySubscription(user.id, activity.id);
+
+      const response = await server
+        .post(`/events/${event.slug}/activities/subscriptions`)
+        .set("Authorization", `Bearer ${token}`)
+        .send({ activityId: activity.id });
+
+      expect(response.status).toEqual(httpStatus.CONFLICT);
+    });
+
+    it("should respond with status 409 and the conflicting activity when times overlap", async () => {
+      const { user, token } = await createAllowedUser();
+      const venue = await createActivityVenue();
+      const otherVenue = await createActivityVenue();
+      const startsAt = dayjs().startOf("day").add(9, "hours");
+      const subscribedActivity = await createActivity(venue.id, {
+        startsAt: startsAt.toDate(),
+        endsAt: startsAt.add(2, "hours").toDate()
+      });
+      await createActivitySubscription(user.id, subscribedActivity.id);
+      const activity = await createActivity(otherVenue.id, {
+        startsAt: startsAt.add(1, "hour").toDate(),
+        endsAt: startsAt.add(3, "hours").toDate()
+      });
+
+      const response = await server
+        .post(`/events/${event.slug}/activities/subscriptions`)
+        .set("Authorization", `Bearer ${token}`)
+        .send({ activityId: activity.id });
+
+      expect(response.status).toEqual(httpStatus.CONFLICT);
+      expect(response.body).toEqual(
+        expect.objectContaining({
+          activity: {
+            id: subscribedActivity.id,
+            name: subscribedActivity.name,
+            startsAt: subscribedActivity.startsAt.toISOString(),
+            endsAt: subscribedActivity.endsAt.toISOString()
+          }
+        })
+      );
+    });
+
+    it("should respond with status 201 when activity starts as the subscribed one ends", async () => {
+      const { user, token } = await createAllowedUser();
+      const venue = await createActivityVenue();
+      const startsAt = dayjs().startOf("day").add(9, "hours");
+      const subscribedActivity = await createActivity(venue.id, {
+        startsAt: startsAt.toDate(),
+        endsAt: startsAt.add(1, "hour").toDate()
+      });
+      await createActivitySubscription(user.id, subscribedActivity.id);
+      const activity = await createActivity(venue.id, {
+        startsAt: startsAt.add(1, "hour").toDate(),
+        endsAt: startsAt.add(2, "hours").toDate()
+      });
+
+      const response = await server
+        .post(`/events/${event.slug}/activities/subscriptions`)
+        .set("Authorization", `Bearer ${token}`)
+        .send({ activityId: activity.id });
+
+      expect(response.status).toEqual(httpStatus.CREATED);
+    });
+
+    it("should respond with status 201 and create the subscription", async () => {
+      const { user, token } = await createAllowedUser();
+      const venue = await createActivityVenue();
+      const activity = await createActivity(venue.id);
+
+      const response = await server
+        .post(`/events/${event.slug}/activities/subscriptions`)
+        .set("Authorization", `Bearer ${token}`)
+        .send({ activityId: activity.id });
+
+      const subscription = await prisma.activitySubscription.findFirst({
+        where: { userId: user.id, activityId: activity.id }
+      });
+      expect(response.status).toEqual(httpStatus.CREATED);
+      expect(response.body).toEqual({ subscriptionId: subscription.id });
+    });
+  });
+});
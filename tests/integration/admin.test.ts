@@ -0,0 +1,531 @@
+import app, { init } from "@/app";
+import { prisma } from "@/config";
+import faker from "@faker-js/faker";
+import { DiscountType, TicketStatus, UserRole } from "@prisma/client";
+import dayjs from "dayjs";
+import httpStatus from "http-status";
+import supertest from "supertest";
+import {
+  createUser,
+  createEvent,
+  createEnrollmentWithAddress,
+  createTicketType,
+  createTicket,
+  createHotel,
+  createRoom,
+  createBooking,
+  createCoupon,
+  createPayment,
+} from "../factories";
+import { cleanDb, generateValidToken } from "../helpers";
+
+beforeAll(async () => {
+  await init();
+});
+
+beforeEach(async () => {
+  await cleanDb();
+});
+
+const server = supertest(app);
+
+async function generateAdminToken() {
+  const admin = await createUser({ role: UserRole.ORGANIZER });
+  return generateValidToken(admin);
+}
+
+describe("admin authorization", () => {
+  it("should respond with status 401 if no token is given", async () => {
+    const response = await server.get("/admin/events");
+
+    expect(response.status).toBe(httpStatus.UNAUTHORIZED);
+  });
+
+  it("should respond with status 403 if user is an attendee", async () => {
+    const token = await generateValidToken();
+
+    const response = await server.get("/admin/events").set("Authorization", `Bearer ${token}`);
+
+    expect(response.status).toBe(httpStatus.FORBIDDEN);
+  });
+
+  it("should respond with status 200 if staff member lists events", async () => {
+    const staff = await createUser({ role: UserRole.STAFF });
+    const token = await generateValidToken(staff);
+
+    const response = await server.get("/admin/events").set("Authorization", `Bearer ${token}`);
+
+    expect(response.status).toBe(httpStatus.OK);
+  });
+
+  it("should respond with status 403 if staff member tries to change an event", async () => {
+    const staff = await createUser({ role: UserRole.STAFF });
+    const token = await generateValidToken(staff);
+    const event = await createEvent();
+
+    const response = await server.delete(`/admin/events/${event.id}`).set("Authorization", `Bearer ${token}`);
+
+    expect(response.status).toBe(httpStatus.FORBIDDEN);
+    expect(await prisma.event.count()).toBe(1);
+  });
+});
+
+describe("/admin/events", () => {
+  const generateValidBody = () => ({
+    slug: `${faker.lorem.word()}-${faker.datatype.number()}`,
+    title: faker.lorem.sentence(),
+    backgroundImageUrl: faker.image.imageUrl(),
+    logoImageUrl: faker.image.imageUrl(),
+    startsAt: dayjs().add(1, "month").toISOString(),
+    endsAt: dayjs().add(1, "month").add(3, "days").toISOString(),
+  });
+
+  it("should respond with status 200 and list events", async () => {
+    const token = await generateAdminToken();
+    const event = await createEvent();
+
+    const response = await server.get("/admin/events").set("Authorization", `Bearer ${token}`);
+
+    expect(response.status).toBe(httpStatus.OK);
+    expect(response.body).toEqual([expect.objectContaining({ id: event.id, slug: event.slug })]);
+  });
+
+  it("should respond with status 400 when event ends before it starts", async () => {
+    const token = await generateAdminToken();
+    const body = { ...generateValidBody(), endsAt: dayjs().toISOString() };
+
+    const response = await server.post("/admin/events").set("Authorization", `Bearer ${token}`).send(body);
+
+    expect(response.status).toBe(httpStatus.BAD_REQUEST);
+  });
+
+  it("should respond with status 201 and create the event", async () => {
+    const token = await generateAdminToken();
+    const body = generateValidBody();
+
+    const response = await server.post("/admin/events").set("Authorization", `Bearer ${token}`).send(body);
+
+    expect(response.status).toBe(httpStatus.CREATED);
+    const event = await prisma.event.findUnique({ where: { slug: body.slug } });
+    expect(event).not.toBeNull();
+  });
+
+  it("should respond with status 409 when slug is already taken", async () => {
+    const token = await generateAdminToken();
+    const event = await createEvent();
+    const body = { ...generateValidBody(), slug: event.slug };
+
+    const response = await server.post("/admin/events").set("Authorization", `Bearer ${token}`).send(body);
+
+    expect(response.status).toBe(httpStatus.CONFLICT);
+  });
+
+  it("should respond with status 200 and update the event", async () => {
+    const token = await generateAdminToken();
+    const event = await createEvent();
+    const title = faker.lorem.sentence();
+
+    const response = await server
+      .put(`/admin/events/${event.id}`)
+      .set("Authorization", `Bearer ${token}`)
+      .send({ title });
+
+    expect(response.status).toBe(httpStatus.OK);
+    expect(response.body).toEqual(expect.objectContaining({ id: event.id, title }));
+  });
+
+  it("should respond with status 400 when only one date is sent and it ends the event before it starts", async () => {
+    const token = await generateAdminToken();
+    const event = await createEvent();
+
+    const response = await server
+      .put(`/admin/events/${event.id}`)
+      .set("Authorization", `Bearer ${token}`)
+      .send({ endsAt: dayjs(event.startsAt).subtract(1, "day").toISOString() });
+
+    const storedEvent = await prisma.event.findUnique({ where: { id: event.id } });
+    expect(response.status).toBe(httpStatus.BAD_REQUEST);
+    expect(storedEvent.endsAt).toEqual(event.endsAt);
+  });
+
+  it("should respond with status 404 when updating an event that does not exist", async () => {
+    const token = await generateAdminToken();
+
+    const response = await server
+      .put("/admin/events/1")
+      .set("Authorization", `Bearer ${token}`)
+      .send({ title: faker.lorem.sentence() });
+
+    expect(response.status).toBe(httpStatus.NOT_FOUND);
+  });
+
+  it("should respond with status 409 when deleting an event with ticket types", async () => {
+    const token = await generateAdminToken();
+    const event = await createEvent();
+    await createTicketType(event.id);
+
+    const response = await server.delete(`/admin/events/${event.id}`).set("Authorization", `Bearer ${token}`);
+
+    expect(response.status).toBe(httpStatus.CONFLICT);
+  });
+
+  it("should respond with status 204 and delete an event without dependencies", async () => {
+    const token = await generateAdminToken();
+    const event = await createEvent();
+
+    const response = await server.delete(`/admin/events/${event.id}`).set("Authorization", `Bearer ${token}`);
+
+    expect(response.status).toBe(httpStatus.NO_CONTENT);
+    expect(await prisma.event.count()).toBe(0);
+  });
+});
+
+describe("/admin/ticket-types", () => {
+  it("should respond with status 404 when event does not exist", async () => {
+    const token = await generateAdminToken();
+
+    const response = await server
+      .post("/admin/ticket-types")
+      .set("Authorization", `Bearer ${token}`)
+      .send({ eventId: 1, name: faker.lorem.word(), price: 250, isRemote: false, includesHotel: true });
+
+    expect(response.status).toBe(httpStatus.NOT_FOUND);
+  });
+
+  it("should respond with status 201 and create the ticket type", async () => {
+    const token = await generateAdminToken();
+    const event = await createEvent();
+
+    const response = await server
+      .post("/admin/ticket-types")
+      .set("Authorization", `Bearer ${token}`)
+      .send({ eventId: event.id, name: faker.lorem.word(), price: 250, isRemote: false, includesHotel: true });
+
+    expect(response.status).toBe(httpStatus.CREATED);
+    expect(response.body).toEqual(expect.objectContaining({ eventId: event.id, price: 250 }));
+  });
+
+  it("should respond with status 400 when more installments are interest free than allowed", async () => {
+    const token = await generateAdminToken();
+    const event = await createEvent();
+
+    const response = await server.post("/admin/ticket-types").set("Authorization", `Bearer ${token}`).send({
+      eventId: event.id,
+      name: faker.lorem.word(),
+      price: 250,
+      isRemote: false,
+      includesHotel: true,
+      maxInstallments: 3,
+      interestFreeInstallments: 6,
+    });
+
+    expect(response.status).toBe(httpStatus.BAD_REQUEST);
+  });
+
+  it("should respond with status 200 and list ticket types of an event", async () => {
+    const token = await generateAdminToken();
+    const event = await createEvent();
+    const ticketType = await createTicketType(event.id);
+
+    const response = await server
+      .get(`/admin/events/${event.id}/ticket-types`)
+      .set("Authorization", `Bearer ${token}`);
+
+    expect(response.status).toBe(httpStatus.OK);
+    expect(response.body).toEqual([expect.objectContaining({ id: ticketType.id })]);
+  });
+
+  it("should respond with status 400 when only the sales end is sent and it is before the stored start", async () => {
+    const token = await generateAdminToken();
+    const ticketType = await createTicketType();
+    const salesStartAt = dayjs().add(10, "days").toDate();
+    await prisma.ticketType.update({ where: { id: ticketType.id }, data: { salesStartAt } });
+
+    const response = await server
+      .put(`/admin/ticket-types/${ticketType.id}`)
+      .set("Authorization", `Bearer ${token}`)
+      .send({ salesEndAt: dayjs(salesStartAt).subtract(1, "day").toISOString() });
+
+    const storedTicketType = await prisma.ticketType.findUnique({ where: { id: ticketType.id } });
+    expect(response.status).toBe(httpStatus.BAD_REQUEST);
+    expect(storedTicketType.salesEndAt).toBeNull();
+  });
+
+  it("should respond with status 400 when lowering the installments below the interest free ones", async () => {
+    const token = await generateAdminToken();
+    const ticketType = await createTicketType();
+    await prisma.ticketType.update({
+      where: { id: ticketType.id },
+      data: { maxInstallments: 6, interestFreeInstallments: 3 },
+    });
+
+    const response = await server
+      .put(`/admin/ticket-types/${ticketType.id}`)
+      .set("Authorization", `Bearer ${token}`)
+      .send({ maxInstallments: 2 });
+
+    const storedTicketType = await prisma.ticketType.findUnique({ where: { id: ticketType.id } });
+    expect(response.status).toBe(httpStatus.BAD_REQUEST);
+    expect(storedTicketType.maxInstallments).toBe(6);
+  });
+
+  it("should respond with status 409 when setting the stock below the tickets already held", async () => {
+    const token = await generateAdminToken();
+    const enrollment = await createEnrollmentWithAddress();
+    const ticketType = await createTicketType();
+    await createTicket(enrollment.id, ticketType.id, TicketStatus.PAID);
+    await createTicket(enrollment.id, ticketType.id, TicketStatus.RESERVED);
+
+    const response = await server
+      .put(`/admin/ticket-types/${ticketType.id}`)
+      .set("Authorization", `Bearer ${token}`)
+      .send({ stock: 1 });
+
+    expect(response.status).toBe(httpStatus.CONFLICT);
+  });
+
+  it("should respond with status 409 when deleting a ticket type with tickets", async () => {
+    const token = await generateAdminToken();
+    const enrollment = await createEnrollmentWithAddress();
+    const ticketType = await createTicketType();
+    await createTicket(enrollment.id, ticketType.id, TicketStatus.RESERVED);
+
+    const response = await server
+      .delete(`/admin/ticket-types/${ticketType.id}`)
+      .set("Authorization", `Bearer ${token}`);
+
+    expect(response.status).toBe(httpStatus.CONFLICT);
+  });
+
+  it("should respond with status 204 and delete a ticket type without tickets", async () => {
+    const token = await generateAdminToken();
+    const ticketType = await createTicketType();
+
+    const response = await server
+      .delete(`/admin/ticket-types/${ticketType.id}`)
+      .set("Authorization", `Bearer ${token}`);
+
+    expect(response.status).toBe(httpStatus.NO_CONTENT);
+    expect(await prisma.ticketType.count()).toBe(0);
+  });
+});
+
+describe("/admin/coupons", () => {
+  it("should respond with status 201 and store the code in upper case", async () => {
+    const token = await generateAdminToken();
+    const event = await createEvent();
+    const ticketType = await createTicketType(event.id);
+
+    const response = await server
+      .post("/admin/coupons")
+      .set("Authorization", `Bearer ${token}`)
+      .send({
+        eventId: event.id,
+        code: "early-bird",
+        discountType: DiscountType.PERCENTAGE,
+        discountValue: 15,
+        ticketTypeIds: [ticketType.id],
+      });
+
+    expect(response.status).toBe(httpStatus.CREATED);
+    expect(response.body).toEqual(
+      expect.objectContaining({ eventId: event.id, code: "EARLY-BIRD", TicketType: [{ id: ticketType.id }] }),
+    );
+  });
+
+  it("should respond with status 400 when a percentage discount is above 100", async () => {
+    const token = await generateAdminToken();
+    const event = await createEvent();
+
+    const response = await server
+      .post("/admin/coupons")
+      .set("Authorization", `Bearer ${token}`)
+      .send({ eventId: event.id, code: "HALF", discountType: DiscountType.PERCENTAGE, discountValue: 150 });
+
+    expect(response.status).toBe(httpStatus.BAD_REQUEST);
+  });
+
+  it("should respond with status 400 when a ticket type belongs to another event", async () => {
+    const token = await generateAdminToken();
+    const event = await createEvent();
+    const otherTicketType = await createTicketType((await createEvent()).id);
+
+    const response = await server
+      .post("/admin/coupons")
+      .set("Authorization", `Bearer ${token}`)
+      .send({
+        eventId: event.id,
+        code: "HALF",
+        discountType: DiscountType.FIXED,
+        discountValue: 50,
+        ticketTypeIds: [otherTicketType.id],
+      });
+
+    expect(response.status).toBe(httpStatus.BAD_REQUEST);
+  });
+
+  it("should respond with status 409 when the event already has a coupon with the same code", async () => {
+    const token = await generateAdminToken();
+    const event = await createEvent();
+    await createCoupon(event.id, { code: "HALF" });
+
+    const response = await server
+      .post("/admin/coupons")
+      .set("Authorization", `Bearer ${token}`)
+      .send({ eventId: event.id, code: "half", discountType: DiscountType.FIXED, discountValue: 50 });
+
+    expect(response.status).toBe(httpStatus.CONFLICT);
+  });
+
+  it("should respond with status 400 when only the end is sent and it is before the stored start", async () => {
+    const token = await generateAdminToken();
+    const event = await createEvent();
+    const startsAt = dayjs().add(10, "days").toDate();
+    const coupon = await createCoupon(event.id, { startsAt });
+
+    const response = await server
+      .put(`/admin/coupons/${coupon.id}`)
+      .set("Authorization", `Bearer ${token}`)
+      .send({ endsAt: dayjs(startsAt).subtract(1, "day").toISOString() });
+
+    const storedCoupon = await prisma.coupon.findUnique({ where: { id: coupon.id } });
+    expect(response.status).toBe(httpStatus.BAD_REQUEST);
+    expect(storedCoupon.endsAt).toBeNull();
+  });
+
+  it("should respond with status 400 when switching a coupon to a percentage above 100", async () => {
+    const token = await generateAdminToken();
+    const event = await createEvent();
+    const coupon = await createCoupon(event.id, { discountType: DiscountType.FIXED, discountValue: 150 });
+
+    const response = await server
+      .put(`/admin/coupons/${coupon.id}`)
+      .set("Authorization", `Bearer ${token}`)
+      .send({ discountType: DiscountType.PERCENTAGE });
+
+    const storedCoupon = await prisma.coupon.findUnique({ where: { id: coupon.id } });
+    expect(response.status).toBe(httpStatus.BAD_REQUEST);
+    expect(storedCoupon.discountType).toBe(DiscountType.FIXED);
+  });
+
+  it("should respond with status 200 and list coupons of an event", async () => {
+    const token = await generateAdminToken();
+    const event = await createEvent();
+    const coupon = await createCoupon(event.id);
+
+    const response = await server.get(`/admin/events/${event.id}/coupons`).set("Authorization", `Bearer ${token}`);
+
+    expect(response.status).toBe(httpStatus.OK);
+    expect(response.body).toEqual([expect.objectContaining({ id: coupon.id, code: coupon.code })]);
+  });
+
+  it("should respond with status 409 when deleting a coupon that has been used", async () => {
+    const token = await generateAdminToken();
+    const event = await createEvent();
+    const coupon = await createCoupon(event.id);
+    const enrollment = await createEnrollmentWithAddress();
+    const ticketType = await createTicketType(event.id);
+    const ticket = await createTicket(enrollment.id, ticketType.id, TicketStatus.PAID);
+    const payment = await createPayment(ticket.id, ticketType.price);
+    await prisma.payment.update({ where: { id: payment.id }, data: { couponId: coupon.id } });
+
+    const response = await server.delete(`/admin/coupons/${coupon.id}`).set("Authorization", `Bearer ${token}`);
+
+    expect(response.status).toBe(httpStatus.CONFLICT);
+  });
+
+  it("should respond with status 204 and delete an unused coupon", async () => {
+    const token = await generateAdminToken();
+    const event = await createEvent();
+    const coupon = await createCoupon(event.id);
+
+    const response = await server.delete(`/admin/coupons/${coupon.id}`).set("Authorization", `Bearer ${token}`);
+
+    expect(response.status).toBe(httpStatus.NO_CONTENT);
+    expect(await prisma.coupon.count()).toBe(0);
+  });
+});
+
+describe("/admin/hotels", () => {
+  it("should respond with status 201 and create the hotel", async () => {
+    const token = await generateAdminToken();
+    const event = await createEvent();
+
+    const response = await server
+      .post("/admin/hotels")
+      .set("Authorization", `Bearer ${token}`)
+      .send({ eventId: event.id, name: faker.company.companyName(), image: faker.image.imageUrl() });
+
+    expect(response.status).toBe(httpStatus.CREATED);
+    expect(response.body).toEqual(expect.objectContaining({ eventId: event.id }));
+  });
+
+  it("should respond with status 409 when deleting a hotel with rooms", async () => {
+    const token = await generateAdminToken();
+    const hotel = await createHotel();
+    await createRoom(hotel.id);
+
+    const response = await server.delete(`/admin/hotels/${hotel.id}`).set("Authorization", `Bearer ${token}`);
+
+    expect(response.status).toBe(httpStatus.CONFLICT);
+  });
+});
+
+describe("/admin/rooms", () => {
+  it("should respond with status 404 when hotel does not exist", async () => {
+    const token = await generateAdminToken();
+
+    const response = await server
+      .post("/admin/rooms")
+      .set("Authorization", `Bearer ${token}`)
+      .send({ hotelId: 1, name: "101", capacity: 2 });
+
+    expect(response.status).toBe(httpStatus.NOT_FOUND);
+  });
+
+  it("should respond with status 201 and create the room", async () => {
+    const token = await generateAdminToken();
+    const hotel = await createHotel();
+
+    const response = await server
+      .post("/admin/rooms")
+      .set("Authorization", `Bearer ${token}`)
+      .send({ hotelId: hotel.id, name: "101", capacity: 2 });
+
+    expect(response.status).toBe(httpStatus.CREATED);
+    expect(response.body).toEqual(expect.objectContaining({ hotelId: hotel.id, capacity: 2 }));
+  });
+
+  it("should respond with status 409 when shrinking capacity below current bookings", async () => {
+    const token = await generateAdminToken();
+    const hotel = await createHotel();
+    const room = await createRoom(hotel.id);
+    const firstUser = await createUser();
+    const secondUser = await createUser();
+    await createBooking(firstUser.id, room.id);
+    await createBooking(secondUser.id, room.id);
+
+    const response = await server
+      .put(`/admin/rooms/${room.id}`)
+      .set("Authorization", `Bearer ${token}`)
+      .send({ capacity: 1 });
+
+    expect(response.status).toBe(httpStatus.CONFLICT);
+  });
+
+  it("should respond with status 200 when capacity still fits current bookings", async () => {
+    const token = await generateAdminToken();
+    const hotel = await createHotel();
+    const room = await createRoom(hotel.id);
+    const user = await createUser();
+    await createBooking(user.id, room.id);
+
+    const response = await server
+      .put(`/admin/rooms/${room.id}`)
+      .set("Authorization", `Bearer ${token}`)
+      .send({ capacity: 1 });
+
+    expect(response.status).toBe(httpStatus.OK);
+    expect(response.body).toEqual(expect.objectContaining({ id: room.id, capacity: 1 }));
+  });
+});
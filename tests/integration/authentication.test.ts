@@ -1,15 +1,29 @@
 import app, { init } from "@/app";
+import { prisma } from "@/config";
 import faker from "@faker-js/faker";
+import dayjs from "dayjs";
 import httpStatus from "http-status";
+import * as jwt from "jsonwebtoken";
 import supertest from "supertest";
+import {
+  createMemoryLoginThrottleStore,
+  postgresLoginThrottleStore,
+  setLoginThrottleStore,
+} from "@/repositories/login-throttle-repository";
+import { OAuthProfile, setGitHubClient } from "@/utils/github-client";
+import { MailMessage, setMailTransport } from "@/utils/mailer";
 import { createUser } from "../factories";
-import { cleanDb } from "../helpers";
+import { cleanDb, generateValidToken } from "../helpers";
 
 beforeAll(async () => {
   await init();
   await cleanDb();
 });
 
+beforeEach(() => {
+  setLoginThrottleStore(createMemoryLoginThrottleStore());
+});
+
 const server = supertest(app);
 
 describe("POST /auth/sign-in", () => {
@@ -53,6 +67,100 @@ describe("POST /auth/sign-in", () => {
       expect(response.status).toBe(httpStatus.UNAUTHORIZED);
     });
 
+    describe("when sign in keeps failing", () => {
+      async function failSignIn(email: string, times: number) {
+        for (let i = 0; i < times; i++) {
+          await server.post("/auth/sign-in").send({ email, password: faker.lorem.word() });
+        }
+      }
+
+      it("should record each failed attempt", async () => {
+        const body = generateValidBody();
+
+        await failSignIn(body.email, 2);
+
+        const failedSignIns = await prisma.failedSignIn.findMany({ where: { email: body.email } });
+        expect(failedSignIns).toHaveLength(2);
+      });
+
+      it("should respond with status 423 and Retry-After once attempts are delayed", async () => {
+        const body = generateValidBody();
+        await createUser(body);
+        await failSignIn(body.email, 3);
+
+        const response = await server.post("/auth/sign-in").send(body);
+
+        expect(response.status).toBe(httpStatus.LOCKED);
+        expect(Number(response.header["retry-after"])).toBeGreaterThan(0);
+      });
+
+      it("should lock the account for a while after too many failures", async () => {
+        const body = generateValidBody();
+        await createUser(body);
+        const store = createMemoryLoginThrottleStore();
+        setLoginThrottleStore(store);
+        for (let i = 0; i < 4; i++) {
+          await store.registerFailure(`email:${body.email.toLowerCase()}`, new Date(), dayjs().subtract(1, "hour").toDate());
+        }
+
+        await failSignIn(body.email, 1);
+        const response = await server.post("/auth/sign-in").send(body);
+
+        expect(response.status).toBe(httpStatus.LOCKED);
+        expect(response.body.retryAfterSeconds).toBeGreaterThan(60);
+      });
+
+      it("should forget failures once their lock and window are over", async () => {
+        const store = createMemoryLoginThrottleStore();
+        const anHourAgo = dayjs().subtract(1, "hour").toDate();
+        const windowStartedAt = dayjs().subtract(15, "minutes").toDate();
+        await store.registerFailure("email:old@drivent.com", anHourAgo, anHourAgo);
+        await store.registerFailure("email:locked@drivent.com", anHourAgo, anHourAgo);
+        await store.lock("email:locked@drivent.com", dayjs().add(5, "minutes").toDate());
+
+        await store.registerFailure("email:new@drivent.com", new Date(), windowStartedAt);
+
+        expect(await store.find("email:old@drivent.com")).toBeNull();
+        expect(await store.find("email:locked@drivent.com")).not.toBeNull();
+      });
+
+      it("should respond with status 429 when the same ip fails too often", async () => {
+        const body = generateValidBody();
+        await createUser(body);
+        for (let i = 0; i < 20; i++) {
+          await failSignIn(faker.internet.email(), 1);
+        }
+
+        const response = await server.post("/auth/sign-in").send(body);
+
+        expect(response.status).toBe(httpStatus.TOO_MANY_REQUESTS);
+      });
+
+      it("should keep throttling state in postgres when configured to", async () => {
+        setLoginThrottleStore(postgresLoginThrottleStore);
+        const body = generateValidBody();
+
+        await failSignIn(body.email, 1);
+
+        const throttle = await prisma.loginThrottle.findUnique({
+          where: { key: `email:${body.email.toLowerCase()}` },
+        });
+        expect(throttle.failures).toBe(1);
+      });
+
+      it("should count every concurrent failure", async () => {
+        const key = `email:${faker.internet.email().toLowerCase()}`;
+        const windowStartedAt = dayjs().subtract(15, "minutes").toDate();
+
+        await Promise.all(
+          Array.from({ length: 5 }, () => postgresLoginThrottleStore.registerFailure(key, new Date(), windowStartedAt)),
+        );
+
+        const throttle = await prisma.loginThrottle.findUnique({ where: { key } });
+        expect(throttle.failures).toBe(5);
+      });
+    });
+
     describe("when credentials are valid", () => {
       it("should respond with status 200", async () => {
         const body = generateValidBody();
@@ -82,7 +190,415 @@ describe("POST /auth/sign-in", () => {
         const response = await server.post("/auth/sign-in").send(body);
 
         expect(response.body.token).toBeDefined();
+        expect(response.body.refreshToken).toBeDefined();
+      });
+
+      it("should store only a hash of the refresh token", async () => {
+        const body = generateValidBody();
+        await createUser(body);
+
+        const response = await server.post("/auth/sign-in").send(body);
+
+        const session = await prisma.session.findFirst({ where: { token: response.body.token } });
+        expect(session.refreshTokenHash).toBeDefined();
+        expect(session.refreshTokenHash).not.toBe(response.body.refreshToken);
       });
+
+      it("should save user agent on session", async () => {
+        const body = generateValidBody();
+        await createUser(body);
+        const userAgent = faker.internet.userAgent();
+
+        const response = await server.post("/auth/sign-in").set("User-Agent", userAgent).send(body);
+
+        const session = await prisma.session.findFirst({ where: { token: response.body.token } });
+        expect(session.userAgent).toBe(userAgent);
+        expect(session.ip).toBeDefined();
+      });
+    });
+  });
+});
+
+describe("POST /auth/oauth/github", () => {
+  const validCode = "valid-code";
+
+  function stubGitHubProfile(profile: OAuthProfile) {
+    setGitHubClient({
+      getProfile: async (code) => (code === validCode ? profile : null),
+    });
+  }
+
+  function generateProfile(): OAuthProfile {
+    return {
+      providerAccountId: faker.datatype.number().toString(),
+      email: faker.internet.email(),
+    };
+  }
+
+  it("should respond with status 400 when code is not given", async () => {
+    const response = await server.post("/auth/oauth/github");
+
+    expect(response.status).toBe(httpStatus.BAD_REQUEST);
+  });
+
+  it("should respond with status 401 when code is rejected by the provider", async () => {
+    stubGitHubProfile(generateProfile());
+
+    const response = await server.post("/auth/oauth/github").send({ code: "invalid-code" });
+
+    expect(response.status).toBe(httpStatus.UNAUTHORIZED);
+  });
+
+  it("should respond with status 401 when provider account has no verified email", async () => {
+    stubGitHubProfile({ ...generateProfile(), email: null });
+
+    const response = await server.post("/auth/oauth/github").send({ code: validCode });
+
+    expect(response.status).toBe(httpStatus.UNAUTHORIZED);
+  });
+
+  it("should respond with status 200 and create a verified user without password", async () => {
+    const profile = generateProfile();
+    stubGitHubProfile(profile);
+
+    const response = await server.post("/auth/oauth/github").send({ code: validCode });
+
+    expect(response.status).toBe(httpStatus.OK);
+    expect(response.body).toEqual({
+      user: { id: expect.any(Number), email: profile.email },
+      token: expect.any(String),
+      refreshToken: expect.any(String),
+    });
+    const user = await prisma.user.findUnique({ where: { email: profile.email } });
+    expect(user.password).toBeNull();
+    expect(user.emailVerifiedAt).not.toBeNull();
+  });
+
+  it("should link the provider account to an existing user with the same email", async () => {
+    const user = await createUser({ emailVerifiedAt: null });
+    const profile = { ...generateProfile(), email: user.email };
+    stubGitHubProfile(profile);
+
+    const response = await server.post("/auth/oauth/github").send({ code: validCode });
+
+    expect(response.status).toBe(httpStatus.OK);
+    expect(response.body.user).toEqual({ id: user.id, email: user.email });
+    const account = await prisma.oAuthAccount.findFirst({ where: { userId: user.id } });
+    expect(account.providerAccountId).toBe(profile.providerAccountId);
+  });
+
+  it("should drop the password and sessions of an unverified user it links to", async () => {
+    const body = { email: faker.internet.email(), password: faker.internet.password(6) };
+    const user = await createUser({ ...body, emailVerifiedAt: null });
+    await server.post("/auth/sign-in").send(body);
+    stubGitHubProfile({ ...generateProfile(), email: user.email });
+
+    const response = await server.post("/auth/oauth/github").send({ code: validCode });
+
+    const passwordResponse = await server.post("/auth/sign-in").send(body);
+    const sessions = await prisma.session.findMany({ where: { userId: user.id } });
+    const updatedUser = await prisma.user.findUnique({ where: { id: user.id } });
+    expect(response.status).toBe(httpStatus.OK);
+    expect(passwordResponse.status).toBe(httpStatus.UNAUTHORIZED);
+    expect(sessions.map(({ token }) => token)).toEqual([response.body.token]);
+    expect(updatedUser.password).toBeNull();
+  });
+
+  it("should sign in the linked user even after the provider email changes", async () => {
+    const profile = generateProfile();
+    stubGitHubProfile(profile);
+    const firstResponse = await server.post("/auth/oauth/github").send({ code: validCode });
+    stubGitHubProfile({ ...profile, email: faker.internet.email() });
+
+    const response = await server.post("/auth/oauth/github").send({ code: validCode });
+
+    expect(response.status).toBe(httpStatus.OK);
+    expect(response.body.user.id).toBe(firstResponse.body.user.id);
+  });
+
+  it("should not allow password sign in for a user created through the provider", async () => {
+    const profile = generateProfile();
+    stubGitHubProfile(profile);
+    await server.post("/auth/oauth/github").send({ code: validCode });
+
+    const response = await server.post("/auth/sign-in").send({ email: profile.email, password: "any-password" });
+
+    expect(response.status).toBe(httpStatus.UNAUTHORIZED);
+  });
+});
+
+describe("POST /auth/refresh", () => {
+  async function signIn() {
+    const body = { email: faker.internet.email(), password: faker.internet.password(6) };
+    await createUser(body);
+
+    const response = await server.post("/auth/sign-in").send(body);
+
+    return response.body as { token: string; refreshToken: string };
+  }
+
+  it("should respond with status 400 when body is not given", async () => {
+    const response = await server.post("/auth/refresh");
+
+    expect(response.status).toBe(httpStatus.BAD_REQUEST);
+  });
+
+  it("should respond with status 401 when refresh token is unknown", async () => {
+    const response = await server.post("/auth/refresh").send({ refreshToken: faker.datatype.uuid() });
+
+    expect(response.status).toBe(httpStatus.UNAUTHORIZED);
+  });
+
+  it("should respond with status 200 and rotate the tokens", async () => {
+    const tokens = await signIn();
+
+    const response = await server.post("/auth/refresh").send({ refreshToken: tokens.refreshToken });
+
+    expect(response.status).toBe(httpStatus.OK);
+    expect(response.body).toEqual({
+      token: expect.any(String),
+      refreshToken: expect.any(String),
+    });
+    expect(response.body.refreshToken).not.toBe(tokens.refreshToken);
+
+    const oldTokenResponse = await server.get("/auth/sessions").set("Authorization", `Bearer ${tokens.token}`);
+    expect(oldTokenResponse.status).toBe(httpStatus.UNAUTHORIZED);
+
+    const newTokenResponse = await server
+      .get("/auth/sessions")
+      .set("Authorization", `Bearer ${response.body.token}`);
+    expect(newTokenResponse.status).toBe(httpStatus.OK);
+    expect(newTokenResponse.body).toHaveLength(1);
+  });
+
+  it("should revoke the whole session family when a rotated refresh token is reused", async () => {
+    const tokens = await signIn();
+    const rotated = await server.post("/auth/refresh").send({ refreshToken: tokens.refreshToken });
+
+    const response = await server.post("/auth/refresh").send({ refreshToken: tokens.refreshToken });
+
+    expect(response.status).toBe(httpStatus.UNAUTHORIZED);
+    const session = await prisma.session.findFirst({ where: { token: rotated.body.token } });
+    expect(session).toBeNull();
+  });
+
+  it("should respond with status 401 when refresh token is expired", async () => {
+    const tokens = await signIn();
+    await prisma.session.updateMany({
+      where: { token: tokens.token },
+      data: { refreshTokenExpiresAt: new Date(Date.now() - 1000) },
+    });
+
+    const response = await server.post("/auth/refresh").send({ refreshToken: tokens.refreshToken });
+
+    expect(response.status).toBe(httpStatus.UNAUTHORIZED);
+  });
+});
+
+describe("authenticated routes", () => {
+  it("should respond with status 401 and TokenExpiredError when access token is expired", async () => {
+    const user = await createUser();
+    const token = jwt.sign({ userId: user.id, exp: Math.floor(Date.now() / 1000) - 60 }, process.env.JWT_SECRET);
+    await prisma.session.create({ data: { userId: user.id, token } });
+
+    const response = await server.get("/auth/sessions").set("Authorization", `Bearer ${token}`);
+
+    expect(response.status).toBe(httpStatus.UNAUTHORIZED);
+    expect(response.body).toEqual({
+      name: "TokenExpiredError",
+      message: expect.any(String),
+    });
+  });
+});
+
+describe("POST /auth/sign-out", () => {
+  it("should respond with status 401 if no token is given", async () => {
+    const response = await server.post("/auth/sign-out");
+
+    expect(response.status).toBe(httpStatus.UNAUTHORIZED);
+  });
+
+  it("should respond with status 204 and delete the current session", async () => {
+    const token = await generateValidToken();
+
+    const response = await server.post("/auth/sign-out").set("Authorization", `Bearer ${token}`);
+
+    expect(response.status).toBe(httpStatus.NO_CONTENT);
+    const session = await prisma.session.findFirst({ where: { token } });
+    expect(session).toBeNull();
+  });
+
+  it("should not accept the token after signing out", async () => {
+    const token = await generateValidToken();
+    await server.post("/auth/sign-out").set("Authorization", `Bearer ${token}`);
+
+    const response = await server.get("/auth/sessions").set("Authorization", `Bearer ${token}`);
+
+    expect(response.status).toBe(httpStatus.UNAUTHORIZED);
+  });
+});
+
+describe("GET /auth/sessions", () => {
+  it("should respond with status 401 if no token is given", async () => {
+    const response = await server.get("/auth/sessions");
+
+    expect(response.status).toBe(httpStatus.UNAUTHORIZED);
+  });
+
+  it("should respond with status 200 and only the user sessions", async () => {
+    const user = await createUser();
+    const token = await generateValidToken(user);
+    const otherSession = await prisma.session.create({
+      data: { userId: user.id, token: faker.datatype.uuid(), userAgent: faker.internet.userAgent() },
+    });
+    await generateValidToken();
+
+    const response = await server.get("/auth/sessions").set("Authorization", `Bearer ${token}`);
+
+    expect(response.status).toBe(httpStatus.OK);
+    expect(response.body).toHaveLength(2);
+    expect(response.body).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ current: true }),
+        {
+          id: otherSession.id,
+          userAgent: otherSession.userAgent,
+          ip: null,
+          createdAt: otherSession.createdAt.toISOString(),
+          current: false,
+        },
+      ]),
+    );
+  });
+});
+
+describe("DELETE /auth/sessions/:sessionId", () => {
+  it("should respond with status 401 if no token is given", async () => {
+    const response = await server.delete("/auth/sessions/1");
+
+    expect(response.status).toBe(httpStatus.UNAUTHORIZED);
+  });
+
+  it("should respond with status 404 when session belongs to another user", async () => {
+    const token = await generateValidToken();
+    const otherUser = await createUser();
+    const otherSession = await prisma.session.create({
+      data: { userId: otherUser.id, token: faker.datatype.uuid() },
+    });
+
+    const response = await server
+      .delete(`/auth/sessions/${otherSession.id}`)
+      .set("Authorization", `Bearer ${token}`);
+
+    expect(response.status).toBe(httpStatus.NOT_FOUND);
+    expect(await prisma.session.findUnique({ where: { id: otherSession.id } })).not.toBeNull();
+  });
+
+  it("should respond with status 204 and revoke the given session", async () => {
+    const user = await createUser();
+    const token = await generateValidToken(user);
+    const otherSession = await prisma.session.create({
+      data: { userId: user.id, token: faker.datatype.uuid() },
+    });
+
+    const response = await server
+      .delete(`/auth/sessions/${otherSession.id}`)
+      .set("Authorization", `Bearer ${token}`);
+
+    expect(response.status).toBe(httpStatus.NO_CONTENT);
+    expect(await prisma.session.findUnique({ where: { id: otherSession.id } })).toBeNull();
+  });
+});
+
+describe("POST /auth/password-reset", () => {
+  let sentMails: MailMessage[];
+
+  beforeEach(() => {
+    sentMails = [];
+    setMailTransport({
+      send: async (message) => {
+        sentMails.push(message);
+      },
+    });
+  });
+
+  function extractToken(mail: MailMessage) {
+    return mail.text.match(/token=([0-9a-f]+)/)[1];
+  }
+
+  it("should respond with status 400 when email is not valid", async () => {
+    const response = await server.post("/auth/password-reset").send({ email: faker.lorem.word() });
+
+    expect(response.status).toBe(httpStatus.BAD_REQUEST);
+  });
+
+  it("should respond with status 202 and send no mail when there is no user for given email", async () => {
+    const response = await server.post("/auth/password-reset").send({ email: faker.internet.email() });
+
+    expect(response.status).toBe(httpStatus.ACCEPTED);
+    expect(sentMails).toHaveLength(0);
+  });
+
+  it("should respond with status 202, store a hashed token and mail it to the user", async () => {
+    const user = await createUser();
+
+    const response = await server.post("/auth/password-reset").send({ email: user.email });
+
+    expect(response.status).toBe(httpStatus.ACCEPTED);
+    expect(sentMails).toHaveLength(1);
+    expect(sentMails[0].to).toBe(user.email);
+    const passwordResetToken = await prisma.passwordResetToken.findFirst({ where: { userId: user.id } });
+    expect(passwordResetToken.tokenHash).not.toBe(extractToken(sentMails[0]));
+  });
+
+  describe("POST /auth/password-reset/confirm", () => {
+    async function requestReset() {
+      const user = await createUser({ email: faker.internet.email(), password: "old-password" });
+      await server.post("/auth/password-reset").send({ email: user.email });
+
+      return { user, token: extractToken(sentMails[0]) };
+    }
+
+    it("should respond with status 400 when token is unknown", async () => {
+      const response = await server
+        .post("/auth/password-reset/confirm")
+        .send({ token: faker.datatype.uuid(), password: "new-password" });
+
+      expect(response.status).toBe(httpStatus.BAD_REQUEST);
+    });
+
+    it("should respond with status 400 when token is expired", async () => {
+      const { user, token } = await requestReset();
+      await prisma.passwordResetToken.updateMany({
+        where: { userId: user.id },
+        data: { expiresAt: new Date(Date.now() - 1000) },
+      });
+
+      const response = await server.post("/auth/password-reset/confirm").send({ token, password: "new-password" });
+
+      expect(response.status).toBe(httpStatus.BAD_REQUEST);
+    });
+
+    it("should respond with status 204, change the password and remove all sessions", async () => {
+      const { user, token } = await requestReset();
+      await generateValidToken(user);
+
+      const response = await server.post("/auth/password-reset/confirm").send({ token, password: "new-password" });
+
+      expect(response.status).toBe(httpStatus.NO_CONTENT);
+      const sessions = await prisma.session.findMany({ where: { userId: user.id } });
+      expect(sessions).toHaveLength(0);
+      const signIn = await server.post("/auth/sign-in").send({ email: user.email, password: "new-password" });
+      expect(signIn.status).toBe(httpStatus.OK);
+    });
+
+    it("should respond with status 400 when token is used twice", async () => {
+      const { token } = await requestReset();
+      await server.post("/auth/password-reset/confirm").send({ token, password: "new-password" });
+
+      const response = await server.post("/auth/password-reset/confirm").send({ token, password: "other-password" });
+
+      expect(response.status).toBe(httpStatus.BAD_REQUEST);
     });
   });
 });
@@ -1,7 +1,7 @@
 import app, { init } from "@/app";
 import { prisma } from "@/config";
 import faker from "@faker-js/faker";
-import { TicketStatus } from "@prisma/client";
+import { Event, TicketStatus } from "@prisma/client";
 import httpStatus from "http-status";
 import * as jwt from "jsonwebtoken";
 import supertest from "supertest";
@@ -12,7 +12,8 @@ import {
   createTicketTypeWithHotel,
   createTicketTypeRemote,
   createHotel,
-  createRoomWithHotelId
+  createRoomWithHotelId,
+  createEvent
 } from "../factories";
 import { createBooking } from "../factories/bookings-factory";
 import { createRoom } from "../factories/rooms-factory";
@@ -22,15 +23,18 @@ beforeAll(async () => {
   await init();
 });
 
+let event: Event;
+
 beforeEach(async () => {
   await cleanDb();
+  event = await createEvent();
 });
 
 const server = supertest(app);
 
 describe("GET /booking", () => {
   it("should respond with status 401 if no token is given", async () => {
-    const response = await server.get("/booking");
+    const response = await server.get(`/events/${event.slug}/booking`);
 
     expect(response.status).toBe(httpStatus.UNAUTHORIZED);
   });
@@ -38,7 +42,7 @@ describe("GET /booking", () => {
   it("should respond with status 401 if given token is not valid", async () => {
     const token = faker.lorem.word();
 
-    const response = await server.get("/booking").set("Authorization", `Bearer ${token}`);
+    const response = await server.get(`/events/${event.slug}/booking`).set("Authorization", `Bearer ${token}`);
 
     expect(response.status).toBe(httpStatus.UNAUTHORIZED);
   });
@@ -47,7 +51,7 @@ describe("GET /booking", () => {
     const userWithoutSession = await createUser();
     const token = jwt.sign({ userId: userWithoutSession.id }, process.env.JWT_SECRET);
 
-    const response = await server.get("/booking").set("Authorization", `Bearer ${token}`);
+    const response = await server.get(`/events/${event.slug}/booking`).set("Authorization", `Bearer ${token}`);
 
     expect(response.status).toBe(httpStatus.UNAUTHORIZED);
   });
@@ -57,7 +61,7 @@ describe("GET /booking", () => {
       const user = await createUser();
       const token = await generateValidToken(user);
 
-      const response = await server.get("/booking").set("Authorization", `Bearer ${token}`);
+      const response = await server.get(`/events/${event.slug}/booking`).set("Authorization", `Bearer ${token}`);
 
       expect(response.status).toEqual(httpStatus.FORBIDDEN);
     });
@@ -67,7 +71,7 @@ describe("GET /booking", () => {
       const token = await generateValidToken(user);
       await createEnrollmentWithAddress(user);
 
-      const response = await server.get("/booking").set("Authorization", `Bearer ${token}`);
+      const response = await server.get(`/events/${event.slug}/booking`).set("Authorization", `Bearer ${token}`);
 
       expect(response.status).toEqual(httpStatus.FORBIDDEN);
     });
@@ -79,7 +83,7 @@ describe("GET /booking", () => {
       const ticketType = await createTicketTypeRemote();
       await createTicket(enrollment.id, ticketType.id, TicketStatus.PAID);
 
-      const response = await server.get("/booking").set("Authorization", `Bearer ${token}`);
+      const response = await server.get(`/events/${event.slug}/booking`).set("Authorization", `Bearer ${token}`);
 
       expect(response.status).toEqual(httpStatus.FORBIDDEN);
     });
@@ -91,7 +95,7 @@ describe("GET /booking", () => {
       const ticketType = await createTicketTypeWithHotel();
       await createTicket(enrollment.id, ticketType.id, TicketStatus.RESERVED);
 
-      const response = await server.get("/booking").set("Authorization", `Bearer ${token}`);
+      const response = await server.get(`/events/${event.slug}/booking`).set("Authorization", `Bearer ${token}`);
 
       expect(response.status).toEqual(httpStatus.FORBIDDEN);
     });
@@ -105,7 +109,7 @@ describe("GET /booking", () => {
       const hotel = await createHotel();
       await createRoomWithHotelId(hotel.id);
 
-      const response = await server.get("/booking").set("Authorization", `Bearer ${token}`);
+      const response = await server.get(`/events/${event.slug}/booking`).set("Authorization", `Bearer ${token}`);
 
       expect(response.status).toEqual(httpStatus.NOT_FOUND);
     });
@@ -127,7 +131,7 @@ describe("GET /booking", () => {
         }
       });
 
-      const response = await server.get("/booking").set("Authorization", `Bearer ${token}`);
+      const response = await server.get(`/events/${event.slug}/booking`).set("Authorization", `Bearer ${token}`);
 
       expect(response.status).toEqual(httpStatus.OK);
       expect(response.body).toEqual({
@@ -144,7 +148,7 @@ describe("GET /booking", () => {
 
 describe("POST /booking", () => {
   it("should respond with status 401 if no token is given", async () => {
-    const response = await server.post("/booking");
+    const response = await server.post(`/events/${event.slug}/booking`);
 
     expect(response.status).toBe(httpStatus.UNAUTHORIZED);
   });
@@ -152,7 +156,7 @@ describe("POST /booking", () => {
   it("should respond with status 401 if given token is not valid", async () => {
     const token = faker.lorem.word();
 
-    const response = await server.post("/booking").set("Authorization", `Bearer ${token}`);
+    const response = await server.post(`/events/${event.slug}/booking`).set("Authorization", `Bearer ${token}`);
 
     expect(response.status).toBe(httpStatus.UNAUTHORIZED);
   });
@@ -161,7 +165,7 @@ describe("POST /booking", () => {
     const userWithoutSession = await createUser();
     const token = jwt.sign({ userId: userWithoutSession.id }, process.env.JWT_SECRET);
 
-    const response = await server.post("/booking").set("Authorization", `Bearer ${token}`);
+    const response = await server.post(`/events/${event.slug}/booking`).set("Authorization", `Bearer ${token}`);
 
     expect(response.status).toBe(httpStatus.UNAUTHORIZED);
   });
@@ -171,7 +175,7 @@ describe("POST /booking", () => {
       const user = await createUser();
       const token = await generateValidToken(user);
 
-      const response = await server.post("/booking")
+      const response = await server.post(`/events/${event.slug}/booking`)
         .send({ roomId: faker.datatype.number({ min: 1 }) })
         .set("Authorization", `Bearer ${token}`);
 
@@ -183,7 +187,7 @@ describe("POST /booking", () => {
       const token = await generateValidToken(user);
       await createEnrollmentWithAddress(user);
 
-      const response = await server.post("/booking")
+      const response = await server.post(`/events/${event.slug}/booking`)
         .send({ roomId: faker.datatype.number({ min: 1 }) })
         .set("Authorization", `Bearer ${token}`);
 
@@ -197,7 +201,7 @@ describe("POST /booking", () => {
       const ticketType = await createTicketTypeRemote();
       await createTicket(enrollment.id, ticketType.id, TicketStatus.PAID);
 
-      const response = await server.post("/booking")
+      const response = await server.post(`/events/${event.slug}/booking`)
         .send({ roomId: faker.datatype.number({ min: 1 }) })
         .set("Authorization", `Bearer ${token}`);
 
@@ -211,7 +215,7 @@ describe("POST /booking", () => {
       const ticketType = await createTicketTypeWithHotel();
       await createTicket(enrollment.id, ticketType.id, TicketStatus.RESERVED);
 
-      const response = await server.post("/booking")
+      const response = await server.post(`/events/${event.slug}/booking`)
         .send({ roomId: faker.datatype.number({ min: 1 }) })
         .set("Authorization", `Bearer ${token}`);
 
@@ -227,7 +231,7 @@ describe("POST /booking", () => {
       const hotel = await createHotel();
       await createRoomWithHotelId(hotel.id);
 
-      const response = await server.post("/booking")
+      const response = await server.post(`/events/${event.slug}/booking`)
         .send({ roomId: faker.lorem.word() })
         .set("Authorization", `Bearer ${token}`);
 
@@ -244,7 +248,7 @@ describe("POST /booking", () => {
       const room = await createRoomWithHotelId(hotel.id);
       await createBooking(user.id, room.id);
 
-      const response = await server.post("/booking")
+      const response = await server.post(`/events/${event.slug}/booking`)
         .send({ roomId: room.id })
         .set("Authorization", `Bearer ${token}`);
 
@@ -264,7 +268,7 @@ describe("POST /booking", () => {
         await createBooking(userToFillBooking.id, room.id);
       }
 
-      const response = await server.post("/booking")
+      const response = await server.post(`/events/${event.slug}/booking`)
         .send({ roomId: room.id })
         .set("Authorization", `Bearer ${token}`);
 
@@ -280,7 +284,7 @@ describe("POST /booking", () => {
       const hotel = await createHotel();
       await createRoomWithHotelId(hotel.id);
 
-      const response = await server.post("/booking")
+      const response = await server.post(`/events/${event.slug}/booking`)
         .send({ roomId: 0 })
         .set("Authorization", `Bearer ${token}`);
 
@@ -296,7 +300,7 @@ describe("POST /booking", () => {
       const hotel = await createHotel();
       const room = await createRoomWithHotelId(hotel.id);
 
-      const response = await server.post("/booking")
+      const response = await server.post(`/events/${event.slug}/booking`)
         .send({ roomId: room.id + 1 })
         .set("Authorization", `Bearer ${token}`);
 
@@ -318,7 +322,7 @@ describe("POST /booking", () => {
         await createBooking(userToFillBooking.id, room.id);
       }
 
-      const response = await server.post("/booking")
+      const response = await server.post(`/events/${event.slug}/booking`)
         .send({ roomId: room.id })
         .set("Authorization", `Bearer ${token}`);
 
@@ -343,7 +347,7 @@ describe("POST /booking", () => {
       const hotel = await createHotel();
       const room = await createRoomWithHotelId(hotel.id);
       
-      const response = await server.post("/booking")
+      const response = await server.post(`/events/${event.slug}/booking`)
         .send({ roomId: room.id })
         .set("Authorization", `Bearer ${token}`);
 
@@ -366,7 +370,7 @@ describe("POST /booking", () => {
       const userToFillBooking = await createUser();
       await createBooking(userToFillBooking.id, room.id);
 
-      const response = await server.post("/booking")
+      const response = await server.post(`/events/${event.slug}/booking`)
         .send({ roomId: room.id })
         .set("Authorization", `Bearer ${token}`);
 
@@ -397,7 +401,7 @@ describe("POST /booking", () => {
         await createBooking(userToFillBooking.id, room.id);
       }
       
-      const response = await server.post("/booking")
+      const response = await server.post(`/events/${event.slug}/booking`)
         .send({ roomId: room.id })
         .set("Authorization", `Bearer ${token}`);
 
@@ -428,7 +432,7 @@ describe("POST /booking", () => {
         await createBooking(userToFillBooking.id, room.id);
       }
       
-      const response = await server.post("/booking")
+      const response = await server.post(`/events/${event.slug}/booking`)
         .send({ roomId: room.id })
         .set("Authorization", `Bearer ${token}`);
 
@@ -448,7 +452,7 @@ describe("POST /booking", () => {
 
 describe("PUT /booking/:bookingId", () => {
   it("should respond with status 401 if no token is given", async () => {
-    const response = await server.put(`/booking/${ faker.datatype.number({ min: 1 }) }`);
+    const response = await server.put(`/events/${event.slug}/booking/${ faker.datatype.number({ min: 1 }) }`);
 
     expect(response.status).toBe(httpStatus.UNAUTHORIZED);
   });
@@ -456,7 +460,9 @@ describe("PUT /booking/:bookingId", () => {
   it("should respond with status 401 if given token is not valid", async () => {
     const token = faker.lorem.word();
 
-    const response = await server.put(`/booking/${ faker.datatype.number({ min: 1 }) }`).set("Authorization", `Bearer ${token}`);
+    const response = await server
+      .put(`/events/${event.slug}/booking/${ faker.datatype.number({ min: 1 }) }`)
+      .set("Authorization", `Bearer ${token}`);
 
     expect(response.status).toBe(httpStatus.UNAUTHORIZED);
   });
@@ -465,7 +471,9 @@ describe("PUT /booking/:bookingId", () => {
     const userWithoutSession = await createUser();
     const token = jwt.sign({ userId: userWithoutSession.id }, process.env.JWT_SECRET);
 
-    const response = await server.put(`/booking/${ faker.datatype.number({ min: 1 }) }`).set("Authorization", `Bearer ${token}`);
+    const response = await server
+      .put(`/events/${event.slug}/booking/${ faker.datatype.number({ min: 1 }) }`)
+      .set("Authorization", `Bearer ${token}`);
 
     expect(response.status).toBe(httpStatus.UNAUTHORIZED);
   });
@@ -476,7 +484,7 @@ describe("PUT /booking/:bookingId", () => {
       const token = await generateValidToken(user);
 
       const response = await server
-        .put(`/booking/${ faker.datatype.number({ min: 1 }) }`)
+        .put(`/events/${event.slug}/booking/${ faker.datatype.number({ min: 1 }) }`)
         .send({ roomId: faker.datatype.number({ min: 1 }) })
         .set("Authorization", `Bearer ${token}`);
 
@@ -489,7 +497,7 @@ describe("PUT /booking/:bookingId", () => {
       await createEnrollmentWithAddress(user);
 
       const response = await server
-        .put(`/booking/${ faker.datatype.number({ min: 1 }) }`)
+        .put(`/events/${event.slug}/booking/${ faker.datatype.number({ min: 1 }) }`)
         .send({ roomId: faker.datatype.number({ min: 1 }) })
         .set("Authorization", `Bearer ${token}`);
 
@@ -504,7 +512,7 @@ describe("PUT /booking/:bookingId", () => {
       await createTicket(enrollment.id, ticketType.id, TicketStatus.PAID);
 
       const response = await server
-        .put(`/booking/${ faker.datatype.number({ min: 1 }) }`)
+        .put(`/events/${event.slug}/booking/${ faker.datatype.number({ min: 1 }) }`)
         .send({ roomId: faker.datatype.number({ min: 1 }) })
         .set("Authorization", `Bearer ${token}`);
 
@@ -519,7 +527,7 @@ describe("PUT /booking/:bookingId", () => {
       await createTicket(enrollment.id, ticketType.id, TicketStatus.RESERVED);
 
       const response = await server
-        .put(`/booking/${ faker.datatype.number({ min: 1 }) }`)
+        .put(`/events/${event.slug}/booking/${ faker.datatype.number({ min: 1 }) }`)
         .send({ roomId: faker.datatype.number({ min: 1 }) })
         .set("Authorization", `Bearer ${token}`);
 
@@ -531,7 +539,7 @@ describe("PUT /booking/:bookingId", () => {
       const token = await generateValidToken(user);
 
       const response = await server
-        .put(`/booking/${ faker.lorem.word() }`)
+        .put(`/events/${event.slug}/booking/${ faker.lorem.word() }`)
         .send({ roomId: faker.datatype.number({ min: 1 }) })
         .set("Authorization", `Bearer ${token}`);
 
@@ -543,7 +551,7 @@ describe("PUT /booking/:bookingId", () => {
       const token = await generateValidToken(user);
 
       const response = await server
-        .put(`/booking/${ faker.datatype.number({ min: 1 }) }`)
+        .put(`/events/${event.slug}/booking/${ faker.datatype.number({ min: 1 }) }`)
         .send({ roomId: faker.lorem.word() })
         .set("Authorization", `Bearer ${token}`);
 
@@ -563,7 +571,7 @@ describe("PUT /booking/:bookingId", () => {
       const booking = await createBooking(otherUser.id, otherRoom.id);
 
       const response = await server
-        .put(`/booking/${booking.id}`)
+        .put(`/events/${event.slug}/booking/${booking.id}`)
         .send({ roomId: room.id })
         .set("Authorization", `Bearer ${token}`);
 
@@ -581,7 +589,7 @@ describe("PUT /booking/:bookingId", () => {
       const booking = await createBooking(user.id, room.id);
 
       const response = await server
-        .put(`/booking/${booking.id}`)
+        .put(`/events/${event.slug}/booking/${booking.id}`)
         .send({ roomId: room.id })
         .set("Authorization", `Bearer ${token}`);
 
@@ -606,7 +614,7 @@ describe("PUT /booking/:bookingId", () => {
       }
 
       const response = await server
-        .put(`/booking/${booking.id}`)
+        .put(`/events/${event.slug}/booking/${booking.id}`)
         .send({ roomId: chosenRoom.id })
         .set("Authorization", `Bearer ${token}`);
 
@@ -624,7 +632,7 @@ describe("PUT /booking/:bookingId", () => {
       const booking = await createBooking(user.id, originalRoom.id);
 
       const response = await server
-        .put(`/booking/${booking.id}`)
+        .put(`/events/${event.slug}/booking/${booking.id}`)
         .send({ roomId: 0 })
         .set("Authorization", `Bearer ${token}`);
 
@@ -642,7 +650,7 @@ describe("PUT /booking/:bookingId", () => {
       const chosenRoom = await createRoom(hotel.id);
 
       const response = await server
-        .put(`/booking/${0}`)
+        .put(`/events/${event.slug}/booking/${0}`)
         .send({ roomId: chosenRoom.id })
         .set("Authorization", `Bearer ${token}`);
 
@@ -661,7 +669,7 @@ describe("PUT /booking/:bookingId", () => {
       const booking = await createBooking(user.id, originalRoom.id);
 
       const response = await server
-        .put(`/booking/${booking.id}`)
+        .put(`/events/${event.slug}/booking/${booking.id}`)
         .send({ roomId: chosenRoom.id + 1 })
         .set("Authorization", `Bearer ${token}`);
 
@@ -680,7 +688,7 @@ describe("PUT /booking/:bookingId", () => {
       const booking = await createBooking(user.id, originalRoom.id);
 
       const response = await server
-        .put(`/booking/${booking.id + 1}`)
+        .put(`/events/${event.slug}/booking/${booking.id + 1}`)
         .send({ roomId: chosenRoom.id })
         .set("Authorization", `Bearer ${token}`);
 
@@ -705,7 +713,7 @@ describe("PUT /booking/:bookingId", () => {
       }
 
       const response = await server
-        .put(`/booking/${booking.id}`)
+        .put(`/events/${event.slug}/booking/${booking.id}`)
         .send({ roomId: chosenRoom.id })
         .set("Authorization", `Bearer ${token}`);
 
@@ -733,7 +741,7 @@ describe("PUT /booking/:bookingId", () => {
       const booking = await createBooking(user.id, originalRoom.id);
 
       const response = await server
-        .put(`/booking/${booking.id}`)
+        .put(`/events/${event.slug}/booking/${booking.id}`)
         .send({ roomId: chosenRoom.id })
         .set("Authorization", `Bearer ${token}`);
 
@@ -763,7 +771,7 @@ describe("PUT /booking/:bookingId", () => {
       await createBooking(otherUser.id, chosenRoom.id);
 
       const response = await server
-        .put(`/booking/${booking.id}`)
+        .put(`/events/${event.slug}/booking/${booking.id}`)
         .send({ roomId: chosenRoom.id })
         .set("Authorization", `Bearer ${token}`);
 
@@ -797,7 +805,7 @@ describe("PUT /booking/:bookingId", () => {
       }
 
       const response = await server
-        .put(`/booking/${booking.id}`)
+        .put(`/events/${event.slug}/booking/${booking.id}`)
         .send({ roomId: chosenRoom.id })
         .set("Authorization", `Bearer ${token}`);
 
@@ -831,7 +839,7 @@ describe("PUT /booking/:bookingId", () => {
       }
 
       const response = await server
-        .put(`/booking/${booking.id}`)
+        .put(`/events/${event.slug}/booking/${booking.id}`)
         .send({ roomId: chosenRoom.id })
         .set("Authorization", `Bearer ${token}`);
 
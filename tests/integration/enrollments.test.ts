@@ -2,23 +2,27 @@ import app, { init } from "@/app";
 import { prisma } from "@/config";
 import { generateCPF, getStates } from "@brazilian-utils/brazilian-utils";
 import faker from "@faker-js/faker";
+import { Event } from "@prisma/client";
 import dayjs from "dayjs";
 import httpStatus from "http-status";
 import * as jwt from "jsonwebtoken";
 import supertest from "supertest";
-import { createEnrollmentWithAddress, createUser, createhAddressWithCEP } from "../factories";
+import { createEnrollmentWithAddress, createEvent, createUser, createhAddressWithCEP } from "../factories";
 import { cleanDb, generateValidToken } from "../helpers";
 
+let event: Event;
+
 beforeAll(async () => {
   await init();
   await cleanDb();
+  event = await createEvent();
 });
 
 const server = supertest(app);
 
 describe("GET /enrollments", () => {
   it("should respond with status 401 if no token is given", async () => {
-    const response = await server.get("/enrollments");
+    const response = await server.get(`/events/${event.slug}/enrollments`);
 
     expect(response.status).toBe(httpStatus.UNAUTHORIZED);
   });
@@ -26,7 +30,7 @@ describe("GET /enrollments", () => {
   it("should respond with status 401 if given token is not valid", async () => {
     const token = faker.lorem.word();
 
-    const response = await server.get("/enrollments").set("Authorization", `Bearer ${token}`);
+    const response = await server.get(`/events/${event.slug}/enrollments`).set("Authorization", `Bearer ${token}`);
 
     expect(response.status).toBe(httpStatus.UNAUTHORIZED);
   });
@@ -35,7 +39,7 @@ describe("GET /enrollments", () => {
     const userWithoutSession = await createUser();
     const token = jwt.sign({ userId: userWithoutSession.id }, process.env.JWT_SECRET);
 
-    const response = await server.get("/enrollments").set("Authorization", `Bearer ${token}`);
+    const response = await server.get(`/events/${event.slug}/enrollments`).set("Authorization", `Bearer ${token}`);
 
     expect(response.status).toBe(httpStatus.UNAUTHORIZED);
   });
@@ -44,7 +48,7 @@ describe("GET /enrollments", () => {
     it("should respond with status 404 when there is no enrollment for given user", async () => {
       const token = await generateValidToken();
 
-      const response = await server.get("/enrollments").set("Authorization", `Bearer ${token}`);
+      const response = await server.get(`/events/${event.slug}/enrollments`).set("Authorization", `Bearer ${token}`);
 
       expect(response.status).toBe(httpStatus.NOT_FOUND);
     });
@@ -54,7 +58,7 @@ describe("GET /enrollments", () => {
       const enrollment = await createEnrollmentWithAddress(user);
       const token = await generateValidToken(user);
 
-      const response = await server.get("/enrollments").set("Authorization", `Bearer ${token}`);
+      const response = await server.get(`/events/${event.slug}/enrollments`).set("Authorization", `Bearer ${token}`);
 
       expect(response.status).toBe(httpStatus.OK);
       expect(response.body).toEqual({
@@ -95,7 +99,7 @@ describe("GET /enrollments/cep", () => {
 
 describe("POST /enrollments", () => {
   it("should respond with status 401 if no token is given", async () => {
-    const response = await server.post("/enrollments");
+    const response = await server.post(`/events/${event.slug}/enrollments`);
 
     expect(response.status).toBe(httpStatus.UNAUTHORIZED);
   });
@@ -103,7 +107,7 @@ describe("POST /enrollments", () => {
   it("should respond with status 401 if given token is not valid", async () => {
     const token = faker.lorem.word();
 
-    const response = await server.post("/enrollments").set("Authorization", `Bearer ${token}`);
+    const response = await server.post(`/events/${event.slug}/enrollments`).set("Authorization", `Bearer ${token}`);
 
     expect(response.status).toBe(httpStatus.UNAUTHORIZED);
   });
@@ -112,7 +116,7 @@ describe("POST /enrollments", () => {
     const userWithoutSession = await createUser();
     const token = jwt.sign({ userId: userWithoutSession.id }, process.env.JWT_SECRET);
 
-    const response = await server.post("/enrollments").set("Authorization", `Bearer ${token}`);
+    const response = await server.post(`/events/${event.slug}/enrollments`).set("Authorization", `Bearer ${token}`);
 
     expect(response.status).toBe(httpStatus.UNAUTHORIZED);
   });
@@ -121,7 +125,7 @@ describe("POST /enrollments", () => {
     it("should respond with status 400 when body is not present", async () => {
       const token = await generateValidToken();
 
-      const response = await server.post("/enrollments").set("Authorization", `Bearer ${token}`);
+      const response = await server.post(`/events/${event.slug}/enrollments`).set("Authorization", `Bearer ${token}`);
 
       expect(response.status).toBe(httpStatus.BAD_REQUEST);
     });
@@ -130,7 +134,10 @@ describe("POST /enrollments", () => {
       const token = await generateValidToken();
       const body = { [faker.lorem.word()]: faker.lorem.word() };
 
-      const response = await server.post("/enrollments").set("Authorization", `Bearer ${token}`).send(body);
+      const response = await server
+        .post(`/events/${event.slug}/enrollments`)
+        .set("Authorization", `Bearer ${token}`)
+        .send(body);
 
       expect(response.status).toBe(httpStatus.BAD_REQUEST);
     });
@@ -152,11 +159,52 @@ describe("POST /enrollments", () => {
         },
       });
 
+      it("should respond with status 403 and UnverifiedEmailError when user email is not verified", async () => {
+        const user = await createUser({ emailVerifiedAt: null });
+        const token = await generateValidToken(user);
+
+        const response = await server
+          .post(`/events/${event.slug}/enrollments`)
+          .set("Authorization", `Bearer ${token}`)
+          .send(generateValidBody());
+
+        expect(response.status).toBe(httpStatus.FORBIDDEN);
+        expect(response.body.name).toBe("UnverifiedEmailError");
+      });
+
+      it("should respond with status 400 when event did not start yet", async () => {
+        const futureEvent = await createEvent({ startsAt: dayjs().add(1, "day").toDate() });
+        const body = generateValidBody();
+        const token = await generateValidToken();
+
+        const response = await server
+          .post(`/events/${futureEvent.slug}/enrollments`)
+          .set("Authorization", `Bearer ${token}`)
+          .send(body);
+
+        expect(response.status).toBe(httpStatus.BAD_REQUEST);
+      });
+
+      it("should respond with status 404 when there is no event for given slug", async () => {
+        const body = generateValidBody();
+        const token = await generateValidToken();
+
+        const response = await server
+          .post("/events/no-event/enrollments")
+          .set("Authorization", `Bearer ${token}`)
+          .send(body);
+
+        expect(response.status).toBe(httpStatus.NOT_FOUND);
+      });
+
       it("should respond with status 201 and create new enrollment if there is not any", async () => {
         const body = generateValidBody();
         const token = await generateValidToken();
 
-        const response = await server.post("/enrollments").set("Authorization", `Bearer ${token}`).send(body);
+        const response = await server
+          .post(`/events/${event.slug}/enrollments`)
+          .set("Authorization", `Bearer ${token}`)
+          .send(body);
 
         expect(response.status).toBe(httpStatus.OK);
         const enrollment = await prisma.enrollment.findFirst({ where: { cpf: body.cpf } });
@@ -169,10 +217,15 @@ describe("POST /enrollments", () => {
         const body = generateValidBody();
         const token = await generateValidToken(user);
 
-        const response = await server.post("/enrollments").set("Authorization", `Bearer ${token}`).send(body);
+        const response = await server
+          .post(`/events/${event.slug}/enrollments`)
+          .set("Authorization", `Bearer ${token}`)
+          .send(body);
 
         expect(response.status).toBe(httpStatus.OK);
-        const updatedEnrollment = await prisma.enrollment.findUnique({ where: { userId: user.id } });
+        const updatedEnrollment = await prisma.enrollment.findUnique({
+          where: { userId_eventId: { userId: user.id, eventId: event.id } },
+        });
         const addresses = await prisma.address.findMany({ where: { enrollmentId: enrollment.id } });
         expect(addresses.length).toEqual(1);
         expect(updatedEnrollment).toBeDefined();
@@ -208,7 +261,10 @@ describe("POST /enrollments", () => {
         const body = generateInvalidBody();
         const token = await generateValidToken();
 
-        const response = await server.post("/enrollments").set("Authorization", `Bearer ${token}`).send(body);
+        const response = await server
+          .post(`/events/${event.slug}/enrollments`)
+          .set("Authorization", `Bearer ${token}`)
+          .send(body);
 
         expect(response.status).toBe(httpStatus.BAD_REQUEST);
       });
@@ -1,19 +1,47 @@
 import app, { init } from "@/app";
 import httpStatus from "http-status";
 import supertest from "supertest";
+import dayjs from "dayjs";
 import { createEvent } from "../factories";
 import { cleanDb } from "../helpers";
 
 beforeAll(async () => {
   await init();
+});
+
+beforeEach(async () => {
   await cleanDb();
 });
 
 const server = supertest(app);
 
-describe("GET /event", () => {
-  it("should respond with status 404 if there is no event", async () => {
-    const response = await server.get("/event");
+describe("GET /events", () => {
+  it("should respond with status 200 and an empty array if there is no event", async () => {
+    const response = await server.get("/events");
+
+    expect(response.status).toBe(httpStatus.OK);
+    expect(response.body).toEqual([]);
+  });
+
+  it("should respond with status 200 and events ordered by start date", async () => {
+    const laterEvent = await createEvent({ startsAt: dayjs().add(1, "month").toDate() });
+    const event = await createEvent();
+
+    const response = await server.get("/events");
+
+    expect(response.status).toBe(httpStatus.OK);
+    expect(response.body).toEqual([
+      expect.objectContaining({ id: event.id, slug: event.slug }),
+      expect.objectContaining({ id: laterEvent.id, slug: laterEvent.slug }),
+    ]);
+  });
+});
+
+describe("GET /events/:eventSlug", () => {
+  it("should respond with status 404 if there is no event for given slug", async () => {
+    await createEvent();
+
+    const response = await server.get("/events/no-event");
 
     expect(response.status).toBe(httpStatus.NOT_FOUND);
   });
@@ -21,11 +49,12 @@ describe("GET /event", () => {
   it("should respond with status 200 and event data if there is an event", async () => {
     const event = await createEvent();
 
-    const response = await server.get("/event");
+    const response = await server.get(`/events/${event.slug}`);
 
     expect(response.status).toBe(httpStatus.OK);
     expect(response.body).toEqual({
       id: event.id,
+      slug: event.slug,
       title: event.title,
       backgroundImageUrl: event.backgroundImageUrl,
       logoImageUrl: event.logoImageUrl,
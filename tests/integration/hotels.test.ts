@@ -1,7 +1,7 @@
 import app, { init } from "@/app";
 import { prisma } from "@/config";
 import faker from "@faker-js/faker";
-import { TicketStatus } from "@prisma/client";
+import { Event, TicketStatus } from "@prisma/client";
 import e from "express";
 import httpStatus from "http-status";
 import * as jwt from "jsonwebtoken";
@@ -11,12 +11,14 @@ import {
   createUser,
   createTicketType,
   createTicket,
+  createCompanionTicket,
   createPayment,
   generateCreditCardData,
   createTicketTypeWithHotel,
   createTicketTypeRemote,
   createHotel,
   createRoomWithHotelId,
+  createEvent
 } from "../factories";
 import { cleanDb, generateValidToken } from "../helpers";
 
@@ -24,15 +26,18 @@ beforeAll(async () => {
   await init();
 });
 
+let event: Event;
+
 beforeEach(async () => {
   await cleanDb();
+  event = await createEvent();
 });
 
 const server = supertest(app);
 
 describe("GET /hotels", () => {
   it("should respond with status 401 if no token is given", async () => {
-    const response = await server.get("/hotels");
+    const response = await server.get(`/events/${event.slug}/hotels`);
 
     expect(response.status).toBe(httpStatus.UNAUTHORIZED);
   });
@@ -40,7 +45,7 @@ describe("GET /hotels", () => {
   it("should respond with status 401 if given token is not valid", async () => {
     const token = faker.lorem.word();
 
-    const response = await server.get("/hotels").set("Authorization", `Bearer ${token}`);
+    const response = await server.get(`/events/${event.slug}/hotels`).set("Authorization", `Bearer ${token}`);
 
     expect(response.status).toBe(httpStatus.UNAUTHORIZED);
   });
@@ -49,7 +54,7 @@ describe("GET /hotels", () => {
     const userWithoutSession = await createUser();
     const token = jwt.sign({ userId: userWithoutSession.id }, process.env.JWT_SECRET);
 
-    const response = await server.get("/hotels").set("Authorization", `Bearer ${token}`);
+    const response = await server.get(`/events/${event.slug}/hotels`).set("Authorization", `Bearer ${token}`);
 
     expect(response.status).toBe(httpStatus.UNAUTHORIZED);
   });
@@ -64,7 +69,7 @@ describe("GET /hotels", () => {
       const payment = await createPayment(ticket.id, ticketType.price);
       //Hoteis no banco
 
-      const response = await server.get("/hotels").set("Authorization", `Bearer ${token}`);
+      const response = await server.get(`/events/${event.slug}/hotels`).set("Authorization", `Bearer ${token}`);
 
       expect(response.status).toEqual(httpStatus.PAYMENT_REQUIRED);
     });
@@ -75,7 +80,7 @@ describe("GET /hotels", () => {
 
       const ticketType = await createTicketTypeRemote();
 
-      const response = await server.get("/hotels").set("Authorization", `Bearer ${token}`);
+      const response = await server.get(`/events/${event.slug}/hotels`).set("Authorization", `Bearer ${token}`);
 
       expect(response.status).toEqual(httpStatus.NOT_FOUND);
     });
@@ -90,7 +95,7 @@ describe("GET /hotels", () => {
 
       const createdHotel = await createHotel();
 
-      const response = await server.get("/hotels").set("Authorization", `Bearer ${token}`);
+      const response = await server.get(`/events/${event.slug}/hotels`).set("Authorization", `Bearer ${token}`);
 
       expect(response.status).toEqual(httpStatus.OK);
 
@@ -99,12 +104,27 @@ describe("GET /hotels", () => {
           id: createdHotel.id,
           name: createdHotel.name,
           image: createdHotel.image,
+          eventId: event.id,
           createdAt: createdHotel.createdAt.toISOString(),
           updatedAt: createdHotel.updatedAt.toISOString()
         }
       ]);
     });
 
+    it("should respond with status 200 for a companion attending with a ticket bought by someone else", async () => {
+      const buyer = await createUser();
+      const enrollment = await createEnrollmentWithAddress(buyer);
+      const ticketType = await createTicketTypeWithHotel();
+      const ticket = await createCompanionTicket(enrollment.id, ticketType.id, TicketStatus.PAID);
+      const companion = await createUser();
+      const token = await generateValidToken(companion);
+      await prisma.ticket.update({ where: { id: ticket.id }, data: { attendeeUserId: companion.id } });
+
+      const response = await server.get(`/events/${event.slug}/hotels`).set("Authorization", `Bearer ${token}`);
+
+      expect(response.status).toEqual(httpStatus.OK);
+    });
+
     it("should respond with status 200 and an empty array", async () => {
       const user = await createUser();
       const token = await generateValidToken(user);
@@ -114,7 +134,7 @@ describe("GET /hotels", () => {
       const payment = await createPayment(ticket.id, ticketType.price);
       //Hoteis no banco
 
-      const response = await server.get("/hotels").set("Authorization", `Bearer ${token}`);
+      const response = await server.get(`/events/${event.slug}/hotels`).set("Authorization", `Bearer ${token}`);
 
       expect(response.status).toEqual(httpStatus.OK);
       expect(response.body).toEqual([]);
@@ -124,7 +144,7 @@ describe("GET /hotels", () => {
 
 describe("GET /hotels/:hotelId", () => {
   it("should respond with status 401 if no token is given", async () => {
-    const response = await server.get("/hotels/1");
+    const response = await server.get(`/events/${event.slug}/hotels/1`);
 
     expect(response.status).toBe(httpStatus.UNAUTHORIZED);
   });
@@ -132,7 +152,7 @@ describe("GET /hotels/:hotelId", () => {
   it("should respond with status 401 if given token is not valid", async () => {
     const token = faker.lorem.word();
 
-    const response = await server.get("/hotels/1").set("Authorization", `Bearer ${token}`);
+    const response = await server.get(`/events/${event.slug}/hotels/1`).set("Authorization", `Bearer ${token}`);
 
     expect(response.status).toBe(httpStatus.UNAUTHORIZED);
   });
@@ -141,7 +161,7 @@ describe("GET /hotels/:hotelId", () => {
     const userWithoutSession = await createUser();
     const token = jwt.sign({ userId: userWithoutSession.id }, process.env.JWT_SECRET);
 
-    const response = await server.get("/hotels/1").set("Authorization", `Bearer ${token}`);
+    const response = await server.get(`/events/${event.slug}/hotels/1`).set("Authorization", `Bearer ${token}`);
 
     expect(response.status).toBe(httpStatus.UNAUTHORIZED);
   });
@@ -156,7 +176,7 @@ describe("GET /hotels/:hotelId", () => {
       const payment = await createPayment(ticket.id, ticketType.price);
       //Hoteis no banco
 
-      const response = await server.get("/hotels/1").set("Authorization", `Bearer ${token}`);
+      const response = await server.get(`/events/${event.slug}/hotels/1`).set("Authorization", `Bearer ${token}`);
 
       expect(response.status).toEqual(httpStatus.PAYMENT_REQUIRED);
     });
@@ -167,7 +187,7 @@ describe("GET /hotels/:hotelId", () => {
 
       const ticketType = await createTicketTypeRemote();
 
-      const response = await server.get("/hotels/1").set("Authorization", `Bearer ${token}`);
+      const response = await server.get(`/events/${event.slug}/hotels/1`).set("Authorization", `Bearer ${token}`);
 
       expect(response.status).toEqual(httpStatus.NOT_FOUND);
     });
@@ -182,7 +202,7 @@ describe("GET /hotels/:hotelId", () => {
 
       const createdHotel = await createHotel();
 
-      const response = await server.get("/hotels/100").set("Authorization", `Bearer ${token}`);
+      const response = await server.get(`/events/${event.slug}/hotels/100`).set("Authorization", `Bearer ${token}`);
 
       expect(response.status).toEqual(httpStatus.NOT_FOUND);
     });
@@ -200,7 +220,9 @@ describe("GET /hotels/:hotelId", () => {
 
       const createdRoom = await createRoomWithHotelId(createdHotel.id);
 
-      const response = await server.get(`/hotels/${createdHotel.id}`).set("Authorization", `Bearer ${token}`);
+      const response = await server
+        .get(`/events/${event.slug}/hotels/${createdHotel.id}`)
+        .set("Authorization", `Bearer ${token}`);
 
       expect(response.status).toEqual(httpStatus.OK);
 
@@ -208,6 +230,7 @@ describe("GET /hotels/:hotelId", () => {
         id: createdHotel.id,
         name: createdHotel.name,
         image: createdHotel.image,
+        eventId: event.id,
         createdAt: createdHotel.createdAt.toISOString(),
         updatedAt: createdHotel.updatedAt.toISOString(),
         Rooms: [{
@@ -231,7 +254,9 @@ describe("GET /hotels/:hotelId", () => {
 
       const createdHotel = await createHotel();
 
-      const response = await server.get(`/hotels/${createdHotel.id}`).set("Authorization", `Bearer ${token}`);
+      const response = await server
+        .get(`/events/${event.slug}/hotels/${createdHotel.id}`)
+        .set("Authorization", `Bearer ${token}`);
 
       expect(response.status).toEqual(httpStatus.OK);
 
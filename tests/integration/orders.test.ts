@@ -0,0 +1,316 @@
+import app, { init } from "@/app";
+import { prisma } from "@/config";
+import faker from "@faker-js/faker";
+import { Event, OrderItemType, OrderStatus, TicketStatus } from "@prisma/client";
+import httpStatus from "http-status";
+import supertest from "supertest";
+import {
+  createEnrollmentWithAddress,
+  createUser,
+  createTicketType,
+  createTicketTypeWithHotel,
+  createTicket,
+  createEvent,
+  createMerchandise,
+  createTicketOrder,
+} from "../factories";
+import { cleanDb, generateValidToken } from "../helpers";
+
+beforeAll(async () => {
+  await init();
+});
+
+let event: Event;
+
+beforeEach(async () => {
+  await cleanDb();
+  event = await createEvent();
+});
+
+const server = supertest(app);
+
+async function createTicketTypeWithHotelUpgrade(hotelUpgradePrice: number) {
+  return prisma.ticketType.create({
+    data: {
+      name: faker.name.findName(),
+      price: faker.datatype.number({ min: 100, max: 1000 }),
+      isRemote: false,
+      includesHotel: false,
+      hotelUpgradePrice,
+      eventId: event.id,
+    },
+  });
+}
+
+describe("GET /orders/merchandise", () => {
+  it("should respond with status 401 if no token is given", async () => {
+    const response = await server.get(`/events/${event.slug}/orders/merchandise`);
+
+    expect(response.status).toBe(httpStatus.UNAUTHORIZED);
+  });
+
+  it("should respond with status 200 and the event merchandise", async () => {
+    const token = await generateValidToken();
+    const merchandise = await createMerchandise(event.id);
+    await createMerchandise((await createEvent()).id);
+
+    const response = await server
+      .get(`/events/${event.slug}/orders/merchandise`)
+      .set("Authorization", `Bearer ${token}`);
+
+    expect(response.status).toBe(httpStatus.OK);
+    expect(response.body).toEqual([expect.objectContaining({ id: merchandise.id, price: merchandise.price })]);
+  });
+});
+
+describe("POST /orders", () => {
+  it("should respond with status 401 if no token is given", async () => {
+    const response = await server.post(`/events/${event.slug}/orders`);
+
+    expect(response.status).toBe(httpStatus.UNAUTHORIZED);
+  });
+
+  describe("when token is valid", () => {
+    it("should respond with status 400 when body is not valid", async () => {
+      const token = await generateValidToken();
+
+      const response = await server
+        .post(`/events/${event.slug}/orders`)
+        .set("Authorization", `Bearer ${token}`)
+        .send({ items: [{ type: OrderItemType.MERCHANDISE, ticketId: 1 }] });
+
+      expect(response.status).toBe(httpStatus.BAD_REQUEST);
+    });
+
+    it("should respond with status 404 when user has no enrollment", async () => {
+      const token = await generateValidToken();
+      const merchandise = await createMerchandise(event.id);
+
+      const response = await server
+        .post(`/events/${event.slug}/orders`)
+        .set("Authorization", `Bearer ${token}`)
+        .send({ items: [{ type: OrderItemType.MERCHANDISE, merchandiseId: merchandise.id }] });
+
+      expect(response.status).toBe(httpStatus.NOT_FOUND);
+    });
+
+    it("should respond with status 404 when ticket belongs to another user", async () => {
+      const user = await createUser();
+      const token = await generateValidToken(user);
+      await createEnrollmentWithAddress(user);
+      const otherEnrollment = await createEnrollmentWithAddress();
+      const ticketType = await createTicketType();
+      const ticket = await createTicket(otherEnrollment.id, ticketType.id, TicketStatus.RESERVED);
+
+      const response = await server
+        .post(`/events/${event.slug}/orders`)
+        .set("Authorization", `Bearer ${token}`)
+        .send({ items: [{ type: OrderItemType.TICKET, ticketId: ticket.id }] });
+
+      expect(response.status).toBe(httpStatus.NOT_FOUND);
+    });
+
+    it("should respond with status 409 when ticket is already in an order", async () => {
+      const user = await createUser();
+      const token = await generateValidToken(user);
+      const enrollment = await createEnrollmentWithAddress(user);
+      const ticketType = await createTicketType();
+      const ticket = await createTicket(enrollment.id, ticketType.id, TicketStatus.RESERVED);
+      await createTicketOrder(ticket.id);
+
+      const response = await server
+        .post(`/events/${event.slug}/orders`)
+        .set("Authorization", `Bearer ${token}`)
+        .send({ items: [{ type: OrderItemType.TICKET, ticketId: ticket.id }] });
+
+      expect(response.status).toBe(httpStatus.CONFLICT);
+    });
+
+    it("should order a hotel upgrade again once the previous order for it expired", async () => {
+      const user = await createUser();
+      const token = await generateValidToken(user);
+      const enrollment = await createEnrollmentWithAddress(user);
+      const ticketType = await createTicketTypeWithHotelUpgrade(300);
+      const ticket = await createTicket(enrollment.id, ticketType.id, TicketStatus.PAID);
+      const first = await server
+        .post(`/events/${event.slug}/orders`)
+        .set("Authorization", `Bearer ${token}`)
+        .send({ items: [{ type: OrderItemType.HOTEL_UPGRADE, ticketId: ticket.id }] });
+      await prisma.order.update({ where: { id: first.body.id }, data: { status: OrderStatus.EXPIRED } });
+
+      const response = await server
+        .post(`/events/${event.slug}/orders`)
+        .set("Authorization", `Bearer ${token}`)
+        .send({ items: [{ type: OrderItemType.HOTEL_UPGRADE, ticketId: ticket.id }] });
+
+      expect(first.status).toBe(httpStatus.CREATED);
+      expect(response.status).toBe(httpStatus.CREATED);
+    });
+
+    it("should respond with status 400 when ticket type offers no hotel upgrade", async () => {
+      const user = await createUser();
+      const token = await generateValidToken(user);
+      const enrollment = await createEnrollmentWithAddress(user);
+      const ticketType = await createTicketTypeWithHotel();
+      const ticket = await createTicket(enrollment.id, ticketType.id, TicketStatus.PAID);
+
+      const response = await server
+        .post(`/events/${event.slug}/orders`)
+        .set("Authorization", `Bearer ${token}`)
+        .send({ items: [{ type: OrderItemType.HOTEL_UPGRADE, ticketId: ticket.id }] });
+
+      expect(response.status).toBe(httpStatus.BAD_REQUEST);
+    });
+
+    it("should respond with status 201 and compute the total from catalog prices", async () => {
+      const user = await createUser();
+      const token = await generateValidToken(user);
+      const enrollment = await createEnrollmentWithAddress(user);
+      const ticketType = await createTicketTypeWithHotelUpgrade(300);
+      const ticket = await createTicket(enrollment.id, ticketType.id, TicketStatus.RESERVED);
+      const merchandise = await createMerchandise(event.id);
+
+      const response = await server
+        .post(`/events/${event.slug}/orders`)
+        .set("Authorization", `Bearer ${token}`)
+        .send({
+          items: [
+            { type: OrderItemType.TICKET, ticketId: ticket.id },
+            { type: OrderItemType.HOTEL_UPGRADE, ticketId: ticket.id },
+            { type: OrderItemType.MERCHANDISE, merchandiseId: merchandise.id, quantity: 3 },
+          ],
+        });
+
+      expect(response.status).toBe(httpStatus.CREATED);
+      expect(response.body).toEqual(
+        expect.objectContaining({
+          userId: user.id,
+          eventId: event.id,
+          status: "PENDING",
+          total: ticketType.price + 300 + merchandise.price * 3,
+        }),
+      );
+      expect(response.body.OrderItem).toEqual([
+        expect.objectContaining({ type: OrderItemType.TICKET, ticketId: ticket.id, total: ticketType.price }),
+        expect.objectContaining({ type: OrderItemType.HOTEL_UPGRADE, ticketId: ticket.id, total: 300 }),
+        expect.objectContaining({
+          type: OrderItemType.MERCHANDISE,
+          merchandiseId: merchandise.id,
+          unitPrice: merchandise.price,
+          quantity: 3,
+          total: merchandise.price * 3,
+        }),
+      ]);
+    });
+  });
+});
+
+describe("GET /orders/:orderId", () => {
+  it("should respond with status 401 if no token is given", async () => {
+    const response = await server.get(`/events/${event.slug}/orders/1`);
+
+    expect(response.status).toBe(httpStatus.UNAUTHORIZED);
+  });
+
+  it("should respond with status 404 when order belongs to another user", async () => {
+    const token = await generateValidToken();
+    const enrollment = await createEnrollmentWithAddress();
+    const ticketType = await createTicketType();
+    const ticket = await createTicket(enrollment.id, ticketType.id, TicketStatus.RESERVED);
+    const order = await createTicketOrder(ticket.id);
+
+    const response = await server
+      .get(`/events/${event.slug}/orders/${order.id}`)
+      .set("Authorization", `Bearer ${token}`);
+
+    expect(response.status).toBe(httpStatus.NOT_FOUND);
+  });
+
+  it("should respond with status 200 and the order with its items", async () => {
+    const user = await createUser();
+    const token = await generateValidToken(user);
+    const enrollment = await createEnrollmentWithAddress(user);
+    const ticketType = await createTicketType();
+    const ticket = await createTicket(enrollment.id, ticketType.id, TicketStatus.RESERVED);
+    const order = await createTicketOrder(ticket.id);
+
+    const response = await server
+      .get(`/events/${event.slug}/orders/${order.id}`)
+      .set("Authorization", `Bearer ${token}`);
+
+    expect(response.status).toBe(httpStatus.OK);
+    expect(response.body).toEqual(
+      expect.objectContaining({
+        id: order.id,
+        total: ticketType.price,
+        OrderItem: [expect.objectContaining({ type: OrderItemType.TICKET, ticketId: ticket.id })],
+      }),
+    );
+  });
+});
+
+describe("GET /orders/:orderId/installments", () => {
+  it("should respond with status 404 when order belongs to another user", async () => {
+    const token = await generateValidToken();
+    const enrollment = await createEnrollmentWithAddress();
+    const ticketType = await createTicketType();
+    const ticket = await createTicket(enrollment.id, ticketType.id, TicketStatus.RESERVED);
+    const order = await createTicketOrder(ticket.id);
+
+    const response = await server
+      .get(`/events/${event.slug}/orders/${order.id}/installments`)
+      .set("Authorization", `Bearer ${token}`);
+
+    expect(response.status).toBe(httpStatus.NOT_FOUND);
+  });
+
+  it("should respond with status 200 and every installment option with its interest", async () => {
+    const user = await createUser();
+    const token = await generateValidToken(user);
+    const enrollment = await createEnrollmentWithAddress(user);
+    const ticketType = await prisma.ticketType.create({
+      data: {
+        name: faker.name.findName(),
+        price: 1000,
+        isRemote: false,
+        includesHotel: false,
+        maxInstallments: 4,
+        interestFreeInstallments: 3,
+        installmentInterestRate: 2,
+        eventId: event.id,
+      },
+    });
+    const ticket = await createTicket(enrollment.id, ticketType.id, TicketStatus.RESERVED);
+    const order = await createTicketOrder(ticket.id);
+
+    const response = await server
+      .get(`/events/${event.slug}/orders/${order.id}/installments`)
+      .set("Authorization", `Bearer ${token}`);
+
+    expect(response.status).toBe(httpStatus.OK);
+    expect(response.body).toEqual([
+      { installments: 1, total: 1000, interestAmount: 0, installmentAmount: 1000 },
+      { installments: 2, total: 1000, interestAmount: 0, installmentAmount: 500 },
+      { installments: 3, total: 1000, interestAmount: 0, installmentAmount: 334 },
+      { installments: 4, total: 1050, interestAmount: 50, installmentAmount: 263 },
+    ]);
+  });
+
+  it("should only offer a single payment for merchandise", async () => {
+    const user = await createUser();
+    const token = await generateValidToken(user);
+    await createEnrollmentWithAddress(user);
+    const merchandise = await createMerchandise(event.id);
+    const order = await server
+      .post(`/events/${event.slug}/orders`)
+      .set("Authorization", `Bearer ${token}`)
+      .send({ items: [{ type: OrderItemType.MERCHANDISE, merchandiseId: merchandise.id }] });
+
+    const response = await server
+      .get(`/events/${event.slug}/orders/${order.body.id}/installments`)
+      .set("Authorization", `Bearer ${token}`);
+
+    expect(response.status).toBe(httpStatus.OK);
+    expect(response.body).toEqual([expect.objectContaining({ installments: 1, total: merchandise.price })]);
+  });
+});
@@ -0,0 +1,234 @@
+import app, { init } from "@/app";
+import { prisma } from "@/config";
+import { signWebhookPayload } from "@/utils/webhook-signature";
+import { OrderStatus, PaymentStatus, TicketStatus } from "@prisma/client";
+import httpStatus from "http-status";
+import supertest from "supertest";
+import {
+  buildPaymentWebhookEvent,
+  createActivity,
+  createActivitySubscription,
+  createActivityVenue,
+  createBooking,
+  createEnrollmentWithAddress,
+  createHotel,
+  createEvent,
+  createOrderPayment,
+  createRoomWithHotelId,
+  createTicket,
+  createTicketOrder,
+  createTicketType,
+  createUser,
+  signPaymentWebhook,
+} from "../factories";
+import { cleanDb } from "../helpers";
+
+beforeAll(async () => {
+  await init();
+  process.env.FAKE_GATEWAY_WEBHOOK_SECRET = "webhook_test_secret";
+});
+
+beforeEach(async () => {
+  await cleanDb();
+  await createEvent();
+});
+
+const server = supertest(app);
+
+async function createOrderAwaitingConfirmation(paymentStatus: PaymentStatus = PaymentStatus.AUTHORIZED) {
+  const user = await createUser();
+  const enrollment = await createEnrollmentWithAddress(user);
+  const ticketType = await createTicketType();
+  const ticket = await createTicket(enrollment.id, ticketType.id, TicketStatus.RESERVED);
+  const order = await createTicketOrder(ticket.id);
+  const payment = await createOrderPayment(order.id, paymentStatus);
+
+  return { ticket, order, payment };
+}
+
+function sendWebhook(event: object, provider = "fake") {
+  const { payload, signature } = signPaymentWebhook(event);
+
+  return server
+    .post(`/payments/webhooks/${provider}`)
+    .set("Content-Type", "application/json")
+    .set("Webhook-Signature", signature)
+    .send(payload);
+}
+
+describe("POST /payments/webhooks/:provider", () => {
+  it("should respond with status 404 for an unknown provider", async () => {
+    const event = buildPaymentWebhookEvent("payment.captured", "fake_transaction");
+
+    const response = await sendWebhook(event, "unknown");
+
+    expect(response.status).toBe(httpStatus.NOT_FOUND);
+  });
+
+  it("should respond with status 400 when payload is not a payment event", async () => {
+    const response = await sendWebhook({ id: "evt_1" });
+
+    expect(response.status).toBe(httpStatus.BAD_REQUEST);
+  });
+
+  it("should respond with status 401 when signature header is missing", async () => {
+    const event = buildPaymentWebhookEvent("payment.captured", "fake_transaction");
+
+    const response = await server.post("/payments/webhooks/fake").send(event);
+
+    expect(response.status).toBe(httpStatus.UNAUTHORIZED);
+  });
+
+  it("should respond with status 401 when payload was signed with another secret", async () => {
+    const { payment } = await createOrderAwaitingConfirmation();
+    const event = buildPaymentWebhookEvent("payment.captured", payment.gatewayTransactionId);
+    const { payload, signature } = signPaymentWebhook(event, "another_secret");
+
+    const response = await server
+      .post("/payments/webhooks/fake")
+      .set("Content-Type", "application/json")
+      .set("Webhook-Signature", signature)
+      .send(payload);
+
+    const updatedPayment = await prisma.payment.findUnique({ where: { id: payment.id } });
+    expect(response.status).toBe(httpStatus.UNAUTHORIZED);
+    expect(updatedPayment.status).toBe(PaymentStatus.AUTHORIZED);
+  });
+
+  it("should respond with status 401 when signature is too old", async () => {
+    const event = buildPaymentWebhookEvent("payment.captured", "fake_transaction");
+    const payload = JSON.stringify(event);
+    const anHourAgo = Math.floor(Date.now() / 1000) - 60 * 60;
+
+    const response = await server
+      .post("/payments/webhooks/fake")
+      .set("Content-Type", "application/json")
+      .set("Webhook-Signature", signWebhookPayload("webhook_test_secret", payload, anHourAgo))
+      .send(payload);
+
+    expect(response.status).toBe(httpStatus.UNAUTHORIZED);
+  });
+
+  it("should capture the payment and mark the order and tickets as paid", async () => {
+    const { ticket, order, payment } = await createOrderAwaitingConfirmation();
+    const event = buildPaymentWebhookEvent("payment.captured", payment.gatewayTransactionId);
+
+    const response = await sendWebhook(event);
+
+    const updatedPayment = await prisma.payment.findUnique({ where: { id: payment.id } });
+    const updatedOrder = await prisma.order.findUnique({ where: { id: order.id } });
+    const updatedTicket = await prisma.ticket.findUnique({ where: { id: ticket.id } });
+    expect(response.status).toBe(httpStatus.OK);
+    expect(response.body).toEqual({ received: true, duplicate: false });
+    expect(updatedPayment.status).toBe(PaymentStatus.CAPTURED);
+    expect(updatedOrder.status).toBe(OrderStatus.PAID);
+    expect(updatedTicket.status).toBe(TicketStatus.PAID);
+  });
+
+  it("should still settle an expired charge whose order can be paid", async () => {
+    const { ticket, order, payment } = await createOrderAwaitingConfirmation(PaymentStatus.EXPIRED);
+
+    const response = await sendWebhook(buildPaymentWebhookEvent("payment.captured", payment.gatewayTransactionId));
+
+    const updatedPayment = await prisma.payment.findUnique({ where: { id: payment.id } });
+    const updatedOrder = await prisma.order.findUnique({ where: { id: order.id } });
+    const updatedTicket = await prisma.ticket.findUnique({ where: { id: ticket.id } });
+    expect(response.status).toBe(httpStatus.OK);
+    expect(updatedPayment.status).toBe(PaymentStatus.CAPTURED);
+    expect(updatedOrder.status).toBe(OrderStatus.PAID);
+    expect(updatedTicket.status).toBe(TicketStatus.PAID);
+  });
+
+  it("should refund an expired charge whose order can no longer be paid", async () => {
+    const { ticket, order, payment } = await createOrderAwaitingConfirmation(PaymentStatus.EXPIRED);
+    await prisma.order.update({ where: { id: order.id }, data: { status: OrderStatus.EXPIRED } });
+    await prisma.ticket.update({ where: { id: ticket.id }, data: { status: TicketStatus.EXPIRED } });
+
+    const response = await sendWebhook(buildPaymentWebhookEvent("payment.captured", payment.gatewayTransactionId));
+
+    const updatedPayment = await prisma.payment.findUnique({ where: { id: payment.id } });
+    const updatedTicket = await prisma.ticket.findUnique({ where: { id: ticket.id } });
+    expect(response.status).toBe(httpStatus.OK);
+    expect(updatedPayment.status).toBe(PaymentStatus.REFUNDED);
+    expect(updatedTicket.status).toBe(TicketStatus.EXPIRED);
+  });
+
+  it("should acknowledge a redelivered event without applying it twice", async () => {
+    const { payment } = await createOrderAwaitingConfirmation();
+    const event = buildPaymentWebhookEvent("payment.captured", payment.gatewayTransactionId);
+
+    await sendWebhook(event);
+    const response = await sendWebhook(event);
+
+    const eventsCount = await prisma.paymentWebhookEvent.count();
+    expect(response.status).toBe(httpStatus.OK);
+    expect(response.body).toEqual({ received: true, duplicate: true });
+    expect(eventsCount).toBe(1);
+  });
+
+  it("should mark the payment as failed and keep tickets reserved", async () => {
+    const { ticket, payment } = await createOrderAwaitingConfirmation(PaymentStatus.PENDING);
+    const event = buildPaymentWebhookEvent("payment.failed", payment.gatewayTransactionId, "insufficient_funds");
+
+    const response = await sendWebhook(event);
+
+    const updatedPayment = await prisma.payment.findUnique({ where: { id: payment.id } });
+    const updatedTicket = await prisma.ticket.findUnique({ where: { id: ticket.id } });
+    expect(response.status).toBe(httpStatus.OK);
+    expect(updatedPayment).toEqual(
+      expect.objectContaining({ status: PaymentStatus.FAILED, failureReason: "insufficient_funds" }),
+    );
+    expect(updatedTicket.status).toBe(TicketStatus.RESERVED);
+  });
+
+  it("should ignore a failure reported after the payment was captured", async () => {
+    const { payment } = await createOrderAwaitingConfirmation();
+    await sendWebhook(buildPaymentWebhookEvent("payment.captured", payment.gatewayTransactionId));
+
+    const response = await sendWebhook(buildPaymentWebhookEvent("payment.failed", payment.gatewayTransactionId));
+
+    const updatedPayment = await prisma.payment.findUnique({ where: { id: payment.id } });
+    expect(response.status).toBe(httpStatus.OK);
+    expect(updatedPayment.status).toBe(PaymentStatus.CAPTURED);
+  });
+
+  it("should mark the order and its tickets as refunded when a captured payment is refunded", async () => {
+    const { ticket, order, payment } = await createOrderAwaitingConfirmation();
+    await sendWebhook(buildPaymentWebhookEvent("payment.captured", payment.gatewayTransactionId));
+
+    const response = await sendWebhook(buildPaymentWebhookEvent("payment.refunded", payment.gatewayTransactionId));
+
+    const updatedPayment = await prisma.payment.findUnique({ where: { id: payment.id } });
+    const updatedOrder = await prisma.order.findUnique({ where: { id: order.id } });
+    const updatedTicket = await prisma.ticket.findUnique({ where: { id: ticket.id } });
+    expect(response.status).toBe(httpStatus.OK);
+    const refund = await prisma.refund.findFirst({ where: { paymentId: payment.id } });
+    expect(updatedPayment.status).toBe(PaymentStatus.REFUNDED);
+    expect(updatedOrder.status).toBe(OrderStatus.REFUNDED);
+    expect(updatedTicket.status).toBe(TicketStatus.REFUNDED);
+    expect(refund.amount).toBe(payment.value);
+  });
+
+  it("should release the room and activity seats of the attendees of a refunded order", async () => {
+    const { ticket, payment } = await createOrderAwaitingConfirmation();
+    await sendWebhook(buildPaymentWebhookEvent("payment.captured", payment.gatewayTransactionId));
+    const room = await createRoomWithHotelId((await createHotel()).id);
+    await createBooking(ticket.attendeeUserId, room.id);
+    const activity = await createActivity((await createActivityVenue()).id);
+    await createActivitySubscription(ticket.attendeeUserId, activity.id);
+
+    const response = await sendWebhook(buildPaymentWebhookEvent("payment.refunded", payment.gatewayTransactionId));
+
+    expect(response.status).toBe(httpStatus.OK);
+    expect(await prisma.booking.count()).toBe(0);
+    expect(await prisma.activitySubscription.count()).toBe(0);
+  });
+
+  it("should acknowledge events for unknown transactions", async () => {
+    const event = buildPaymentWebhookEvent("payment.captured", "fake_unknown");
+
+    const response = await sendWebhook(event);
+
+    expect(response.status).toBe(httpStatus.OK);
+  });
+});
@@ -1,7 +1,9 @@
 import app, { init } from "@/app";
 import { prisma } from "@/config";
+import { fakeGatewayCards } from "@/utils/payment-gateway";
 import faker from "@faker-js/faker";
-import { TicketStatus } from "@prisma/client";
+import { Event, OrderStatus, PaymentMethod, PaymentStatus, TicketStatus } from "@prisma/client";
+import dayjs from "dayjs";
 import httpStatus from "http-status";
 import * as jwt from "jsonwebtoken";
 import supertest from "supertest";
@@ -12,6 +14,12 @@ import {
   createTicket,
   createPayment,
   generateCreditCardData,
+  createEvent,
+  createMerchandise,
+  createTicketOrder,
+  signPaymentWebhook,
+  buildPaymentWebhookEvent,
+  createCoupon,
 } from "../factories";
 import { cleanDb, generateValidToken } from "../helpers";
 
@@ -19,15 +27,18 @@ beforeAll(async () => {
   await init();
 });
 
+let event: Event;
+
 beforeEach(async () => {
   await cleanDb();
+  event = await createEvent();
 });
 
 const server = supertest(app);
 
 describe("GET /payments", () => {
   it("should respond with status 401 if no token is given", async () => {
-    const response = await server.get("/payments");
+    const response = await server.get(`/events/${event.slug}/payments`);
 
     expect(response.status).toBe(httpStatus.UNAUTHORIZED);
   });
@@ -35,7 +46,7 @@ describe("GET /payments", () => {
   it("should respond with status 401 if given token is not valid", async () => {
     const token = faker.lorem.word();
 
-    const response = await server.get("/payments").set("Authorization", `Bearer ${token}`);
+    const response = await server.get(`/events/${event.slug}/payments`).set("Authorization", `Bearer ${token}`);
 
     expect(response.status).toBe(httpStatus.UNAUTHORIZED);
   });
@@ -44,7 +55,7 @@ describe("GET /payments", () => {
     const userWithoutSession = await createUser();
     const token = jwt.sign({ userId: userWithoutSession.id }, process.env.JWT_SECRET);
 
-    const response = await server.get("/payments").set("Authorization", `Bearer ${token}`);
+    const response = await server.get(`/events/${event.slug}/payments`).set("Authorization", `Bearer ${token}`);
 
     expect(response.status).toBe(httpStatus.UNAUTHORIZED);
   });
@@ -53,7 +64,7 @@ describe("GET /payments", () => {
     it("should respond with status 400 if query param ticketId is missing", async () => {
       const token = await generateValidToken();
 
-      const response = await server.get("/payments").set("Authorization", `Bearer ${token}`);
+      const response = await server.get(`/events/${event.slug}/payments`).set("Authorization", `Bearer ${token}`);
 
       expect(response.status).toEqual(httpStatus.BAD_REQUEST);
     });
@@ -63,7 +74,9 @@ describe("GET /payments", () => {
       const token = await generateValidToken(user);
       await createEnrollmentWithAddress(user);
 
-      const response = await server.get("/payments?ticketId=1").set("Authorization", `Bearer ${token}`);
+      const response = await server
+        .get(`/events/${event.slug}/payments?ticketId=1`)
+        .set("Authorization", `Bearer ${token}`);
 
       expect(response.status).toEqual(httpStatus.NOT_FOUND);
     });
@@ -78,7 +91,9 @@ describe("GET /payments", () => {
       const otherUserEnrollment = await createEnrollmentWithAddress(otherUser);
       const ticket = await createTicket(otherUserEnrollment.id, ticketType.id, TicketStatus.RESERVED);
 
-      const response = await server.get(`/payments?ticketId=${ticket.id}`).set("Authorization", `Bearer ${token}`);
+      const response = await server
+        .get(`/events/${event.slug}/payments?ticketId=${ticket.id}`)
+        .set("Authorization", `Bearer ${token}`);
 
       expect(response.status).toEqual(httpStatus.UNAUTHORIZED);
     });
@@ -92,25 +107,67 @@ describe("GET /payments", () => {
 
       const payment = await createPayment(ticket.id, ticketType.price);
 
-      const response = await server.get(`/payments?ticketId=${ticket.id}`).set("Authorization", `Bearer ${token}`);
+      const response = await server
+        .get(`/events/${event.slug}/payments?ticketId=${ticket.id}`)
+        .set("Authorization", `Bearer ${token}`);
 
       expect(response.status).toEqual(httpStatus.OK);
       expect(response.body).toEqual({
         id: expect.any(Number),
-        ticketId: ticket.id,
+        orderId: expect.any(Number),
         value: ticketType.price,
+        installments: 1,
+        interestAmount: 0,
+        method: "CREDIT_CARD",
         cardIssuer: payment.cardIssuer,
         cardLastDigits: payment.cardLastDigits,
+        pixCode: null,
+        expiresAt: null,
+        status: "CAPTURED",
+        gatewayTransactionId: payment.gatewayTransactionId,
+        failureReason: null,
         createdAt: expect.any(String),
         updatedAt: expect.any(String),
+        PaymentInstallment: [],
       });
     });
+
+    it("should respond with status 200 and with payment data for given order", async () => {
+      const user = await createUser();
+      const token = await generateValidToken(user);
+      const enrollment = await createEnrollmentWithAddress(user);
+      const ticketType = await createTicketType();
+      const ticket = await createTicket(enrollment.id, ticketType.id, TicketStatus.PAID);
+      const payment = await createPayment(ticket.id, ticketType.price);
+
+      const response = await server
+        .get(`/events/${event.slug}/payments?orderId=${payment.orderId}`)
+        .set("Authorization", `Bearer ${token}`);
+
+      expect(response.status).toEqual(httpStatus.OK);
+      expect(response.body).toEqual(expect.objectContaining({ id: payment.id, orderId: payment.orderId }));
+    });
+
+    it("should respond with status 404 when given order belongs to another user", async () => {
+      const token = await generateValidToken();
+      const otherUser = await createUser();
+      const enrollment = await createEnrollmentWithAddress(otherUser);
+      const ticketType = await createTicketType();
+      const ticket = await createTicket(enrollment.id, ticketType.id, TicketStatus.PAID);
+      const payment = await createPayment(ticket.id, ticketType.price);
+
+      const response = await server
+        .get(`/events/${event.slug}/payments?orderId=${payment.orderId}`)
+        .set("Authorization", `Bearer ${token}`);
+
+      expect(response.status).toEqual(httpStatus.NOT_FOUND);
+    });
   });
 });
 
 describe("POST /payments/process", () => {
   it("should respond with status 401 if no token is given", async () => {
-    const response = await server.post("/payments/process");
+    const response = await server.post(`/events/${event.slug}/payments/process`);
 
     expect(response.status).toBe(httpStatus.UNAUTHORIZED);
   });
@@ -118,7 +175,9 @@ describe("POST /payments/process", () => {
   it("should respond with status 401 if given token is not valid", async () => {
     const token = faker.lorem.word();
 
-    const response = await server.post("/payments/process").set("Authorization", `Bearer ${token}`);
+    const response = await server
+      .post(`/events/${event.slug}/payments/process`)
+      .set("Authorization", `Bearer ${token}`);
 
     expect(response.status).toBe(httpStatus.UNAUTHORIZED);
   });
@@ -127,7 +186,9 @@ describe("POST /payments/process", () => {
     const userWithoutSession = await createUser();
     const token = jwt.sign({ userId: userWithoutSession.id }, process.env.JWT_SECRET);
 
-    const response = await server.post("/payments/process").set("Authorization", `Bearer ${token}`);
+    const response = await server
+      .post(`/events/${event.slug}/payments/process`)
+      .set("Authorization", `Bearer ${token}`);
 
     expect(response.status).toBe(httpStatus.UNAUTHORIZED);
   });
@@ -142,7 +203,10 @@ describe("POST /payments/process", () => {
 
       const body = { cardData: generateCreditCardData() };
 
-      const response = await server.post("/payments/process").set("Authorization", `Bearer ${token}`).send(body);
+      const response = await server
+        .post(`/events/${event.slug}/payments/process`)
+        .set("Authorization", `Bearer ${token}`)
+        .send(body);
 
       expect(response.status).toEqual(httpStatus.BAD_REQUEST);
     });
@@ -156,7 +220,10 @@ describe("POST /payments/process", () => {
 
       const body = { ticketId: ticket };
 
-      const response = await server.post("/payments/process").set("Authorization", `Bearer ${token}`).send(body);
+      const response = await server
+        .post(`/events/${event.slug}/payments/process`)
+        .set("Authorization", `Bearer ${token}`)
+        .send(body);
 
       expect(response.status).toEqual(httpStatus.BAD_REQUEST);
     });
@@ -168,7 +235,10 @@ describe("POST /payments/process", () => {
 
       const body = { ticketId: 1, cardData: generateCreditCardData() };
 
-      const response = await server.post("/payments/process").set("Authorization", `Bearer ${token}`).send(body);
+      const response = await server
+        .post(`/events/${event.slug}/payments/process`)
+        .set("Authorization", `Bearer ${token}`)
+        .send(body);
 
       expect(response.status).toEqual(httpStatus.NOT_FOUND);
     });
@@ -185,7 +255,10 @@ describe("POST /payments/process", () => {
 
       const body = { ticketId: ticket.id, cardData: generateCreditCardData() };
 
-      const response = await server.post("/payments/process").set("Authorization", `Bearer ${token}`).send(body);
+      const response = await server
+        .post(`/events/${event.slug}/payments/process`)
+        .set("Authorization", `Bearer ${token}`)
+        .send(body);
 
       expect(response.status).toEqual(httpStatus.UNAUTHORIZED);
     });
@@ -199,15 +272,26 @@ describe("POST /payments/process", () => {
 
       const body = { ticketId: ticket.id, cardData: generateCreditCardData() };
 
-      const response = await server.post("/payments/process").set("Authorization", `Bearer ${token}`).send(body);
+      const response = await server
+        .post(`/events/${event.slug}/payments/process`)
+        .set("Authorization", `Bearer ${token}`)
+        .send(body);
 
       expect(response.status).toEqual(httpStatus.OK);
       expect(response.body).toEqual({
         id: expect.any(Number),
-        ticketId: ticket.id,
+        orderId: expect.any(Number),
         value: ticketType.price,
+        installments: 1,
+        interestAmount: 0,
+        method: "CREDIT_CARD",
         cardIssuer: body.cardData.issuer,
         cardLastDigits: body.cardData.number.slice(-4),
+        pixCode: null,
+        expiresAt: null,
+        status: "CAPTURED",
+        gatewayTransactionId: expect.any(String),
+        failureReason: null,
         createdAt: expect.any(String),
         updatedAt: expect.any(String),
       });
@@ -223,7 +307,7 @@ describe("POST /payments/process", () => {
       const beforeCount = await prisma.payment.count();
 
       const body = { ticketId: ticket.id, cardData: generateCreditCardData() };
-      await server.post("/payments/process").set("Authorization", `Bearer ${token}`).send(body);
+      await server.post(`/events/${event.slug}/payments/process`).set("Authorization", `Bearer ${token}`).send(body);
 
       const afterCount = await prisma.payment.count();
 
@@ -239,11 +323,546 @@ describe("POST /payments/process", () => {
       const ticket = await createTicket(enrollment.id, ticketType.id, TicketStatus.RESERVED);
 
       const body = { ticketId: ticket.id, cardData: generateCreditCardData() };
-      await server.post("/payments/process").set("Authorization", `Bearer ${token}`).send(body);
+      await server.post(`/events/${event.slug}/payments/process`).set("Authorization", `Bearer ${token}`).send(body);
 
       const updatedTicket = await prisma.ticket.findUnique({ where: { id: ticket.id } });
 
       expect(updatedTicket.status).toEqual(TicketStatus.PAID);
     });
+
+    it("should respond with status 409 when ticket has already been paid", async () => {
+      const user = await createUser();
+      const token = await generateValidToken(user);
+      const enrollment = await createEnrollmentWithAddress(user);
+      const ticketType = await createTicketType();
+      const ticket = await createTicket(enrollment.id, ticketType.id, TicketStatus.PAID);
+      await createPayment(ticket.id, ticketType.price);
+
+      const body = { ticketId: ticket.id, cardData: generateCreditCardData() };
+      const response = await server
+        .post(`/events/${event.slug}/payments/process`)
+        .set("Authorization", `Bearer ${token}`)
+        .send(body);
+
+      expect(response.status).toEqual(httpStatus.CONFLICT);
+    });
+
+    describe("when paying for an order", () => {
+      it("should respond with status 404 when order belongs to another user", async () => {
+        const token = await generateValidToken();
+        const otherUser = await createUser();
+        const enrollment = await createEnrollmentWithAddress(otherUser);
+        const ticketType = await createTicketType();
+        const ticket = await createTicket(enrollment.id, ticketType.id, TicketStatus.RESERVED);
+        const order = await createTicketOrder(ticket.id);
+
+        const body = { orderId: order.id, cardData: generateCreditCardData() };
+        const response = await server
+          .post(`/events/${event.slug}/payments/process`)
+          .set("Authorization", `Bearer ${token}`)
+          .send(body);
+
+        expect(response.status).toEqual(httpStatus.NOT_FOUND);
+      });
+
+      it("should charge the order total and mark the order and its tickets as paid", async () => {
+        const user = await createUser();
+        const token = await generateValidToken(user);
+        const enrollment = await createEnrollmentWithAddress(user);
+        const ticketType = await createTicketType();
+        const ticket = await createTicket(enrollment.id, ticketType.id, TicketStatus.RESERVED);
+        const order = await createTicketOrder(ticket.id);
+
+        const body = { orderId: order.id, cardData: generateCreditCardData() };
+        const response = await server
+          .post(`/events/${event.slug}/payments/process`)
+          .set("Authorization", `Bearer ${token}`)
+          .send(body);
+
+        const updatedOrder = await prisma.order.findUnique({ where: { id: order.id } });
+        const updatedTicket = await prisma.ticket.findUnique({ where: { id: ticket.id } });
+        expect(response.status).toEqual(httpStatus.OK);
+        expect(response.body).toEqual(expect.objectContaining({ orderId: order.id, value: order.total }));
+        expect(updatedOrder.status).toEqual("PAID");
+        expect(updatedTicket.status).toEqual(TicketStatus.PAID);
+      });
+
+      it("should grant the hotel upgrade when the order includes one", async () => {
+        const user = await createUser();
+        const token = await generateValidToken(user);
+        const enrollment = await createEnrollmentWithAddress(user);
+        const ticketType = await prisma.ticketType.create({
+          data: {
+            name: faker.name.findName(),
+            price: 200,
+            isRemote: false,
+            includesHotel: false,
+            hotelUpgradePrice: 150,
+            eventId: event.id,
+          },
+        });
+        const ticket = await createTicket(enrollment.id, ticketType.id, TicketStatus.PAID);
+        const merchandise = await createMerchandise(event.id);
+        const orderResponse = await server
+          .post(`/events/${event.slug}/orders`)
+          .set("Authorization", `Bearer ${token}`)
+          .send({
+            items: [
+              { type: "HOTEL_UPGRADE", ticketId: ticket.id },
+              { type: "MERCHANDISE", merchandiseId: merchandise.id, quantity: 2 },
+            ],
+          });
+
+        const body = { orderId: orderResponse.body.id, cardData: generateCreditCardData() };
+        const response = await server
+          .post(`/events/${event.slug}/payments/process`)
+          .set("Authorization", `Bearer ${token}`)
+          .send(body);
+
+        const updatedTicket = await prisma.ticket.findUnique({ where: { id: ticket.id } });
+        expect(response.status).toEqual(httpStatus.OK);
+        expect(response.body.value).toEqual(150 + merchandise.price * 2);
+        expect(updatedTicket.hasHotelUpgrade).toBe(true);
+      });
+
+      it("should respond with status 409 when order has already been paid", async () => {
+        const user = await createUser();
+        const token = await generateValidToken(user);
+        const enrollment = await createEnrollmentWithAddress(user);
+        const ticketType = await createTicketType();
+        const ticket = await createTicket(enrollment.id, ticketType.id, TicketStatus.PAID);
+        const payment = await createPayment(ticket.id, ticketType.price);
+
+        const body = { orderId: payment.orderId, cardData: generateCreditCardData() };
+        const response = await server
+          .post(`/events/${event.slug}/payments/process`)
+          .set("Authorization", `Bearer ${token}`)
+          .send(body);
+
+        expect(response.status).toEqual(httpStatus.CONFLICT);
+      });
+    });
+
+    describe("when the payment gateway does not capture the payment", () => {
+      async function payWithCard(cardNumber: string) {
+        const user = await createUser();
+        const token = await generateValidToken(user);
+        const enrollment = await createEnrollmentWithAddress(user);
+        const ticketType = await createTicketType();
+        const ticket = await createTicket(enrollment.id, ticketType.id, TicketStatus.RESERVED);
+
+        const body = { ticketId: ticket.id, cardData: { ...generateCreditCardData(), number: cardNumber } };
+        const response = await server
+          .post(`/events/${event.slug}/payments/process`)
+          .set("Authorization", `Bearer ${token}`)
+          .send(body);
+
+        return { response, ticket };
+      }
+
+      it("should respond with status 402 and keep the ticket reserved when the card is declined", async () => {
+        const { response, ticket } = await payWithCard(fakeGatewayCards.declined);
+
+        const payment = await prisma.payment.findFirst({});
+        const updatedTicket = await prisma.ticket.findUnique({ where: { id: ticket.id } });
+        expect(response.status).toEqual(httpStatus.PAYMENT_REQUIRED);
+        expect(response.body).toEqual(expect.objectContaining({ reason: "card_declined" }));
+        expect(payment.status).toEqual("FAILED");
+        expect(updatedTicket.status).toEqual(TicketStatus.RESERVED);
+      });
+
+      it("should respond with status 504 and mark the payment as failed when the gateway times out", async () => {
+        const { response, ticket } = await payWithCard(fakeGatewayCards.timeout);
+
+        const payment = await prisma.payment.findFirst({});
+        const updatedTicket = await prisma.ticket.findUnique({ where: { id: ticket.id } });
+        expect(response.status).toEqual(httpStatus.GATEWAY_TIMEOUT);
+        expect(payment).toEqual(expect.objectContaining({ status: "FAILED", failureReason: "gateway_timeout" }));
+        expect(updatedTicket.status).toEqual(TicketStatus.RESERVED);
+      });
+    });
+
+    describe("when an Idempotency-Key header is given", () => {
+      async function createPayableTicket() {
+        const user = await createUser();
+        const token = await generateValidToken(user);
+        const enrollment = await createEnrollmentWithAddress(user);
+        const ticketType = await createTicketType();
+        const ticket = await createTicket(enrollment.id, ticketType.id, TicketStatus.RESERVED);
+
+        return { token, ticket };
+      }
+
+      it("should replay the stored response without charging again", async () => {
+        const { token, ticket } = await createPayableTicket();
+        const body = { ticketId: ticket.id, cardData: generateCreditCardData() };
+        const idempotencyKey = faker.datatype.uuid();
+
+        const firstResponse = await server
+          .post(`/events/${event.slug}/payments/process`)
+          .set("Authorization", `Bearer ${token}`)
+          .set("Idempotency-Key", idempotencyKey)
+          .send(body);
+        const retryResponse = await server
+          .post(`/events/${event.slug}/payments/process`)
+          .set("Authorization", `Bearer ${token}`)
+          .set("Idempotency-Key", idempotencyKey)
+          .send(body);
+
+        const paymentsCount = await prisma.payment.count();
+        expect(firstResponse.status).toEqual(httpStatus.OK);
+        expect(retryResponse.status).toEqual(httpStatus.OK);
+        expect(retryResponse.headers["idempotent-replayed"]).toEqual("true");
+        expect(retryResponse.body).toEqual(firstResponse.body);
+        expect(paymentsCount).toEqual(1);
+      });
+
+      it("should respond with status 422 when the key is reused with a different body", async () => {
+        const { token, ticket } = await createPayableTicket();
+        const idempotencyKey = faker.datatype.uuid();
+
+        await server
+          .post(`/events/${event.slug}/payments/process`)
+          .set("Authorization", `Bearer ${token}`)
+          .set("Idempotency-Key", idempotencyKey)
+          .send({ ticketId: ticket.id, cardData: generateCreditCardData() });
+        const response = await server
+          .post(`/events/${event.slug}/payments/process`)
+          .set("Authorization", `Bearer ${token}`)
+          .set("Idempotency-Key", idempotencyKey)
+          .send({ ticketId: ticket.id, cardData: generateCreditCardData() });
+
+        expect(response.status).toEqual(httpStatus.UNPROCESSABLE_ENTITY);
+      });
+
+      it("should not share keys between users", async () => {
+        const first = await createPayableTicket();
+        const second = await createPayableTicket();
+        const idempotencyKey = faker.datatype.uuid();
+        const cardData = generateCreditCardData();
+
+        await server
+          .post(`/events/${event.slug}/payments/process`)
+          .set("Authorization", `Bearer ${first.token}`)
+          .set("Idempotency-Key", idempotencyKey)
+          .send({ ticketId: first.ticket.id, cardData });
+        const response = await server
+          .post(`/events/${event.slug}/payments/process`)
+          .set("Authorization", `Bearer ${second.token}`)
+          .set("Idempotency-Key", idempotencyKey)
+          .send({ ticketId: second.ticket.id, cardData });
+
+        const paymentsCount = await prisma.payment.count();
+        expect(response.status).toEqual(httpStatus.OK);
+        expect(response.headers["idempotent-replayed"]).toBeUndefined();
+        expect(paymentsCount).toEqual(2);
+      });
+    });
+
+    describe("when paying in installments", () => {
+      async function createTicketWithInstallments() {
+        const user = await createUser();
+        const token = await generateValidToken(user);
+        const enrollment = await createEnrollmentWithAddress(user);
+        const ticketType = await prisma.ticketType.create({
+          data: {
+            name: faker.name.findName(),
+            price: 1000,
+            isRemote: false,
+            includesHotel: false,
+            maxInstallments: 6,
+            interestFreeInstallments: 3,
+            installmentInterestRate: 2,
+            eventId: event.id,
+          },
+        });
+        const ticket = await createTicket(enrollment.id, ticketType.id, TicketStatus.RESERVED);
+
+        return { token, ticket };
+      }
+
+      it("should respond with status 400 when asking for more installments than the ticket type allows", async () => {
+        const { token, ticket } = await createTicketWithInstallments();
+
+        const response = await server
+          .post(`/events/${event.slug}/payments/process`)
+          .set("Authorization", `Bearer ${token}`)
+          .send({ ticketId: ticket.id, cardData: { ...generateCreditCardData(), installments: 7 } });
+
+        const paymentsCount = await prisma.payment.count();
+        expect(response.status).toEqual(httpStatus.BAD_REQUEST);
+        expect(paymentsCount).toEqual(0);
+      });
+
+      it("should split the price without interest up to the interest free installments", async () => {
+        const { token, ticket } = await createTicketWithInstallments();
+
+        const response = await server
+          .post(`/events/${event.slug}/payments/process`)
+          .set("Authorization", `Bearer ${token}`)
+          .send({ ticketId: ticket.id, cardData: { ...generateCreditCardData(), installments: 3 } });
+
+        expect(response.status).toEqual(httpStatus.OK);
+        expect(response.body).toEqual(expect.objectContaining({ value: 1000, installments: 3, interestAmount: 0 }));
+      });
+
+      it("should charge interest beyond them and return the schedule from GET /payments", async () => {
+        const { token, ticket } = await createTicketWithInstallments();
+        await server
+          .post(`/events/${event.slug}/payments/process`)
+          .set("Authorization", `Bearer ${token}`)
+          .send({ ticketId: ticket.id, cardData: { ...generateCreditCardData(), installments: 4 } });
+
+        const response = await server
+          .get(`/events/${event.slug}/payments?ticketId=${ticket.id}`)
+          .set("Authorization", `Bearer ${token}`);
+
+        expect(response.status).toEqual(httpStatus.OK);
+        expect(response.body).toEqual(
+          expect.objectContaining({ value: 1050, installments: 4, interestAmount: 50, status: PaymentStatus.CAPTURED }),
+        );
+        expect(response.body.PaymentInstallment).toEqual([
+          expect.objectContaining({ number: 1, amount: 263 }),
+          expect.objectContaining({ number: 2, amount: 263 }),
+          expect.objectContaining({ number: 3, amount: 262 }),
+          expect.objectContaining({ number: 4, amount: 262 }),
+        ]);
+      });
+    });
+
+    describe("when a coupon code is given", () => {
+      async function createTicketToPay() {
+        const user = await createUser();
+        const token = await generateValidToken(user);
+        const enrollment = await createEnrollmentWithAddress(user);
+        const ticketType = await prisma.ticketType.create({
+          data: { name: faker.name.findName(), price: 500, isRemote: false, includesHotel: false, eventId: event.id },
+        });
+        const ticket = await createTicket(enrollment.id, ticketType.id, TicketStatus.RESERVED);
+
+        return { token, ticket };
+      }
+
+      it("should charge the discounted price and record the coupon", async () => {
+        const { token, ticket } = await createTicketToPay();
+        const coupon = await createCoupon(event.id, { discountValue: 20 });
+
+        const response = await server
+          .post(`/events/${event.slug}/payments/process`)
+          .set("Authorization", `Bearer ${token}`)
+          .send({ ticketId: ticket.id, cardData: generateCreditCardData(), couponCode: coupon.code });
+
+        expect(response.status).toEqual(httpStatus.OK);
+        expect(response.body).toEqual(
+          expect.objectContaining({ value: 400, discountAmount: 100, couponId: coupon.id, status: PaymentStatus.CAPTURED }),
+        );
+      });
+
+      it("should respond with status 400 once the coupon reached its usage limit", async () => {
+        const coupon = await createCoupon(event.id, { maxUses: 1 });
+        const first = await createTicketToPay();
+        const second = await createTicketToPay();
+        await server
+          .post(`/events/${event.slug}/payments/process`)
+          .set("Authorization", `Bearer ${first.token}`)
+          .send({ ticketId: first.ticket.id, cardData: generateCreditCardData(), couponCode: coupon.code });
+
+        const response = await server
+          .post(`/events/${event.slug}/payments/process`)
+          .set("Authorization", `Bearer ${second.token}`)
+          .send({ ticketId: second.ticket.id, cardData: generateCreditCardData(), couponCode: coupon.code });
+
+        const paymentsCount = await prisma.payment.count();
+        expect(response.status).toEqual(httpStatus.BAD_REQUEST);
+        expect(paymentsCount).toEqual(1);
+      });
+
+      it("should redeem the last use of a coupon only once when paid for concurrently", async () => {
+        const coupon = await createCoupon(event.id, { maxUses: 1 });
+        const buyers = [await createTicketToPay(), await createTicketToPay()];
+
+        const responses = await Promise.all(
+          buyers.map(({ token, ticket }) =>
+            server
+              .post(`/events/${event.slug}/payments/process`)
+              .set("Authorization", `Bearer ${token}`)
+              .send({ ticketId: ticket.id, cardData: generateCreditCardData(), couponCode: coupon.code }),
+          ),
+        );
+
+        const redemptionsCount = await prisma.payment.count({ where: { couponId: coupon.id } });
+        expect(responses.map(({ status }) => status).sort()).toEqual([httpStatus.OK, httpStatus.BAD_REQUEST]);
+        expect(redemptionsCount).toEqual(1);
+      });
+    });
+
+    describe("when paying with boleto", () => {
+      it("should respond with status 200 and a pending payment with the barcode and digitable line", async () => {
+        const user = await createUser();
+        const token = await generateValidToken(user);
+        const enrollment = await createEnrollmentWithAddress(user);
+        const ticketType = await createTicketType();
+        const ticket = await createTicket(enrollment.id, ticketType.id, TicketStatus.RESERVED);
+
+        const response = await server
+          .post(`/events/${event.slug}/payments/process`)
+          .set("Authorization", `Bearer ${token}`)
+          .send({ ticketId: ticket.id, paymentMethod: PaymentMethod.BOLETO });
+
+        const updatedTicket = await prisma.ticket.findUnique({ where: { id: ticket.id } });
+        expect(response.status).toEqual(httpStatus.OK);
+        expect(response.body).toEqual(
+          expect.objectContaining({
+            method: PaymentMethod.BOLETO,
+            status: PaymentStatus.PENDING,
+            value: ticketType.price,
+            boletoBarcode: expect.stringMatching(/^[0-9]{44}$/),
+            boletoDigitableLine: expect.stringMatching(/^[0-9]{5}\.[0-9]{5} [0-9]{5}\.[0-9]{6} [0-9]{5}\.[0-9]{6} [0-9] [0-9]{14}$/),
+          }),
+        );
+        expect(response.body.boletoBarcode.slice(9, 19)).toEqual(String(ticketType.price * 100).padStart(10, "0"));
+        expect(dayjs(response.body.expiresAt).isAfter(dayjs().add(2, "days"))).toBe(true);
+        expect(updatedTicket.status).toEqual(TicketStatus.RESERVED);
+      });
+    });
+
+    describe("when paying with PIX", () => {
+      async function payWithPix() {
+        const user = await createUser();
+        const token = await generateValidToken(user);
+        const enrollment = await createEnrollmentWithAddress(user);
+        const ticketType = await createTicketType();
+        const ticket = await createTicket(enrollment.id, ticketType.id, TicketStatus.RESERVED);
+
+        const response = await server
+          .post(`/events/${event.slug}/payments/process`)
+          .set("Authorization", `Bearer ${token}`)
+          .send({ ticketId: ticket.id, paymentMethod: PaymentMethod.PIX });
+
+        return { response, token, ticket, ticketType };
+      }
+
+      it("should respond with status 200 and a pending payment with the BR Code and its QR code", async () => {
+        const { response, ticket, ticketType } = await payWithPix();
+
+        const updatedTicket = await prisma.ticket.findUnique({ where: { id: ticket.id } });
+        expect(response.status).toEqual(httpStatus.OK);
+        expect(response.body).toEqual(
+          expect.objectContaining({
+            method: PaymentMethod.PIX,
+            status: PaymentStatus.PENDING,
+            value: ticketType.price,
+            cardIssuer: null,
+            pixCode: expect.stringMatching(/^000201.*br\.gov\.bcb\.pix.*6304[0-9A-F]{4}$/),
+            pixQrCode: expect.stringMatching(/^data:image\/png;base64,/),
+            expiresAt: expect.any(String),
+          }),
+        );
+        expect(dayjs(response.body.expiresAt).isAfter(dayjs())).toBe(true);
+        expect(updatedTicket.status).toEqual(TicketStatus.RESERVED);
+      });
+
+      it("should respond with status 409 while the PIX charge is awaiting payment", async () => {
+        const { token, ticket } = await payWithPix();
+
+        const response = await server
+          .post(`/events/${event.slug}/payments/process`)
+          .set("Authorization", `Bearer ${token}`)
+          .send({ ticketId: ticket.id, paymentMethod: PaymentMethod.PIX });
+
+        expect(response.status).toEqual(httpStatus.CONFLICT);
+      });
+
+      it("should expire an overdue PIX charge and accept a new payment", async () => {
+        const { response: pixResponse, token, ticket } = await payWithPix();
+        await prisma.payment.update({
+          where: { id: pixResponse.body.id },
+          data: { expiresAt: dayjs().subtract(1, "minute").toDate() },
+        });
+
+        const response = await server
+          .post(`/events/${event.slug}/payments/process`)
+          .set("Authorization", `Bearer ${token}`)
+          .send({ ticketId: ticket.id, cardData: generateCreditCardData() });
+
+        const expiredPayment = await prisma.payment.findUnique({ where: { id: pixResponse.body.id } });
+        expect(response.status).toEqual(httpStatus.OK);
+        expect(expiredPayment.status).toEqual(PaymentStatus.EXPIRED);
+      });
+
+      it("should mark the ticket as paid when the provider reports the PIX transfer", async () => {
+        const { response: pixResponse, ticket } = await payWithPix();
+        const webhookEvent = buildPaymentWebhookEvent("payment.captured", pixResponse.body.gatewayTransactionId);
+        const { payload, signature } = signPaymentWebhook(webhookEvent);
+
+        const response = await server
+          .post("/payments/webhooks/fake")
+          .set("Content-Type", "application/json")
+          .set("Webhook-Signature", signature)
+          .send(payload);
+
+        const payment = await prisma.payment.findUnique({ where: { id: pixResponse.body.id } });
+        const updatedTicket = await prisma.ticket.findUnique({ where: { id: ticket.id } });
+        expect(response.status).toEqual(httpStatus.OK);
+        expect(payment.status).toEqual(PaymentStatus.CAPTURED);
+        expect(updatedTicket.status).toEqual(TicketStatus.PAID);
+      });
+    });
+  });
+});
+
+describe("POST /payments/:paymentId/pix/simulate", () => {
+  async function createPixPayment() {
+    const user = await createUser();
+    const token = await generateValidToken(user);
+    const enrollment = await createEnrollmentWithAddress(user);
+    const ticketType = await createTicketType();
+    const ticket = await createTicket(enrollment.id, ticketType.id, TicketStatus.RESERVED);
+    const response = await server
+      .post(`/events/${event.slug}/payments/process`)
+      .set("Authorization", `Bearer ${token}`)
+      .send({ ticketId: ticket.id, paymentMethod: PaymentMethod.PIX });
+
+    return { payment: response.body, token, ticket };
+  }
+
+  it("should respond with status 404 when payment belongs to another user", async () => {
+    const { payment } = await createPixPayment();
+    const token = await generateValidToken();
+
+    const response = await server
+      .post(`/events/${event.slug}/payments/${payment.id}/pix/simulate`)
+      .set("Authorization", `Bearer ${token}`);
+
+    expect(response.status).toEqual(httpStatus.NOT_FOUND);
+  });
+
+  it("should respond with status 200 and settle the order", async () => {
+    const { payment, token, ticket } = await createPixPayment();
+
+    const response = await server
+      .post(`/events/${event.slug}/payments/${payment.id}/pix/simulate`)
+      .set("Authorization", `Bearer ${token}`);
+
+    const order = await prisma.order.findUnique({ where: { id: payment.orderId } });
+    const updatedTicket = await prisma.ticket.findUnique({ where: { id: ticket.id } });
+    expect(response.status).toEqual(httpStatus.OK);
+    expect(response.body).toEqual(expect.objectContaining({ id: payment.id, status: PaymentStatus.CAPTURED }));
+    expect(order.status).toEqual(OrderStatus.PAID);
+    expect(updatedTicket.status).toEqual(TicketStatus.PAID);
+  });
+
+  it("should respond with status 409 when the PIX charge has expired", async () => {
+    const { payment, token } = await createPixPayment();
+    await prisma.payment.update({
+      where: { id: payment.id },
+      data: { expiresAt: dayjs().subtract(1, "minute").toDate() },
+    });
+
+    const response = await server
+      .post(`/events/${event.slug}/payments/${payment.id}/pix/simulate`)
+      .set("Authorization", `Bearer ${token}`);
+
+    expect(response.status).toEqual(httpStatus.CONFLICT);
   });
 });
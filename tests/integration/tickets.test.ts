@@ -1,26 +1,66 @@
 import app, { init } from "@/app";
 import { prisma } from "@/config";
 import faker from "@faker-js/faker";
-import { TicketStatus } from "@prisma/client";
+import { DiscountType, Event, OrderStatus, PaymentStatus, TicketStatus, TicketType } from "@prisma/client";
+import dayjs from "dayjs";
 import httpStatus from "http-status";
 import * as jwt from "jsonwebtoken";
 import supertest from "supertest";
-import { createEnrollmentWithAddress, createUser, createTicketType, createTicket } from "../factories";
+import { MailMessage, setMailTransport } from "@/utils/mailer";
+import { hashOpaqueToken } from "@/utils/token-utils";
+import { generateCPF } from "@brazilian-utils/brazilian-utils";
+import {
+  createEnrollmentWithAddress,
+  createUser,
+  createTicketType,
+  createTicket,
+  createCompanionTicket,
+  createEvent,
+  createHotel,
+  createRoomWithHotelId,
+  createBooking,
+  createTicketTypeWithHotel,
+  createTicketOrder,
+  generateCreditCardData,
+  createCoupon,
+  createActivityVenue,
+  createActivity,
+  createActivitySubscription,
+} from "../factories";
 import { cleanDb, generateValidToken } from "../helpers";
 
 beforeAll(async () => {
   await init();
 });
 
+let event: Event;
+
+let sentMails: MailMessage[];
+
 beforeEach(async () => {
   await cleanDb();
+  event = await createEvent();
+  sentMails = [];
+  setMailTransport({
+    send: async (message) => {
+      sentMails.push(message);
+    },
+  });
 });
 
+function generateAttendee() {
+  return {
+    name: faker.name.findName(),
+    cpf: generateCPF(),
+    email: faker.internet.email(),
+  };
+}
+
 const server = supertest(app);
 
 describe("GET /tickets/types", () => {
   it("should respond with status 401 if no token is given", async () => {
-    const response = await server.get("/tickets/types");
+    const response = await server.get(`/events/${event.slug}/tickets/types`);
 
     expect(response.status).toBe(httpStatus.UNAUTHORIZED);
   });
@@ -28,7 +68,7 @@ describe("GET /tickets/types", () => {
   it("should respond with status 401 if given token is not valid", async () => {
     const token = faker.lorem.word();
 
-    const response = await server.get("/tickets/types").set("Authorization", `Bearer ${token}`);
+    const response = await server.get(`/events/${event.slug}/tickets/types`).set("Authorization", `Bearer ${token}`);
 
     expect(response.status).toBe(httpStatus.UNAUTHORIZED);
   });
@@ -37,7 +77,7 @@ describe("GET /tickets/types", () => {
     const userWithoutSession = await createUser();
     const token = jwt.sign({ userId: userWithoutSession.id }, process.env.JWT_SECRET);
 
-    const response = await server.get("/tickets/types").set("Authorization", `Bearer ${token}`);
+    const response = await server.get(`/events/${event.slug}/tickets/types`).set("Authorization", `Bearer ${token}`);
 
     expect(response.status).toBe(httpStatus.UNAUTHORIZED);
   });
@@ -46,8 +86,27 @@ describe("GET /tickets/types", () => {
     it("should respond with empty array when there are no ticket types created", async () => {
       const token = await generateValidToken();
 
-      const response = await server.get("/tickets/types").set("Authorization", `Bearer ${token}`);
+      const response = await server.get(`/events/${event.slug}/tickets/types`).set("Authorization", `Bearer ${token}`);
+
+      expect(response.body).toEqual([]);
+    });
+
+    it("should respond with status 404 when there is no event for given slug", async () => {
+      const token = await generateValidToken();
 
+      const response = await server.get("/events/no-event/tickets/types").set("Authorization", `Bearer ${token}`);
+
+      expect(response.status).toEqual(httpStatus.NOT_FOUND);
+    });
+
+    it("should not list ticket types from other events", async () => {
+      const token = await generateValidToken();
+      const otherEvent = await createEvent();
+      await createTicketType(otherEvent.id);
+
+      const response = await server.get(`/events/${event.slug}/tickets/types`).set("Authorization", `Bearer ${token}`);
+
+      expect(response.status).toBe(httpStatus.OK);
       expect(response.body).toEqual([]);
     });
 
@@ -56,7 +115,7 @@ describe("GET /tickets/types", () => {
 
       const ticketType = await createTicketType();
 
-      const response = await server.get("/tickets/types").set("Authorization", `Bearer ${token}`);
+      const response = await server.get(`/events/${event.slug}/tickets/types`).set("Authorization", `Bearer ${token}`);
 
       expect(response.status).toBe(httpStatus.OK);
       expect(response.body).toEqual([
@@ -66,17 +125,62 @@ describe("GET /tickets/types", () => {
           price: ticketType.price,
           isRemote: ticketType.isRemote,
           includesHotel: ticketType.includesHotel,
+          hotelUpgradePrice: null,
+          maxInstallments: 1,
+          interestFreeInstallments: 1,
+          installmentInterestRate: 0,
+          stock: null,
+          maxPerUser: null,
+          salesStartAt: null,
+          salesEndAt: null,
+          eventId: event.id,
           createdAt: ticketType.createdAt.toISOString(),
           updatedAt: ticketType.updatedAt.toISOString(),
+          remainingStock: null,
+          isOnSale: true,
         },
       ]);
     });
+
+    it("should respond with the remaining stock, not counting cancelled tickets", async () => {
+      const token = await generateValidToken();
+      const ticketType = await prisma.ticketType.create({
+        data: { name: faker.name.findName(), price: 300, isRemote: false, includesHotel: false, stock: 5, eventId: event.id },
+      });
+      const enrollment = await createEnrollmentWithAddress();
+      await createTicket(enrollment.id, ticketType.id, TicketStatus.PAID);
+      await createCompanionTicket(enrollment.id, ticketType.id, TicketStatus.RESERVED);
+      await createCompanionTicket(enrollment.id, ticketType.id, TicketStatus.CANCELLED);
+
+      const response = await server.get(`/events/${event.slug}/tickets/types`).set("Authorization", `Bearer ${token}`);
+
+      expect(response.status).toBe(httpStatus.OK);
+      expect(response.body).toEqual([expect.objectContaining({ id: ticketType.id, stock: 5, remainingStock: 3 })]);
+    });
+
+    it("should tell ticket types outside their sales window apart", async () => {
+      const token = await generateValidToken();
+      const ticketType = await prisma.ticketType.create({
+        data: {
+          name: faker.name.findName(),
+          price: 300,
+          isRemote: false,
+          includesHotel: false,
+          salesEndAt: dayjs().subtract(1, "day").toDate(),
+          eventId: event.id,
+        },
+      });
+
+      const response = await server.get(`/events/${event.slug}/tickets/types`).set("Authorization", `Bearer ${token}`);
+
+      expect(response.body).toEqual([expect.objectContaining({ id: ticketType.id, isOnSale: false })]);
+    });
   });
 });
 
 describe("GET /tickets", () => {
   it("should respond with status 401 if no token is given", async () => {
-    const response = await server.get("/tickets");
+    const response = await server.get(`/events/${event.slug}/tickets`);
 
     expect(response.status).toBe(httpStatus.UNAUTHORIZED);
   });
@@ -84,7 +188,7 @@ describe("GET /tickets", () => {
   it("should respond with status 401 if given token is not valid", async () => {
     const token = faker.lorem.word();
 
-    const response = await server.get("/tickets").set("Authorization", `Bearer ${token}`);
+    const response = await server.get(`/events/${event.slug}/tickets`).set("Authorization", `Bearer ${token}`);
 
     expect(response.status).toBe(httpStatus.UNAUTHORIZED);
   });
@@ -93,7 +197,7 @@ describe("GET /tickets", () => {
     const userWithoutSession = await createUser();
     const token = jwt.sign({ userId: userWithoutSession.id }, process.env.JWT_SECRET);
 
-    const response = await server.get("/tickets").set("Authorization", `Bearer ${token}`);
+    const response = await server.get(`/events/${event.slug}/tickets`).set("Authorization", `Bearer ${token}`);
 
     expect(response.status).toBe(httpStatus.UNAUTHORIZED);
   });
@@ -102,7 +206,7 @@ describe("GET /tickets", () => {
     it("should respond with status 404 when user doesnt have an enrollment yet", async () => {
       const token = await generateValidToken();
 
-      const response = await server.get("/tickets").set("Authorization", `Bearer ${token}`);
+      const response = await server.get(`/events/${event.slug}/tickets`).set("Authorization", `Bearer ${token}`);
 
       expect(response.status).toEqual(httpStatus.NOT_FOUND);
     });
@@ -112,11 +216,26 @@ describe("GET /tickets", () => {
       const token = await generateValidToken(user);
       await createEnrollmentWithAddress(user);
 
-      const response = await server.get("/tickets").set("Authorization", `Bearer ${token}`);
+      const response = await server.get(`/events/${event.slug}/tickets`).set("Authorization", `Bearer ${token}`);
 
       expect(response.status).toEqual(httpStatus.NOT_FOUND);
     });
 
+    it("should respond with the ticket the user attends with, even when bought by someone else", async () => {
+      const buyer = await createUser();
+      const buyerEnrollment = await createEnrollmentWithAddress(buyer);
+      const ticketType = await createTicketType();
+      const companionTicket = await createCompanionTicket(buyerEnrollment.id, ticketType.id, TicketStatus.PAID);
+      const companion = await createUser();
+      const token = await generateValidToken(companion);
+      await prisma.ticket.update({ where: { id: companionTicket.id }, data: { attendeeUserId: companion.id } });
+
+      const response = await server.get(`/events/${event.slug}/tickets`).set("Authorization", `Bearer ${token}`);
+
+      expect(response.status).toEqual(httpStatus.OK);
+      expect(response.body.id).toBe(companionTicket.id);
+    });
+
     it("should respond with status 200 and with ticket data", async () => {
       const user = await createUser();
       const token = await generateValidToken(user);
@@ -124,7 +243,7 @@ describe("GET /tickets", () => {
       const ticketType = await createTicketType();
       const ticket = await createTicket(enrollment.id, ticketType.id, TicketStatus.RESERVED);
 
-      const response = await server.get("/tickets").set("Authorization", `Bearer ${token}`);
+      const response = await server.get(`/events/${event.slug}/tickets`).set("Authorization", `Bearer ${token}`);
 
       expect(response.status).toEqual(httpStatus.OK);
       expect(response.body).toEqual({
@@ -132,25 +251,60 @@ describe("GET /tickets", () => {
         status: ticket.status,
         ticketTypeId: ticket.ticketTypeId,
         enrollmentId: ticket.enrollmentId,
+        attendeeName: enrollment.name,
+        attendeeCpf: enrollment.cpf,
+        attendeeEmail: user.email,
+        attendeeUserId: user.id,
+        hasHotelUpgrade: false,
         TicketType: {
           id: ticketType.id,
           name: ticketType.name,
           price: ticketType.price,
           isRemote: ticketType.isRemote,
           includesHotel: ticketType.includesHotel,
+          hotelUpgradePrice: null,
+          maxInstallments: 1,
+          interestFreeInstallments: 1,
+          installmentInterestRate: 0,
+          stock: null,
+          maxPerUser: null,
+          salesStartAt: null,
+          salesEndAt: null,
+          eventId: event.id,
           createdAt: ticketType.createdAt.toISOString(),
           updatedAt: ticketType.updatedAt.toISOString(),
         },
+        reservedUntil: null,
+        cancelledAt: null,
         createdAt: ticket.createdAt.toISOString(),
         updatedAt: ticket.updatedAt.toISOString(),
+        secondsLeftToPay: null,
       });
     });
+
+    it("should respond with the time left to pay for a reserved ticket", async () => {
+      const user = await createUser();
+      const token = await generateValidToken(user);
+      const enrollment = await createEnrollmentWithAddress(user);
+      const ticketType = await createTicketType();
+      const ticket = await createTicket(enrollment.id, ticketType.id, TicketStatus.RESERVED);
+      await prisma.ticket.update({
+        where: { id: ticket.id },
+        data: { reservedUntil: dayjs().add(10, "minutes").toDate() },
+      });
+
+      const response = await server.get(`/events/${event.slug}/tickets`).set("Authorization", `Bearer ${token}`);
+
+      expect(response.status).toEqual(httpStatus.OK);
+      expect(response.body.secondsLeftToPay).toBeGreaterThan(590);
+      expect(response.body.secondsLeftToPay).toBeLessThanOrEqual(600);
+    });
   });
 });
 
 describe("POST /tickets", () => {
   it("should respond with status 401 if no token is given", async () => {
-    const response = await server.post("/tickets");
+    const response = await server.post(`/events/${event.slug}/tickets`);
 
     expect(response.status).toBe(httpStatus.UNAUTHORIZED);
   });
@@ -158,7 +312,7 @@ describe("POST /tickets", () => {
   it("should respond with status 401 if given token is not valid", async () => {
     const token = faker.lorem.word();
 
-    const response = await server.post("/tickets").set("Authorization", `Bearer ${token}`);
+    const response = await server.post(`/events/${event.slug}/tickets`).set("Authorization", `Bearer ${token}`);
 
     expect(response.status).toBe(httpStatus.UNAUTHORIZED);
   });
@@ -167,7 +321,7 @@ describe("POST /tickets", () => {
     const userWithoutSession = await createUser();
     const token = jwt.sign({ userId: userWithoutSession.id }, process.env.JWT_SECRET);
 
-    const response = await server.post("/tickets").set("Authorization", `Bearer ${token}`);
+    const response = await server.post(`/events/${event.slug}/tickets`).set("Authorization", `Bearer ${token}`);
 
     expect(response.status).toBe(httpStatus.UNAUTHORIZED);
   });
@@ -179,18 +333,51 @@ describe("POST /tickets", () => {
       await createEnrollmentWithAddress(user);
       await createTicketType();
 
-      const response = await server.post("/tickets").set("Authorization", `Bearer ${token}`).send({});
+      const response = await server
+        .post(`/events/${event.slug}/tickets`)
+        .set("Authorization", `Bearer ${token}`)
+        .send({});
 
       expect(response.status).toEqual(httpStatus.BAD_REQUEST);
     });
 
+    it("should respond with status 403 and UnverifiedEmailError when user email is not verified", async () => {
+      const user = await createUser({ emailVerifiedAt: null });
+      const token = await generateValidToken(user);
+      await createEnrollmentWithAddress(user);
+      const ticketType = await createTicketType();
+
+      const response = await server
+        .post(`/events/${event.slug}/tickets`)
+        .set("Authorization", `Bearer ${token}`)
+        .send({ ticketTypeId: ticketType.id });
+
+      expect(response.status).toEqual(httpStatus.FORBIDDEN);
+      expect(response.body.name).toBe("UnverifiedEmailError");
+    });
+
     it("should respond with status 404 when user doesnt have enrollment yet", async () => {
       const user = await createUser();
       const token = await generateValidToken(user);
       const ticketType = await createTicketType();
 
       const response = await server
-        .post("/tickets")
+        .post(`/events/${event.slug}/tickets`)
+        .set("Authorization", `Bearer ${token}`)
+        .send({ ticketTypeId: ticketType.id });
+
+      expect(response.status).toEqual(httpStatus.NOT_FOUND);
+    });
+
+    it("should respond with status 404 when ticket type belongs to another event", async () => {
+      const user = await createUser();
+      const token = await generateValidToken(user);
+      await createEnrollmentWithAddress(user);
+      const otherEvent = await createEvent();
+      const ticketType = await createTicketType(otherEvent.id);
+
+      const response = await server
+        .post(`/events/${event.slug}/tickets`)
         .set("Authorization", `Bearer ${token}`)
         .send({ ticketTypeId: ticketType.id });
 
@@ -204,7 +391,7 @@ describe("POST /tickets", () => {
       const ticketType = await createTicketType();
 
       const response = await server
-        .post("/tickets")
+        .post(`/events/${event.slug}/tickets`)
         .set("Authorization", `Bearer ${token}`)
         .send({ ticketTypeId: ticketType.id });
 
@@ -214,18 +401,35 @@ describe("POST /tickets", () => {
         status: TicketStatus.RESERVED,
         ticketTypeId: ticketType.id,
         enrollmentId: enrollment.id,
+        attendeeName: enrollment.name,
+        attendeeCpf: enrollment.cpf,
+        attendeeEmail: user.email,
+        attendeeUserId: user.id,
+        hasHotelUpgrade: false,
         TicketType: {
           id: ticketType.id,
           name: ticketType.name,
           price: ticketType.price,
           isRemote: ticketType.isRemote,
           includesHotel: ticketType.includesHotel,
+          hotelUpgradePrice: null,
+          maxInstallments: 1,
+          interestFreeInstallments: 1,
+          installmentInterestRate: 0,
+          stock: null,
+          maxPerUser: null,
+          salesStartAt: null,
+          salesEndAt: null,
+          eventId: event.id,
           createdAt: ticketType.createdAt.toISOString(),
           updatedAt: ticketType.updatedAt.toISOString(),
         },
+        reservedUntil: expect.any(String),
+        cancelledAt: null,
         createdAt: expect.any(String),
         updatedAt: expect.any(String),
       });
+      expect(dayjs(response.body.reservedUntil).diff(dayjs(), "minute")).toBeGreaterThanOrEqual(29);
     });
 
     it("should insert a new ticket in the database", async () => {
@@ -236,7 +440,10 @@ describe("POST /tickets", () => {
 
       const beforeCount = await prisma.ticket.count();
 
-      await server.post("/tickets").set("Authorization", `Bearer ${token}`).send({ ticketTypeId: ticketType.id });
+      await server
+        .post(`/events/${event.slug}/tickets`)
+        .set("Authorization", `Bearer ${token}`)
+        .send({ ticketTypeId: ticketType.id });
 
       const afterCount = await prisma.ticket.count();
 
@@ -245,3 +452,739 @@ describe("POST /tickets", () => {
     });
   });
 });
+
+describe("POST /tickets with several attendees", () => {
+  it("should respond with status 400 when an attendee is not valid", async () => {
+    const user = await createUser();
+    const token = await generateValidToken(user);
+    await createEnrollmentWithAddress(user);
+    const ticketType = await createTicketType();
+
+    const response = await server
+      .post(`/events/${event.slug}/tickets`)
+      .set("Authorization", `Bearer ${token}`)
+      .send({ tickets: [{ ticketTypeId: ticketType.id, attendee: { name: "Jo", cpf: "123", email: "none" } }] });
+
+    expect(response.status).toEqual(httpStatus.BAD_REQUEST);
+  });
+
+  it("should respond with status 400 when more than one ticket is left to the buyer", async () => {
+    const user = await createUser();
+    const token = await generateValidToken(user);
+    await createEnrollmentWithAddress(user);
+    const ticketType = await createTicketType();
+
+    const response = await server
+      .post(`/events/${event.slug}/tickets`)
+      .set("Authorization", `Bearer ${token}`)
+      .send({ tickets: [{ ticketTypeId: ticketType.id }, { ticketTypeId: ticketType.id }] });
+
+    expect(response.status).toEqual(httpStatus.BAD_REQUEST);
+  });
+
+  it("should respond with status 409 when the buyer already has a ticket", async () => {
+    const user = await createUser();
+    const token = await generateValidToken(user);
+    const enrollment = await createEnrollmentWithAddress(user);
+    const ticketType = await createTicketType();
+    await createTicket(enrollment.id, ticketType.id, TicketStatus.RESERVED);
+
+    const response = await server
+      .post(`/events/${event.slug}/tickets`)
+      .set("Authorization", `Bearer ${token}`)
+      .send({ ticketTypeId: ticketType.id });
+
+    expect(response.status).toEqual(httpStatus.CONFLICT);
+  });
+
+  it("should respond with status 201, create every ticket and mail companions a claim link", async () => {
+    const user = await createUser();
+    const token = await generateValidToken(user);
+    const enrollment = await createEnrollmentWithAddress(user);
+    const ticketType = await createTicketType();
+    const attendee = generateAttendee();
+
+    const response = await server
+      .post(`/events/${event.slug}/tickets`)
+      .set("Authorization", `Bearer ${token}`)
+      .send({ tickets: [{ ticketTypeId: ticketType.id }, { ticketTypeId: ticketType.id, attendee }] });
+
+    expect(response.status).toEqual(httpStatus.CREATED);
+    expect(response.body).toEqual([
+      expect.objectContaining({ enrollmentId: enrollment.id, attendeeUserId: user.id }),
+      expect.objectContaining({
+        enrollmentId: enrollment.id,
+        attendeeName: attendee.name,
+        attendeeCpf: attendee.cpf,
+        attendeeEmail: attendee.email,
+        attendeeUserId: null,
+      }),
+    ]);
+    expect(response.body[1]).not.toHaveProperty("claimTokenHash");
+    expect(sentMails).toHaveLength(1);
+    expect(sentMails[0].to).toBe(attendee.email);
+  });
+});
+
+describe("POST /tickets with ticket type limits", () => {
+  async function createLimitedTicketType(limits: Partial<TicketType>) {
+    return prisma.ticketType.create({
+      data: { name: faker.name.findName(), price: 300, isRemote: false, includesHotel: false, eventId: event.id, ...limits },
+    });
+  }
+
+  async function createBuyer() {
+    const user = await createUser();
+    const token = await generateValidToken(user);
+    const enrollment = await createEnrollmentWithAddress(user);
+
+    return { user, token, enrollment };
+  }
+
+  it("should respond with status 409 when sales have not started yet", async () => {
+    const { token } = await createBuyer();
+    const ticketType = await createLimitedTicketType({ salesStartAt: dayjs().add(1, "day").toDate() });
+
+    const response = await server
+      .post(`/events/${event.slug}/tickets`)
+      .set("Authorization", `Bearer ${token}`)
+      .send({ ticketTypeId: ticketType.id });
+
+    expect(response.status).toEqual(httpStatus.CONFLICT);
+    expect(response.body.message).toBe("Sales for this ticket type have not started yet");
+  });
+
+  it("should respond with status 409 when sales have ended", async () => {
+    const { token } = await createBuyer();
+    const ticketType = await createLimitedTicketType({ salesEndAt: dayjs().subtract(1, "minute").toDate() });
+
+    const response = await server
+      .post(`/events/${event.slug}/tickets`)
+      .set("Authorization", `Bearer ${token}`)
+      .send({ ticketTypeId: ticketType.id });
+
+    expect(response.status).toEqual(httpStatus.CONFLICT);
+    expect(response.body.message).toBe("Sales for this ticket type have ended");
+  });
+
+  it("should respond with status 409 when the ticket type is sold out", async () => {
+    const { token } = await createBuyer();
+    const other = await createBuyer();
+    const ticketType = await createLimitedTicketType({ stock: 1 });
+    await createTicket(other.enrollment.id, ticketType.id, TicketStatus.PAID);
+
+    const response = await server
+      .post(`/events/${event.slug}/tickets`)
+      .set("Authorization", `Bearer ${token}`)
+      .send({ ticketTypeId: ticketType.id });
+
+    expect(response.status).toEqual(httpStatus.CONFLICT);
+    expect(response.body.message).toBe("This ticket type is sold out");
+  });
+
+  it("should give the stock of cancelled tickets back", async () => {
+    const { token } = await createBuyer();
+    const other = await createBuyer();
+    const ticketType = await createLimitedTicketType({ stock: 1 });
+    await createTicket(other.enrollment.id, ticketType.id, TicketStatus.CANCELLED);
+
+    const response = await server
+      .post(`/events/${event.slug}/tickets`)
+      .set("Authorization", `Bearer ${token}`)
+      .send({ ticketTypeId: ticketType.id });
+
+    expect(response.status).toEqual(httpStatus.CREATED);
+  });
+
+  it("should respond with status 409 and create nothing when buying more than the per user limit", async () => {
+    const { token } = await createBuyer();
+    const ticketType = await createLimitedTicketType({ maxPerUser: 2 });
+
+    const response = await server
+      .post(`/events/${event.slug}/tickets`)
+      .set("Authorization", `Bearer ${token}`)
+      .send({
+        tickets: [
+          { ticketTypeId: ticketType.id },
+          { ticketTypeId: ticketType.id, attendee: generateAttendee() },
+          { ticketTypeId: ticketType.id, attendee: generateAttendee() },
+        ],
+      });
+
+    expect(response.status).toEqual(httpStatus.CONFLICT);
+    expect(await prisma.ticket.count()).toBe(0);
+    expect(sentMails).toHaveLength(0);
+  });
+
+  it("should sell the last ticket only once to concurrent buyers", async () => {
+    const buyers = await Promise.all([createBuyer(), createBuyer(), createBuyer()]);
+    const ticketType = await createLimitedTicketType({ stock: 1 });
+
+    const responses = await Promise.all(
+      buyers.map(({ token }) =>
+        server
+          .post(`/events/${event.slug}/tickets`)
+          .set("Authorization", `Bearer ${token}`)
+          .send({ ticketTypeId: ticketType.id }),
+      ),
+    );
+
+    const statuses = responses.map((response) => response.status).sort();
+    expect(statuses).toEqual([httpStatus.CREATED, httpStatus.CONFLICT, httpStatus.CONFLICT]);
+    expect(await prisma.ticket.count({ where: { ticketTypeId: ticketType.id } })).toBe(1);
+  });
+});
+
+describe("GET /tickets/purchased", () => {
+  it("should respond with status 404 when user has no enrollment", async () => {
+    const token = await generateValidToken();
+
+    const response = await server
+      .get(`/events/${event.slug}/tickets/purchased`)
+      .set("Authorization", `Bearer ${token}`);
+
+    expect(response.status).toEqual(httpStatus.NOT_FOUND);
+  });
+
+  it("should respond with status 200 and every ticket bought by the user", async () => {
+    const user = await createUser();
+    const token = await generateValidToken(user);
+    const enrollment = await createEnrollmentWithAddress(user);
+    const ticketType = await createTicketType();
+    const ownTicket = await createTicket(enrollment.id, ticketType.id, TicketStatus.RESERVED);
+    const companionTicket = await createCompanionTicket(enrollment.id, ticketType.id, TicketStatus.RESERVED);
+
+    const response = await server
+      .get(`/events/${event.slug}/tickets/purchased`)
+      .set("Authorization", `Bearer ${token}`);
+
+    expect(response.status).toEqual(httpStatus.OK);
+    expect(response.body.map((ticket: { id: number }) => ticket.id)).toEqual([ownTicket.id, companionTicket.id]);
+  });
+});
+
+describe("POST /tickets/claim", () => {
+  async function createClaimableTicket() {
+    const buyer = await createUser();
+    const enrollment = await createEnrollmentWithAddress(buyer);
+    const ticketType = await createTicketType();
+    const claimToken = faker.datatype.uuid();
+    const ticket = await createCompanionTicket(
+      enrollment.id,
+      ticketType.id,
+      TicketStatus.PAID,
+      hashOpaqueToken(claimToken),
+    );
+
+    return { ticket, claimToken };
+  }
+
+  it("should respond with status 404 when token is unknown", async () => {
+    const token = await generateValidToken();
+
+    const response = await server
+      .post(`/events/${event.slug}/tickets/claim`)
+      .set("Authorization", `Bearer ${token}`)
+      .send({ token: faker.datatype.uuid() });
+
+    expect(response.status).toEqual(httpStatus.NOT_FOUND);
+  });
+
+  it("should respond with status 200 and assign the ticket to the user", async () => {
+    const { ticket, claimToken } = await createClaimableTicket();
+    const companion = await createUser();
+    const token = await generateValidToken(companion);
+
+    const response = await server
+      .post(`/events/${event.slug}/tickets/claim`)
+      .set("Authorization", `Bearer ${token}`)
+      .send({ token: claimToken });
+
+    expect(response.status).toEqual(httpStatus.OK);
+    const claimedTicket = await prisma.ticket.findUnique({ where: { id: ticket.id } });
+    expect(claimedTicket.attendeeUserId).toBe(companion.id);
+    expect(claimedTicket.claimTokenHash).toBeNull();
+  });
+
+  it("should respond with status 409 when the user already has a ticket for the event", async () => {
+    const { claimToken } = await createClaimableTicket();
+    const companion = await createUser();
+    const token = await generateValidToken(companion);
+    const enrollment = await createEnrollmentWithAddress(companion);
+    const ticketType = await createTicketType();
+    await createTicket(enrollment.id, ticketType.id, TicketStatus.RESERVED);
+
+    const response = await server
+      .post(`/events/${event.slug}/tickets/claim`)
+      .set("Authorization", `Bearer ${token}`)
+      .send({ token: claimToken });
+
+    expect(response.status).toEqual(httpStatus.CONFLICT);
+  });
+});
+
+describe("PUT /tickets/:ticketId/attendee", () => {
+  it("should respond with status 404 when ticket was bought by someone else", async () => {
+    const buyer = await createUser();
+    const enrollment = await createEnrollmentWithAddress(buyer);
+    const ticketType = await createTicketType();
+    const ticket = await createCompanionTicket(enrollment.id, ticketType.id, TicketStatus.PAID);
+    const token = await generateValidToken();
+
+    const response = await server
+      .put(`/events/${event.slug}/tickets/${ticket.id}/attendee`)
+      .set("Authorization", `Bearer ${token}`)
+      .send(generateAttendee());
+
+    expect(response.status).toEqual(httpStatus.NOT_FOUND);
+  });
+
+  it("should respond with status 200, reassign the ticket and mail the new attendee", async () => {
+    const buyer = await createUser();
+    const token = await generateValidToken(buyer);
+    const enrollment = await createEnrollmentWithAddress(buyer);
+    const ticketType = await createTicketType();
+    const ticket = await createCompanionTicket(enrollment.id, ticketType.id, TicketStatus.PAID);
+    await prisma.ticket.update({ where: { id: ticket.id }, data: { attendeeUserId: (await createUser()).id } });
+    const attendee = generateAttendee();
+
+    const response = await server
+      .put(`/events/${event.slug}/tickets/${ticket.id}/attendee`)
+      .set("Authorization", `Bearer ${token}`)
+      .send(attendee);
+
+    expect(response.status).toEqual(httpStatus.OK);
+    expect(response.body).toEqual(
+      expect.objectContaining({ attendeeName: attendee.name, attendeeEmail: attendee.email, attendeeUserId: null }),
+    );
+    expect(sentMails).toHaveLength(1);
+    expect(sentMails[0].to).toBe(attendee.email);
+  });
+
+  it("should respond with status 409 when the ticket is no longer valid", async () => {
+    const buyer = await createUser();
+    const token = await generateValidToken(buyer);
+    const enrollment = await createEnrollmentWithAddress(buyer);
+    const ticketType = await createTicketType();
+    const ticket = await createCompanionTicket(enrollment.id, ticketType.id, TicketStatus.CANCELLED);
+
+    const response = await server
+      .put(`/events/${event.slug}/tickets/${ticket.id}/attendee`)
+      .set("Authorization", `Bearer ${token}`)
+      .send(generateAttendee());
+
+    expect(response.status).toEqual(httpStatus.CONFLICT);
+    expect(sentMails).toHaveLength(0);
+  });
+
+  it("should give back the room and activities held by the previous attendee", async () => {
+    const buyer = await createUser();
+    const token = await generateValidToken(buyer);
+    const enrollment = await createEnrollmentWithAddress(buyer);
+    const ticketType = await createTicketTypeWithHotel();
+    const ticket = await createCompanionTicket(enrollment.id, ticketType.id, TicketStatus.PAID);
+    const previousAttendee = await createUser();
+    await prisma.ticket.update({ where: { id: ticket.id }, data: { attendeeUserId: previousAttendee.id } });
+    const room = await createRoomWithHotelId((await createHotel()).id);
+    await createBooking(previousAttendee.id, room.id);
+    const activity = await createActivity((await createActivityVenue()).id, { eventId: event.id });
+    await createActivitySubscription(previousAttendee.id, activity.id);
+
+    const response = await server
+      .put(`/events/${event.slug}/tickets/${ticket.id}/attendee`)
+      .set("Authorization", `Bearer ${token}`)
+      .send(generateAttendee());
+
+    expect(response.status).toEqual(httpStatus.OK);
+    expect(await prisma.booking.count()).toBe(0);
+    expect(await prisma.activitySubscription.count()).toBe(0);
+  });
+});
+
+describe("POST /tickets/:ticketId/cancel", () => {
+  async function createPaidTicket(daysUntilEvent: number) {
+    await prisma.event.update({
+      where: { id: event.id },
+      data: { startsAt: dayjs().add(daysUntilEvent, "days").toDate(), endsAt: dayjs().add(30, "days").toDate() },
+    });
+    const user = await createUser();
+    const token = await generateValidToken(user);
+    const enrollment = await createEnrollmentWithAddress(user);
+    const ticketType = await createTicketTypeWithHotel();
+    const ticket = await createTicket(enrollment.id, ticketType.id, TicketStatus.RESERVED);
+    await server
+      .post(`/events/${event.slug}/payments/process`)
+      .set("Authorization", `Bearer ${token}`)
+      .send({ ticketId: ticket.id, cardData: generateCreditCardData() });
+
+    return { user, token, ticket, ticketType };
+  }
+
+  it("should respond with status 404 when ticket was bought by someone else", async () => {
+    const { ticket } = await createPaidTicket(10);
+    const token = await generateValidToken();
+
+    const response = await server
+      .post(`/events/${event.slug}/tickets/${ticket.id}/cancel`)
+      .set("Authorization", `Bearer ${token}`);
+
+    expect(response.status).toEqual(httpStatus.NOT_FOUND);
+  });
+
+  it("should respond with status 200 and refund the full price before the deadline", async () => {
+    const { token, ticket, ticketType } = await createPaidTicket(10);
+
+    const response = await server
+      .post(`/events/${event.slug}/tickets/${ticket.id}/cancel`)
+      .set("Authorization", `Bearer ${token}`);
+
+    const payment = await prisma.payment.findFirst({ include: { Refund: true } });
+    expect(response.status).toEqual(httpStatus.OK);
+    expect(response.body).toEqual({
+      ticket: expect.objectContaining({ id: ticket.id, status: TicketStatus.REFUNDED }),
+      refundAmount: ticketType.price,
+    });
+    expect(payment.status).toEqual(PaymentStatus.REFUNDED);
+    expect(payment.Refund).toEqual([expect.objectContaining({ ticketId: ticket.id, amount: ticketType.price })]);
+  });
+
+  it("should refund part of the price after the deadline", async () => {
+    const { token, ticket, ticketType } = await createPaidTicket(2);
+
+    const response = await server
+      .post(`/events/${event.slug}/tickets/${ticket.id}/cancel`)
+      .set("Authorization", `Bearer ${token}`);
+
+    const payment = await prisma.payment.findFirst({});
+    expect(response.status).toEqual(httpStatus.OK);
+    expect(response.body.refundAmount).toEqual(Math.floor(ticketType.price / 2));
+    expect(payment.status).toEqual(PaymentStatus.CAPTURED);
+  });
+
+  it("should cancel without refund once the event has started", async () => {
+    const { token, ticket } = await createPaidTicket(10);
+    await prisma.event.update({ where: { id: event.id }, data: { startsAt: dayjs().subtract(1, "hour").toDate() } });
+
+    const response = await server
+      .post(`/events/${event.slug}/tickets/${ticket.id}/cancel`)
+      .set("Authorization", `Bearer ${token}`);
+
+    const refundsCount = await prisma.refund.count();
+    expect(response.status).toEqual(httpStatus.OK);
+    expect(response.body).toEqual({
+      ticket: expect.objectContaining({ status: TicketStatus.CANCELLED }),
+      refundAmount: 0,
+    });
+    expect(refundsCount).toEqual(0);
+  });
+
+  it("should release the booking and activity seats held by the attendee", async () => {
+    const { user, token, ticket } = await createPaidTicket(10);
+    const hotel = await createHotel();
+    const room = await createRoomWithHotelId(hotel.id);
+    await createBooking(user.id, room.id);
+    const activity = await createActivity((await createActivityVenue()).id, { eventId: event.id });
+    await createActivitySubscription(user.id, activity.id);
+
+    await server.post(`/events/${event.slug}/tickets/${ticket.id}/cancel`).set("Authorization", `Bearer ${token}`);
+
+    const bookingsCount = await prisma.booking.count({ where: { userId: user.id } });
+    const subscriptionsCount = await prisma.activitySubscription.count({ where: { userId: user.id } });
+    expect(bookingsCount).toEqual(0);
+    expect(subscriptionsCount).toEqual(0);
+  });
+
+  it("should respond with status 409 when ticket was already cancelled", async () => {
+    const { token, ticket } = await createPaidTicket(10);
+    await server.post(`/events/${event.slug}/tickets/${ticket.id}/cancel`).set("Authorization", `Bearer ${token}`);
+
+    const response = await server
+      .post(`/events/${event.slug}/tickets/${ticket.id}/cancel`)
+      .set("Authorization", `Bearer ${token}`);
+
+    expect(response.status).toEqual(httpStatus.CONFLICT);
+  });
+
+  it("should respond with status 409 when ticket is part of an order awaiting payment", async () => {
+    const user = await createUser();
+    const token = await generateValidToken(user);
+    const enrollment = await createEnrollmentWithAddress(user);
+    const ticketType = await createTicketType();
+    const ticket = await createTicket(enrollment.id, ticketType.id, TicketStatus.RESERVED);
+    await createTicketOrder(ticket.id);
+
+    const response = await server
+      .post(`/events/${event.slug}/tickets/${ticket.id}/cancel`)
+      .set("Authorization", `Bearer ${token}`);
+
+    expect(response.status).toEqual(httpStatus.CONFLICT);
+  });
+
+  it("should let the attendee buy a new ticket after cancelling", async () => {
+    const { token, ticket, ticketType } = await createPaidTicket(10);
+    await server.post(`/events/${event.slug}/tickets/${ticket.id}/cancel`).set("Authorization", `Bearer ${token}`);
+
+    const response = await server
+      .post(`/events/${event.slug}/tickets`)
+      .set("Authorization", `Bearer ${token}`)
+      .send({ ticketTypeId: ticketType.id });
+
+    expect(response.status).toEqual(httpStatus.CREATED);
+  });
+});
+
+describe("POST /tickets/coupons/validate", () => {
+  async function createTicketTypeWithPrice(price: number) {
+    return prisma.ticketType.create({
+      data: { name: faker.name.findName(), price, isRemote: false, includesHotel: false, eventId: event.id },
+    });
+  }
+
+  it("should respond with status 400 when the coupon does not exist", async () => {
+    const token = await generateValidToken();
+    const ticketType = await createTicketTypeWithPrice(500);
+
+    const response = await server
+      .post(`/events/${event.slug}/tickets/coupons/validate`)
+      .set("Authorization", `Bearer ${token}`)
+      .send({ code: "NOPE", ticketTypeId: ticketType.id });
+
+    expect(response.status).toEqual(httpStatus.BAD_REQUEST);
+    expect(response.body).toEqual({ message: "Coupon not found" });
+  });
+
+  it("should respond with status 400 when the coupon has expired", async () => {
+    const token = await generateValidToken();
+    const ticketType = await createTicketTypeWithPrice(500);
+    const coupon = await createCoupon(event.id, { endsAt: dayjs().subtract(1, "day").toDate() });
+
+    const response = await server
+      .post(`/events/${event.slug}/tickets/coupons/validate`)
+      .set("Authorization", `Bearer ${token}`)
+      .send({ code: coupon.code, ticketTypeId: ticketType.id });
+
+    expect(response.status).toEqual(httpStatus.BAD_REQUEST);
+    expect(response.body).toEqual({ message: "Coupon has expired" });
+  });
+
+  it("should respond with status 400 when the coupon is restricted to other ticket types", async () => {
+    const token = await generateValidToken();
+    const ticketType = await createTicketTypeWithPrice(500);
+    const otherTicketType = await createTicketTypeWithPrice(800);
+    const coupon = await createCoupon(event.id, { ticketTypeIds: [otherTicketType.id] });
+
+    const response = await server
+      .post(`/events/${event.slug}/tickets/coupons/validate`)
+      .set("Authorization", `Bearer ${token}`)
+      .send({ code: coupon.code, ticketTypeId: ticketType.id });
+
+    expect(response.status).toEqual(httpStatus.BAD_REQUEST);
+  });
+
+  it("should respond with status 200 and the discounted price, ignoring the code case", async () => {
+    const token = await generateValidToken();
+    const ticketType = await createTicketTypeWithPrice(500);
+    const coupon = await createCoupon(event.id, { discountType: DiscountType.FIXED, discountValue: 120 });
+
+    const response = await server
+      .post(`/events/${event.slug}/tickets/coupons/validate`)
+      .set("Authorization", `Bearer ${token}`)
+      .send({ code: coupon.code.toLowerCase(), ticketTypeId: ticketType.id });
+
+    expect(response.status).toEqual(httpStatus.OK);
+    expect(response.body).toEqual({
+      code: coupon.code,
+      discountType: DiscountType.FIXED,
+      discountValue: 120,
+      price: 500,
+      discountAmount: 120,
+      finalPrice: 380,
+    });
+  });
+});
+
+describe("POST /tickets/:ticketId/change-type", () => {
+  async function createTicketTypeWithPrice(price: number, hotel: { isRemote: boolean; includesHotel: boolean }) {
+    return prisma.ticketType.create({
+      data: { name: faker.name.findName(), price, ...hotel, eventId: event.id },
+    });
+  }
+
+  async function createPaidTicket(price: number) {
+    await prisma.event.update({
+      where: { id: event.id },
+      data: { startsAt: dayjs().add(10, "days").toDate(), endsAt: dayjs().add(30, "days").toDate() },
+    });
+    const user = await createUser();
+    const token = await generateValidToken(user);
+    const enrollment = await createEnrollmentWithAddress(user);
+    const ticketType = await createTicketTypeWithPrice(price, { isRemote: false, includesHotel: true });
+    const ticket = await createTicket(enrollment.id, ticketType.id, TicketStatus.RESERVED);
+    await server
+      .post(`/events/${event.slug}/payments/process`)
+      .set("Authorization", `Bearer ${token}`)
+      .send({ ticketId: ticket.id, cardData: generateCreditCardData() });
+
+    return { user, token, ticket, ticketType };
+  }
+
+  it("should respond with status 404 when ticket was bought by someone else", async () => {
+    const { ticket } = await createPaidTicket(500);
+    const otherTicketType = await createTicketTypeWithPrice(200, { isRemote: true, includesHotel: false });
+    const token = await generateValidToken();
+
+    const response = await server
+      .post(`/events/${event.slug}/tickets/${ticket.id}/change-type`)
+      .set("Authorization", `Bearer ${token}`)
+      .send({ ticketTypeId: otherTicketType.id });
+
+    expect(response.status).toEqual(httpStatus.NOT_FOUND);
+  });
+
+  it("should change the type of a reserved ticket right away", async () => {
+    const user = await createUser();
+    const token = await generateValidToken(user);
+    const enrollment = await createEnrollmentWithAddress(user);
+    const ticketType = await createTicketTypeWithPrice(200, { isRemote: true, includesHotel: false });
+    const newTicketType = await createTicketTypeWithPrice(500, { isRemote: false, includesHotel: true });
+    const ticket = await createTicket(enrollment.id, ticketType.id, TicketStatus.RESERVED);
+
+    const response = await server
+      .post(`/events/${event.slug}/tickets/${ticket.id}/change-type`)
+      .set("Authorization", `Bearer ${token}`)
+      .send({ ticketTypeId: newTicketType.id });
+
+    expect(response.status).toEqual(httpStatus.OK);
+    expect(response.body).toEqual({
+      ticket: expect.objectContaining({ id: ticket.id, ticketTypeId: newTicketType.id }),
+      priceDifference: 300,
+      refundAmount: 0,
+      order: null,
+    });
+  });
+
+  it("should charge the difference and only change the type once it is paid", async () => {
+    const { token, ticket, ticketType } = await createPaidTicket(500);
+    const newTicketType = await createTicketTypeWithPrice(800, { isRemote: false, includesHotel: true });
+
+    const response = await server
+      .post(`/events/${event.slug}/tickets/${ticket.id}/change-type`)
+      .set("Authorization", `Bearer ${token}`)
+      .send({ ticketTypeId: newTicketType.id });
+
+    expect(response.status).toEqual(httpStatus.OK);
+    expect(response.body.ticket.ticketTypeId).toBe(ticketType.id);
+    expect(response.body.order).toEqual(expect.objectContaining({ total: 300, status: OrderStatus.PENDING }));
+
+    const paymentResponse = await server
+      .post(`/events/${event.slug}/payments/process`)
+      .set("Authorization", `Bearer ${token}`)
+      .send({ orderId: response.body.order.id, cardData: generateCreditCardData() });
+
+    const updatedTicket = await prisma.ticket.findUnique({ where: { id: ticket.id } });
+    expect(paymentResponse.status).toEqual(httpStatus.OK);
+    expect(paymentResponse.body.value).toBe(300);
+    expect(updatedTicket.ticketTypeId).toBe(newTicketType.id);
+  });
+
+  it("should respond with status 409 when the new type is sold out", async () => {
+    const { token, ticket, ticketType } = await createPaidTicket(500);
+    const newTicketType = await createTicketTypeWithPrice(200, { isRemote: true, includesHotel: false });
+    await prisma.ticketType.update({ where: { id: newTicketType.id }, data: { stock: 0 } });
+
+    const response = await server
+      .post(`/events/${event.slug}/tickets/${ticket.id}/change-type`)
+      .set("Authorization", `Bearer ${token}`)
+      .send({ ticketTypeId: newTicketType.id });
+
+    const updatedTicket = await prisma.ticket.findUnique({ where: { id: ticket.id } });
+    expect(response.status).toEqual(httpStatus.CONFLICT);
+    expect(updatedTicket.ticketTypeId).toBe(ticketType.id);
+    expect(await prisma.refund.count()).toBe(0);
+  });
+
+  it("should refund the difference when the new type sells out before it is paid", async () => {
+    const { token, ticket, ticketType } = await createPaidTicket(500);
+    const newTicketType = await createTicketTypeWithPrice(800, { isRemote: false, includesHotel: true });
+    await prisma.ticketType.update({ where: { id: newTicketType.id }, data: { stock: 1 } });
+    const response = await server
+      .post(`/events/${event.slug}/tickets/${ticket.id}/change-type`)
+      .set("Authorization", `Bearer ${token}`)
+      .send({ ticketTypeId: newTicketType.id });
+    const otherEnrollment = await createEnrollmentWithAddress();
+    await createTicket(otherEnrollment.id, newTicketType.id, TicketStatus.PAID);
+
+    const paymentResponse = await server
+      .post(`/events/${event.slug}/payments/process`)
+      .set("Authorization", `Bearer ${token}`)
+      .send({ orderId: response.body.order.id, cardData: generateCreditCardData() });
+
+    const updatedTicket = await prisma.ticket.findUnique({ where: { id: ticket.id } });
+    const order = await prisma.order.findUnique({ where: { id: response.body.order.id }, include: { Payment: true } });
+    expect(paymentResponse.status).toEqual(httpStatus.CONFLICT);
+    expect(updatedTicket.ticketTypeId).toBe(ticketType.id);
+    expect(order.status).toEqual(OrderStatus.EXPIRED);
+    expect(order.Payment).toEqual([expect.objectContaining({ value: 300, status: PaymentStatus.REFUNDED })]);
+  });
+
+  it("should replace a change that was never paid for", async () => {
+    const { token, ticket } = await createPaidTicket(500);
+    const firstTicketType = await createTicketTypeWithPrice(800, { isRemote: false, includesHotel: true });
+    const secondTicketType = await createTicketTypeWithPrice(900, { isRemote: false, includesHotel: true });
+    const first = await server
+      .post(`/events/${event.slug}/tickets/${ticket.id}/change-type`)
+      .set("Authorization", `Bearer ${token}`)
+      .send({ ticketTypeId: firstTicketType.id });
+
+    const response = await server
+      .post(`/events/${event.slug}/tickets/${ticket.id}/change-type`)
+      .set("Authorization", `Bearer ${token}`)
+      .send({ ticketTypeId: secondTicketType.id });
+
+    const firstOrder = await prisma.order.findUnique({ where: { id: first.body.order.id } });
+    expect(response.status).toEqual(httpStatus.OK);
+    expect(response.body.order).toEqual(expect.objectContaining({ total: 400 }));
+    expect(firstOrder.status).toEqual(OrderStatus.EXPIRED);
+  });
+
+  it("should refund the difference and release the booking when moving to a type without hotel", async () => {
+    const { user, token, ticket } = await createPaidTicket(500);
+    const newTicketType = await createTicketTypeWithPrice(200, { isRemote: true, includesHotel: false });
+    const hotel = await createHotel();
+    const room = await createRoomWithHotelId(hotel.id);
+    await createBooking(user.id, room.id);
+
+    const response = await server
+      .post(`/events/${event.slug}/tickets/${ticket.id}/change-type`)
+      .set("Authorization", `Bearer ${token}`)
+      .send({ ticketTypeId: newTicketType.id });
+
+    const payment = await prisma.payment.findFirst({ include: { Refund: true } });
+    expect(response.status).toEqual(httpStatus.OK);
+    expect(response.body).toEqual({
+      ticket: expect.objectContaining({ id: ticket.id, ticketTypeId: newTicketType.id, status: TicketStatus.PAID }),
+      priceDifference: -300,
+      refundAmount: 300,
+      order: null,
+    });
+    expect(payment.status).toEqual(PaymentStatus.CAPTURED);
+    expect(payment.Refund).toEqual([expect.objectContaining({ ticketId: ticket.id, amount: 300 })]);
+    expect(await prisma.booking.count()).toBe(0);
+  });
+
+  it("should not refund more than what is left when cancelling after a downgrade", async () => {
+    const { token, ticket } = await createPaidTicket(500);
+    const newTicketType = await createTicketTypeWithPrice(200, { isRemote: true, includesHotel: false });
+    await server
+      .post(`/events/${event.slug}/tickets/${ticket.id}/change-type`)
+      .set("Authorization", `Bearer ${token}`)
+      .send({ ticketTypeId: newTicketType.id });
+
+    const response = await server
+      .post(`/events/${event.slug}/tickets/${ticket.id}/cancel`)
+      .set("Authorization", `Bearer ${token}`);
+
+    expect(response.status).toEqual(httpStatus.OK);
+    expect(response.body.refundAmount).toBe(200);
+  });
+});
@@ -2,10 +2,10 @@ import app, { init } from "@/app";
 import { prisma } from "@/config";
 import { duplicatedEmailError } from "@/services/users-service";
 import { faker } from "@faker-js/faker";
-import dayjs from "dayjs";
 import httpStatus from "http-status";
 import supertest from "supertest";
-import { createEvent, createUser } from "../factories";
+import { MailMessage, setMailTransport } from "@/utils/mailer";
+import { createUser } from "../factories";
 import { cleanDb } from "../helpers";
 
 beforeAll(async () => {
@@ -13,6 +13,21 @@ beforeAll(async () => {
   await cleanDb();
 });
 
+let sentMails: MailMessage[];
+
+beforeEach(() => {
+  sentMails = [];
+  setMailTransport({
+    send: async (message) => {
+      sentMails.push(message);
+    },
+  });
+});
+
+function extractToken(mail: MailMessage) {
+  return mail.text.match(/token=([0-9a-f]+)/)[1];
+}
+
 const server = supertest(app);
 
 describe("POST /users", () => {
@@ -36,74 +51,142 @@ describe("POST /users", () => {
       password: faker.internet.password(6),
     });
 
-    it("should respond with status 400 when there is no event", async () => {
+    it("should respond with status 409 when there is an user with given email", async () => {
       const body = generateValidBody();
+      await createUser(body);
 
       const response = await server.post("/users").send(body);
 
-      expect(response.status).toBe(httpStatus.BAD_REQUEST);
+      expect(response.status).toBe(httpStatus.CONFLICT);
+      expect(response.body).toEqual(duplicatedEmailError());
     });
 
-    it("should respond with status 400 when current event did not started yet", async () => {
-      const event = await createEvent({ startsAt: dayjs().add(1, "day").toDate() });
+    it("should respond with status 201 and create user when given email is unique", async () => {
       const body = generateValidBody();
 
-      const response = await server.post("/users").send(body).query({ eventId: event.id });
+      const response = await server.post("/users").send(body);
 
-      expect(response.status).toBe(httpStatus.BAD_REQUEST);
+      expect(response.status).toBe(httpStatus.CREATED);
+      expect(response.body).toEqual({
+        id: expect.any(Number),
+        email: body.email,
+      });
     });
 
-    describe("when event started", () => {
-      beforeAll(async () => {
-        await prisma.event.deleteMany({});
-        await createEvent();
-      });
+    it("should not return user password on body", async () => {
+      const body = generateValidBody();
+
+      const response = await server.post("/users").send(body);
 
-      it("should respond with status 409 when there is an user with given email", async () => {
-        const body = generateValidBody();
-        await createUser(body);
+      expect(response.body).not.toHaveProperty("password");
+    });
 
-        const response = await server.post("/users").send(body);
+    it("should save user on db", async () => {
+      const body = generateValidBody();
+
+      const response = await server.post("/users").send(body);
 
-        expect(response.status).toBe(httpStatus.CONFLICT);
-        expect(response.body).toEqual(duplicatedEmailError());
+      const user = await prisma.user.findUnique({
+        where: { email: body.email },
       });
+      expect(user).toEqual(
+        expect.objectContaining({
+          id: response.body.id,
+          email: body.email,
+          emailVerifiedAt: null,
+        }),
+      );
+    });
 
-      it("should respond with status 201 and create user when given email is unique", async () => {
-        const body = generateValidBody();
+    it("should send a verification email", async () => {
+      const body = generateValidBody();
 
-        const response = await server.post("/users").send(body);
+      await server.post("/users").send(body);
 
-        expect(response.status).toBe(httpStatus.CREATED);
-        expect(response.body).toEqual({
-          id: expect.any(Number),
-          email: body.email,
-        });
-      });
+      expect(sentMails).toHaveLength(1);
+      expect(sentMails[0].to).toBe(body.email);
+    });
+  });
+});
 
-      it("should not return user password on body", async () => {
-        const body = generateValidBody();
+describe("POST /users/verify", () => {
+  it("should respond with status 400 when body is not given", async () => {
+    const response = await server.post("/users/verify");
 
-        const response = await server.post("/users").send(body);
+    expect(response.status).toBe(httpStatus.BAD_REQUEST);
+  });
 
-        expect(response.body).not.toHaveProperty("password");
-      });
+  it("should respond with status 400 when token is unknown", async () => {
+    const response = await server.post("/users/verify").send({ token: faker.datatype.uuid() });
+
+    expect(response.status).toBe(httpStatus.BAD_REQUEST);
+  });
 
-      it("should save user on db", async () => {
-        const body = generateValidBody();
+  it("should respond with status 204 and mark the email as verified", async () => {
+    const body = { email: faker.internet.email(), password: faker.internet.password(6) };
+    await server.post("/users").send(body);
 
-        const response = await server.post("/users").send(body);
+    const response = await server.post("/users/verify").send({ token: extractToken(sentMails[0]) });
 
-        const user = await prisma.user.findUnique({
-          where: { email: body.email },
-        });
-        expect(user).toEqual(
-          expect.objectContaining({
-            id: response.body.id,
-            email: body.email,
-          }),
-        );
-      });
-    });
+    expect(response.status).toBe(httpStatus.NO_CONTENT);
+    const user = await prisma.user.findUnique({ where: { email: body.email } });
+    expect(user.emailVerifiedAt).not.toBeNull();
+  });
+
+  it("should respond with status 400 when token was already used", async () => {
+    await server.post("/users").send({ email: faker.internet.email(), password: faker.internet.password(6) });
+    const token = extractToken(sentMails[0]);
+    await server.post("/users/verify").send({ token });
+
+    const response = await server.post("/users/verify").send({ token });
+
+    expect(response.status).toBe(httpStatus.BAD_REQUEST);
+  });
+});
+
+describe("POST /users/verify/resend", () => {
+  it("should respond with status 400 when email is not valid", async () => {
+    const response = await server.post("/users/verify/resend").send({ email: faker.lorem.word() });
+
+    expect(response.status).toBe(httpStatus.BAD_REQUEST);
+  });
+
+  it("should respond with status 202 and send a new mail to an unverified user", async () => {
+    const user = await createUser({ emailVerifiedAt: null });
+
+    const response = await server.post("/users/verify/resend").send({ email: user.email });
+
+    expect(response.status).toBe(httpStatus.ACCEPTED);
+    expect(sentMails).toHaveLength(1);
+  });
+
+  it("should respond with status 202 and send no mail to a verified user", async () => {
+    const user = await createUser();
+
+    const response = await server.post("/users/verify/resend").send({ email: user.email });
+
+    expect(response.status).toBe(httpStatus.ACCEPTED);
+    expect(sentMails).toHaveLength(0);
+  });
+
+  it("should respond with status 429 when a mail was sent moments ago", async () => {
+    const user = await createUser({ emailVerifiedAt: null });
+    await server.post("/users/verify/resend").send({ email: user.email });
+
+    const response = await server.post("/users/verify/resend").send({ email: user.email });
+
+    expect(response.status).toBe(httpStatus.TOO_MANY_REQUESTS);
+    expect(sentMails).toHaveLength(1);
+  });
+
+  it("should respond with status 429 to repeated requests for an email without an account", async () => {
+    const email = faker.internet.email();
+    const first = await server.post("/users/verify/resend").send({ email });
+
+    const response = await server.post("/users/verify/resend").send({ email });
+
+    expect(first.status).toBe(httpStatus.ACCEPTED);
+    expect(response.status).toBe(httpStatus.TOO_MANY_REQUESTS);
+    expect(sentMails).toHaveLength(0);
   });
 });
@@ -0,0 +1,116 @@
+import { init } from "@/app";
+import { prisma } from "@/config";
+import { handleApplicationErrors, rateLimit } from "@/middlewares";
+import rateLimitRepository, {
+  createMemoryRateLimitStore,
+  postgresRateLimitStore,
+  setRateLimitStore,
+} from "@/repositories/rate-limit-repository";
+import rateLimitService, { RateLimitPolicy } from "@/services/rate-limit-service";
+import dayjs from "dayjs";
+import express from "express";
+import httpStatus from "http-status";
+import supertest from "supertest";
+import { cleanDb } from "../helpers";
+
+beforeAll(async () => {
+  await init();
+  await cleanDb();
+  process.env.RATE_LIMIT_ENABLED = "true";
+});
+
+afterAll(() => {
+  process.env.RATE_LIMIT_ENABLED = "false";
+});
+
+beforeEach(() => {
+  setRateLimitStore(createMemoryRateLimitStore());
+});
+
+function createLimitedServer(policy: RateLimitPolicy) {
+  const limitedApp = express()
+    .get("/", rateLimit(policy), (_req, res) => res.sendStatus(httpStatus.OK))
+    .use(handleApplicationErrors);
+
+  return supertest(limitedApp);
+}
+
+const policy: RateLimitPolicy = { name: "test", capacity: 2, windowSeconds: 60, keyBy: "ip" };
+
+describe("rateLimit", () => {
+  it("should send RateLimit headers while requests are allowed", async () => {
+    const server = createLimitedServer(policy);
+
+    const response = await server.get("/");
+
+    expect(response.status).toBe(httpStatus.OK);
+    expect(response.header["ratelimit-limit"]).toBe("2");
+    expect(response.header["ratelimit-remaining"]).toBe("1");
+    expect(Number(response.header["ratelimit-reset"])).toBeGreaterThan(0);
+  });
+
+  it("should respond with status 429 and Retry-After once the bucket is empty", async () => {
+    const server = createLimitedServer(policy);
+    await server.get("/");
+    await server.get("/");
+
+    const response = await server.get("/");
+
+    expect(response.status).toBe(httpStatus.TOO_MANY_REQUESTS);
+    expect(response.header["ratelimit-remaining"]).toBe("0");
+    expect(Number(response.header["retry-after"])).toBeGreaterThan(0);
+  });
+
+  it("should keep separate buckets per policy", async () => {
+    const server = createLimitedServer(policy);
+    const otherServer = createLimitedServer({ ...policy, name: "other" });
+    await server.get("/");
+    await server.get("/");
+
+    const response = await otherServer.get("/");
+
+    expect(response.status).toBe(httpStatus.OK);
+  });
+
+  it("should share buckets through postgres when configured to", async () => {
+    setRateLimitStore(postgresRateLimitStore);
+    const server = createLimitedServer({ ...policy, name: "shared" });
+    await server.get("/");
+    await server.get("/");
+
+    const response = await server.get("/");
+
+    expect(response.status).toBe(httpStatus.TOO_MANY_REQUESTS);
+    const buckets = await prisma.rateLimitBucket.findMany({ where: { key: { startsWith: "shared:" } } });
+    expect(buckets).toHaveLength(1);
+  });
+
+  it("should start idle buckets over once they are removed", async () => {
+    const server = createLimitedServer(policy);
+    await server.get("/");
+    await server.get("/");
+
+    await rateLimitService.removeIdleBuckets();
+    const idleResponse = await server.get("/");
+    await rateLimitRepository.removeIdleBuckets(new Date(Date.now() + 1000));
+    const response = await server.get("/");
+
+    expect(idleResponse.status).toBe(httpStatus.TOO_MANY_REQUESTS);
+    expect(response.status).toBe(httpStatus.OK);
+  });
+
+  it("should delete idle buckets from postgres", async () => {
+    setRateLimitStore(postgresRateLimitStore);
+    await prisma.rateLimitBucket.createMany({
+      data: [
+        { key: "idle:ip", tokens: 0, allowed: false, updatedAt: dayjs().subtract(1, "hour").toDate() },
+        { key: "busy:ip", tokens: 0, allowed: false, updatedAt: new Date() },
+      ],
+    });
+
+    await rateLimitService.removeIdleBuckets();
+
+    const buckets = await prisma.rateLimitBucket.findMany({ where: { key: { in: ["idle:ip", "busy:ip"] } } });
+    expect(buckets).toEqual([expect.objectContaining({ key: "busy:ip" })]);
+  });
+});
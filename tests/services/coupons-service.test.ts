@@ -0,0 +1,22 @@
+import couponsService from "@/services/coupons-service";
+import { DiscountType } from "@prisma/client";
+
+describe("calculateDiscount", () => {
+  it("should take the percentage of the amount, rounded down", () => {
+    expect(couponsService.calculateDiscount({ discountType: DiscountType.PERCENTAGE, discountValue: 15 }, 999)).toBe(149);
+  });
+
+  it("should never take more than the whole amount with a percentage", () => {
+    expect(couponsService.calculateDiscount({ discountType: DiscountType.PERCENTAGE, discountValue: 120 }, 500)).toBe(
+      500,
+    );
+  });
+
+  it("should take the fixed value from the amount", () => {
+    expect(couponsService.calculateDiscount({ discountType: DiscountType.FIXED, discountValue: 120 }, 500)).toBe(120);
+  });
+
+  it("should cap a fixed value at the amount", () => {
+    expect(couponsService.calculateDiscount({ discountType: DiscountType.FIXED, discountValue: 800 }, 500)).toBe(500);
+  });
+});
@@ -0,0 +1,37 @@
+import installmentsService, { InstallmentPolicy } from "@/services/installments-service";
+
+const policy: InstallmentPolicy = { maxInstallments: 12, interestFreeInstallments: 3, installmentInterestRate: 2 };
+
+describe("calculateInstallmentPlan", () => {
+  it("should split the amount without interest up to the interest free installments", () => {
+    const plan = installmentsService.calculateInstallmentPlan(1000, 3, policy);
+
+    expect(plan).toEqual({ installments: 3, total: 1000, interestAmount: 0, amounts: [334, 333, 333] });
+  });
+
+  it("should charge compound interest on longer plans", () => {
+    const plan = installmentsService.calculateInstallmentPlan(1000, 4, policy);
+
+    expect(plan).toEqual({ installments: 4, total: 1050, interestAmount: 50, amounts: [263, 263, 262, 262] });
+  });
+
+  it("should keep the installments adding up to the total", () => {
+    const plan = installmentsService.calculateInstallmentPlan(997, 12, policy);
+
+    expect(plan.amounts.reduce((sum, amount) => sum + amount, 0)).toEqual(plan.total);
+  });
+});
+
+describe("buildInstallmentSchedule", () => {
+  it("should number the installments and set them a month apart", () => {
+    const plan = installmentsService.calculateInstallmentPlan(300, 3, policy);
+
+    const schedule = installmentsService.buildInstallmentSchedule(plan, new Date("2023-01-31T12:00:00Z"));
+
+    expect(schedule).toEqual([
+      { number: 1, amount: 100, dueDate: new Date("2023-01-31T12:00:00Z") },
+      { number: 2, amount: 100, dueDate: new Date("2023-02-28T12:00:00Z") },
+      { number: 3, amount: 100, dueDate: new Date("2023-03-31T12:00:00Z") },
+    ]);
+  });
+});
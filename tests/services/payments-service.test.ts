@@ -0,0 +1,73 @@
+import { init } from "@/app";
+import { prisma } from "@/config";
+import paymentService from "@/services/payments-service";
+import { OrderStatus, PaymentStatus, TicketStatus } from "@prisma/client";
+import dayjs from "dayjs";
+import {
+  createBoletoPayment,
+  createEnrollmentWithAddress,
+  createEvent,
+  createTicket,
+  createTicketOrder,
+  createTicketType,
+} from "../factories";
+import { cleanDb } from "../helpers";
+
+beforeAll(async () => {
+  await init();
+});
+
+beforeEach(async () => {
+  await cleanDb();
+  await createEvent();
+});
+
+async function createBoletoOrder(dueDate: Date) {
+  const enrollment = await createEnrollmentWithAddress();
+  const ticketType = await createTicketType();
+  const ticket = await createTicket(enrollment.id, ticketType.id, TicketStatus.RESERVED);
+  const order = await createTicketOrder(ticket.id);
+  const payment = await createBoletoPayment(order.id, dueDate);
+
+  return { ticket, order, payment };
+}
+
+describe("expireOverdueBoletos", () => {
+  it("should expire unpaid boletos past their due date and release their tickets", async () => {
+    const { ticket, order, payment } = await createBoletoOrder(dayjs().subtract(1, "day").toDate());
+
+    const expired = await paymentService.expireOverdueBoletos();
+
+    const updatedPayment = await prisma.payment.findUnique({ where: { id: payment.id } });
+    const updatedOrder = await prisma.order.findUnique({ where: { id: order.id } });
+    const updatedTicket = await prisma.ticket.findUnique({ where: { id: ticket.id } });
+    expect(expired).toEqual(1);
+    expect(updatedPayment.status).toEqual(PaymentStatus.EXPIRED);
+    expect(updatedOrder.status).toEqual(OrderStatus.EXPIRED);
+    expect(updatedTicket.status).toEqual(TicketStatus.CANCELLED);
+    expect(updatedTicket.cancelledAt).toEqual(expect.any(Date));
+  });
+
+  it("should keep the reservation until the due date", async () => {
+    const { ticket, payment } = await createBoletoOrder(dayjs().add(1, "day").toDate());
+
+    const expired = await paymentService.expireOverdueBoletos();
+
+    const updatedPayment = await prisma.payment.findUnique({ where: { id: payment.id } });
+    const updatedTicket = await prisma.ticket.findUnique({ where: { id: ticket.id } });
+    expect(expired).toEqual(0);
+    expect(updatedPayment.status).toEqual(PaymentStatus.PENDING);
+    expect(updatedTicket.status).toEqual(TicketStatus.RESERVED);
+  });
+
+  it("should leave boletos that were paid untouched", async () => {
+    const { ticket, payment } = await createBoletoOrder(dayjs().subtract(1, "day").toDate());
+    await prisma.payment.update({ where: { id: payment.id }, data: { status: PaymentStatus.CAPTURED } });
+
+    const expired = await paymentService.expireOverdueBoletos();
+
+    const updatedTicket = await prisma.ticket.findUnique({ where: { id: ticket.id } });
+    expect(expired).toEqual(0);
+    expect(updatedTicket.status).toEqual(TicketStatus.RESERVED);
+  });
+});
@@ -0,0 +1,41 @@
+import refundsService from "@/services/refunds-service";
+import dayjs from "dayjs";
+
+const policy = { fullRefundDaysBeforeEvent: 7, partialRefundPercentage: 50 };
+const now = dayjs("2023-03-01T12:00:00Z");
+
+describe("calculateRefundAmount", () => {
+  it("should refund everything when cancelling before the full refund deadline", () => {
+    const startsAt = now.add(10, "days").toDate();
+
+    expect(refundsService.calculateRefundAmount(1000, startsAt, policy, now.toDate())).toBe(1000);
+  });
+
+  it("should refund everything exactly at the full refund deadline", () => {
+    const startsAt = now.add(7, "days").toDate();
+
+    expect(refundsService.calculateRefundAmount(1000, startsAt, policy, now.toDate())).toBe(1000);
+  });
+
+  it("should refund the partial percentage, rounded down, after the deadline", () => {
+    const startsAt = now.add(3, "days").toDate();
+
+    expect(refundsService.calculateRefundAmount(999, startsAt, policy, now.toDate())).toBe(499);
+  });
+
+  it("should refund nothing once the event has started", () => {
+    const startsAt = now.subtract(1, "hour").toDate();
+
+    expect(refundsService.calculateRefundAmount(1000, startsAt, policy, now.toDate())).toBe(0);
+  });
+});
+
+describe("paidAmountOf", () => {
+  it("should return the item total when the order had no discount", () => {
+    expect(refundsService.paidAmountOf(300, 1000, 0)).toBe(300);
+  });
+
+  it("should take the item share of the order discount", () => {
+    expect(refundsService.paidAmountOf(300, 1000, 100)).toBe(270);
+  });
+});
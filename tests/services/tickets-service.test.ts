@@ -0,0 +1,106 @@
+import { init } from "@/app";
+import { prisma } from "@/config";
+import ticketService from "@/services/tickets-service";
+import { OrderStatus, PaymentStatus, TicketStatus } from "@prisma/client";
+import dayjs from "dayjs";
+import {
+  createBoletoPayment,
+  createEnrollmentWithAddress,
+  createEvent,
+  createOrderPayment,
+  createPixPayment,
+  createTicket,
+  createTicketOrder,
+  createTicketType,
+} from "../factories";
+import { cleanDb } from "../helpers";
+
+beforeAll(async () => {
+  await init();
+});
+
+beforeEach(async () => {
+  await cleanDb();
+  await createEvent();
+});
+
+async function createReservedTicket(reservedUntil: Date) {
+  const enrollment = await createEnrollmentWithAddress();
+  const ticketType = await createTicketType();
+  const ticket = await createTicket(enrollment.id, ticketType.id, TicketStatus.RESERVED);
+
+  return prisma.ticket.update({ where: { id: ticket.id }, data: { reservedUntil } });
+}
+
+describe("expireStaleReservations", () => {
+  it("should expire reservations past their deadline along with the orders holding them", async () => {
+    const ticket = await createReservedTicket(dayjs().subtract(1, "minute").toDate());
+    const order = await createTicketOrder(ticket.id);
+    await createOrderPayment(order.id, PaymentStatus.FAILED);
+
+    const expired = await ticketService.expireStaleReservations();
+
+    const updatedTicket = await prisma.ticket.findUnique({ where: { id: ticket.id } });
+    const updatedOrder = await prisma.order.findUnique({ where: { id: order.id } });
+    expect(expired).toEqual(1);
+    expect(updatedTicket.status).toEqual(TicketStatus.EXPIRED);
+    expect(updatedOrder.status).toEqual(OrderStatus.EXPIRED);
+  });
+
+  it("should keep reservations until their deadline", async () => {
+    const ticket = await createReservedTicket(dayjs().add(1, "minute").toDate());
+
+    const expired = await ticketService.expireStaleReservations();
+
+    const updatedTicket = await prisma.ticket.findUnique({ where: { id: ticket.id } });
+    expect(expired).toEqual(0);
+    expect(updatedTicket.status).toEqual(TicketStatus.RESERVED);
+  });
+
+  it("should keep reservations with a boleto or PIX charge awaiting payment", async () => {
+    const ticket = await createReservedTicket(dayjs().subtract(1, "minute").toDate());
+    const order = await createTicketOrder(ticket.id);
+    await createBoletoPayment(order.id, dayjs().add(1, "day").toDate());
+
+    const expired = await ticketService.expireStaleReservations();
+
+    const updatedTicket = await prisma.ticket.findUnique({ where: { id: ticket.id } });
+    const updatedOrder = await prisma.order.findUnique({ where: { id: order.id } });
+    expect(expired).toEqual(0);
+    expect(updatedTicket.status).toEqual(TicketStatus.RESERVED);
+    expect(updatedOrder.status).toEqual(OrderStatus.PENDING);
+  });
+
+  it("should expire reservations of an abandoned PIX charge and give their stock back", async () => {
+    const event = await prisma.event.findFirst();
+    const enrollment = await createEnrollmentWithAddress();
+    const ticketType = await prisma.ticketType.create({
+      data: { name: "Limited", price: 300, isRemote: false, includesHotel: false, stock: 1, eventId: event.id },
+    });
+    const ticket = await createTicket(enrollment.id, ticketType.id, TicketStatus.RESERVED);
+    await prisma.ticket.update({ where: { id: ticket.id }, data: { reservedUntil: dayjs().subtract(1, "hour").toDate() } });
+    const order = await createTicketOrder(ticket.id);
+    const payment = await createPixPayment(order.id, dayjs().subtract(30, "minutes").toDate());
+
+    const expired = await ticketService.expireStaleReservations();
+
+    const updatedTicket = await prisma.ticket.findUnique({ where: { id: ticket.id } });
+    const updatedPayment = await prisma.payment.findUnique({ where: { id: payment.id } });
+    const [availability] = await ticketService.getTicketTypes(event.id);
+    expect(expired).toEqual(1);
+    expect(updatedPayment.status).toEqual(PaymentStatus.EXPIRED);
+    expect(updatedTicket.status).toEqual(TicketStatus.EXPIRED);
+    expect(availability.remainingStock).toEqual(1);
+  });
+
+  it("should leave paid tickets alone", async () => {
+    const enrollment = await createEnrollmentWithAddress();
+    const ticketType = await createTicketType();
+    const ticket = await createTicket(enrollment.id, ticketType.id, TicketStatus.PAID);
+    await prisma.ticket.update({ where: { id: ticket.id }, data: { reservedUntil: dayjs().subtract(1, "day").toDate() } });
+
+    const expired = await ticketService.expireStaleReservations();
+
+    expect(expired).toEqual(0);
+  });
+});
@@ -2,6 +2,7 @@ import { init } from "@/app";
 import { prisma } from "@/config";
 import userService, { duplicatedEmailError } from "@/services/users-service";
 import faker from "@faker-js/faker";
+import { setMailTransport } from "@/utils/mailer";
 import bcrypt from "bcrypt";
 import { createUser as createUserSeed, createEvent as createEventSeed } from "../factories";
 import { cleanDb } from "../helpers";
@@ -9,6 +10,7 @@ import { cleanDb } from "../helpers";
 beforeAll(async () => {
   await init();
   await cleanDb();
+  setMailTransport({ send: async () => undefined });
 });
 
 describe("createUser", () => {
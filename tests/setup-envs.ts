@@ -1,3 +1,6 @@
 import { loadEnv } from "@/config";
 
 loadEnv();
+
+// Suites send many requests from the same address; rate limiting is enabled explicitly where it is tested
+process.env.RATE_LIMIT_ENABLED = "false";